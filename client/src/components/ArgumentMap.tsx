@@ -0,0 +1,131 @@
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { AlertTriangle, CheckCircle2 } from "lucide-react";
+
+interface ArgumentMapNode {
+  id: number;
+  nodeKey: string;
+  nodeType: "research_question" | "hypothesis" | "claim" | "evidence" | "counterargument";
+  content: string;
+  parentKey: string | null;
+  citationKeys: string[] | null;
+  sectionTitle: string | null;
+}
+
+interface ArgumentMapProps {
+  nodes: ArgumentMapNode[];
+}
+
+const ROOT_LABELS: Record<string, string> = {
+  research_question: "Research Question",
+  hypothesis: "Hypothesis",
+};
+
+function CitationBadges({ keys }: { keys: string[] | null }) {
+  if (!keys || keys.length === 0) return null;
+  return (
+    <span className="inline-flex flex-wrap gap-1 ml-2">
+      {keys.map(key => (
+        <Badge key={key} variant="outline" className="font-mono text-xs">
+          {key}
+        </Badge>
+      ))}
+    </span>
+  );
+}
+
+export default function ArgumentMap({ nodes }: ArgumentMapProps) {
+  if (nodes.length === 0) {
+    return <p className="text-sm text-muted-foreground">No argument map was recorded for this document.</p>;
+  }
+
+  const childrenOf = (key: string, type: ArgumentMapNode["nodeType"]) =>
+    nodes.filter(n => n.parentKey === key && n.nodeType === type);
+
+  // A claim counts as supported when it, or evidence attached to it, cites a source.
+  const isSupported = (claim: ArgumentMapNode) =>
+    (claim.citationKeys?.length ?? 0) > 0 ||
+    childrenOf(claim.nodeKey, "evidence").some(e => (e.citationKeys?.length ?? 0) > 0);
+
+  const roots = nodes.filter(n => n.nodeType === "research_question" || n.nodeType === "hypothesis");
+  const rootKeys = new Set(roots.map(n => n.nodeKey));
+  const claims = nodes.filter(n => n.nodeType === "claim");
+  const unanchoredClaims = claims.filter(c => !c.parentKey || !rootKeys.has(c.parentKey));
+  const supportedCount = claims.filter(isSupported).length;
+
+  const renderClaim = (claim: ArgumentMapNode) => {
+    const supported = isSupported(claim);
+    return (
+      <div key={claim.id} className="p-3 bg-muted/30 rounded-lg space-y-2">
+        <div className="flex items-start justify-between gap-3">
+          <p className="text-sm">
+            <span className="font-mono text-xs text-muted-foreground mr-2">{claim.nodeKey}</span>
+            {claim.content}
+            <CitationBadges keys={claim.citationKeys} />
+          </p>
+          {supported ? (
+            <Badge variant="secondary" className="shrink-0">
+              <CheckCircle2 className="h-3 w-3 mr-1" />
+              Supported
+            </Badge>
+          ) : (
+            <Badge variant="destructive" className="shrink-0">
+              <AlertTriangle className="h-3 w-3 mr-1" />
+              Unsupported
+            </Badge>
+          )}
+        </div>
+        {claim.sectionTitle && (
+          <p className="text-xs text-muted-foreground">Argued in: {claim.sectionTitle}</p>
+        )}
+        {childrenOf(claim.nodeKey, "evidence").map(evidence => (
+          <p key={evidence.id} className="text-sm text-muted-foreground pl-4 border-l-2 border-green-500/50">
+            <span className="font-mono text-xs mr-2">{evidence.nodeKey}</span>
+            {evidence.content}
+            <CitationBadges keys={evidence.citationKeys} />
+          </p>
+        ))}
+        {childrenOf(claim.nodeKey, "counterargument").map(counter => (
+          <p key={counter.id} className="text-sm text-muted-foreground pl-4 border-l-2 border-amber-500/50">
+            <span className="font-mono text-xs mr-2">{counter.nodeKey}</span>
+            Counterargument: {counter.content}
+            <CitationBadges keys={counter.citationKeys} />
+          </p>
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        {supportedCount} of {claims.length} claims are backed by cited evidence.
+      </p>
+
+      {roots.map(root => (
+        <Card key={root.id}>
+          <CardContent className="pt-6 space-y-3">
+            <div>
+              <Badge variant="outline" className="mb-2">
+                {root.nodeKey} • {ROOT_LABELS[root.nodeType]}
+              </Badge>
+              <p className="font-medium">{root.content}</p>
+            </div>
+            {childrenOf(root.nodeKey, "claim").map(renderClaim)}
+          </CardContent>
+        </Card>
+      ))}
+
+      {unanchoredClaims.length > 0 && (
+        <Card>
+          <CardContent className="pt-6 space-y-3">
+            <p className="font-medium">
+              {roots.length > 0 ? "Claims not linked to a research question" : "Claims"}
+            </p>
+            {unanchoredClaims.map(renderClaim)}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
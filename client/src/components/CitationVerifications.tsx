@@ -0,0 +1,78 @@
+import { Badge } from "@/components/ui/badge";
+import { CheckCircle2, HelpCircle, XCircle } from "lucide-react";
+
+type CitationVerdict = "supported" | "unsupported" | "unclear";
+
+interface CitationVerification {
+  id: number;
+  citationKey: string;
+  sectionTitle: string | null;
+  claim: string;
+  verdict: CitationVerdict;
+  rationale: string | null;
+  evidence: string | null;
+  evidencePage: number | null;
+}
+
+interface CitationVerificationsProps {
+  verifications: CitationVerification[];
+}
+
+const VERDICTS: Record<CitationVerdict, { label: string; icon: typeof CheckCircle2; className: string }> = {
+  supported: { label: "Supported", icon: CheckCircle2, className: "text-green-600" },
+  unsupported: { label: "Unsupported", icon: XCircle, className: "text-destructive" },
+  unclear: { label: "Unclear", icon: HelpCircle, className: "text-amber-600" },
+};
+
+/** Per-citation verdicts from checking each citing sentence against the source's abstract or full text. */
+export default function CitationVerifications({ verifications }: CitationVerificationsProps) {
+  if (verifications.length === 0) {
+    return <p className="text-xs text-muted-foreground mt-2">Not cited in the text, or not verified.</p>;
+  }
+
+  const counts = verifications.reduce<Record<CitationVerdict, number>>(
+    (acc, v) => ({ ...acc, [v.verdict]: acc[v.verdict] + 1 }),
+    { supported: 0, unsupported: 0, unclear: 0 }
+  );
+
+  return (
+    <details className="mt-2">
+      <summary className="cursor-pointer text-sm flex flex-wrap items-center gap-2">
+        {(Object.keys(VERDICTS) as CitationVerdict[])
+          .filter(verdict => counts[verdict] > 0)
+          .map(verdict => {
+            const { label, icon: Icon, className } = VERDICTS[verdict];
+            return (
+              <Badge key={verdict} variant="outline">
+                <Icon className={`h-3 w-3 mr-1 ${className}`} />
+                {counts[verdict]} {label}
+              </Badge>
+            );
+          })}
+      </summary>
+      <ul className="mt-2 space-y-2">
+        {verifications.map(v => {
+          const { label, icon: Icon, className } = VERDICTS[v.verdict];
+          return (
+            <li key={v.id} className="text-sm border-l-2 pl-3">
+              <p>
+                <Icon className={`inline h-3 w-3 mr-1 ${className}`} aria-label={label} />
+                {v.claim}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                {v.sectionTitle && `${v.sectionTitle} • `}
+                {v.rationale || label}
+              </p>
+              {(v.evidence || v.evidencePage !== null) && (
+                <blockquote className="text-xs italic text-muted-foreground mt-1">
+                  {v.evidence && `“${v.evidence}” `}
+                  {v.evidencePage !== null && <span className="not-italic">(p. {v.evidencePage})</span>}
+                </blockquote>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </details>
+  );
+}
@@ -8,12 +8,17 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { trpc } from "@/lib/trpc";
 import { FileText, Download, Edit, Loader2, Award, BarChart3, Clock, CheckCircle2, XCircle, ExternalLink } from "lucide-react";
 import { toast } from "sonner";
+import { CITATION_STYLES } from "@shared/const";
 import { Streamdown } from "streamdown";
 import { Link, useLocation } from "wouter";
 import { useAuth } from "@/_core/hooks/useAuth";
+import ArgumentMap from "@/components/ArgumentMap";
+import LiteratureMatrix from "@/components/LiteratureMatrix";
+import ReferenceManager from "@/components/ReferenceManager";
 
 interface DocumentPreviewProps {
   jobId?: number;
@@ -79,7 +84,25 @@ export default function DocumentPreview({ jobId, documentId }: DocumentPreviewPr
     },
   });
 
+  const changeStyleMutation = trpc.documents.changeCitationStyle.useMutation({
+    onSuccess: ({ documentId: newDocumentId }, { citationStyle }) => {
+      toast.success(`Saved a ${citationStyle} version`);
+      setLocation(`/doc/${newDocumentId}`);
+    },
+    onError: (error) => {
+      toast.error(`Failed to change citation style: ${error.message}`);
+    },
+  });
+
   const exportMutation = trpc.documents.export.useMutation({
+    onSuccess: (result) => {
+      // Binary exports are stored and linked on the document
+      if ("url" in result) (documentId ? byIdQuery : byJobQuery).refetch();
+    },
+    onError: (error) => toast.error(`Export failed: ${error.message}`),
+  });
+
+  const exportMatrixMutation = trpc.documents.exportLiteratureMatrix.useMutation({
     onError: (error) => toast.error(`Export failed: ${error.message}`),
   });
 
@@ -95,6 +118,21 @@ export default function DocumentPreview({ jobId, documentId }: DocumentPreviewPr
     URL.revokeObjectURL(url);
   };
 
+  const handleExport = async (format: "markdown" | "latex" | "docx" | "pdf") => {
+    if (!doc) return;
+    const result = await exportMutation.mutateAsync({ documentId: doc.id, format });
+    if ("url" in result) {
+      const a = window.document.createElement("a");
+      a.href = result.url;
+      a.download = result.filename;
+      window.document.body.appendChild(a);
+      a.click();
+      a.remove();
+    } else {
+      downloadTextFile(result.filename, result.mimeType, result.content);
+    }
+  };
+
   const handleRevisionSubmit = () => {
     if (!doc || !revisionInstructions.trim()) {
       toast.error("Please provide revision instructions");
@@ -169,6 +207,24 @@ export default function DocumentPreview({ jobId, documentId }: DocumentPreviewPr
                   View Latest
                 </Button>
               ) : null}
+              <Select
+                value={doc.citationStyle}
+                disabled={changeStyleMutation.isPending}
+                onValueChange={(value) =>
+                  changeStyleMutation.mutate({ documentId: doc.id, citationStyle: value as (typeof CITATION_STYLES)[number] })
+                }
+              >
+                <SelectTrigger className="w-36" title="Citation style (saves a new version)">
+                  {changeStyleMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <SelectValue />}
+                </SelectTrigger>
+                <SelectContent>
+                  {CITATION_STYLES.map((style) => (
+                    <SelectItem key={style} value={style}>
+                      {style}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
               <Dialog open={revisionDialogOpen} onOpenChange={setRevisionDialogOpen}>
                 <DialogTrigger asChild>
                   <Button variant="outline">
@@ -391,11 +447,11 @@ export default function DocumentPreview({ jobId, documentId }: DocumentPreviewPr
           <div className="flex items-center justify-between">
             <CardTitle>Document Preview</CardTitle>
             <div className="flex items-center gap-2">
-              <Button variant="outline" size="sm" onClick={() => toast.info("Download feature coming soon")}>
+              <Button variant="outline" size="sm" disabled={exportMutation.isPending} onClick={() => handleExport("docx")}>
                 <Download className="h-4 w-4 mr-2" />
                 DOCX
               </Button>
-              <Button variant="outline" size="sm" onClick={() => toast.info("Download feature coming soon")}>
+              <Button variant="outline" size="sm" disabled={exportMutation.isPending} onClick={() => handleExport("pdf")}>
                 <Download className="h-4 w-4 mr-2" />
                 PDF
               </Button>
@@ -403,13 +459,7 @@ export default function DocumentPreview({ jobId, documentId }: DocumentPreviewPr
                 variant="outline"
                 size="sm"
                 disabled={exportMutation.isPending}
-                onClick={async () => {
-                  const result = await exportMutation.mutateAsync({
-                    documentId: doc.id,
-                    format: "markdown",
-                  });
-                  downloadTextFile(result.filename, result.mimeType, result.content);
-                }}
+                onClick={() => handleExport("markdown")}
               >
                 <Download className="h-4 w-4 mr-2" />
                 Markdown
@@ -418,13 +468,7 @@ export default function DocumentPreview({ jobId, documentId }: DocumentPreviewPr
                 variant="outline"
                 size="sm"
                 disabled={exportMutation.isPending}
-                onClick={async () => {
-                  const result = await exportMutation.mutateAsync({
-                    documentId: doc.id,
-                    format: "latex",
-                  });
-                  downloadTextFile(result.filename, result.mimeType, result.content);
-                }}
+                onClick={() => handleExport("latex")}
               >
                 <Download className="h-4 w-4 mr-2" />
                 LaTeX
@@ -438,6 +482,8 @@ export default function DocumentPreview({ jobId, documentId }: DocumentPreviewPr
               <TabsTrigger value="content">Content</TabsTrigger>
               <TabsTrigger value="authors">Authors</TabsTrigger>
               <TabsTrigger value="citations">Citations</TabsTrigger>
+              <TabsTrigger value="argument">Argument Map</TabsTrigger>
+              <TabsTrigger value="matrix">Literature Matrix</TabsTrigger>
               <TabsTrigger value="metadata">Metadata</TabsTrigger>
             </TabsList>
 
@@ -480,28 +526,26 @@ export default function DocumentPreview({ jobId, documentId }: DocumentPreviewPr
             </TabsContent>
 
             <TabsContent value="citations" className="mt-6">
-              <div className="space-y-3">
-                {doc.citations?.map((citation, index) => (
-                  <div key={citation.id} className="p-4 bg-muted/30 rounded-lg">
-                    <div className="flex items-start gap-3">
-                      <span className="text-sm font-medium text-muted-foreground">
-                        [{index + 1}]
-                      </span>
-                      <div className="flex-1">
-                        <p className="font-medium">{citation.title}</p>
-                        <p className="text-sm text-muted-foreground mt-1">
-                          {citation.authorsText}
-                        </p>
-                        <p className="text-sm text-muted-foreground">
-                          {citation.journal && `${citation.journal}, `}
-                          {citation.year}
-                          {citation.doi && ` • DOI: ${citation.doi}`}
-                        </p>
-                      </div>
-                    </div>
-                  </div>
-                ))}
-              </div>
+              <ReferenceManager
+                documentId={doc.id}
+                citations={doc.citations ?? []}
+                citationVerifications={doc.citationVerifications ?? []}
+              />
+            </TabsContent>
+
+            <TabsContent value="argument" className="mt-6">
+              <ArgumentMap nodes={doc.argumentNodes ?? []} />
+            </TabsContent>
+
+            <TabsContent value="matrix" className="mt-6">
+              <LiteratureMatrix
+                rows={doc.literatureMatrix ?? []}
+                exporting={exportMatrixMutation.isPending}
+                onExport={async () => {
+                  const result = await exportMatrixMutation.mutateAsync({ documentId: doc.id });
+                  downloadTextFile(result.filename, result.mimeType, result.content);
+                }}
+              />
             </TabsContent>
 
             <TabsContent value="metadata" className="mt-6">
@@ -526,12 +570,40 @@ export default function DocumentPreview({ jobId, documentId }: DocumentPreviewPr
                     ))}
                   </div>
                 </div>
+                {doc.docxUrl || doc.pdfUrl ? (
+                  <div>
+                    <Label className="text-muted-foreground">Exported Files</Label>
+                    <p className="font-medium flex gap-4">
+                      {doc.docxUrl ? (
+                        <a href={doc.docxUrl} className="underline" target="_blank" rel="noreferrer">
+                          Word document
+                        </a>
+                      ) : null}
+                      {doc.pdfUrl ? (
+                        <a href={doc.pdfUrl} className="underline" target="_blank" rel="noreferrer">
+                          PDF
+                        </a>
+                      ) : null}
+                    </p>
+                  </div>
+                ) : null}
                 <div>
                   <Label className="text-muted-foreground">Created</Label>
                   <p className="font-medium">
                     {new Date(doc.createdAt).toLocaleDateString()}
                   </p>
                 </div>
+                <div>
+                  <Label className="text-muted-foreground">LLM Usage</Label>
+                  <p className="font-medium">
+                    {doc.usage.llmCalls.toLocaleString()} calls •{" "}
+                    {doc.usage.promptTokens.toLocaleString()} prompt /{" "}
+                    {doc.usage.completionTokens.toLocaleString()} completion tokens
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    Estimated cost: ${doc.usage.estimatedCostUsd.toFixed(4)}
+                  </p>
+                </div>
               </div>
             </TabsContent>
           </Tabs>
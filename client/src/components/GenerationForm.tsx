@@ -7,9 +7,11 @@ import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
 import { Plus, Trash2, ChevronLeft, ChevronRight, Loader2 } from "lucide-react";
 import { trpc } from "@/lib/trpc";
 import { useLocation } from "wouter";
+import { CITATION_STYLES, DOCUMENT_TYPES, MAX_FULL_TEXT_UPLOAD_BYTES, MAX_FULL_TEXT_UPLOADS, MAX_TARGET_WORD_COUNT, type CitationStyle, type DocumentType } from "@shared/const";
 import { toast } from "sonner";
 import {
   saveGenerationRequestForJob,
@@ -25,8 +27,28 @@ interface Author {
   isCorresponding: boolean;
 }
 
+interface ReferenceLibrary {
+  fileName: string;
+  content: string;
+  mode: "merge" | "replace";
+}
+
+interface FullTextUpload {
+  fileName: string;
+  /** Base64-encoded PDF. */
+  data: string;
+}
+
+const readFileAsBase64 = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result).replace(/^data:[^,]*,/, ""));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
 interface FormData {
-  documentType: string;
+  documentType: DocumentType;
   title: string;
   researchDomain: string;
   subdomain: string;
@@ -34,7 +56,7 @@ interface FormData {
   numFigures: number;
   numTables: number;
   numReferences: number;
-  citationStyle: string;
+  citationStyle: CitationStyle;
   targetJournal: string;
   abstractProvided: string;
   keyHypotheses: string[];
@@ -42,28 +64,6 @@ interface FormData {
   authors: Author[];
 }
 
-const DOCUMENT_TYPES = [
-  "journal_article",
-  "conference_paper",
-  "thesis",
-  "dissertation",
-  "research_proposal",
-  "grant_proposal",
-  "technical_report",
-  "book_chapter",
-];
-
-const CITATION_STYLES = [
-  "APA7",
-  "MLA9",
-  "Chicago",
-  "Harvard",
-  "IEEE",
-  "Vancouver",
-  "Nature",
-  "Science",
-];
-
 export default function GenerationForm() {
   const { loading: authLoading, user } = useAuth({ redirectOnUnauthenticated: true });
   const [, setLocation] = useLocation();
@@ -92,10 +92,21 @@ export default function GenerationForm() {
       },
     ],
   });
+  const [referenceLibrary, setReferenceLibrary] = useState<ReferenceLibrary | null>(null);
+  const [fullTexts, setFullTexts] = useState<FullTextUpload[]>([]);
+
+  const previewReferencesMutation = trpc.generation.previewReferences.useMutation({
+    onError: (error) => {
+      toast.error(`Failed to read reference library: ${error.message}`);
+    },
+  });
+  const referencePreview = referenceLibrary ? previewReferencesMutation.data : undefined;
 
   const createJobMutation = trpc.generation.create.useMutation({
     onSuccess: (data, variables) => {
-      saveGenerationRequestForJob(data.jobId, variables as GenerationCreateInput);
+      // Uploaded PDFs are too large to keep for retries.
+      const { fullTexts: _fullTexts, ...request } = variables;
+      saveGenerationRequestForJob(data.jobId, request as GenerationCreateInput);
       toast.success("Generation job created successfully!");
       setLocation(`/generation/${data.jobId}`);
     },
@@ -150,6 +161,33 @@ export default function GenerationForm() {
     }));
   };
 
+  const handleReferenceFile = async (file: File | undefined) => {
+    if (!file) return;
+    const content = await file.text();
+    setReferenceLibrary({ fileName: file.name, content, mode: referenceLibrary?.mode ?? "merge" });
+    previewReferencesMutation.mutate({ fileName: file.name, content });
+  };
+
+  const clearReferenceLibrary = () => {
+    setReferenceLibrary(null);
+    previewReferencesMutation.reset();
+  };
+
+  const handleFullTextFiles = async (files: FileList | null) => {
+    const selected = Array.from(files ?? []);
+    if (fullTexts.length + selected.length > MAX_FULL_TEXT_UPLOADS) {
+      toast.error(`Upload at most ${MAX_FULL_TEXT_UPLOADS} PDFs`);
+      return;
+    }
+    const tooLarge = selected.find(file => file.size > MAX_FULL_TEXT_UPLOAD_BYTES);
+    if (tooLarge) {
+      toast.error(`${tooLarge.name} is larger than ${Math.round(MAX_FULL_TEXT_UPLOAD_BYTES / (1024 * 1024))} MB`);
+      return;
+    }
+    const uploads = await Promise.all(selected.map(async file => ({ fileName: file.name, data: await readFileAsBase64(file) })));
+    setFullTexts((prev) => [...prev, ...uploads]);
+  };
+
   const handleSubmit = () => {
     // Validate required fields
     if (!formData.title || !formData.researchDomain) {
@@ -162,8 +200,14 @@ export default function GenerationForm() {
       return;
     }
 
-    saveLastGenerationRequest(formData as unknown as GenerationCreateInput);
-    createJobMutation.mutate(formData);
+    if (referenceLibrary && referencePreview && referencePreview.references.length === 0) {
+      toast.error("The uploaded reference library has no usable entries");
+      return;
+    }
+
+    const request = referenceLibrary ? { ...formData, referenceLibrary } : formData;
+    saveLastGenerationRequest(request as unknown as GenerationCreateInput);
+    createJobMutation.mutate(fullTexts.length > 0 ? { ...request, fullTexts } : request);
   };
 
   const canProceed = () => {
@@ -171,7 +215,7 @@ export default function GenerationForm() {
       case 1:
         return formData.documentType && formData.title && formData.researchDomain;
       case 2:
-        return formData.targetWordCount > 0 && formData.citationStyle;
+        return formData.targetWordCount > 0 && formData.targetWordCount <= MAX_TARGET_WORD_COUNT && formData.citationStyle;
       case 3:
         return formData.authors.length > 0 && formData.authors[0].name;
       case 4:
@@ -261,6 +305,8 @@ export default function GenerationForm() {
                   <Input
                     id="targetWordCount"
                     type="number"
+                    min={1}
+                    max={MAX_TARGET_WORD_COUNT}
                     value={formData.targetWordCount}
                     onChange={(e) => updateField("targetWordCount", parseInt(e.target.value) || 0)}
                   />
@@ -461,6 +507,130 @@ export default function GenerationForm() {
                   }}
                 />
               </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="referenceLibrary">Reference Library (Optional)</Label>
+                <p className="text-sm text-muted-foreground">
+                  Upload a BibTeX, RIS or CSL-JSON export; its entries are cited alongside (or instead of) the literature search.
+                </p>
+                {referenceLibrary ? (
+                  <Card>
+                    <CardContent className="pt-6 space-y-4">
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium">{referenceLibrary.fileName}</span>
+                          {referencePreview && (
+                            <Badge variant="outline" className="uppercase">{referencePreview.format}</Badge>
+                          )}
+                        </div>
+                        <Button type="button" variant="ghost" size="sm" onClick={clearReferenceLibrary}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+
+                      {previewReferencesMutation.isPending && (
+                        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                          <Loader2 className="h-4 w-4 animate-spin" />
+                          Reading references...
+                        </div>
+                      )}
+
+                      {referencePreview && (
+                        <>
+                          <p className="text-sm">
+                            {referencePreview.references.length} references found
+                            {referencePreview.duplicates > 0 && `, ${referencePreview.duplicates} duplicates removed`}
+                          </p>
+                          {referencePreview.warnings.length > 0 && (
+                            <ul className="text-sm text-amber-600 list-disc pl-5 space-y-1">
+                              {referencePreview.warnings.map((warning, index) => (
+                                <li key={index}>{warning}</li>
+                              ))}
+                            </ul>
+                          )}
+                          {referencePreview.references.length > 0 && (
+                            <ul className="max-h-64 overflow-y-auto divide-y rounded-md border text-sm">
+                              {referencePreview.references.map((reference) => (
+                                <li key={reference.id} className="px-3 py-2">
+                                  <div className="font-medium">{reference.title}</div>
+                                  <div className="text-muted-foreground">
+                                    {[
+                                      reference.authors.join(", "),
+                                      reference.year,
+                                      reference.venue,
+                                      reference.doi,
+                                    ].filter(Boolean).join(" · ")}
+                                  </div>
+                                </li>
+                              ))}
+                            </ul>
+                          )}
+                        </>
+                      )}
+
+                      <div className="space-y-2">
+                        <Label htmlFor="referenceMode">Use These References</Label>
+                        <Select
+                          value={referenceLibrary.mode}
+                          onValueChange={(value) =>
+                            setReferenceLibrary((prev) => prev && { ...prev, mode: value as ReferenceLibrary["mode"] })
+                          }
+                        >
+                          <SelectTrigger id="referenceMode">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="merge">Merge with literature search results</SelectItem>
+                            <SelectItem value="replace">Replace literature search</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    </CardContent>
+                  </Card>
+                ) : (
+                  <Input
+                    id="referenceLibrary"
+                    type="file"
+                    accept=".bib,.bibtex,.ris,.json"
+                    onChange={(e) => handleReferenceFile(e.target.files?.[0])}
+                  />
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="fullTexts">Full-Text PDFs (Optional)</Label>
+                <p className="text-sm text-muted-foreground">
+                  PDFs of papers you want cited, e.g. from your reference library. Together with open-access PDFs found
+                  during the search, their text grounds the drafting and citation checks. Up to {MAX_FULL_TEXT_UPLOADS} files.
+                </p>
+                {fullTexts.length > 0 && (
+                  <ul className="divide-y rounded-md border text-sm">
+                    {fullTexts.map((upload, index) => (
+                      <li key={`${upload.fileName}-${index}`} className="flex items-center justify-between px-3 py-1">
+                        <span className="font-medium">{upload.fileName}</span>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setFullTexts((prev) => prev.filter((_, i) => i !== index))}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                {fullTexts.length < MAX_FULL_TEXT_UPLOADS && (
+                  <Input
+                    id="fullTexts"
+                    type="file"
+                    accept=".pdf,application/pdf"
+                    multiple
+                    value=""
+                    onChange={(e) => handleFullTextFiles(e.target.files)}
+                  />
+                )}
+              </div>
             </div>
           )}
 
@@ -489,7 +659,7 @@ export default function GenerationForm() {
               <Button
                 type="button"
                 onClick={handleSubmit}
-                disabled={!canProceed() || createJobMutation.isPending}
+                disabled={!canProceed() || createJobMutation.isPending || previewReferencesMutation.isPending}
               >
                 {createJobMutation.isPending ? "Creating..." : "Generate Document"}
               </Button>
@@ -1,4 +1,4 @@
-import { useEffect } from "react";
+import { useEffect, useState } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
@@ -17,11 +17,22 @@ interface GenerationProgressProps {
   jobId: number;
 }
 
+type DraftPart = { subsection: string | null; index: number; text: string };
+
+type LiveStatus = {
+  status: "queued" | "processing" | "completed" | "failed";
+  currentPhase: string | null;
+  progressPercentage: number;
+  errorMessage: string | null;
+};
+
 const PHASES = [
   "Literature Review",
+  "Full-Text Retrieval",
   "Novelty Assessment",
   "Argument Architecture",
   "Section Writing",
+  "Citation Verification",
   "Figure Generation",
   "Internal Review",
   "Final Assembly",
@@ -31,17 +42,78 @@ export default function GenerationProgress({ jobId }: GenerationProgressProps) {
   const { loading: authLoading, user } = useAuth({ redirectOnUnauthenticated: true });
   const [, setLocation] = useLocation();
   
-  const { data: job, refetch } = trpc.generation.getStatus.useQuery(
+  const { data: jobRow, refetch } = trpc.generation.getStatus.useQuery({ jobId });
+
+  // Live state pushed by the server; overrides the row fetched above.
+  const [live, setLive] = useState<LiveStatus | null>(null);
+  const [phases, setPhases] = useState<string[]>(PHASES);
+  const [drafts, setDrafts] = useState<Array<{ section: string; parts: DraftPart[] }>>([]);
+  const [completedSections, setCompletedSections] = useState<string[]>([]);
+
+  const addDraft = (section: string, part: DraftPart) => {
+    setDrafts(prev => {
+      const existing = prev.find(d => d.section === section);
+      if (!existing) return [...prev, { section, parts: [part] }];
+      const parts = [...existing.parts.filter(p => p.index !== part.index), part].sort((a, b) => a.index - b.index);
+      return prev.map(d => (d.section === section ? { section, parts } : d));
+    });
+  };
+
+  const progressStream = trpc.generation.onProgress.useSubscription(
     { jobId },
     {
-      refetchInterval: (query) => {
-        const status = query.state.data?.status;
-        // Poll every 2 seconds while processing, stop when completed or failed
-        return status === "processing" || status === "queued" ? 2000 : false;
+      enabled: !!user,
+      onData: (event) => {
+        switch (event.type) {
+          case "snapshot":
+            setLive({
+              status: event.status,
+              currentPhase: event.currentPhase,
+              progressPercentage: event.progressPercentage,
+              errorMessage: event.errorMessage,
+            });
+            setPhases(event.phases);
+            setDrafts([]);
+            setCompletedSections([]);
+            event.sections.forEach(({ section, subsection, index, text }) => addDraft(section, { subsection, index, text }));
+            break;
+          case "progress":
+            setLive(prev => ({
+              status: "processing",
+              currentPhase: event.phase,
+              progressPercentage: event.progressPercentage,
+              errorMessage: prev?.errorMessage ?? null,
+            }));
+            break;
+          case "section_text":
+            addDraft(event.section, { subsection: event.subsection, index: event.index, text: event.text });
+            break;
+          case "section_completed":
+            setCompletedSections(prev => [...prev, event.section]);
+            break;
+          case "status":
+            setLive(prev => ({
+              status: event.status,
+              currentPhase: prev?.currentPhase ?? null,
+              progressPercentage: event.status === "completed" ? 100 : prev?.progressPercentage ?? 0,
+              errorMessage: event.errorMessage,
+            }));
+            refetch();
+            break;
+        }
       },
     }
   );
 
+  const job = jobRow ? { ...jobRow, ...(live ?? {}) } : undefined;
+
+  // A resumed job streams again from a fresh snapshot.
+  const restartStream = () => {
+    setLive(null);
+    refetch();
+    progressStream.reset();
+  };
+
   const cancelMutation = trpc.generation.cancel.useMutation({
     onSuccess: () => {
       toast.success("Generation cancelled");
@@ -52,6 +124,20 @@ export default function GenerationProgress({ jobId }: GenerationProgressProps) {
     },
   });
 
+  const resumeMutation = trpc.generation.resume.useMutation({
+    onSuccess: (data) => {
+      toast.success(
+        data.completedPhases.length > 0
+          ? `Resuming after ${data.completedPhases[data.completedPhases.length - 1]}`
+          : "Retry started"
+      );
+      restartStream();
+    },
+    onError: (error) => {
+      toast.error(`Failed to resume: ${error.message}`);
+    },
+  });
+
   const retryMutation = trpc.generation.create.useMutation({
     onSuccess: (data, variables) => {
       saveGenerationRequestForJob(data.jobId, variables as GenerationCreateInput);
@@ -93,8 +179,8 @@ export default function GenerationProgress({ jobId }: GenerationProgressProps) {
   const getPhaseStatus = (phaseName: string) => {
     if (!job.currentPhase) return "pending";
     
-    const currentIndex = PHASES.indexOf(job.currentPhase);
-    const phaseIndex = PHASES.indexOf(phaseName);
+    const currentIndex = phases.indexOf(job.currentPhase);
+    const phaseIndex = phases.indexOf(phaseName);
     
     if (job.status === "completed") return "completed";
     if (job.status === "failed") {
@@ -184,7 +270,7 @@ export default function GenerationProgress({ jobId }: GenerationProgressProps) {
 
           {/* Phase List */}
           <div className="space-y-3">
-            {PHASES.map((phase) => {
+            {phases.map((phase) => {
               const status = getPhaseStatus(phase);
               return (
                 <div
@@ -214,6 +300,33 @@ export default function GenerationProgress({ jobId }: GenerationProgressProps) {
             })}
           </div>
 
+          {/* Live Draft */}
+          {drafts.length > 0 && job.status !== "completed" && (
+            <div className="space-y-3">
+              <p className="font-medium">Live Draft</p>
+              <div className="max-h-[480px] overflow-y-auto space-y-4 rounded-lg border p-4">
+                {drafts.map(({ section, parts }) => (
+                  <div key={section} className="space-y-2">
+                    <div className="flex items-center gap-2">
+                      {completedSections.includes(section) ? (
+                        <CheckCircle2 className="h-4 w-4 text-green-600" />
+                      ) : (
+                        <Loader2 className="h-4 w-4 animate-spin text-primary" />
+                      )}
+                      <p className="font-semibold">{section}</p>
+                    </div>
+                    {parts.map((part) => (
+                      <div key={part.index} className="space-y-1">
+                        {part.subsection && <p className="text-sm font-medium">{part.subsection}</p>}
+                        <p className="text-sm text-muted-foreground whitespace-pre-wrap">{part.text}</p>
+                      </div>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Actions */}
           <div className="flex items-center justify-between pt-4 border-t">
             {job.status === "completed" && (
@@ -236,6 +349,13 @@ export default function GenerationProgress({ jobId }: GenerationProgressProps) {
             {job.status === "failed" && (
               <div className="flex items-center gap-2">
                 <Button
+                  onClick={() => resumeMutation.mutate({ jobId })}
+                  disabled={resumeMutation.isPending}
+                >
+                  {resumeMutation.isPending ? "Resuming..." : "Try Again"}
+                </Button>
+                <Button
+                  variant="outline"
                   onClick={() => {
                     const payload = loadGenerationRequestForJob(jobId);
                     if (!payload) {
@@ -247,7 +367,7 @@ export default function GenerationProgress({ jobId }: GenerationProgressProps) {
                   }}
                   disabled={retryMutation.isPending}
                 >
-                  {retryMutation.isPending ? "Retrying..." : "Try Again"}
+                  {retryMutation.isPending ? "Restarting..." : "Start Over"}
                 </Button>
                 <Button variant="outline" onClick={() => setLocation("/new")}>
                   Edit Parameters
@@ -0,0 +1,80 @@
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Download } from "lucide-react";
+
+interface LiteratureMatrixRow {
+  id: number;
+  citationKey: string;
+  title: string;
+  year: number | null;
+  problem: string;
+  method: string;
+  dataset: string;
+  findings: string;
+  limitations: string;
+}
+
+interface LiteratureMatrixProps {
+  rows: LiteratureMatrixRow[];
+  exporting: boolean;
+  onExport: () => void;
+}
+
+const COLUMNS = [
+  { field: "problem", label: "Problem" },
+  { field: "method", label: "Method" },
+  { field: "dataset", label: "Dataset" },
+  { field: "findings", label: "Findings" },
+  { field: "limitations", label: "Limitations" },
+] as const;
+
+export default function LiteratureMatrix({ rows, exporting, onExport }: LiteratureMatrixProps) {
+  if (rows.length === 0) {
+    return <p className="text-sm text-muted-foreground">No literature matrix was recorded for this document.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground">
+          Summaries extracted from the abstracts of {rows.length} retrieved source{rows.length === 1 ? "" : "s"}.
+        </p>
+        <Button variant="outline" size="sm" disabled={exporting} onClick={onExport}>
+          <Download className="h-4 w-4 mr-2" />
+          Export CSV
+        </Button>
+      </div>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="min-w-48">Source</TableHead>
+            {COLUMNS.map(column => (
+              <TableHead key={column.field} className="min-w-40">
+                {column.label}
+              </TableHead>
+            ))}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.map(row => (
+            <TableRow key={row.id}>
+              <TableCell className="align-top whitespace-normal">
+                <Badge variant="outline" className="font-mono text-xs mb-1">
+                  {row.citationKey}
+                </Badge>
+                <p className="font-medium">{row.title}</p>
+                <p className="text-xs text-muted-foreground">{row.year ?? "n.d."}</p>
+              </TableCell>
+              {COLUMNS.map(column => (
+                <TableCell key={column.field} className="align-top whitespace-normal text-sm">
+                  {row[column.field] || <span className="text-muted-foreground">—</span>}
+                </TableCell>
+              ))}
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
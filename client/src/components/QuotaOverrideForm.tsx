@@ -0,0 +1,150 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { trpc } from "@/lib/trpc";
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+
+type LimitKey = "jobsPerDay" | "wordsPerMonth" | "tokensPerMonth";
+
+const LIMIT_FIELDS: Array<{ key: LimitKey; label: string }> = [
+  { key: "jobsPerDay", label: "Requests per day" },
+  { key: "wordsPerMonth", label: "Words per month" },
+  { key: "tokensPerMonth", label: "Tokens per month" },
+];
+
+const EMPTY_FORM: Record<LimitKey, string> = { jobsPerDay: "", wordsPerMonth: "", tokensPerMonth: "" };
+
+export default function QuotaOverrideForm() {
+  const utils = trpc.useUtils();
+  const [userIdInput, setUserIdInput] = useState("");
+  const [userId, setUserId] = useState<number | null>(null);
+  const [form, setForm] = useState(EMPTY_FORM);
+
+  const { data: quota, error } = trpc.admin.getUserQuota.useQuery(
+    { userId: userId ?? 0 },
+    { enabled: userId !== null, retry: false }
+  );
+
+  // Start from the limits in force: the override, or the role defaults.
+  useEffect(() => {
+    if (!quota) return;
+    setForm({
+      jobsPerDay: quota.limits.jobsPerDay?.toString() ?? "",
+      wordsPerMonth: quota.limits.wordsPerMonth?.toString() ?? "",
+      tokensPerMonth: quota.limits.tokensPerMonth?.toString() ?? "",
+    });
+  }, [quota]);
+
+  const setQuota = trpc.admin.setUserQuota.useMutation({
+    onSuccess: () => {
+      toast.success("Quota updated");
+      utils.admin.getUserQuota.invalidate();
+    },
+    onError: (err) => {
+      toast.error(`Failed to update quota: ${err.message}`);
+    },
+  });
+
+  const clearQuota = trpc.admin.clearUserQuota.useMutation({
+    onSuccess: () => {
+      toast.success("Role defaults restored");
+      utils.admin.getUserQuota.invalidate();
+    },
+    onError: (err) => {
+      toast.error(`Failed to reset quota: ${err.message}`);
+    },
+  });
+
+  const toLimit = (value: string) => (value.trim() === "" ? null : Math.max(0, Math.floor(Number(value))));
+
+  const handleSave = () => {
+    if (userId === null) return;
+    setQuota.mutate({
+      userId,
+      jobsPerDay: toLimit(form.jobsPerDay),
+      wordsPerMonth: toLimit(form.wordsPerMonth),
+      tokensPerMonth: toLimit(form.tokensPerMonth),
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Quota Overrides</CardTitle>
+        <CardDescription>
+          Replace a user's role defaults. Leave a field blank for unlimited; 0 blocks the user.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-end gap-3">
+          <div className="space-y-2">
+            <Label htmlFor="quota-user-id">User ID</Label>
+            <Input
+              id="quota-user-id"
+              type="number"
+              min={1}
+              value={userIdInput}
+              onChange={(e) => setUserIdInput(e.target.value)}
+            />
+          </div>
+          <Button
+            variant="outline"
+            disabled={!userIdInput}
+            onClick={() => {
+              setForm(EMPTY_FORM);
+              setUserId(Number(userIdInput));
+            }}
+          >
+            Load
+          </Button>
+        </div>
+
+        {error && <p className="text-sm text-destructive">{error.message}</p>}
+
+        {quota && (
+          <>
+            <p className="text-sm text-muted-foreground">
+              {quota.user.name ?? quota.user.email ?? `User #${quota.user.id}`} ({quota.user.role}) •{" "}
+              {quota.usage.jobsToday} requests today • {quota.usage.wordsThisMonth.toLocaleString()} words and{" "}
+              {quota.usage.tokensThisMonth.toLocaleString()} tokens this month
+            </p>
+            <div className="grid gap-4 md:grid-cols-3">
+              {LIMIT_FIELDS.map(({ key, label }) => (
+                <div key={key} className="space-y-2">
+                  <Label htmlFor={`quota-${key}`}>{label}</Label>
+                  <Input
+                    id={`quota-${key}`}
+                    type="number"
+                    min={0}
+                    placeholder="Unlimited"
+                    value={form[key]}
+                    onChange={(e) => setForm({ ...form, [key]: e.target.value })}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Role default: {quota.defaults[key] === null ? "unlimited" : quota.defaults[key].toLocaleString()}
+                  </p>
+                </div>
+              ))}
+            </div>
+            <div className="flex gap-2">
+              <Button onClick={handleSave} disabled={setQuota.isPending}>
+                {setQuota.isPending ? "Saving..." : "Save Overrides"}
+              </Button>
+              {quota.hasOverride && (
+                <Button
+                  variant="outline"
+                  disabled={clearQuota.isPending}
+                  onClick={() => userId !== null && clearQuota.mutate({ userId })}
+                >
+                  Use Role Defaults
+                </Button>
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
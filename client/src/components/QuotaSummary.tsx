@@ -0,0 +1,77 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { trpc } from "@/lib/trpc";
+
+interface QuotaRowProps {
+  label: string;
+  used: number;
+  limit: number | null;
+  unit: string;
+  resetsAt: Date;
+}
+
+function QuotaRow({ label, used, limit, unit, resetsAt }: QuotaRowProps) {
+  if (limit === null) {
+    return (
+      <div className="space-y-1">
+        <div className="flex items-center justify-between text-sm">
+          <span className="font-medium">{label}</span>
+          <span className="text-muted-foreground">Unlimited</span>
+        </div>
+      </div>
+    );
+  }
+
+  const remaining = Math.max(0, limit - used);
+  const percentage = limit > 0 ? Math.min(100, (used / limit) * 100) : 100;
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between text-sm">
+        <span className="font-medium">{label}</span>
+        <span className="text-muted-foreground">
+          {remaining.toLocaleString()} of {limit.toLocaleString()} {unit} left
+        </span>
+      </div>
+      <Progress value={percentage} className="h-2" />
+      <p className="text-xs text-muted-foreground">Resets {new Date(resetsAt).toLocaleString()}</p>
+    </div>
+  );
+}
+
+export default function QuotaSummary() {
+  const { data: quota } = trpc.generation.getQuota.useQuery();
+
+  if (!quota) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Usage</CardTitle>
+        <CardDescription>Your remaining generation quota</CardDescription>
+      </CardHeader>
+      <CardContent className="grid gap-6 md:grid-cols-3">
+        <QuotaRow
+          label="Requests today"
+          used={quota.usage.jobsToday}
+          limit={quota.limits.jobsPerDay}
+          unit="requests"
+          resetsAt={quota.dailyResetAt}
+        />
+        <QuotaRow
+          label="Words this month"
+          used={quota.usage.wordsThisMonth}
+          limit={quota.limits.wordsPerMonth}
+          unit="words"
+          resetsAt={quota.monthlyResetAt}
+        />
+        <QuotaRow
+          label="Tokens this month"
+          used={quota.usage.tokensThisMonth}
+          limit={quota.limits.tokensPerMonth}
+          unit="tokens"
+          resetsAt={quota.monthlyResetAt}
+        />
+      </CardContent>
+    </Card>
+  );
+}
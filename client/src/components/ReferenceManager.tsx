@@ -0,0 +1,338 @@
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { trpc } from "@/lib/trpc";
+import { ArrowDown, ArrowUp, Loader2, Pencil, Plus, Search, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import CitationVerifications from "@/components/CitationVerifications";
+
+/** Outcome of resolving each citation's DOI against the registry; unchecked entries show no badge. */
+const METADATA_STATUS: Record<string, { label: string; variant: "secondary" | "destructive" | "outline" }> = {
+  verified: { label: "DOI verified", variant: "secondary" },
+  mismatch: { label: "DOI mismatch", variant: "destructive" },
+  retracted: { label: "Retracted", variant: "destructive" },
+  not_found: { label: "DOI not found", variant: "outline" },
+};
+
+interface Citation {
+  id: number;
+  citationKey: string | null;
+  title: string;
+  authorsText: string;
+  journal: string | null;
+  year: number | null;
+  volume: string | null;
+  issue: string | null;
+  pages: string | null;
+  doi: string | null;
+  url: string | null;
+  metadataStatus: string;
+  metadataNotes: string[] | null;
+  searchQueries: string[] | null;
+}
+
+interface ReferenceManagerProps {
+  documentId: number;
+  citations: Citation[];
+  citationVerifications: Parameters<typeof CitationVerifications>[0]["verifications"];
+}
+
+type ReferenceForm = Record<"title" | "authors" | "year" | "journal" | "volume" | "issue" | "pages" | "doi" | "url", string>;
+
+const EMPTY_FORM: ReferenceForm = { title: "", authors: "", year: "", journal: "", volume: "", issue: "", pages: "", doi: "", url: "" };
+
+const FORM_FIELDS: Array<{ key: keyof ReferenceForm; label: string; hint?: string }> = [
+  { key: "title", label: "Title" },
+  { key: "authors", label: "Authors", hint: "One per line" },
+  { key: "year", label: "Year" },
+  { key: "journal", label: "Journal / venue" },
+  { key: "volume", label: "Volume" },
+  { key: "issue", label: "Issue" },
+  { key: "pages", label: "Pages" },
+  { key: "doi", label: "DOI" },
+  { key: "url", label: "URL" },
+];
+
+const toForm = (citation: Citation): ReferenceForm => ({
+  title: citation.title,
+  authors: citation.authorsText.split(/,\s+/).join("\n"),
+  year: citation.year?.toString() ?? "",
+  journal: citation.journal ?? "",
+  volume: citation.volume ?? "",
+  issue: citation.issue ?? "",
+  pages: citation.pages ?? "",
+  doi: citation.doi ?? "",
+  url: citation.url ?? "",
+});
+
+const fromForm = (form: ReferenceForm) => ({
+  title: form.title.trim(),
+  authors: form.authors.split("\n").map(name => name.trim()).filter(Boolean),
+  year: form.year.trim() ? Number(form.year) : null,
+  journal: form.journal.trim() || null,
+  volume: form.volume.trim() || null,
+  issue: form.issue.trim() || null,
+  pages: form.pages.trim() || null,
+  doi: form.doi.trim() || null,
+  url: form.url.trim() || null,
+});
+
+/**
+ * The document's reference list with editing controls. Every change renumbers
+ * the references and rewrites the in-text citations and References section.
+ */
+export default function ReferenceManager({ documentId, citations, citationVerifications }: ReferenceManagerProps) {
+  const utils = trpc.useUtils();
+  const [editing, setEditing] = useState<Citation | null>(null);
+  const [form, setForm] = useState<ReferenceForm>(EMPTY_FORM);
+  const [addOpen, setAddOpen] = useState(false);
+  const [doi, setDoi] = useState("");
+  const [searchInput, setSearchInput] = useState("");
+  const [query, setQuery] = useState("");
+
+  const searchQuery = trpc.citations.search.useQuery({ query }, { enabled: query.length >= 2, retry: false });
+
+  const onError = (error: { message: string }) => toast.error(error.message);
+  const addMutation = trpc.citations.add.useMutation({
+    onSuccess: () => {
+      toast.success("Reference added");
+      setDoi("");
+      utils.documents.invalidate();
+    },
+    onError,
+  });
+  const updateMutation = trpc.citations.update.useMutation({
+    onSuccess: () => {
+      toast.success("Reference updated");
+      setEditing(null);
+      utils.documents.invalidate();
+    },
+    onError,
+  });
+  const removeMutation = trpc.citations.remove.useMutation({
+    onSuccess: () => {
+      toast.success("Reference removed");
+      utils.documents.invalidate();
+    },
+    onError,
+  });
+  const reorderMutation = trpc.citations.reorder.useMutation({
+    onSuccess: () => utils.documents.invalidate(),
+    onError,
+  });
+  const busy = addMutation.isPending || updateMutation.isPending || removeMutation.isPending || reorderMutation.isPending;
+
+  const move = (index: number, offset: number) => {
+    const ids = citations.map(citation => citation.id);
+    const [moved] = ids.splice(index, 1);
+    ids.splice(index + offset, 0, moved);
+    reorderMutation.mutate({ documentId, citationIds: ids });
+  };
+
+  const remove = (citation: Citation) => {
+    if (!window.confirm(`Remove "${citation.title}"? Its in-text citations will be removed as well.`)) return;
+    removeMutation.mutate({ citationId: citation.id });
+  };
+
+  const openEditor = (citation: Citation) => {
+    setForm(toForm(citation));
+    setEditing(citation);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-end">
+        <Button variant="outline" size="sm" onClick={() => setAddOpen(true)} disabled={busy}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add reference
+        </Button>
+      </div>
+
+      {citations.map((citation, index) => (
+        <div key={citation.id} className="p-4 bg-muted/30 rounded-lg">
+          <div className="flex items-start gap-3">
+            <span className="text-sm font-medium text-muted-foreground">
+              [{index + 1}]
+            </span>
+            <div className="flex-1">
+              <div className="flex items-start justify-between gap-2">
+                <p className="font-medium">{citation.title}</p>
+                {METADATA_STATUS[citation.metadataStatus] && (
+                  <Badge
+                    variant={METADATA_STATUS[citation.metadataStatus].variant}
+                    title={citation.metadataNotes?.join(" ") || undefined}
+                  >
+                    {METADATA_STATUS[citation.metadataStatus].label}
+                  </Badge>
+                )}
+              </div>
+              <p className="text-sm text-muted-foreground mt-1">
+                {citation.authorsText}
+              </p>
+              <p className="text-sm text-muted-foreground">
+                {citation.journal && `${citation.journal}, `}
+                {citation.volume && `${citation.volume}`}
+                {citation.issue && `(${citation.issue})`}
+                {citation.pages && `:${citation.pages}`}
+                {(citation.volume || citation.pages) && ", "}
+                {citation.year}
+                {citation.doi && ` • DOI: ${citation.doi}`}
+              </p>
+              {citation.searchQueries && citation.searchQueries.length > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  Found by: {citation.searchQueries.map(query => `"${query}"`).join(", ")}
+                </p>
+              )}
+              {citation.metadataStatus !== "verified" && citation.metadataStatus !== "unchecked" &&
+                citation.metadataNotes?.map(note => (
+                  <p key={note} className="text-xs text-destructive">{note}</p>
+                ))}
+              <CitationVerifications
+                verifications={citationVerifications.filter(v => v.citationKey === citation.citationKey)}
+              />
+            </div>
+            <div className="flex flex-col gap-1">
+              <Button variant="ghost" size="icon" title="Move up" disabled={busy || index === 0} onClick={() => move(index, -1)}>
+                <ArrowUp className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                title="Move down"
+                disabled={busy || index === citations.length - 1}
+                onClick={() => move(index, 1)}
+              >
+                <ArrowDown className="h-4 w-4" />
+              </Button>
+              <Button variant="ghost" size="icon" title="Edit" disabled={busy} onClick={() => openEditor(citation)}>
+                <Pencil className="h-4 w-4" />
+              </Button>
+              <Button variant="ghost" size="icon" title="Remove" disabled={busy} onClick={() => remove(citation)}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        </div>
+      ))}
+
+      <Dialog open={editing !== null} onOpenChange={open => !open && setEditing(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Edit Reference</DialogTitle>
+            <DialogDescription>Changing the DOI re-checks the entry against the registry.</DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-3">
+            {FORM_FIELDS.map(({ key, label, hint }) => (
+              <div key={key} className="space-y-1">
+                <Label htmlFor={`reference-${key}`}>
+                  {label}
+                  {hint && <span className="text-xs text-muted-foreground ml-2">{hint}</span>}
+                </Label>
+                {key === "authors" ? (
+                  <Textarea
+                    id={`reference-${key}`}
+                    rows={3}
+                    value={form[key]}
+                    onChange={e => setForm(prev => ({ ...prev, [key]: e.target.value }))}
+                  />
+                ) : (
+                  <Input
+                    id={`reference-${key}`}
+                    type={key === "year" ? "number" : "text"}
+                    value={form[key]}
+                    onChange={e => setForm(prev => ({ ...prev, [key]: e.target.value }))}
+                  />
+                )}
+              </div>
+            ))}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>Cancel</Button>
+            <Button
+              disabled={!form.title.trim() || updateMutation.isPending}
+              onClick={() => editing && updateMutation.mutate({ citationId: editing.id, reference: fromForm(form) })}
+            >
+              {updateMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={addOpen} onOpenChange={setAddOpen}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Add Reference</DialogTitle>
+            <DialogDescription>Look up a DOI or search the literature. New references go to the end of the list.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="flex items-end gap-2">
+              <div className="flex-1 space-y-1">
+                <Label htmlFor="reference-add-doi">DOI</Label>
+                <Input id="reference-add-doi" placeholder="10.1000/xyz123" value={doi} onChange={e => setDoi(e.target.value)} />
+              </div>
+              <Button disabled={!doi.trim() || addMutation.isPending} onClick={() => addMutation.mutate({ documentId, doi: doi.trim() })}>
+                {addMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Add
+              </Button>
+            </div>
+            <form
+              className="flex items-end gap-2"
+              onSubmit={e => {
+                e.preventDefault();
+                setQuery(searchInput.trim());
+              }}
+            >
+              <div className="flex-1 space-y-1">
+                <Label htmlFor="reference-search">Search</Label>
+                <Input id="reference-search" value={searchInput} onChange={e => setSearchInput(e.target.value)} />
+              </div>
+              <Button type="submit" variant="outline" disabled={searchInput.trim().length < 2}>
+                <Search className="h-4 w-4" />
+              </Button>
+            </form>
+            {searchQuery.isFetching && <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />}
+            {searchQuery.error && <p className="text-sm text-destructive">{searchQuery.error.message}</p>}
+            <div className="max-h-80 overflow-y-auto space-y-2">
+              {searchQuery.data?.map(paper => (
+                <div key={paper.paperId} className="flex items-start justify-between gap-3 p-3 bg-muted/30 rounded-lg">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium">{paper.title}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {paper.authors.slice(0, 3).join(", ")}
+                      {paper.authors.length > 3 && " et al."}
+                      {paper.year && ` (${paper.year})`}
+                      {paper.journal && ` • ${paper.journal}`}
+                    </p>
+                  </div>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={addMutation.isPending}
+                    onClick={() =>
+                      addMutation.mutate(
+                        paper.doi
+                          ? { documentId, doi: paper.doi }
+                          : {
+                              documentId,
+                              reference: { title: paper.title, authors: paper.authors, year: paper.year, journal: paper.journal, url: paper.url },
+                            }
+                      )
+                    }
+                  >
+                    Add
+                  </Button>
+                </div>
+              ))}
+              {searchQuery.data?.length === 0 && <p className="text-sm text-muted-foreground">No papers found.</p>}
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
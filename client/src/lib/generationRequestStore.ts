@@ -1,5 +1,7 @@
+import type { CitationStyle, DocumentType } from "@shared/const";
+
 export type GenerationCreateInput = {
-  documentType: string;
+  documentType: DocumentType;
   title: string;
   researchDomain: string;
   subdomain?: string;
@@ -7,7 +9,7 @@ export type GenerationCreateInput = {
   numFigures?: number;
   numTables?: number;
   numReferences?: number;
-  citationStyle: string;
+  citationStyle: CitationStyle;
   targetJournal?: string;
   abstractProvided?: string;
   keyHypotheses?: string[];
@@ -19,6 +21,11 @@ export type GenerationCreateInput = {
     orcid?: string;
     isCorresponding: boolean;
   }>;
+  referenceLibrary?: {
+    fileName?: string;
+    content: string;
+    mode: "merge" | "replace";
+  };
 };
 
 type StoredPayload = {
@@ -2,9 +2,10 @@ import { useAuth } from "@/_core/hooks/useAuth";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { trpc } from "@/lib/trpc";
-import { Activity, FileText, CheckCircle2, XCircle, Loader2, BarChart3, Award, TrendingUp } from "lucide-react";
+import { Activity, FileText, CheckCircle2, XCircle, Loader2, BarChart3, Award, TrendingUp, Coins, Database } from "lucide-react";
 import { useLocation } from "wouter";
 import { useEffect } from "react";
+import QuotaOverrideForm from "@/components/QuotaOverrideForm";
 
 export default function AdminDashboard() {
   const { user, loading: authLoading } = useAuth({ redirectOnUnauthenticated: true });
@@ -161,6 +162,100 @@ export default function AdminDashboard() {
           </CardContent>
         </Card>
 
+        {/* LLM Usage */}
+        <Card>
+          <CardHeader>
+            <CardTitle>LLM Usage</CardTitle>
+            <CardDescription>Token usage and estimated cost across all jobs</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid gap-4 md:grid-cols-4">
+              <div className="flex items-center gap-3 p-4 bg-muted/50 rounded-lg">
+                <Activity className="h-8 w-8 text-muted-foreground" />
+                <div>
+                  <p className="text-2xl font-bold">{metrics.llmCalls.toLocaleString()}</p>
+                  <p className="text-sm text-muted-foreground">LLM Calls</p>
+                </div>
+              </div>
+
+              <div className="flex items-center gap-3 p-4 bg-muted/50 rounded-lg">
+                <FileText className="h-8 w-8 text-muted-foreground" />
+                <div>
+                  <p className="text-2xl font-bold">
+                    {(metrics.promptTokens + metrics.completionTokens).toLocaleString()}
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    Tokens ({metrics.promptTokens.toLocaleString()} prompt / {metrics.completionTokens.toLocaleString()} completion)
+                  </p>
+                </div>
+              </div>
+
+              <div className="flex items-center gap-3 p-4 bg-muted/50 rounded-lg">
+                <Coins className="h-8 w-8 text-primary" />
+                <div>
+                  <p className="text-2xl font-bold">${metrics.estimatedCostUsd.toFixed(2)}</p>
+                  <p className="text-sm text-muted-foreground">Estimated Cost</p>
+                </div>
+              </div>
+
+              <div className="flex items-center gap-3 p-4 bg-muted/50 rounded-lg">
+                <TrendingUp className="h-8 w-8 text-muted-foreground" />
+                <div>
+                  <p className="text-2xl font-bold">${metrics.avgCostPerCompletedJob.toFixed(3)}</p>
+                  <p className="text-sm text-muted-foreground">Avg Cost per Document</p>
+                </div>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Literature Cache */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Literature Cache</CardTitle>
+            <CardDescription>
+              {metrics.literatureCache.enabled
+                ? `Semantic Scholar responses shared across jobs, kept for ${Math.round(metrics.literatureCache.ttlMs / 3_600_000)}h`
+                : "Persistent cache disabled; only this process's in-memory cache is used"}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid gap-4 md:grid-cols-3">
+              <div className="flex items-center gap-3 p-4 bg-muted/50 rounded-lg">
+                <TrendingUp className="h-8 w-8 text-primary" />
+                <div>
+                  <p className="text-2xl font-bold">{(metrics.literatureCache.hitRate * 100).toFixed(1)}%</p>
+                  <p className="text-sm text-muted-foreground">
+                    Hit Rate ({metrics.literatureCache.hits.toLocaleString()} hits / {metrics.literatureCache.fetches.toLocaleString()} API fetches)
+                  </p>
+                </div>
+              </div>
+
+              <div className="flex items-center gap-3 p-4 bg-muted/50 rounded-lg">
+                <Database className="h-8 w-8 text-muted-foreground" />
+                <div>
+                  <p className="text-2xl font-bold">{metrics.literatureCache.papers.toLocaleString()}</p>
+                  <p className="text-sm text-muted-foreground">
+                    Papers ({metrics.literatureCache.liveEntries.toLocaleString()} of {metrics.literatureCache.entries.toLocaleString()} responses fresh)
+                  </p>
+                </div>
+              </div>
+
+              <div className="flex items-center gap-3 p-4 bg-muted/50 rounded-lg">
+                <Activity className="h-8 w-8 text-muted-foreground" />
+                <div>
+                  <p className="text-2xl font-bold">{(metrics.literatureCache.process.hitRate * 100).toFixed(1)}%</p>
+                  <p className="text-sm text-muted-foreground">
+                    This Server ({metrics.literatureCache.process.memoryHits + metrics.literatureCache.process.storeHits} hits / {metrics.literatureCache.process.misses} misses)
+                  </p>
+                </div>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        <QuotaOverrideForm />
+
         {/* Document Type Distribution */}
         <Card>
           <CardHeader>
@@ -217,7 +312,7 @@ export default function AdminDashboard() {
                     <div className="flex-1">
                       <p className="font-medium">{job.title}</p>
                       <p className="text-sm text-muted-foreground">
-                        {job.documentType.split("_").map(w => w.charAt(0).toUpperCase() + w.slice(1)).join(" ")} • {job.researchDomain}
+                        {job.documentType.split("_").map(w => w.charAt(0).toUpperCase() + w.slice(1)).join(" ")} • {job.researchDomain} • User #{job.userId}
                       </p>
                     </div>
                     <div className="flex items-center gap-3">
@@ -2,28 +2,23 @@ import { useAuth } from "@/_core/hooks/useAuth";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import QuotaSummary from "@/components/QuotaSummary";
 import { trpc } from "@/lib/trpc";
 import { FileText, Plus, Loader2, Clock, CheckCircle2, XCircle, Eye } from "lucide-react";
 import { Link, useLocation } from "wouter";
 import { toast } from "sonner";
-import {
-  loadGenerationRequestForJob,
-  saveGenerationRequestForJob,
-  type GenerationCreateInput,
-} from "@/lib/generationRequestStore";
 
 export default function Dashboard() {
   const { user, loading: authLoading } = useAuth({ redirectOnUnauthenticated: true });
   const [, setLocation] = useLocation();
 
-  const retryMutation = trpc.generation.create.useMutation({
-    onSuccess: (data, variables) => {
-      saveGenerationRequestForJob(data.jobId, variables as GenerationCreateInput);
-      toast.success("Retry started");
+  const resumeMutation = trpc.generation.resume.useMutation({
+    onSuccess: (data) => {
+      toast.success("Resuming generation");
       setLocation(`/generation/${data.jobId}`);
     },
     onError: (error) => {
-      toast.error(`Failed to retry: ${error.message}`);
+      toast.error(`Failed to resume: ${error.message}`);
     },
   });
   
@@ -88,7 +83,9 @@ export default function Dashboard() {
       </div>
 
       {/* Content */}
-      <div className="container py-8">
+      <div className="container py-8 space-y-6">
+        <QuotaSummary />
+        
         {!jobs || jobs.length === 0 ? (
           <Card>
             <CardContent className="py-12 text-center">
@@ -168,18 +165,10 @@ export default function Dashboard() {
                         <Button
                           variant="outline"
                           size="sm"
-                          disabled={retryMutation.isPending}
-                          onClick={() => {
-                            const payload = loadGenerationRequestForJob(job.id);
-                            if (!payload) {
-                              toast.error("Original parameters not found for this job");
-                              setLocation("/new");
-                              return;
-                            }
-                            retryMutation.mutate(payload);
-                          }}
+                          disabled={resumeMutation.isPending}
+                          onClick={() => resumeMutation.mutate({ jobId: job.id })}
                         >
-                          {retryMutation.isPending ? "Retrying..." : "Try Again"}
+                          {resumeMutation.isPending ? "Resuming..." : "Try Again"}
                         </Button>
                       )}
                     </div>
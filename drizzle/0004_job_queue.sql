@@ -0,0 +1,13 @@
+ALTER TABLE `generation_jobs` ADD `authors` json;
+--> statement-breakpoint
+ALTER TABLE `generation_jobs` ADD `attempts` int DEFAULT 0 NOT NULL;
+--> statement-breakpoint
+ALTER TABLE `generation_jobs` ADD `lockedBy` varchar(64);
+--> statement-breakpoint
+ALTER TABLE `generation_jobs` ADD `leaseExpiresAt` timestamp;
+--> statement-breakpoint
+ALTER TABLE `generation_jobs` ADD `heartbeatAt` timestamp;
+--> statement-breakpoint
+ALTER TABLE `generation_jobs` ADD `startedAt` timestamp;
+--> statement-breakpoint
+CREATE INDEX `generation_jobs_status_idx` ON `generation_jobs` (`status`,`createdAt`);
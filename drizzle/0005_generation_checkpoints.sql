@@ -0,0 +1,12 @@
+CREATE TABLE `generation_checkpoints` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`jobId` int NOT NULL,
+	`completedPhases` json NOT NULL,
+	`context` json NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `generation_checkpoints_id` PRIMARY KEY(`id`),
+	CONSTRAINT `generation_checkpoints_jobId_unique` UNIQUE(`jobId`)
+);
+--> statement-breakpoint
+ALTER TABLE `generation_checkpoints` ADD CONSTRAINT `generation_checkpoints_jobId_generation_jobs_id_fk` FOREIGN KEY (`jobId`) REFERENCES `generation_jobs`(`id`) ON DELETE no action ON UPDATE no action;
@@ -0,0 +1,15 @@
+CREATE TABLE `argument_nodes` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`documentId` int NOT NULL,
+	`nodeKey` varchar(32) NOT NULL,
+	`nodeType` enum('research_question','hypothesis','claim','evidence','counterargument') NOT NULL,
+	`content` text NOT NULL,
+	`parentKey` varchar(32),
+	`citationKeys` json,
+	`sectionTitle` varchar(255),
+	`orderIndex` int NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `argument_nodes_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `argument_nodes` ADD CONSTRAINT `argument_nodes_documentId_documents_id_fk` FOREIGN KEY (`documentId`) REFERENCES `documents`(`id`) ON DELETE no action ON UPDATE no action;
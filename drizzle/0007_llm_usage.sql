@@ -0,0 +1,22 @@
+CREATE TABLE `llm_usage` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`jobId` int NOT NULL,
+	`phase` varchar(100),
+	`model` varchar(100) NOT NULL,
+	`promptTokens` int NOT NULL,
+	`completionTokens` int NOT NULL,
+	`latencyMs` int NOT NULL,
+	`estimatedCostUsd` float NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `llm_usage_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `generation_jobs` ADD `llmCalls` int DEFAULT 0 NOT NULL;
+--> statement-breakpoint
+ALTER TABLE `generation_jobs` ADD `promptTokens` int DEFAULT 0 NOT NULL;
+--> statement-breakpoint
+ALTER TABLE `generation_jobs` ADD `completionTokens` int DEFAULT 0 NOT NULL;
+--> statement-breakpoint
+ALTER TABLE `generation_jobs` ADD `estimatedCostUsd` float DEFAULT 0 NOT NULL;
+--> statement-breakpoint
+ALTER TABLE `llm_usage` ADD CONSTRAINT `llm_usage_jobId_generation_jobs_id_fk` FOREIGN KEY (`jobId`) REFERENCES `generation_jobs`(`id`) ON DELETE no action ON UPDATE no action;
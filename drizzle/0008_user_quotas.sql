@@ -0,0 +1,13 @@
+CREATE TABLE `user_quotas` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`userId` int NOT NULL,
+	`jobsPerDay` int,
+	`wordsPerMonth` int,
+	`tokensPerMonth` int,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `user_quotas_id` PRIMARY KEY(`id`),
+	CONSTRAINT `user_quotas_userId_unique` UNIQUE(`userId`)
+);
+--> statement-breakpoint
+ALTER TABLE `user_quotas` ADD CONSTRAINT `user_quotas_userId_users_id_fk` FOREIGN KEY (`userId`) REFERENCES `users`(`id`) ON DELETE no action ON UPDATE no action;
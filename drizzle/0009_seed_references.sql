@@ -0,0 +1,3 @@
+ALTER TABLE `generation_jobs` ADD `seedReferences` json;
+--> statement-breakpoint
+ALTER TABLE `generation_jobs` ADD `seedReferenceMode` enum('merge','replace') DEFAULT 'merge' NOT NULL;
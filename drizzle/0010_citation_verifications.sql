@@ -0,0 +1,14 @@
+CREATE TABLE `citation_verifications` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`documentId` int NOT NULL,
+	`citationKey` varchar(100) NOT NULL,
+	`sectionTitle` varchar(255),
+	`claim` text NOT NULL,
+	`verdict` enum('supported','unsupported','unclear') NOT NULL,
+	`rationale` text,
+	`orderIndex` int NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `citation_verifications_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `citation_verifications` ADD CONSTRAINT `citation_verifications_documentId_documents_id_fk` FOREIGN KEY (`documentId`) REFERENCES `documents`(`id`) ON DELETE no action ON UPDATE no action;
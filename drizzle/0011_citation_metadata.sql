@@ -0,0 +1,5 @@
+ALTER TABLE `citations` ADD `issue` varchar(50);
+--> statement-breakpoint
+ALTER TABLE `citations` ADD `metadataStatus` enum('unchecked','verified','mismatch','retracted','not_found') DEFAULT 'unchecked' NOT NULL;
+--> statement-breakpoint
+ALTER TABLE `citations` ADD `metadataNotes` json;
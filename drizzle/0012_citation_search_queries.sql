@@ -0,0 +1 @@
+ALTER TABLE `citations` ADD `searchQueries` json;
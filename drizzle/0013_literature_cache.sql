@@ -0,0 +1,26 @@
+CREATE TABLE `literature_cache` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`cacheKey` varchar(64) NOT NULL,
+	`url` text NOT NULL,
+	`response` json NOT NULL,
+	`hits` int NOT NULL DEFAULT 0,
+	`fetches` int NOT NULL DEFAULT 1,
+	`expiresAt` timestamp NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `literature_cache_id` PRIMARY KEY(`id`),
+	CONSTRAINT `literature_cache_cacheKey_unique` UNIQUE(`cacheKey`)
+);
+--> statement-breakpoint
+CREATE TABLE `literature_papers` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`paperId` varchar(100) NOT NULL,
+	`doi` varchar(255),
+	`paper` json NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `literature_papers_id` PRIMARY KEY(`id`),
+	CONSTRAINT `literature_papers_paperId_unique` UNIQUE(`paperId`)
+);
+--> statement-breakpoint
+CREATE INDEX `literature_papers_doi_idx` ON `literature_papers` (`doi`);
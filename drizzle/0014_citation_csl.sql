@@ -0,0 +1 @@
+ALTER TABLE `citations` ADD `csl` json;
@@ -0,0 +1,3 @@
+ALTER TABLE `documents` ADD `contentFormat` enum('styled','canonical') DEFAULT 'styled' NOT NULL;
+--> statement-breakpoint
+ALTER TABLE `documents` ALTER COLUMN `contentFormat` SET DEFAULT 'canonical';
@@ -0,0 +1,19 @@
+CREATE TABLE `literature_matrix` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`jobId` int NOT NULL,
+	`citationKey` varchar(100) NOT NULL,
+	`title` text NOT NULL,
+	`year` int,
+	`problem` text NOT NULL,
+	`method` text NOT NULL,
+	`dataset` text NOT NULL,
+	`findings` text NOT NULL,
+	`limitations` text NOT NULL,
+	`orderIndex` int NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `literature_matrix_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `literature_matrix` ADD CONSTRAINT `literature_matrix_jobId_generation_jobs_id_fk` FOREIGN KEY (`jobId`) REFERENCES `generation_jobs`(`id`) ON DELETE no action ON UPDATE no action;
+--> statement-breakpoint
+CREATE INDEX `literature_matrix_jobId_idx` ON `literature_matrix` (`jobId`);
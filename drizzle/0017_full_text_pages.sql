@@ -0,0 +1,19 @@
+CREATE TABLE `full_text_pages` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`jobId` int NOT NULL,
+	`source` enum('open_access','upload') NOT NULL,
+	`origin` varchar(1024) NOT NULL,
+	`citationKey` varchar(100),
+	`page` int NOT NULL,
+	`content` text NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `full_text_pages_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `full_text_pages` ADD CONSTRAINT `full_text_pages_jobId_generation_jobs_id_fk` FOREIGN KEY (`jobId`) REFERENCES `generation_jobs`(`id`) ON DELETE no action ON UPDATE no action;
+--> statement-breakpoint
+CREATE INDEX `full_text_pages_jobId_idx` ON `full_text_pages` (`jobId`);
+--> statement-breakpoint
+ALTER TABLE `citation_verifications` ADD `evidence` text;
+--> statement-breakpoint
+ALTER TABLE `citation_verifications` ADD `evidencePage` int;
@@ -0,0 +1 @@
+ALTER TABLE `documents` ADD `pdfSourceHash` varchar(64);
@@ -0,0 +1,13 @@
+ALTER TABLE `llm_usage` MODIFY COLUMN `jobId` int;
+--> statement-breakpoint
+ALTER TABLE `llm_usage` ADD `revisionRequestId` int;
+--> statement-breakpoint
+ALTER TABLE `revision_requests` ADD `llmCalls` int DEFAULT 0 NOT NULL;
+--> statement-breakpoint
+ALTER TABLE `revision_requests` ADD `promptTokens` int DEFAULT 0 NOT NULL;
+--> statement-breakpoint
+ALTER TABLE `revision_requests` ADD `completionTokens` int DEFAULT 0 NOT NULL;
+--> statement-breakpoint
+ALTER TABLE `revision_requests` ADD `estimatedCostUsd` float DEFAULT 0 NOT NULL;
+--> statement-breakpoint
+ALTER TABLE `llm_usage` ADD CONSTRAINT `llm_usage_revisionRequestId_revision_requests_id_fk` FOREIGN KEY (`revisionRequestId`) REFERENCES `revision_requests`(`id`) ON DELETE no action ON UPDATE no action;
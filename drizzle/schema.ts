@@ -21,6 +21,47 @@ export const users = mysqlTable("users", {
 export type User = typeof users.$inferSelect;
 export type InsertUser = typeof users.$inferInsert;
 
+/**
+ * Per-user quota overrides set by admins. A row replaces all three role
+ * defaults: a null limit is unlimited and 0 blocks the user.
+ */
+export const userQuotas = mysqlTable("user_quotas", {
+  id: int("id").autoincrement().primaryKey(),
+  userId: int("userId").notNull().unique().references(() => users.id),
+  
+  jobsPerDay: int("jobsPerDay"),
+  wordsPerMonth: int("wordsPerMonth"),
+  tokensPerMonth: int("tokensPerMonth"),
+  
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type UserQuota = typeof userQuotas.$inferSelect;
+export type InsertUserQuota = typeof userQuotas.$inferInsert;
+
+/**
+ * Author entry captured with a generation job so queued work can be resumed
+ * by any worker process.
+ */
+export type JobAuthor = {
+  name: string;
+  affiliation: string;
+  email?: string;
+  orcid?: string;
+  isCorresponding: boolean;
+};
+
+/**
+ * Reference imported from a user's own library, stored as a CSL-JSON item
+ * (see server/services/bibliographyImport.ts).
+ */
+export type SeedReference = {
+  id: string;
+  type: string;
+  [variable: string]: unknown;
+};
+
 /**
  * Generation jobs table - tracks document generation requests
  */
@@ -49,6 +90,11 @@ export const generationJobs = mysqlTable("generation_jobs", {
   abstractProvided: text("abstractProvided"),
   keyHypotheses: json("keyHypotheses").$type<string[]>(),
   methodologyConstraints: json("methodologyConstraints").$type<string[]>(),
+  authors: json("authors").$type<JobAuthor[]>(),
+  
+  // Imported reference library: seeds Literature Review alongside or instead of search
+  seedReferences: json("seedReferences").$type<SeedReference[]>(),
+  seedReferenceMode: mysqlEnum("seedReferenceMode", ["merge", "replace"]).default("merge").notNull(),
   
   // Generation progress
   currentPhase: varchar("currentPhase", { length: 100 }),
@@ -62,6 +108,19 @@ export const generationJobs = mysqlTable("generation_jobs", {
   // Error tracking
   errorMessage: text("errorMessage"),
   
+  // Queue leasing (see server/services/jobQueue.ts)
+  attempts: int("attempts").default(0).notNull(),
+  lockedBy: varchar("lockedBy", { length: 64 }),
+  leaseExpiresAt: timestamp("leaseExpiresAt"),
+  heartbeatAt: timestamp("heartbeatAt"),
+  startedAt: timestamp("startedAt"),
+  
+  // LLM usage totals, accumulated alongside llm_usage rows
+  llmCalls: int("llmCalls").default(0).notNull(),
+  promptTokens: int("promptTokens").default(0).notNull(),
+  completionTokens: int("completionTokens").default(0).notNull(),
+  estimatedCostUsd: float("estimatedCostUsd").default(0).notNull(),
+  
   createdAt: timestamp("createdAt").defaultNow().notNull(),
   updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
   completedAt: timestamp("completedAt"),
@@ -70,6 +129,126 @@ export const generationJobs = mysqlTable("generation_jobs", {
 export type GenerationJob = typeof generationJobs.$inferSelect;
 export type InsertGenerationJob = typeof generationJobs.$inferInsert;
 
+/**
+ * Generation checkpoints table - pipeline state saved after each completed phase
+ * so a failed or interrupted job can resume instead of starting over
+ */
+export const generationCheckpoints = mysqlTable("generation_checkpoints", {
+  id: int("id").autoincrement().primaryKey(),
+  jobId: int("jobId").notNull().unique().references(() => generationJobs.id),
+  
+  completedPhases: json("completedPhases").$type<string[]>().notNull(),
+  context: json("context").$type<Record<string, unknown>>().notNull(), // Serialized GenerationContext (minus params)
+  
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type GenerationCheckpoint = typeof generationCheckpoints.$inferSelect;
+export type InsertGenerationCheckpoint = typeof generationCheckpoints.$inferInsert;
+
+/**
+ * LLM usage table - one row per LLM call made while generating a job or
+ * processing a revision request (exactly one of jobId and revisionRequestId is set)
+ */
+export const llmUsage = mysqlTable("llm_usage", {
+  id: int("id").autoincrement().primaryKey(),
+  jobId: int("jobId").references(() => generationJobs.id),
+  revisionRequestId: int("revisionRequestId").references(() => revisionRequests.id),
+  phase: varchar("phase", { length: 100 }),
+  
+  model: varchar("model", { length: 100 }).notNull(),
+  promptTokens: int("promptTokens").notNull(),
+  completionTokens: int("completionTokens").notNull(),
+  latencyMs: int("latencyMs").notNull(),
+  estimatedCostUsd: float("estimatedCostUsd").notNull(),
+  
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type LlmUsage = typeof llmUsage.$inferSelect;
+export type InsertLlmUsage = typeof llmUsage.$inferInsert;
+
+/**
+ * Literature matrix table - per-source synthesis extracted from abstracts during the Literature Review
+ */
+export const literatureMatrix = mysqlTable("literature_matrix", {
+  id: int("id").autoincrement().primaryKey(),
+  jobId: int("jobId").notNull().references(() => generationJobs.id),
+  
+  citationKey: varchar("citationKey", { length: 100 }).notNull(), // [refX] key of the source
+  title: text("title").notNull(),
+  year: int("year"),
+  // Empty when the abstract does not say
+  problem: text("problem").notNull(),
+  method: text("method").notNull(),
+  dataset: text("dataset").notNull(),
+  findings: text("findings").notNull(),
+  limitations: text("limitations").notNull(),
+  orderIndex: int("orderIndex").notNull(),
+  
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type LiteratureMatrixRow = typeof literatureMatrix.$inferSelect;
+export type InsertLiteratureMatrixRow = typeof literatureMatrix.$inferInsert;
+
+/**
+ * Full-text pages table - text extracted from open-access and uploaded PDFs, one row per page
+ */
+export const fullTextPages = mysqlTable("full_text_pages", {
+  id: int("id").autoincrement().primaryKey(),
+  jobId: int("jobId").notNull().references(() => generationJobs.id),
+  
+  source: mysqlEnum("source", ["open_access", "upload"]).notNull(),
+  origin: varchar("origin", { length: 1024 }).notNull(), // PDF URL or uploaded file name
+  citationKey: varchar("citationKey", { length: 100 }), // [refX] key; null until an upload is matched to a reference
+  page: int("page").notNull(), // 1-based page number in the PDF
+  content: text("content").notNull(),
+  
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type FullTextPage = typeof fullTextPages.$inferSelect;
+export type InsertFullTextPage = typeof fullTextPages.$inferInsert;
+
+/**
+ * Literature papers table - every paper seen in a Semantic Scholar response, shared across jobs
+ */
+export const literaturePapers = mysqlTable("literature_papers", {
+  id: int("id").autoincrement().primaryKey(),
+  paperId: varchar("paperId", { length: 100 }).notNull().unique(),
+  doi: varchar("doi", { length: 255 }), // lowercased, for lookups by DOI
+  paper: json("paper").$type<Record<string, unknown>>().notNull(), // SemanticScholarPaper fields, merged across responses
+  
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type LiteraturePaper = typeof literaturePapers.$inferSelect;
+export type InsertLiteraturePaper = typeof literaturePapers.$inferInsert;
+
+/**
+ * Literature cache table - Semantic Scholar responses (searches, lookups, graph edges) keyed by request URL
+ */
+export const literatureCache = mysqlTable("literature_cache", {
+  id: int("id").autoincrement().primaryKey(),
+  cacheKey: varchar("cacheKey", { length: 64 }).notNull().unique(), // sha256 of the request URL
+  url: text("url").notNull(),
+  response: json("response").$type<unknown>().notNull(),
+  
+  // Served from the cache vs. fetched from the API, for the admin hit rate
+  hits: int("hits").default(0).notNull(),
+  fetches: int("fetches").default(1).notNull(),
+  
+  expiresAt: timestamp("expiresAt").notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type LiteratureCacheEntry = typeof literatureCache.$inferSelect;
+export type InsertLiteratureCacheEntry = typeof literatureCache.$inferInsert;
+
 /**
  * Documents table - stores generated document metadata
  */
@@ -81,6 +260,9 @@ export const documents = mysqlTable("documents", {
   title: text("title").notNull(),
   abstract: text("abstract"),
   content: text("content").notNull(), // Markdown content
+  // "canonical": citations are [refX] markers and the References section is rendered on read
+  // (see services/documentContent.ts); "styled": older rows with the style baked in
+  contentFormat: mysqlEnum("contentFormat", ["styled", "canonical"]).default("canonical").notNull(),
   keywords: json("keywords").$type<string[]>(),
   
   // Metadata
@@ -98,6 +280,8 @@ export const documents = mysqlTable("documents", {
   docxUrl: text("docxUrl"),
   pdfUrl: text("pdfUrl"),
   latexUrl: text("latexUrl"),
+  // Hash of what pdfUrl was rendered from; a PDF export reuses the file while it matches (see services/pdfExport.ts)
+  pdfSourceHash: varchar("pdfSourceHash", { length: 64 }),
   
   createdAt: timestamp("createdAt").defaultNow().notNull(),
   updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
@@ -139,10 +323,26 @@ export const citations = mysqlTable("citations", {
   journal: varchar("journal", { length: 255 }),
   year: int("year"),
   volume: varchar("volume", { length: 50 }),
+  issue: varchar("issue", { length: 50 }),
   pages: varchar("pages", { length: 50 }),
   url: text("url"),
   citationKey: varchar("citationKey", { length: 100 }),
   
+  // Result of resolving the DOI against the registry (see services/doiValidation.ts)
+  metadataStatus: mysqlEnum("metadataStatus", [
+    "unchecked",
+    "verified",
+    "mismatch",
+    "retracted",
+    "not_found"
+  ]).default("unchecked").notNull(),
+  metadataNotes: json("metadataNotes").$type<string[]>(),
+  // Literature Review search queries or citation-graph links that found this reference (null for imported ones)
+  searchQueries: json("searchQueries").$type<string[]>(),
+  
+  // Full bibliographic record (CSL-JSON) the bibliography is rendered from; null on older rows
+  csl: json("csl").$type<Record<string, unknown>>(),
+  
   // Pre-formatted citations in multiple styles
   formattedCitations: json("formattedCitations").$type<Record<string, string>>(),
   
@@ -153,6 +353,7 @@ export const citations = mysqlTable("citations", {
 
 export type Citation = typeof citations.$inferSelect;
 export type InsertCitation = typeof citations.$inferInsert;
+export type CitationMetadataStatus = Citation["metadataStatus"];
 
 /**
  * Figures table - tracks figure metadata
@@ -195,6 +396,59 @@ export const tablesData = mysqlTable("tables_data", {
 export type TableData = typeof tablesData.$inferSelect;
 export type InsertTableData = typeof tablesData.$inferInsert;
 
+/**
+ * Argument nodes table - the claim graph produced by Argument Architecture
+ */
+export const argumentNodes = mysqlTable("argument_nodes", {
+  id: int("id").autoincrement().primaryKey(),
+  documentId: int("documentId").notNull().references(() => documents.id),
+  
+  nodeKey: varchar("nodeKey", { length: 32 }).notNull(), // e.g. RQ1, H1, C1, E1, X1
+  nodeType: mysqlEnum("nodeType", [
+    "research_question",
+    "hypothesis",
+    "claim",
+    "evidence",
+    "counterargument"
+  ]).notNull(),
+  content: text("content").notNull(),
+  
+  // Node this one addresses (claim -> question/hypothesis), supports (evidence -> claim)
+  // or challenges (counterargument -> claim)
+  parentKey: varchar("parentKey", { length: 32 }),
+  citationKeys: json("citationKeys").$type<string[]>(), // [refX] keys backing the node
+  sectionTitle: varchar("sectionTitle", { length: 255 }), // where the node is argued
+  orderIndex: int("orderIndex").notNull(),
+  
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type ArgumentNode = typeof argumentNodes.$inferSelect;
+export type InsertArgumentNode = typeof argumentNodes.$inferInsert;
+
+/**
+ * Citation verifications table - whether each cited claim is backed by the cited source
+ */
+export const citationVerifications = mysqlTable("citation_verifications", {
+  id: int("id").autoincrement().primaryKey(),
+  documentId: int("documentId").notNull().references(() => documents.id),
+  
+  citationKey: varchar("citationKey", { length: 100 }).notNull(), // [refX] key of the cited source
+  sectionTitle: varchar("sectionTitle", { length: 255 }),
+  claim: text("claim").notNull(), // the sentence that carries the citation
+  verdict: mysqlEnum("verdict", ["supported", "unsupported", "unclear"]).notNull(),
+  rationale: text("rationale"),
+  // Full-text passage the verdict rests on, quoted verbatim, and its page; null when checked against the abstract
+  evidence: text("evidence"),
+  evidencePage: int("evidencePage"),
+  orderIndex: int("orderIndex").notNull(),
+  
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type CitationVerification = typeof citationVerifications.$inferSelect;
+export type InsertCitationVerification = typeof citationVerifications.$inferInsert;
+
 /**
  * Revision requests table - tracks document revision requests
  */
@@ -224,6 +478,12 @@ export const revisionRequests = mysqlTable("revision_requests", {
   // Result
   newDocumentId: int("newDocumentId").references(() => documents.id),
   
+  // LLM usage totals, accumulated alongside llm_usage rows
+  llmCalls: int("llmCalls").default(0).notNull(),
+  promptTokens: int("promptTokens").default(0).notNull(),
+  completionTokens: int("completionTokens").default(0).notNull(),
+  estimatedCostUsd: float("estimatedCostUsd").default(0).notNull(),
+  
   createdAt: timestamp("createdAt").defaultNow().notNull(),
   updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
   completedAt: timestamp("completedAt"),
@@ -10,6 +10,8 @@ import { registerDevAuthRoutes } from "./devAuth";
 import { registerOAuthRoutes } from "./oauth";
 import { appRouter } from "../routers";
 import { createContext } from "./context";
+import { startGenerationWorker } from "../services/jobQueue";
+import { migrateStyledDocuments } from "../services/documentContent";
 import { serveStatic, setupVite } from "./vite";
 
 const __filename = fileURLToPath(import.meta.url);
@@ -98,6 +100,25 @@ async function startServer() {
   server.listen(port, () => {
     console.log(`Server running on http://localhost:${port}/`);
   });
+
+  // Durable generation queue worker (jobs survive restarts via DB leases)
+  if (!process.env.DATABASE_URL) {
+    console.log("[JobQueue] Disabled (DATABASE_URL not configured)");
+  } else {
+    const worker = startGenerationWorker();
+    const shutdown = () => {
+      worker.stop().finally(() => process.exit(0));
+    };
+    process.once("SIGTERM", shutdown);
+    process.once("SIGINT", shutdown);
+
+    // Documents saved before citations were stored as [refX] markers
+    migrateStyledDocuments()
+      .then(count => {
+        if (count > 0) console.log(`[Documents] Converted ${count} documents to canonical citation markers`);
+      })
+      .catch(error => console.warn("[Documents] Citation marker migration failed", error));
+  }
 }
 
 startServer().catch(console.error);
@@ -66,6 +66,19 @@ export type InvokeParams = {
   output_schema?: OutputSchema;
   responseFormat?: ResponseFormat;
   response_format?: ResponseFormat;
+  /** Aborts the request (including pending retries), e.g. when a job is cancelled. */
+  signal?: AbortSignal;
+  /** Called once per successful invocation with token counts and wall-clock latency. */
+  onUsage?: (usage: LLMUsage) => void;
+};
+
+export type LLMUsage = {
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  /** Includes time spent on retries. */
+  latencyMs: number;
 };
 
 export type ToolCall = {
@@ -239,7 +252,22 @@ const assertApiKey = () => {
   }
 };
 
-const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+const abortReason = (signal: AbortSignal): Error =>
+  signal.reason instanceof Error ? signal.reason : new Error("LLM invoke aborted");
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(abortReason(signal));
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortReason(signal!));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
 
 const getNumberEnv = (raw: string, fallback: number) => {
   const value = Number(raw);
@@ -289,6 +317,23 @@ function makeMockResult(content: string): InvokeResult {
   };
 }
 
+function reportUsage(params: InvokeParams, result: InvokeResult, startedAt: number) {
+  if (!params.onUsage) return;
+  const promptTokens = result.usage?.prompt_tokens ?? 0;
+  const completionTokens = result.usage?.completion_tokens ?? 0;
+  try {
+    params.onUsage({
+      model: result.model || "unknown",
+      promptTokens,
+      completionTokens,
+      totalTokens: result.usage?.total_tokens ?? promptTokens + completionTokens,
+      latencyMs: Date.now() - startedAt,
+    });
+  } catch (error) {
+    console.warn("[LLM] Usage callback failed:", error);
+  }
+}
+
 const normalizeResponseFormat = ({
   responseFormat,
   response_format,
@@ -344,8 +389,13 @@ export async function invokeLLM(params: InvokeParams): Promise<InvokeResult> {
     output_schema,
     responseFormat,
     response_format,
+    signal,
   } = params;
 
+  if (signal?.aborted) throw abortReason(signal);
+
+  const startedAt = Date.now();
+
   if (shouldUseMockMode()) {
     const normalizedResponseFormat = normalizeResponseFormat({
       responseFormat,
@@ -355,7 +405,9 @@ export async function invokeLLM(params: InvokeParams): Promise<InvokeResult> {
     });
 
     if (normalizedResponseFormat?.type === "json_schema") {
-      return makeMockResult(JSON.stringify(mockJsonForSchema(normalizedResponseFormat.json_schema.name)));
+      const result = makeMockResult(JSON.stringify(mockJsonForSchema(normalizedResponseFormat.json_schema.name)));
+      reportUsage(params, result, startedAt);
+      return result;
     }
 
     const lastUser = [...messages].reverse().find(m => m.role === "user");
@@ -364,9 +416,11 @@ export async function invokeLLM(params: InvokeParams): Promise<InvokeResult> {
         ? lastUser.content.slice(0, 200)
         : "Mocked response.";
 
-    return makeMockResult(
+    const result = makeMockResult(
       `# Mocked Output\n\nLLM_MODE=mock is enabled.\n\nPrompt preview:\n\n${promptPreview}`
     );
+    reportUsage(params, result, startedAt);
+    return result;
   }
 
   assertApiKey();
@@ -411,6 +465,7 @@ export async function invokeLLM(params: InvokeParams): Promise<InvokeResult> {
   for (let attempt = 0; attempt <= maxRetries; attempt++) {
     const controller = new AbortController();
     const timeout = setTimeout(() => controller.abort(), timeoutMs);
+    const requestSignal = signal ? AbortSignal.any([controller.signal, signal]) : controller.signal;
 
     try {
       const response = await fetch(url, {
@@ -420,11 +475,13 @@ export async function invokeLLM(params: InvokeParams): Promise<InvokeResult> {
           authorization: `Bearer ${ENV.forgeApiKey}`,
         },
         body: JSON.stringify(payload),
-        signal: controller.signal,
+        signal: requestSignal,
       });
 
       if (response.ok) {
-        return (await response.json()) as InvokeResult;
+        const result = (await response.json()) as InvokeResult;
+        reportUsage(params, result, startedAt);
+        return result;
       }
 
       const isRetryable = response.status === 429 || response.status >= 500;
@@ -443,8 +500,11 @@ export async function invokeLLM(params: InvokeParams): Promise<InvokeResult> {
         : null;
       const backoffBase = 500 * 2 ** attempt;
       const jitter = Math.floor(Math.random() * 250);
-      await sleep(Math.min(30_000, retryAfterMs ?? backoffBase + jitter));
+      await sleep(Math.min(30_000, retryAfterMs ?? backoffBase + jitter), signal);
     } catch (error) {
+      // Caller-initiated aborts are final; only our own timeout is retried.
+      if (signal?.aborted) throw abortReason(signal);
+
       const isLast = attempt === maxRetries;
       const isAbort = error instanceof Error && error.name === "AbortError";
 
@@ -458,7 +518,7 @@ export async function invokeLLM(params: InvokeParams): Promise<InvokeResult> {
         );
       }
 
-      await sleep(Math.min(30_000, 500 * 2 ** attempt));
+      await sleep(Math.min(30_000, 500 * 2 ** attempt), signal);
     } finally {
       clearTimeout(timeout);
     }
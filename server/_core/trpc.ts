@@ -5,6 +5,10 @@ import type { TrpcContext } from "./context";
 
 const t = initTRPC.context<TrpcContext>().create({
   transformer: superjson,
+  // Keeps long-lived subscription streams open through proxies.
+  sse: {
+    ping: { enabled: true, intervalMs: 15_000 },
+  },
 });
 
 export const router = t.router;
@@ -0,0 +1,20 @@
+declare module "citeproc" {
+  interface CiteprocSys {
+    retrieveLocale(lang: string): string;
+    retrieveItem(id: string): unknown;
+  }
+
+  class Engine {
+    constructor(sys: CiteprocSys, style: string, lang?: string);
+    setOutputFormat(format: string): void;
+    updateItems(ids: string[]): void;
+    makeCitationCluster(items: Array<{ id: string }>): string;
+    makeBibliography(): [{ entry_ids: string[][] }, string[]];
+  }
+
+  const CSL: {
+    Engine: typeof Engine;
+    Output: { Formats: Record<string, Record<string, unknown>> };
+  };
+  export default CSL;
+}
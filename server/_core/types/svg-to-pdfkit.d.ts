@@ -0,0 +1,15 @@
+declare module "svg-to-pdfkit" {
+  export default function SVGtoPDF(
+    doc: PDFKit.PDFDocument,
+    svg: string,
+    x?: number,
+    y?: number,
+    options?: {
+      width?: number;
+      height?: number;
+      preserveAspectRatio?: string;
+      assumePt?: boolean;
+      useCSS?: boolean;
+    }
+  ): void;
+}
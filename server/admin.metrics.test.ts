@@ -48,6 +48,8 @@ describe("admin.getMetrics", () => {
     expect(metrics).toHaveProperty("processing");
     expect(metrics).toHaveProperty("failed");
     expect(metrics).toHaveProperty("documentTypes");
+    expect(metrics).toHaveProperty("promptTokens");
+    expect(metrics).toHaveProperty("estimatedCostUsd");
     expect(typeof metrics.activeGenerations).toBe("number");
   });
 
@@ -0,0 +1,128 @@
+import { describe, it, expect } from "vitest";
+import { cslItemToPaper, parseBibliography, referenceKeys } from "./services/bibliographyImport";
+
+const bibtex = String.raw`
+@string{nips = "Advances in Neural Information Processing Systems"}
+
+@inproceedings{vaswani2017,
+  title = {Attention Is All You Need},
+  author = {Vaswani, Ashish and Shazeer, Noam and Parmar, Niki},
+  booktitle = nips,
+  year = 2017,
+  pages = {5998--6008},
+  doi = {https://doi.org/10.5555/3295222.3295349}
+}
+
+@article{muller2020,
+  title = "A Study of M{\"u}ller's {GAN} Results",
+  author = {M{\"u}ller, J{\"o}rg and {World Health Organization}},
+  journal = {Journal of Testing},
+  year = {2020},
+  month = mar,
+  volume = {12},
+  number = {3}
+}
+
+@misc{untitled,
+  author = {Nobody, A.}
+}
+`;
+
+const ris = `TY  - JOUR
+TI  - Deep Residual Learning
+AU  - He, Kaiming
+AU  - Zhang, Xiangyu
+PY  - 2016
+JO  - Computer Vision
+SP  - 770
+EP  - 778
+DO  - 10.1109/CVPR.2016.90
+ER  -
+
+TY  - JOUR
+TI  - Deep residual learning.
+AU  - He, Kaiming
+PY  - 2016
+ER  -
+`;
+
+describe("bibliography import", () => {
+  it("parses BibTeX entries with string macros, accents and institutional authors", () => {
+    const parsed = parseBibliography(bibtex, "library.bib");
+
+    expect(parsed.format).toBe("bibtex");
+    expect(parsed.items).toHaveLength(2);
+    expect(parsed.warnings).toEqual(['Skipped entry "untitled": it has no title.']);
+
+    const [vaswani, muller] = parsed.items;
+    expect(vaswani).toMatchObject({
+      id: "vaswani2017",
+      type: "paper-conference",
+      title: "Attention Is All You Need",
+      "container-title": "Advances in Neural Information Processing Systems",
+      page: "5998-6008",
+      DOI: "10.5555/3295222.3295349",
+      issued: { "date-parts": [[2017]] },
+    });
+    expect(vaswani.author).toEqual([
+      { family: "Vaswani", given: "Ashish" },
+      { family: "Shazeer", given: "Noam" },
+      { family: "Parmar", given: "Niki" },
+    ]);
+
+    expect(muller.title).toBe("A Study of Müller's GAN Results");
+    expect(muller.author).toEqual([{ family: "Müller", given: "Jörg" }, { literal: "World Health Organization" }]);
+    expect(muller.issued).toEqual({ "date-parts": [[2020, 3]] });
+  });
+
+  it("parses RIS records and removes duplicates by DOI or title", () => {
+    const parsed = parseBibliography(ris);
+
+    expect(parsed.format).toBe("ris");
+    expect(parsed.duplicates).toBe(1);
+    expect(parsed.items).toHaveLength(1);
+    expect(parsed.items[0]).toMatchObject({
+      type: "article-journal",
+      title: "Deep Residual Learning",
+      "container-title": "Computer Vision",
+      page: "770-778",
+      DOI: "10.1109/cvpr.2016.90",
+    });
+  });
+
+  it("accepts CSL-JSON arrays and reports unrecognized files", () => {
+    const parsed = parseBibliography(
+      JSON.stringify([
+        { id: "a", type: "book", title: "Reference Book", author: [{ family: "Roe", given: "Jane" }], issued: { "date-parts": [[2019]] } },
+        { id: "b", type: "article-journal", title: "Another Paper", DOI: "10.1000/ABC" },
+        { id: "c", type: "article-journal", title: "Another paper, again", DOI: "doi:10.1000/abc" },
+      ]),
+      "export.json"
+    );
+
+    expect(parsed.format).toBe("csl-json");
+    expect(parsed.items.map(item => item.id)).toEqual(["a", "b"]);
+    expect(parsed.duplicates).toBe(1);
+
+    const unknown = parseBibliography("just some notes");
+    expect(unknown.format).toBeNull();
+    expect(unknown.items).toEqual([]);
+    expect(unknown.warnings).toHaveLength(1);
+  });
+
+  it("maps imported items to papers whose keys match search results", () => {
+    const [item] = parseBibliography(ris).items;
+    const paper = cslItemToPaper(item);
+
+    expect(paper).toMatchObject({
+      paperId: `import:${item.id}`,
+      title: "Deep Residual Learning",
+      year: 2016,
+      venue: "Computer Vision",
+      authors: [{ name: "Kaiming He" }, { name: "Xiangyu Zhang" }],
+    });
+    expect(referenceKeys({ doi: paper.externalIds?.DOI, title: paper.title })).toEqual(
+      referenceKeys({ doi: "https://doi.org/10.1109/cvpr.2016.90", title: "Deep residual learning!" })
+    );
+  });
+});
@@ -0,0 +1,175 @@
+import CSL from "citeproc";
+import { describe, it, expect } from "vitest";
+import type { CitationStyle } from "@shared/const";
+import { createCitationProcessor, paperToCslItem, parseAuthorName, type CslItem } from "./services/csl";
+import enUS from "./services/csl/locales/en-US";
+import apa from "./services/csl/styles/apa";
+import chicagoAuthorDate from "./services/csl/styles/chicago-author-date";
+import harvardCiteThemRight from "./services/csl/styles/harvard-cite-them-right";
+import ieee from "./services/csl/styles/ieee";
+import modernLanguageAssociation from "./services/csl/styles/modern-language-association";
+import nature from "./services/csl/styles/nature";
+import science from "./services/csl/styles/science";
+import vancouver from "./services/csl/styles/vancouver";
+
+const article = (id: string, authors: string[], year: number, extra: Partial<CslItem> = {}): CslItem => ({
+  id,
+  type: "article-journal",
+  title: `Study ${id}`,
+  author: authors.map(parseAuthorName),
+  "container-title": "Journal of Testing",
+  issued: { "date-parts": [[year]] },
+  ...extra,
+});
+
+describe("CSL citation styles", () => {
+  it("formats APA 7 author-date citations and references", () => {
+    const processor = createCitationProcessor("APA7", [
+      article("ref1", ["Jane Smith", "Robert Doe", "Kim Lee"], 2019, { volume: 12, issue: 3, page: "10-20", DOI: "10.1000/xyz" }),
+      article("ref2", ["Ann Brown", "Carl White"], 2021),
+    ]);
+
+    expect(processor.cite(["ref1"])).toBe("(Smith et al., 2019)");
+    expect(processor.cite(["ref2", "ref1"])).toBe("(Brown & White, 2021; Smith et al., 2019)");
+    expect(processor.bibliography().map(entry => entry.text)).toEqual([
+      "Brown, A., & White, C. (2021). Study ref2. *Journal of Testing*.",
+      "Smith, J., Doe, R., & Lee, K. (2019). Study ref1. *Journal of Testing*, *12*(3), 10–20. https://doi.org/10.1000/xyz",
+    ]);
+  });
+
+  it("adds year suffixes when author-date citations would collide", () => {
+    const processor = createCitationProcessor("Harvard", [
+      article("ref1", ["Jane Smith"], 2020, { title: "Later work" }),
+      article("ref2", ["Jane Smith"], 2020, { title: "Another work" }),
+      article("ref3", ["Jane Smith"], 2018),
+    ]);
+
+    expect(processor.cite(["ref1", "ref2"])).toBe("(Smith, 2020a; Smith, 2020b)");
+    expect(processor.cite(["ref3"])).toBe("(Smith, 2018)");
+    expect(processor.bibliography().map(entry => entry.text)).toEqual([
+      "Smith, J. (2018) ‘Study ref3’, *Journal of Testing*.",
+      "Smith, J. (2020a) ‘Later work’, *Journal of Testing*.",
+      "Smith, J. (2020b) ‘Another work’, *Journal of Testing*.",
+    ]);
+  });
+
+  it("numbers IEEE citations in order of first citation and collapses ranges", () => {
+    const items = ["ref1", "ref2", "ref3", "ref4"].map(id => article(id, ["Jane Smith", "Robert Doe"], 2020));
+    const processor = createCitationProcessor("IEEE", items);
+
+    expect(processor.numeric).toBe(true);
+    expect(processor.cite(["ref3", "ref1"])).toBe("[1], [3]");
+    expect(processor.cite(["ref1", "ref2", "ref3"])).toBe("[1]–[3]");
+    expect(processor.bibliography()[0].text).toBe("[1] J. Smith and R. Doe, “Study ref1,” *Journal of Testing*, 2020.");
+  });
+
+  it("applies et al. thresholds per style", () => {
+    const authors = ["Ann One", "Ben Two", "Cal Three", "Dee Four", "Eve Five", "Fay Six", "Gus Seven"];
+    const vancouver = createCitationProcessor("Vancouver", [article("ref1", authors, 2022, { volume: 4, page: "1-9" })]);
+    expect(vancouver.cite(["ref1"])).toBe("(1)");
+    expect(vancouver.bibliography()[0].text).toBe(
+      "1. One A, Two B, Three C, Four D, Five E, Six F, et al. Study ref1. Journal of Testing. 2022;4:1–9."
+    );
+
+    const nature = createCitationProcessor("Nature", [article("ref1", authors, 2022, { volume: 4, page: "1-9" })]);
+    expect(nature.cite(["ref1"])).toBe("<sup>1</sup>");
+    expect(nature.bibliography()[0].text).toBe("1. One, A. *et al.* Study ref1. *Journal of Testing* **4**, 1–9 (2022).");
+  });
+
+  it("maps Semantic Scholar papers to CSL items and falls back to APA for unknown styles", () => {
+    const item = paperToCslItem(
+      {
+        paperId: "p1",
+        title: "Graph Methods",
+        year: 2023,
+        venue: "Proceedings of the Web Conference",
+        authors: [{ authorId: "a1", name: "Vincent van der Berg" }, { authorId: "a2", name: "Lee, Min" }],
+        externalIds: { DOI: "https://doi.org/10.5555/abc" },
+      },
+      "ref1"
+    );
+
+    expect(item).toMatchObject({
+      type: "paper-conference",
+      author: [
+        { given: "Vincent", family: "van der Berg" },
+        { given: "Min", family: "Lee" },
+      ],
+      "container-title": "Proceedings of the Web Conference",
+      DOI: "10.5555/abc",
+    });
+
+    const processor = createCitationProcessor("Turabian", [item]);
+    expect(processor.style).toBe("APA7");
+    expect(processor.cite(["ref1"])).toBe("(van der Berg & Lee, 2023)");
+    expect(processor.cite(["ref9"])).toBe("");
+  });
+
+  it("keeps capitalized words as written in title case and tells same-author MLA works apart", () => {
+    const processor = createCitationProcessor("MLA9", [
+      article("ref1", ["Jane Smith"], 2020, { title: "state-of-the-art attention: on CNNs", "container-title": "ICML" }),
+      article("ref2", ["Jane Smith"], 2021, { title: "Another work" }),
+    ]);
+
+    expect(processor.cite(["ref1", "ref2"])).toBe("(Smith, “State-of-the-Art Attention: On CNNs”; Smith, “Another Work”)");
+    expect(processor.bibliography()[1].text).toBe("Smith, Jane. “State-of-the-Art Attention: On CNNs.” *ICML*, 2020.");
+  });
+});
+
+describe("CSL interpreter against citeproc-js", () => {
+  const sources: Record<CitationStyle, string> = {
+    APA7: apa,
+    MLA9: modernLanguageAssociation,
+    Chicago: chicagoAuthorDate,
+    Harvard: harvardCiteThemRight,
+    IEEE: ieee,
+    Vancouver: vancouver,
+    Nature: nature,
+    Science: science,
+  };
+  // citeproc-js's plain-text output with the interpreter's Markdown markup.
+  CSL.Output.Formats.markdown = {
+    ...CSL.Output.Formats.text,
+    "@font-style/italic": "*%%STRING%%*",
+    "@font-weight/bold": "**%%STRING%%**",
+    "@vertical-align/sup": "<sup>%%STRING%%</sup>",
+  };
+
+  const items: CslItem[] = [
+    article("ref1", ["Jane Smith", "Robert Doe", "Kim Lee"], 2019, { volume: "12", issue: "3", page: "10-20", DOI: "10.1000/xyz" }),
+    article("ref2", ["Ann Brown", "Carl White"], 2021, { title: "deep learning for the masses" }),
+    article("ref3", ["Jane Smith"], 2020, { title: "Later work" }),
+    article("ref4", ["Jane Smith"], 2020, { title: "Another work" }),
+    {
+      id: "ref5",
+      type: "paper-conference",
+      title: "Attention is all you need",
+      author: ["Ashish Vaswani", "Noam Shazeer", "Niki Parmar", "Jakob Uszkoreit", "Llion Jones", "Aidan Gomez", "Lukasz Kaiser", "Illia Polosukhin"].map(parseAuthorName),
+      "container-title": "ICML",
+      issued: { "date-parts": [[2017]] },
+    },
+    { id: "ref6", type: "article", title: "a preprint on self-supervised x-ray imaging", author: [parseAuthorName("Min Lee")], publisher: "arXiv", issued: { "date-parts": [[2023]] }, URL: "https://arxiv.org/abs/2301.00001" },
+    article("ref7", ["Vincent van der Berg"], 2018, { title: "learning without forgetting", volume: "4", page: "1-9" }),
+    { id: "ref8", type: "book", title: "pattern recognition and machine learning", author: [parseAuthorName("Christopher Bishop")], publisher: "Springer", issued: { "date-parts": [[2006]] } },
+    { id: "ref9", type: "chapter", title: "neural networks", author: [parseAuthorName("Ann Brown")], "container-title": "Handbook of AI", publisher: "MIT Press", page: "5-30", issued: { "date-parts": [[2015]] } },
+  ];
+  const clusters = [["ref1"], ["ref2", "ref1"], ["ref3", "ref4"], ["ref5"], ["ref6", "ref7"], ["ref1", "ref2", "ref3", "ref4"]];
+
+  for (const style of Object.keys(sources) as CitationStyle[]) {
+    it(`renders ${style} citations and references as citeproc-js does`, () => {
+      const byId = new Map(items.map(item => [item.id, item]));
+      const engine = new CSL.Engine({ retrieveLocale: () => enUS, retrieveItem: id => byId.get(id) }, sources[style], "en-US");
+      engine.setOutputFormat("markdown");
+      engine.updateItems(items.map(item => item.id));
+      const processor = createCitationProcessor(style, items);
+
+      for (const ids of clusters) {
+        expect(processor.cite(ids)).toBe(engine.makeCitationCluster(ids.map(id => ({ id }))));
+      }
+      // citeproc-js pads the number of numeric entries with extra spaces.
+      expect(processor.bibliography().map(entry => entry.text)).toEqual(
+        engine.makeBibliography()[1].map(entry => entry.trim().replace(/\s+/g, " "))
+      );
+    });
+  }
+});
@@ -0,0 +1,157 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const llmMocks = vi.hoisted(() => ({
+  invokeLLM: vi.fn(async (_params: any) => ({
+    id: "x",
+    created: Date.now(),
+    model: "mock",
+    choices: [
+      {
+        index: 0,
+        message: {
+          role: "assistant",
+          content: JSON.stringify({
+            results: [
+              { index: 2, verdict: "unsupported", rationale: "The abstract is about vision." },
+              { index: 1, verdict: "supported", rationale: "Stated in the abstract." },
+            ],
+          }),
+        },
+        finish_reason: "stop",
+      },
+    ],
+  })),
+}));
+
+vi.mock("./_core/llm", () => llmMocks);
+
+import { extractCitedClaims, verifyCitedClaims } from "./services/citationVerification";
+import { createPassageIndex } from "./services/fullText";
+
+describe("citation verification", () => {
+  beforeEach(() => {
+    llmMocks.invokeLLM.mockClear();
+  });
+
+  it("extracts one claim per cited sentence and key", () => {
+    const claims = extractCitedClaims(
+      [
+        {
+          title: "Introduction",
+          content: [
+            "### Background",
+            "",
+            "Smith et al. report an accuracy of 92.5% on the benchmark [ref1]. Uncited sentence here.",
+            "Both results were replicated [ref1, ref2]! Unknown keys are ignored [ref9].",
+            "",
+            "$$E = mc^2 [ref2]$$",
+            "",
+            "| Metric | Value [ref2] |",
+          ].join("\n"),
+        },
+        { title: "Discussion", content: "Smith et al. report an accuracy of 92.5% on the benchmark [ref1]." },
+      ],
+      new Set(["ref1", "ref2"])
+    );
+
+    expect(claims).toEqual([
+      { citationKey: "ref1", sectionTitle: "Introduction", claim: "Smith et al. report an accuracy of 92.5% on the benchmark." },
+      { citationKey: "ref1", sectionTitle: "Introduction", claim: "Both results were replicated!" },
+      { citationKey: "ref2", sectionTitle: "Introduction", claim: "Both results were replicated!" },
+    ]);
+  });
+
+  it("asks once per cited source and maps verdicts back to claims", async () => {
+    const claims = [
+      { citationKey: "ref1", sectionTitle: "Results", claim: "Attention suffices for translation." },
+      { citationKey: "ref2", sectionTitle: "Results", claim: "No abstract to compare." },
+      { citationKey: "ref1", sectionTitle: "Discussion", claim: "Attention beats convolution on images." },
+      { citationKey: "ref1", sectionTitle: "Discussion", claim: "A third claim." },
+    ];
+    const sources = new Map([
+      ["ref1", { title: "Attention Is All You Need", abstract: "The Transformer uses attention for translation." }],
+      ["ref2", { title: "Untitled Preprint" }],
+    ]);
+
+    const results = await verifyCitedClaims(claims, sources);
+
+    expect(llmMocks.invokeLLM).toHaveBeenCalledTimes(1);
+    const prompt = String(llmMocks.invokeLLM.mock.calls[0][0].messages[0].content);
+    expect(prompt).toContain("1. Attention suffices for translation.\n2. Attention beats convolution on images.\n3. A third claim.");
+    expect(results.map(result => [result.claim, result.verdict])).toEqual([
+      ["Attention suffices for translation.", "supported"],
+      ["No abstract to compare.", "unclear"],
+      ["Attention beats convolution on images.", "unsupported"],
+      ["A third claim.", "unclear"],
+    ]);
+    expect(results[3].rationale).toBe("The verifier returned no verdict for this claim.");
+  });
+
+  it("checks claims against full-text excerpts and keeps only verbatim quotes", async () => {
+    llmMocks.invokeLLM.mockResolvedValueOnce({
+      id: "x",
+      created: Date.now(),
+      model: "mock",
+      choices: [
+        {
+          index: 0,
+          message: {
+            role: "assistant",
+            content: JSON.stringify({
+              results: [
+                { index: 1, verdict: "supported", rationale: "Stated in the results.", excerpt: 1, quote: "BLEU  of 28.4" },
+                { index: 2, verdict: "unsupported", rationale: "Not what the paper says.", excerpt: 1, quote: "beats every CNN" },
+              ],
+            }),
+          },
+          finish_reason: "stop",
+        },
+      ],
+    });
+    const passages = createPassageIndex([
+      { citationKey: "ref1", page: 8, text: "The big model reaches a BLEU of 28.4 on English-to-German translation." },
+      { citationKey: "ref2", page: 1, text: "Unrelated translation results from another paper." },
+    ]);
+
+    const results = await verifyCitedClaims(
+      [
+        { citationKey: "ref1", sectionTitle: "Results", claim: "The model reaches 28.4 BLEU on translation." },
+        { citationKey: "ref1", sectionTitle: "Results", claim: "It beats every CNN on translation." },
+      ],
+      new Map([["ref1", { title: "Attention Is All You Need" }]]),
+      { passages }
+    );
+
+    const params = llmMocks.invokeLLM.mock.calls[0][0];
+    expect(String(params.messages[0].content)).toContain("[1] (p. 8) The big model reaches a BLEU of 28.4");
+    expect(String(params.messages[0].content)).not.toContain("another paper");
+    expect(params.response_format.json_schema.schema.properties.results.items.required).toEqual([
+      "index",
+      "verdict",
+      "rationale",
+      "excerpt",
+      "quote",
+    ]);
+    expect(results.map(result => [result.verdict, result.evidence, result.evidencePage])).toEqual([
+      ["supported", "BLEU  of 28.4", 8],
+      ["unsupported", null, 8],
+    ]);
+  });
+
+  it("caps the number of claims checked", async () => {
+    vi.stubEnv("CITATION_VERIFICATION_MAX_CLAIMS", "1");
+    vi.spyOn(console, "warn").mockImplementation(() => undefined);
+    try {
+      const results = await verifyCitedClaims(
+        [
+          { citationKey: "ref1", sectionTitle: "A", claim: "First." },
+          { citationKey: "ref1", sectionTitle: "A", claim: "Second." },
+        ],
+        new Map([["ref1", { title: "T", abstract: "Abstract." }]])
+      );
+      expect(results.map(result => result.claim)).toEqual(["First."]);
+    } finally {
+      vi.unstubAllEnvs();
+    }
+  });
+});
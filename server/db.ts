@@ -1,21 +1,41 @@
-import { eq, desc, and } from "drizzle-orm";
+import { eq, desc, and, asc, gte, inArray, isNull, lt, or, sql } from "drizzle-orm";
 import { drizzle } from "drizzle-orm/mysql2";
 import { 
   InsertUser, 
   users,
+  userQuotas,
   generationJobs,
+  generationCheckpoints,
   documents,
   authors,
   citations,
   figures,
   tablesData,
+  argumentNodes,
+  citationVerifications,
+  llmUsage,
+  literatureCache,
+  literatureMatrix,
+  literaturePapers,
+  fullTextPages,
   revisionRequests,
   InsertGenerationJob,
   InsertDocument,
   InsertAuthor,
   InsertRevisionRequest,
+  InsertArgumentNode,
+  InsertCitation,
+  InsertCitationVerification,
+  InsertLlmUsage,
+  InsertLiteraturePaper,
+  InsertLiteratureMatrixRow,
+  InsertFullTextPage,
+  InsertUserQuota,
+  InsertFigure,
+  InsertTableData,
   GenerationJob,
-  Document
+  Document,
+  Citation
 } from "../drizzle/schema";
 import { ENV } from './_core/env';
 
@@ -115,6 +135,79 @@ export async function getUserByEmail(email: string) {
   return result.length > 0 ? result[0] : undefined;
 }
 
+export async function getUserById(id: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db.select().from(users).where(eq(users.id, id)).limit(1);
+  return result[0];
+}
+
+// User quotas
+export async function getUserQuota(userId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db.select().from(userQuotas).where(eq(userQuotas.userId, userId)).limit(1);
+  return result[0];
+}
+
+export async function upsertUserQuota(
+  userId: number,
+  data: Pick<InsertUserQuota, "jobsPerDay" | "wordsPerMonth" | "tokensPerMonth">
+) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.insert(userQuotas)
+    .values({ userId, ...data })
+    .onDuplicateKeyUpdate({ set: data });
+}
+
+export async function deleteUserQuota(userId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.delete(userQuotas).where(eq(userQuotas.userId, userId));
+}
+
+/**
+ * Usage counted against quotas: jobs and revision requests created since
+ * `dayStart`, and words requested and tokens consumed by both since
+ * `monthStart`. A revision is charged the word count of the document it revises.
+ */
+export async function getUserQuotaUsage(userId: number, periods: { dayStart: Date; monthStart: Date }) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [jobsToday] = await db.select({ count: sql<number>`count(*)` })
+    .from(generationJobs)
+    .where(and(eq(generationJobs.userId, userId), gte(generationJobs.createdAt, periods.dayStart)));
+  const [revisionsToday] = await db.select({ count: sql<number>`count(*)` })
+    .from(revisionRequests)
+    .where(and(eq(revisionRequests.userId, userId), gte(revisionRequests.createdAt, periods.dayStart)));
+  const [jobsThisMonth] = await db.select({
+      words: sql<number>`coalesce(sum(${generationJobs.targetWordCount}), 0)`,
+      tokens: sql<number>`coalesce(sum(${generationJobs.promptTokens} + ${generationJobs.completionTokens}), 0)`,
+    })
+    .from(generationJobs)
+    .where(and(eq(generationJobs.userId, userId), gte(generationJobs.createdAt, periods.monthStart)));
+  const [revisionsThisMonth] = await db.select({
+      words: sql<number>`coalesce(sum(${documents.wordCount}), 0)`,
+      tokens: sql<number>`coalesce(sum(${revisionRequests.promptTokens} + ${revisionRequests.completionTokens}), 0)`,
+    })
+    .from(revisionRequests)
+    .innerJoin(documents, eq(documents.id, revisionRequests.documentId))
+    .where(and(eq(revisionRequests.userId, userId), gte(revisionRequests.createdAt, periods.monthStart)));
+
+  // MySQL returns SUM/COUNT aggregates as strings.
+  return {
+    jobsToday: Number(jobsToday?.count ?? 0) + Number(revisionsToday?.count ?? 0),
+    wordsThisMonth: Number(jobsThisMonth?.words ?? 0) + Number(revisionsThisMonth?.words ?? 0),
+    tokensThisMonth: Number(jobsThisMonth?.tokens ?? 0) + Number(revisionsThisMonth?.tokens ?? 0),
+  };
+}
+
 // Generation Jobs
 export async function createGenerationJob(job: InsertGenerationJob) {
   const db = await getDb();
@@ -153,11 +246,20 @@ export async function updateGenerationJobProgress(
   const db = await getDb();
   if (!db) throw new Error("Database not available");
   
+  // Terminal jobs (e.g. cancelled) must not be pulled back into processing.
   await db.update(generationJobs)
     .set(data)
-    .where(eq(generationJobs.id, id));
+    .where(and(
+      eq(generationJobs.id, id),
+      inArray(generationJobs.status, ["queued", "processing"])
+    ));
 }
 
+/**
+ * Ends a job that is still queued or running. A worker passes its id so the
+ * update only lands while it holds the job's lease; a cancel passes none.
+ * Returns false if nothing was updated (the job ended, or the lease was lost).
+ */
 export async function completeGenerationJob(
   id: number,
   data: {
@@ -165,18 +267,379 @@ export async function completeGenerationJob(
     noveltyScore?: number;
     qualityScore?: number;
     errorMessage?: string;
-  }
+  },
+  workerId?: string
 ) {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
   
-  await db.update(generationJobs)
+  const result = await db.update(generationJobs)
     .set({
       ...data,
       completedAt: new Date(),
       progressPercentage: 100,
+      lockedBy: null,
+      leaseExpiresAt: null,
+    })
+    .where(and(
+      eq(generationJobs.id, id),
+      workerId === undefined
+        ? inArray(generationJobs.status, ["queued", "processing"])
+        : and(eq(generationJobs.status, "processing"), eq(generationJobs.lockedBy, workerId))
+    ));
+
+  return result[0].affectedRows > 0;
+}
+
+// Generation job queue (leases)
+export async function claimNextGenerationJob(options: {
+  workerId: string;
+  leaseMs: number;
+  maxPerUser: number;
+}): Promise<GenerationJob | undefined> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return db.transaction(async tx => {
+    // SKIP LOCKED lets several workers scan the queue without blocking each other.
+    const candidates = await tx.select().from(generationJobs)
+      .where(eq(generationJobs.status, "queued"))
+      .orderBy(asc(generationJobs.createdAt), asc(generationJobs.id))
+      .limit(25)
+      .for("update", { skipLocked: true });
+
+    if (candidates.length === 0) return undefined;
+
+    // Claims for the same user take turns on the user's row (locked in id order, so
+    // workers never wait in a cycle). The count below is the first plain read, so it
+    // sees claims committed while this worker waited.
+    const userIds = Array.from(new Set(candidates.map(j => j.userId))).sort((a, b) => a - b);
+    await tx.select({ id: users.id }).from(users)
+      .where(inArray(users.id, userIds))
+      .orderBy(asc(users.id))
+      .for("update");
+
+    const activeRows = await tx
+      .select({ userId: generationJobs.userId, count: sql<number>`count(*)` })
+      .from(generationJobs)
+      .where(and(eq(generationJobs.status, "processing"), inArray(generationJobs.userId, userIds)))
+      .groupBy(generationJobs.userId);
+    const activeByUser = new Map(activeRows.map(r => [r.userId, Number(r.count)]));
+
+    const job = candidates.find(j => (activeByUser.get(j.userId) ?? 0) < options.maxPerUser);
+    if (!job) return undefined;
+
+    const now = new Date();
+    const leaseExpiresAt = new Date(now.getTime() + options.leaseMs);
+    const claimed = {
+      status: "processing" as const,
+      lockedBy: options.workerId,
+      leaseExpiresAt,
+      heartbeatAt: now,
+      startedAt: job.startedAt ?? now,
+      attempts: job.attempts + 1,
+    };
+
+    await tx.update(generationJobs)
+      .set(claimed)
+      .where(and(eq(generationJobs.id, job.id), eq(generationJobs.status, "queued")));
+
+    return { ...job, ...claimed };
+  });
+}
+
+export async function renewGenerationJobLease(id: number, workerId: string, leaseMs: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const now = new Date();
+  const result = await db.update(generationJobs)
+    .set({
+      heartbeatAt: now,
+      leaseExpiresAt: new Date(now.getTime() + leaseMs),
+    })
+    .where(and(
+      eq(generationJobs.id, id),
+      eq(generationJobs.lockedBy, workerId),
+      eq(generationJobs.status, "processing")
+    ));
+
+  return result[0].affectedRows > 0;
+}
+
+/**
+ * Hands a stopping worker's jobs back to the queue so another worker resumes
+ * them from their checkpoints. The interrupted run does not count as an
+ * attempt. Returns the number of jobs released.
+ */
+export async function releaseGenerationJobs(workerId: string) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db.update(generationJobs)
+    .set({
+      status: "queued",
+      lockedBy: null,
+      leaseExpiresAt: null,
+      attempts: sql`greatest(${generationJobs.attempts} - 1, 0)`,
     })
-    .where(eq(generationJobs.id, id));
+    .where(and(eq(generationJobs.lockedBy, workerId), eq(generationJobs.status, "processing")));
+
+  return result[0].affectedRows;
+}
+
+/**
+ * Returns jobs whose worker stopped heartbeating to the queue, or fails them
+ * once they have used up their attempts.
+ */
+export async function requeueStaleGenerationJobs(maxAttempts: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  // Rows without a lease predate the queue and were abandoned by the old in-process runner.
+  const stale = and(
+    eq(generationJobs.status, "processing"),
+    or(isNull(generationJobs.leaseExpiresAt), lt(generationJobs.leaseExpiresAt, new Date()))
+  );
+
+  const failed = await db.update(generationJobs)
+    .set({
+      status: "failed",
+      errorMessage: `Job abandoned by its worker after ${maxAttempts} attempt(s)`,
+      completedAt: new Date(),
+      lockedBy: null,
+      leaseExpiresAt: null,
+    })
+    .where(and(stale, sql`${generationJobs.attempts} >= ${maxAttempts}`));
+
+  const requeued = await db.update(generationJobs)
+    .set({
+      status: "queued",
+      lockedBy: null,
+      leaseExpiresAt: null,
+    })
+    .where(stale);
+
+  return {
+    requeued: requeued[0].affectedRows,
+    failed: failed[0].affectedRows,
+  };
+}
+
+/**
+ * Puts a failed job back on the queue. Its checkpoint (if any) is kept so the
+ * pipeline continues from the phase that failed.
+ */
+export async function resumeGenerationJob(id: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.update(generationJobs)
+    .set({
+      status: "queued",
+      errorMessage: null,
+      completedAt: null,
+      progressPercentage: 0,
+      attempts: 0,
+      lockedBy: null,
+      leaseExpiresAt: null,
+    })
+    .where(and(eq(generationJobs.id, id), eq(generationJobs.status, "failed")));
+}
+
+// Generation Checkpoints
+export async function getGenerationCheckpoint(jobId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db.select().from(generationCheckpoints)
+    .where(eq(generationCheckpoints.jobId, jobId))
+    .limit(1);
+  return result[0];
+}
+
+export async function saveGenerationCheckpoint(
+  jobId: number,
+  data: { completedPhases: string[]; context: Record<string, unknown> }
+) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.insert(generationCheckpoints)
+    .values({ jobId, ...data })
+    .onDuplicateKeyUpdate({ set: data });
+}
+
+export async function deleteGenerationCheckpoint(jobId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.delete(generationCheckpoints).where(eq(generationCheckpoints.jobId, jobId));
+}
+
+// LLM usage
+export async function recordLlmUsage(entry: InsertLlmUsage) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.transaction(async tx => {
+    await tx.insert(llmUsage).values(entry);
+    if (entry.jobId) {
+      await tx.update(generationJobs)
+        .set({
+          llmCalls: sql`${generationJobs.llmCalls} + 1`,
+          promptTokens: sql`${generationJobs.promptTokens} + ${entry.promptTokens}`,
+          completionTokens: sql`${generationJobs.completionTokens} + ${entry.completionTokens}`,
+          estimatedCostUsd: sql`${generationJobs.estimatedCostUsd} + ${entry.estimatedCostUsd}`,
+        })
+        .where(eq(generationJobs.id, entry.jobId));
+    }
+    if (entry.revisionRequestId) {
+      await tx.update(revisionRequests)
+        .set({
+          llmCalls: sql`${revisionRequests.llmCalls} + 1`,
+          promptTokens: sql`${revisionRequests.promptTokens} + ${entry.promptTokens}`,
+          completionTokens: sql`${revisionRequests.completionTokens} + ${entry.completionTokens}`,
+          estimatedCostUsd: sql`${revisionRequests.estimatedCostUsd} + ${entry.estimatedCostUsd}`,
+        })
+        .where(eq(revisionRequests.id, entry.revisionRequestId));
+    }
+  });
+}
+
+// Literature cache
+export async function getLiteratureCacheEntry(cacheKey: string) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db.select().from(literatureCache)
+    .where(eq(literatureCache.cacheKey, cacheKey))
+    .limit(1);
+  return result[0];
+}
+
+export async function saveLiteratureCacheEntry(entry: {
+  cacheKey: string;
+  url: string;
+  response: unknown;
+  expiresAt: Date;
+}) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.insert(literatureCache)
+    .values(entry)
+    .onDuplicateKeyUpdate({
+      set: {
+        url: entry.url,
+        response: entry.response,
+        expiresAt: entry.expiresAt,
+        fetches: sql`${literatureCache.fetches} + 1`,
+      },
+    });
+}
+
+export async function recordLiteratureCacheHit(id: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.update(literatureCache)
+    .set({ hits: sql`${literatureCache.hits} + 1` })
+    .where(eq(literatureCache.id, id));
+}
+
+export async function upsertLiteraturePapers(papers: InsertLiteraturePaper[]) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  if (papers.length === 0) return;
+
+  // Merged into what is stored: a partial response only adds or refreshes the fields it carries.
+  await db.insert(literaturePapers)
+    .values(papers)
+    .onDuplicateKeyUpdate({
+      set: {
+        doi: sql`coalesce(values(${literaturePapers.doi}), ${literaturePapers.doi})`,
+        paper: sql`json_merge_patch(${literaturePapers.paper}, values(${literaturePapers.paper}))`,
+        updatedAt: sql`now()`,
+      },
+    });
+}
+
+export async function getLiteratureCacheTotals() {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [cache] = await db.select({
+    entries: sql<number>`count(*)`,
+    liveEntries: sql<number>`coalesce(sum(${literatureCache.expiresAt} > now()), 0)`,
+    hits: sql<number>`coalesce(sum(${literatureCache.hits}), 0)`,
+    fetches: sql<number>`coalesce(sum(${literatureCache.fetches}), 0)`,
+  }).from(literatureCache);
+  const [papers] = await db.select({ count: sql<number>`count(*)` }).from(literaturePapers);
+
+  return {
+    entries: Number(cache?.entries ?? 0),
+    liveEntries: Number(cache?.liveEntries ?? 0),
+    hits: Number(cache?.hits ?? 0),
+    fetches: Number(cache?.fetches ?? 0),
+    papers: Number(papers?.count ?? 0),
+  };
+}
+
+// Literature matrix
+export async function saveLiteratureMatrix(jobId: number, rows: Omit<InsertLiteratureMatrixRow, "jobId">[]) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  // A resumed job re-runs the Literature Review, so the job's rows are replaced as a whole.
+  await db.transaction(async tx => {
+    await tx.delete(literatureMatrix).where(eq(literatureMatrix.jobId, jobId));
+    if (rows.length > 0) await tx.insert(literatureMatrix).values(rows.map(row => ({ ...row, jobId })));
+  });
+}
+
+export async function getLiteratureMatrix(jobId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  return db.select().from(literatureMatrix)
+    .where(eq(literatureMatrix.jobId, jobId))
+    .orderBy(literatureMatrix.orderIndex);
+}
+
+// Full-text pages
+// Pages hold up to a page of PDF text each; inserts are split to stay under the packet size limit.
+const FULL_TEXT_INSERT_BATCH = 200;
+
+export async function createFullTextPages(pages: InsertFullTextPage[]) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  for (let start = 0; start < pages.length; start += FULL_TEXT_INSERT_BATCH) {
+    await db.insert(fullTextPages).values(pages.slice(start, start + FULL_TEXT_INSERT_BATCH));
+  }
+}
+
+export async function saveFullTextPages(jobId: number, pages: Omit<InsertFullTextPage, "jobId">[]) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  // Full-Text Retrieval re-reads the uploads and re-fetches open-access PDFs, so the job's pages are replaced as a whole.
+  await db.transaction(async tx => {
+    await tx.delete(fullTextPages).where(eq(fullTextPages.jobId, jobId));
+    for (let start = 0; start < pages.length; start += FULL_TEXT_INSERT_BATCH) {
+      await tx.insert(fullTextPages).values(pages.slice(start, start + FULL_TEXT_INSERT_BATCH).map(page => ({ ...page, jobId })));
+    }
+  });
+}
+
+export async function getFullTextPages(jobId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  return db.select().from(fullTextPages)
+    .where(eq(fullTextPages.jobId, jobId))
+    .orderBy(fullTextPages.id);
 }
 
 // Documents
@@ -209,6 +672,124 @@ export async function getDocumentByJobId(jobId: number) {
   return result[0];
 }
 
+type DocumentChildRow<T> = Omit<T, "documentId">;
+type Transaction = Parameters<Parameters<ReturnType<typeof drizzle>["transaction"]>[0]>[0];
+
+/** Rows that belong to one document version, without their documentId. */
+export interface DocumentChildren {
+  authors: DocumentChildRow<InsertAuthor>[];
+  citations: DocumentChildRow<InsertCitation>[];
+  figures: DocumentChildRow<InsertFigure>[];
+  tables: DocumentChildRow<InsertTableData>[];
+  argumentNodes: DocumentChildRow<InsertArgumentNode>[];
+  citationVerifications: DocumentChildRow<InsertCitationVerification>[];
+}
+
+async function insertDocumentWithChildren(tx: Transaction, document: InsertDocument, children: DocumentChildren) {
+  const result = await tx.insert(documents).values(document);
+  const documentId: number = result[0].insertId;
+  const rows = <T>(list: DocumentChildRow<T>[]) => list.map(row => ({ ...row, documentId }) as T);
+  if (children.authors.length) await tx.insert(authors).values(rows<InsertAuthor>(children.authors));
+  if (children.citations.length) await tx.insert(citations).values(rows<InsertCitation>(children.citations));
+  if (children.figures.length) await tx.insert(figures).values(rows<InsertFigure>(children.figures));
+  if (children.tables.length) await tx.insert(tablesData).values(rows<InsertTableData>(children.tables));
+  if (children.argumentNodes.length) await tx.insert(argumentNodes).values(rows<InsertArgumentNode>(children.argumentNodes));
+  if (children.citationVerifications.length) {
+    await tx.insert(citationVerifications).values(rows<InsertCitationVerification>(children.citationVerifications));
+  }
+  return documentId;
+}
+
+/**
+ * Saves a new version of a job's document together with its authors,
+ * citations, figures, tables, argument map and citation checks, in one
+ * transaction, so getDocumentByJobId, which serves the newest version, never
+ * finds a half-copied one. Returns the new document's id.
+ */
+export async function createDocumentVersion(document: InsertDocument, children: DocumentChildren) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return db.transaction(tx => insertDocumentWithChildren(tx, document, children));
+}
+
+/**
+ * Persists a finished generation in one transaction: the document with its
+ * authors, citations, figures, tables, argument map and citation checks, and
+ * the job's completion. Nothing is written unless `workerId` still holds the
+ * job's lease (it may have been cancelled or handed to another worker), and a
+ * document an earlier attempt already saved for the job is kept instead of a
+ * second one being created. Returns the document's id, or null if the lease
+ * was lost.
+ */
+export async function saveGeneratedDocument(
+  jobId: number,
+  workerId: string,
+  data: DocumentChildren & {
+    document: Omit<InsertDocument, "jobId">;
+    scores: { noveltyScore?: number; qualityScore?: number };
+  }
+): Promise<number | null> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return db.transaction(async tx => {
+    // Locks the job so a cancel either lands first (nothing is saved) or waits for the commit.
+    const [job] = await tx.select({ status: generationJobs.status, lockedBy: generationJobs.lockedBy }).from(generationJobs)
+      .where(eq(generationJobs.id, jobId))
+      .for("update");
+    if (!job || job.status !== "processing" || job.lockedBy !== workerId) return null;
+
+    const [existing] = await tx.select({ id: documents.id }).from(documents)
+      .where(eq(documents.jobId, jobId))
+      .orderBy(asc(documents.id))
+      .limit(1);
+    const documentId = existing?.id ?? (await insertDocumentWithChildren(tx, { ...data.document, jobId }, data));
+
+    await tx.update(generationJobs)
+      .set({
+        ...data.scores,
+        status: "completed",
+        completedAt: new Date(),
+        progressPercentage: 100,
+        lockedBy: null,
+        leaseExpiresAt: null,
+      })
+      .where(eq(generationJobs.id, jobId));
+    return documentId;
+  });
+}
+
+export async function updateDocumentContent(id: number, update: Pick<InsertDocument, "content" | "contentFormat"> & { wordCount?: number }) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  await db.update(documents).set(update).where(eq(documents.id, id));
+}
+
+// Exported files kept in storage (see services/docxExport.ts and services/pdfExport.ts)
+export async function updateDocumentFiles(
+  id: number,
+  files: Partial<Pick<InsertDocument, "markdownUrl" | "docxUrl" | "pdfUrl" | "pdfSourceHash" | "latexUrl">>
+) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  // Keeps updatedAt: it orders a job's versions, and exporting is not an edit.
+  await db.update(documents).set({ ...files, updatedAt: sql`${documents.updatedAt}` }).where(eq(documents.id, id));
+}
+
+// Documents whose citations are still baked into the content (see services/documentContent.ts)
+export async function getStyledDocuments(limit: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  return db.select().from(documents)
+    .where(eq(documents.contentFormat, "styled"))
+    .orderBy(asc(documents.id))
+    .limit(limit);
+}
+
 // Authors
 export async function createAuthors(authorsList: InsertAuthor[]) {
   const db = await getDb();
@@ -245,6 +826,93 @@ export async function getDocumentCitations(documentId: number) {
     .orderBy(citations.orderIndex);
 }
 
+export async function getCitationById(id: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  const result = await db.select().from(citations).where(eq(citations.id, id)).limit(1);
+  return result[0];
+}
+
+/** A reference-list rewrite, planned from the document and citations as they stand inside the save. */
+export interface DocumentCitationsPlan {
+  document: Pick<InsertDocument, "content" | "contentFormat" | "wordCount">;
+  rows: Array<Omit<InsertCitation, "documentId"> & { id?: number }>;
+  /** Old key -> new key, or null for works that were removed. */
+  renamedKeys: Map<string, string | null>;
+}
+
+/**
+ * Replaces a document's reference list in one transaction. The document row is
+ * locked and its citations read inside the transaction before `plan` runs, so
+ * concurrent edits apply one after the other instead of overwriting each
+ * other. Rows with an id are updated, the rest inserted, and existing rows not
+ * listed are deleted. The document's claim verifications and argument nodes
+ * follow `renamedKeys`. The literature matrix and full-text pages belong to the
+ * job and are shared by every version of the document, so they keep the keys
+ * the generation gave them. Returns the saved content.
+ */
+export async function saveDocumentCitations(
+  documentId: number,
+  plan: (document: Document, current: Citation[]) => DocumentCitationsPlan
+) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return db.transaction(async tx => {
+    const [document] = await tx.select().from(documents).where(eq(documents.id, documentId)).for("update");
+    if (!document) throw new Error(`Document ${documentId} not found`);
+    const existing = await tx.select().from(citations)
+      .where(eq(citations.documentId, documentId))
+      .orderBy(citations.orderIndex);
+    const { document: values, rows, renamedKeys } = plan(document, existing);
+
+    const kept = new Set(rows.map(row => row.id).filter((id): id is number => id !== undefined));
+    const removed = existing.map(row => row.id).filter(id => !kept.has(id));
+    if (removed.length > 0) {
+      await tx.delete(citations).where(and(eq(citations.documentId, documentId), inArray(citations.id, removed)));
+    }
+
+    for (const { id, ...row } of rows) {
+      if (id === undefined) {
+        await tx.insert(citations).values({ ...row, documentId });
+      } else {
+        await tx.update(citations).set(row).where(and(eq(citations.id, id), eq(citations.documentId, documentId)));
+      }
+    }
+
+    const verifications = await tx
+      .select({ id: citationVerifications.id, citationKey: citationVerifications.citationKey })
+      .from(citationVerifications)
+      .where(eq(citationVerifications.documentId, documentId));
+    for (const verification of verifications) {
+      if (!renamedKeys.has(verification.citationKey)) continue;
+      const next = renamedKeys.get(verification.citationKey);
+      if (next) {
+        await tx.update(citationVerifications).set({ citationKey: next }).where(eq(citationVerifications.id, verification.id));
+      } else {
+        await tx.delete(citationVerifications).where(eq(citationVerifications.id, verification.id));
+      }
+    }
+
+    const nodes = await tx
+      .select({ id: argumentNodes.id, citationKeys: argumentNodes.citationKeys })
+      .from(argumentNodes)
+      .where(eq(argumentNodes.documentId, documentId));
+    for (const node of nodes) {
+      const keys = node.citationKeys ?? [];
+      if (!keys.some(key => renamedKeys.has(key))) continue;
+      const next = keys
+        .map(key => (renamedKeys.has(key) ? renamedKeys.get(key) : key))
+        .filter((key): key is string => Boolean(key));
+      await tx.update(argumentNodes).set({ citationKeys: next }).where(eq(argumentNodes.id, node.id));
+    }
+
+    await tx.update(documents).set(values).where(eq(documents.id, documentId));
+    return values.content;
+  });
+}
+
 // Figures
 export async function createFigures(figuresList: typeof figures.$inferInsert[]) {
   const db = await getDb();
@@ -281,6 +949,42 @@ export async function getDocumentTables(documentId: number) {
     .orderBy(tablesData.positionInDocument);
 }
 
+// Argument map
+export async function createArgumentNodes(nodes: InsertArgumentNode[]) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  if (nodes.length === 0) return;
+  await db.insert(argumentNodes).values(nodes);
+}
+
+export async function getDocumentArgumentNodes(documentId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  return db.select().from(argumentNodes)
+    .where(eq(argumentNodes.documentId, documentId))
+    .orderBy(argumentNodes.orderIndex);
+}
+
+// Citation verification
+export async function createCitationVerifications(verifications: InsertCitationVerification[]) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  if (verifications.length === 0) return;
+  await db.insert(citationVerifications).values(verifications);
+}
+
+export async function getDocumentCitationVerifications(documentId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  return db.select().from(citationVerifications)
+    .where(eq(citationVerifications.documentId, documentId))
+    .orderBy(citationVerifications.orderIndex);
+}
+
 // Revision Requests
 export async function createRevisionRequest(request: InsertRevisionRequest) {
   const db = await getDb();
@@ -381,6 +1085,16 @@ export async function getGenerationStats() {
       .filter(j => j.qualityScore !== null)
       .reduce((sum, j) => sum + (j.qualityScore || 0), 0) / 
       allJobs.filter(j => j.qualityScore !== null).length || 0,
+    
+    // LLM usage totals
+    llmCalls: allJobs.reduce((sum, j) => sum + j.llmCalls, 0),
+    promptTokens: allJobs.reduce((sum, j) => sum + j.promptTokens, 0),
+    completionTokens: allJobs.reduce((sum, j) => sum + j.completionTokens, 0),
+    estimatedCostUsd: allJobs.reduce((sum, j) => sum + j.estimatedCostUsd, 0),
+    avgCostPerCompletedJob: allJobs
+      .filter(j => j.status === "completed")
+      .reduce((sum, j) => sum + j.estimatedCostUsd, 0) /
+      allJobs.filter(j => j.status === "completed").length || 0,
   };
   
   return stats;
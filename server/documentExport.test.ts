@@ -62,5 +62,18 @@ describe("document export", () => {
     expect(result.content).toContain("\\cite{ref1}");
     expect(result.content).toContain("\\begin{thebibliography}");
   });
-});
 
+  it("renders the citation style in markdown and keeps keys for latex, including for styled documents", () => {
+    const citations = [{ id: 1, documentId: 1, doi: null, title: "T", authorsText: "Ann Author", journal: "J", year: 2020, volume: null, issue: null, pages: null, url: null, citationKey: "ref1", csl: null, formattedCitations: {}, orderIndex: 1, createdAt: new Date() }] as any;
+    const canonical = { id: 1, jobId: 1, title: "My Paper", content: "## Intro\n\nHello [ref1].", citationStyle: "APA7", contentFormat: "canonical" } as any;
+
+    const markdown = exportDocument("markdown", canonical, { citations }).content;
+    expect(markdown).toContain("Hello (Author, 2020).");
+    expect(markdown).toMatch(/## References\n\n- Author, A\. \(2020\)/);
+
+    const styled = { ...canonical, contentFormat: "styled", content: markdown };
+    const latex = exportDocument("latex", styled, { citations }).content;
+    expect(latex).toContain("Hello \\cite{ref1}.");
+    expect(latex).not.toContain("\\subsection{References}");
+  });
+});
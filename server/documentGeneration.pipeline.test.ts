@@ -69,43 +69,65 @@ vi.mock("./services/semanticScholar", () => {
       };
       return { foundational: [paper], recent: [paper], highImpact: [paper] };
     }),
-    formatCitation: vi.fn(() => "Citation"),
+    getPaperReferences: vi.fn(async () => []),
+    getPaperCitations: vi.fn(async () => []),
   };
 });
 
 const dbMocks = vi.hoisted(() => ({
   updateGenerationJobProgress: vi.fn(async () => undefined),
-  completeGenerationJob: vi.fn(async () => undefined),
-  createDocument: vi.fn(async () => 123),
-  createAuthors: vi.fn(async () => undefined),
-  createCitations: vi.fn(async () => undefined),
-  createFigures: vi.fn(async () => undefined),
-  createTables: vi.fn(async () => undefined),
+  completeGenerationJob: vi.fn(async () => true),
+  saveGeneratedDocument: vi.fn(async (): Promise<number | null> => 123),
+  saveLiteratureMatrix: vi.fn(async () => undefined),
+  getFullTextPages: vi.fn(async (): Promise<any[]> => []),
+  saveFullTextPages: vi.fn(async () => undefined),
+  getGenerationCheckpoint: vi.fn(async (): Promise<any> => undefined),
+  saveGenerationCheckpoint: vi.fn(async () => undefined),
+  deleteGenerationCheckpoint: vi.fn(async () => undefined),
+  recordLlmUsage: vi.fn(async () => undefined),
 }));
 
 vi.mock("./db", () => {
   return {
     updateGenerationJobProgress: dbMocks.updateGenerationJobProgress,
     completeGenerationJob: dbMocks.completeGenerationJob,
-    createDocument: dbMocks.createDocument,
-    createAuthors: dbMocks.createAuthors,
-    createCitations: dbMocks.createCitations,
-    createFigures: dbMocks.createFigures,
-    createTables: dbMocks.createTables,
+    saveGeneratedDocument: dbMocks.saveGeneratedDocument,
+    saveLiteratureMatrix: dbMocks.saveLiteratureMatrix,
+    getFullTextPages: dbMocks.getFullTextPages,
+    saveFullTextPages: dbMocks.saveFullTextPages,
+    getGenerationCheckpoint: dbMocks.getGenerationCheckpoint,
+    saveGenerationCheckpoint: dbMocks.saveGenerationCheckpoint,
+    deleteGenerationCheckpoint: dbMocks.deleteGenerationCheckpoint,
+    recordLlmUsage: dbMocks.recordLlmUsage,
   };
 });
 
 import { generateDocument } from "./services/documentGeneration";
+import * as semanticScholar from "./services/semanticScholar";
+
+const WORKER_ID = "test-worker";
+
+/** The rows the last run passed to saveGeneratedDocument. */
+const savedRows = () => (dbMocks.saveGeneratedDocument.mock.calls.at(-1) as any[])[2];
 
 describe("document generation pipeline", () => {
   beforeEach(() => {
+    vi.stubEnv("LITERATURE_PROVIDERS", "semanticScholar");
+    vi.stubEnv("DOI_VALIDATION", "off");
     dbMocks.updateGenerationJobProgress.mockClear();
     dbMocks.completeGenerationJob.mockClear();
-    dbMocks.createDocument.mockClear();
-    dbMocks.createAuthors.mockClear();
-    dbMocks.createCitations.mockClear();
-    dbMocks.createFigures.mockClear();
-    dbMocks.createTables.mockClear();
+    dbMocks.saveGeneratedDocument.mockClear();
+    dbMocks.saveLiteratureMatrix.mockClear();
+    dbMocks.getFullTextPages.mockClear();
+    dbMocks.saveFullTextPages.mockClear();
+    dbMocks.getGenerationCheckpoint.mockClear();
+    dbMocks.saveGenerationCheckpoint.mockClear();
+    dbMocks.deleteGenerationCheckpoint.mockClear();
+    dbMocks.recordLlmUsage.mockClear();
+    llmMocks.invokeLLM.mockClear();
+    vi.mocked(semanticScholar.extractKeyPapers).mockClear();
+    vi.mocked(semanticScholar.getPaperReferences).mockClear();
+    vi.mocked(semanticScholar.getPaperCitations).mockClear();
   });
 
   it("runs all stages and completes the job", async () => {
@@ -133,19 +155,690 @@ describe("document generation pipeline", () => {
           isCorresponding: true,
         },
       ],
-    });
+    }, { workerId: WORKER_ID });
 
     expect(dbMocks.updateGenerationJobProgress).toHaveBeenCalled();
     const progressCalls = dbMocks.updateGenerationJobProgress.mock.calls.map(args => args[1]);
     expect(progressCalls.some((c: any) => c?.progressPercentage === 100)).toBe(false);
-    expect(dbMocks.createDocument).toHaveBeenCalled();
-    expect(dbMocks.createAuthors).toHaveBeenCalled();
-    expect(dbMocks.createCitations).toHaveBeenCalled();
-    expect(dbMocks.createFigures).toHaveBeenCalled();
-    expect(dbMocks.createTables).toHaveBeenCalled();
-    expect(dbMocks.completeGenerationJob).toHaveBeenCalledWith(
-      1,
-      expect.objectContaining({ status: "completed" })
+    expect(dbMocks.saveGeneratedDocument).toHaveBeenCalledTimes(1);
+    const rows = savedRows();
+    expect(rows.document).toMatchObject({ title: "Test Title", contentFormat: "canonical" });
+    expect(rows.authors).toEqual([expect.objectContaining({ name: "Dev User", isCorresponding: 1, orderIndex: 1 })]);
+    expect(rows.citations.length).toBeGreaterThan(0);
+    expect(rows.figures).toEqual([]);
+    expect(rows.tables).toEqual([]);
+    expect(dbMocks.saveGeneratedDocument).toHaveBeenCalledWith(1, WORKER_ID, expect.objectContaining({ scores: expect.any(Object) }));
+    expect(dbMocks.completeGenerationJob).not.toHaveBeenCalled();
+  });
+
+  it("checkpoints each phase and resumes from the failed phase", async () => {
+    const paper = {
+      paperId: "p1",
+      title: "Sample Paper",
+      year: 2021,
+      authors: [{ authorId: "a1", name: "A. Author" }],
+      venue: "Venue",
+    };
+    dbMocks.getGenerationCheckpoint.mockResolvedValueOnce({
+      id: 1,
+      jobId: 2,
+      completedPhases: ["Literature Review", "Full-Text Retrieval", "Novelty Assessment", "Argument Architecture", "Section Writing"],
+      context: {
+        literature: [paper],
+        outline: "# Saved outline",
+        sections: { Abstract: "Saved abstract [ref1]", Introduction: "Saved intro" },
+        citations: [{ paper, citationKey: "ref1" }],
+        figurePlans: [],
+        tablePlans: [],
+        noveltyScore: 0.9,
+      },
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+
+    await generateDocument({
+      jobId: 2,
+      documentType: "journal_article",
+      title: "Resumed Title",
+      researchDomain: "Computer Science",
+      targetWordCount: 1200,
+      numFigures: 0,
+      numTables: 0,
+      numReferences: 1,
+      citationStyle: "APA7",
+      authors: [{ name: "Dev User", affiliation: "Lab", isCorresponding: true }],
+    }, { workerId: WORKER_ID });
+
+    expect(semanticScholar.extractKeyPapers).not.toHaveBeenCalled();
+    const prompts = llmMocks.invokeLLM.mock.calls.map(([p]: any[]) => String(p?.messages?.[0]?.content ?? ""));
+    expect(prompts.some(p => p.includes("Write ONLY the body text"))).toBe(false);
+
+    const saved = savedRows().document;
+    expect(saved.abstract).toBe("Saved abstract [ref1]");
+    expect(saved.noveltyScore).toBe(0.9);
+
+    const savedPhases = dbMocks.saveGenerationCheckpoint.mock.calls.map(([, data]: any[]) => data.completedPhases.at(-1));
+    expect(savedPhases).toEqual(["Citation Verification", "Figure Generation", "Internal Review"]);
+    expect(dbMocks.deleteGenerationCheckpoint).toHaveBeenCalledWith(2);
+    expect(dbMocks.saveGeneratedDocument).toHaveBeenCalledWith(2, WORKER_ID, expect.anything());
+  });
+
+  it("stops without writing a document when aborted mid-call", async () => {
+    const controller = new AbortController();
+    llmMocks.invokeLLM.mockImplementationOnce(async (params: any) => {
+      controller.abort(new Error("Cancelled by user"));
+      throw params.signal.reason;
+    });
+
+    await generateDocument(
+      {
+        jobId: 3,
+        documentType: "journal_article",
+        title: "Cancelled Title",
+        researchDomain: "Computer Science",
+        targetWordCount: 1200,
+        numReferences: 1,
+        citationStyle: "APA7",
+        authors: [{ name: "Dev User", affiliation: "Lab", isCorresponding: true }],
+      },
+      { signal: controller.signal, workerId: WORKER_ID }
     );
+
+    // The first LLM call is query expansion, before any search runs.
+    expect(llmMocks.invokeLLM.mock.calls[0][0].response_format.json_schema.name).toBe("literature_queries");
+    expect(llmMocks.invokeLLM).toHaveBeenCalledTimes(1);
+    expect(semanticScholar.extractKeyPapers).not.toHaveBeenCalled();
+    expect(dbMocks.saveGeneratedDocument).not.toHaveBeenCalled();
+    expect(dbMocks.completeGenerationJob).not.toHaveBeenCalled();
+    expect(dbMocks.deleteGenerationCheckpoint).not.toHaveBeenCalled();
+  });
+
+  it("leaves the status and checkpoint to whoever took the job while it was being assembled", async () => {
+    dbMocks.saveGeneratedDocument.mockResolvedValueOnce(null);
+
+    await generateDocument({
+      jobId: 4,
+      documentType: "journal_article",
+      title: "Test Title",
+      researchDomain: "Computer Science",
+      targetWordCount: 1200,
+      numReferences: 1,
+      citationStyle: "APA7",
+      authors: [{ name: "Dev User", affiliation: "Lab", isCorresponding: true }],
+    }, { workerId: WORKER_ID });
+
+    expect(dbMocks.saveGeneratedDocument).toHaveBeenCalledWith(4, WORKER_ID, expect.anything());
+    expect(dbMocks.completeGenerationJob).not.toHaveBeenCalled();
+    // The worker that took the job over resumes from the checkpoint.
+    expect(dbMocks.deleteGenerationCheckpoint).not.toHaveBeenCalled();
+  });
+
+  it("shapes the document with the pipeline registered for its type", async () => {
+    await generateDocument({
+      jobId: 4,
+      documentType: "grant_proposal",
+      title: "Grant Title",
+      researchDomain: "Biology",
+      targetWordCount: 1200,
+      numReferences: 1,
+      citationStyle: "APA7",
+      abstractProvided: "Provided summary",
+      authors: [{ name: "Dev User", affiliation: "Lab", isCorresponding: true }],
+    }, { workerId: WORKER_ID });
+
+    const saved = savedRows().document;
+    const headings = String(saved.content).match(/^## .+$/gm);
+    expect(headings?.slice(0, 6)).toEqual([
+      "## Project Summary",
+      "## Specific Aims",
+      "## Significance",
+      "## Innovation",
+      "## Approach",
+      "## Timeline and Milestones",
+    ]);
+    expect(saved.abstract).toContain("OK: Write ONLY the body");
+
+    const prompts = llmMocks.invokeLLM.mock.calls.map(([p]: any[]) => String(p?.messages?.[0]?.content ?? ""));
+    expect(prompts.some(p => p.includes("Create a detailed outline for a grant proposal"))).toBe(true);
+    expect(prompts.some(p => p.includes('"Methodology" section'))).toBe(false);
+  });
+
+  it("skips phases a document type does not register", async () => {
+    await generateDocument({
+      jobId: 5,
+      documentType: "technical_report",
+      title: "Report Title",
+      researchDomain: "Engineering",
+      targetWordCount: 1200,
+      numReferences: 1,
+      citationStyle: "APA7",
+      authors: [{ name: "Dev User", affiliation: "Lab", isCorresponding: true }],
+    }, { workerId: WORKER_ID });
+
+    const phases = dbMocks.updateGenerationJobProgress.mock.calls.map(([, data]: any[]) => data.currentPhase);
+    expect(phases).not.toContain("Novelty Assessment");
+    const schemas = llmMocks.invokeLLM.mock.calls.map(([p]: any[]) => p?.response_format?.json_schema?.name);
+    expect(schemas).not.toContain("novelty_assessment");
+
+    const saved = savedRows().document;
+    expect(saved.content).toMatch(/^## Executive Summary/);
+    expect(saved.noveltyClassification).toBeNull();
+  });
+
+  it("drafts sections concurrently up to the configured limit", async () => {
+    process.env.GENERATION_SECTION_CONCURRENCY = "2";
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const defaultImpl = llmMocks.invokeLLM.getMockImplementation()!;
+    llmMocks.invokeLLM.mockImplementation(async (params: any) => {
+      const prompt = String(params?.messages?.[0]?.content ?? "");
+      if (!prompt.startsWith("Write ONLY the body text")) return defaultImpl(params);
+      inFlight += 1;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      inFlight -= 1;
+      return defaultImpl(params);
+    });
+
+    try {
+      await generateDocument({
+        jobId: 6,
+        documentType: "journal_article",
+        title: "Parallel Title",
+        researchDomain: "Computer Science",
+        targetWordCount: 1200,
+        numReferences: 1,
+        citationStyle: "APA7",
+        authors: [{ name: "Dev User", affiliation: "Lab", isCorresponding: true }],
+      }, { workerId: WORKER_ID });
+    } finally {
+      delete process.env.GENERATION_SECTION_CONCURRENCY;
+      llmMocks.invokeLLM.mockImplementation(defaultImpl);
+    }
+
+    expect(maxInFlight).toBe(2);
+    const sectionProgress = dbMocks.updateGenerationJobProgress.mock.calls
+      .map(([, data]: any[]) => data)
+      .filter((data: any) => data.currentPhase === "Section Writing")
+      .map((data: any) => data.progressPercentage);
+    // Phase start, then one update per completed section (7 sections over a 35% span).
+    expect(sectionProgress).toEqual([40, 45, 50, 55, 60, 65, 70, 75]);
+
+    const saved = savedRows().document;
+    const headings = String(saved.content).match(/^## .+$/gm);
+    expect(headings?.slice(0, 7)).toEqual([
+      "## Abstract",
+      "## Introduction",
+      "## Literature Review",
+      "## Methodology",
+      "## Results",
+      "## Discussion",
+      "## Conclusion",
+    ]);
+  });
+
+  it("drafts long documents subsection by subsection from a structured outline", async () => {
+    const defaultImpl = llmMocks.invokeLLM.getMockImplementation()!;
+    llmMocks.invokeLLM.mockImplementation(async (params: any) => {
+      if (params?.response_format?.json_schema?.name !== "document_outline") return defaultImpl(params);
+      const outline = {
+        sections: [
+          { title: "Abstract", wordBudget: 1, subsections: [] },
+          {
+            title: "Chapter 3: Methodology",
+            wordBudget: 6,
+            subsections: [
+              { title: "Research Design", wordBudget: 2, claims: ["A mixed-methods design fits the questions"] },
+              { title: "Data Collection", wordBudget: 1, claims: [] },
+              { title: "Analysis", wordBudget: 1, claims: [] },
+            ],
+          },
+        ],
+      };
+      return {
+        id: "x",
+        created: Date.now(),
+        model: "mock",
+        choices: [{ index: 0, message: { role: "assistant", content: JSON.stringify(outline) }, finish_reason: "stop" }],
+      };
+    });
+
+    try {
+      await generateDocument({
+        jobId: 7,
+        documentType: "thesis",
+        title: "Long Thesis",
+        researchDomain: "Education",
+        targetWordCount: 20000,
+        numReferences: 1,
+        citationStyle: "APA7",
+        authors: [{ name: "Dev User", affiliation: "Lab", isCorresponding: true }],
+      }, { workerId: WORKER_ID });
+    } finally {
+      llmMocks.invokeLLM.mockImplementation(defaultImpl);
+    }
+
+    const prompts = llmMocks.invokeLLM.mock.calls.map(([p]: any[]) => String(p?.messages?.[0]?.content ?? ""));
+    const drafting = prompts.filter(p => p.startsWith("Write ONLY the body text"));
+    // No single call drafts more than a subsection's worth of words.
+    const targets = drafting.map(p => Number(p.match(/Target word count for this \w+: ~(\d+) words/)?.[1]));
+    expect(targets.every(n => n > 0 && n <= 900)).toBe(true);
+
+    // Methodology gets 6/12 of 20,000 words, split 2:1:1, so Research Design is drafted in six parts.
+    const design = drafting.filter(p => p.includes('of the "Research Design" subsection of the "Chapter 3: Methodology" section'));
+    expect(design).toHaveLength(6);
+    expect(design[0]).toContain("part 1 of 6");
+    expect(design[0]).toContain("- A mixed-methods design fits the questions");
+    expect(design[0]).toContain("- Data Collection");
+    // Chapters the model gave no subsections are split too.
+    expect(drafting.filter(p => p.includes('of the "Chapter 1: Introduction" section')).length).toBeGreaterThan(1);
+
+    const saved = savedRows().document;
+    const methodology = String(saved.content).split("## Chapter 3: Methodology")[1]?.split("\n## ")[0] ?? "";
+    expect(methodology.match(/^### .+$/gm)).toEqual(["### Research Design", "### Data Collection", "### Analysis"]);
+
+    const checkpoint = dbMocks.saveGenerationCheckpoint.mock.calls
+      .map(([, data]: any[]) => data)
+      .find((data: any) => data.completedPhases.at(-1) === "Argument Architecture");
+    const budgets = checkpoint.context.structuredOutline.map((section: any) => section.wordBudget);
+    expect(budgets.reduce((sum: number, n: number) => sum + n, 0)).toBeCloseTo(20000, -1);
+  });
+
+  it("persists a validated argument map and feeds it to section drafting", async () => {
+    const defaultImpl = llmMocks.invokeLLM.getMockImplementation()!;
+    llmMocks.invokeLLM.mockImplementation(async (params: any) => {
+      if (params?.response_format?.json_schema?.name !== "document_outline") return defaultImpl(params);
+      const outline = {
+        sections: [],
+        argumentMap: [
+          { key: "RQ1", type: "research_question", text: "Does X improve Y?", parentKey: "", citationKeys: [], section: "" },
+          { key: "C1", type: "claim", text: "X improves Y", parentKey: "RQ1", citationKeys: [], section: "Results" },
+          { key: "E1", type: "evidence", text: "Prior trial", parentKey: "C1", citationKeys: ["ref1", "[ref9]"], section: "results" },
+          { key: "C1", type: "claim", text: "Duplicate key", parentKey: "Z9", citationKeys: [], section: "Nowhere" },
+          { key: "Q1", type: "opinion", text: "Unknown type", parentKey: "", citationKeys: [], section: "" },
+        ],
+      };
+      return {
+        id: "x",
+        created: Date.now(),
+        model: "mock",
+        choices: [{ index: 0, message: { role: "assistant", content: JSON.stringify(outline) }, finish_reason: "stop" }],
+      };
+    });
+
+    try {
+      await generateDocument({
+        jobId: 8,
+        documentType: "journal_article",
+        title: "Argued Title",
+        researchDomain: "Medicine",
+        targetWordCount: 1200,
+        numReferences: 1,
+        citationStyle: "APA7",
+        authors: [{ name: "Dev User", affiliation: "Lab", isCorresponding: true }],
+      }, { workerId: WORKER_ID });
+    } finally {
+      llmMocks.invokeLLM.mockImplementation(defaultImpl);
+    }
+
+    expect(savedRows().argumentNodes).toEqual([
+      { nodeKey: "RQ1", nodeType: "research_question", content: "Does X improve Y?", parentKey: null, citationKeys: [], sectionTitle: null, orderIndex: 1 },
+      { nodeKey: "C1", nodeType: "claim", content: "X improves Y", parentKey: "RQ1", citationKeys: [], sectionTitle: "Results", orderIndex: 2 },
+      { nodeKey: "E1", nodeType: "evidence", content: "Prior trial", parentKey: "C1", citationKeys: ["ref1"], sectionTitle: "Results", orderIndex: 3 },
+      { nodeKey: "C2", nodeType: "claim", content: "Duplicate key", parentKey: null, citationKeys: [], sectionTitle: null, orderIndex: 4 },
+    ]);
+
+    const prompts = llmMocks.invokeLLM.mock.calls.map(([p]: any[]) => String(p?.messages?.[0]?.content ?? ""));
+    const results = prompts.find(p => p.startsWith('Write ONLY the body text for the "Results" section'));
+    expect(results).toContain("- E1 (evidence -> C1): Prior trial [ref1]");
+    const intro = prompts.find(p => p.startsWith('Write ONLY the body text for the "Introduction" section'));
+    expect(intro).not.toContain("Argument map for this section");
+  });
+
+  it("cites imported seed references first and drops search results that duplicate them, without padding", async () => {
+    await generateDocument({
+      jobId: 10,
+      documentType: "journal_article",
+      title: "Seeded Title",
+      researchDomain: "Computer Science",
+      targetWordCount: 1200,
+      numReferences: 3,
+      citationStyle: "APA7",
+      authors: [{ name: "Dev User", affiliation: "Lab", isCorresponding: true }],
+      seedReferences: [
+        {
+          id: "smith2020",
+          type: "article-journal",
+          title: "Imported Study",
+          author: [{ family: "Smith", given: "Jane" }],
+          issued: { "date-parts": [[2020]] },
+          volume: "7",
+          page: "1-9",
+        },
+        { id: "dup", type: "article-journal", title: "Sample paper", DOI: "10.0000/TEST" },
+      ],
+      seedReferenceMode: "merge",
+    }, { workerId: WORKER_ID });
+
+    expect(semanticScholar.extractKeyPapers).toHaveBeenCalled();
+    const rows: any[] = savedRows().citations;
+    expect(rows.map(row => row.title)).toEqual(["Imported Study", "Sample paper"]);
+    expect(rows[0]).toMatchObject({ authorsText: "Jane Smith", year: 2020, volume: "7", pages: "1-9" });
+  });
+
+  it("uses only the imported references in replace mode", async () => {
+    await generateDocument({
+      jobId: 11,
+      documentType: "journal_article",
+      title: "Replaced Title",
+      researchDomain: "Computer Science",
+      targetWordCount: 1200,
+      numReferences: 5,
+      citationStyle: "APA7",
+      authors: [{ name: "Dev User", affiliation: "Lab", isCorresponding: true }],
+      seedReferences: [{ id: "only", type: "book", title: "The Only Book" }],
+      seedReferenceMode: "replace",
+    }, { workerId: WORKER_ID });
+
+    expect(semanticScholar.extractKeyPapers).not.toHaveBeenCalled();
+    const rows: any[] = savedRows().citations;
+    expect(rows.map(row => row.title)).toEqual(["The Only Book"]);
+  });
+
+  it("skips query expansion, search and snowballing when no further references are needed", async () => {
+    await generateDocument({
+      jobId: 12,
+      documentType: "journal_article",
+      title: "Uncited Title",
+      researchDomain: "Computer Science",
+      targetWordCount: 1200,
+      numReferences: 0,
+      citationStyle: "APA7",
+      authors: [{ name: "Dev User", affiliation: "Lab", isCorresponding: true }],
+    }, { workerId: WORKER_ID });
+
+    const schemas = llmMocks.invokeLLM.mock.calls.map(([params]: any[]) => params?.response_format?.json_schema?.name);
+    expect(schemas).not.toContain("literature_queries");
+    expect(semanticScholar.extractKeyPapers).not.toHaveBeenCalled();
+    expect(semanticScholar.getPaperReferences).not.toHaveBeenCalled();
+    expect(savedRows().citations).toEqual([]);
+  });
+
+  it("searches with expanded queries, ranks the merged results by relevance and records the finding queries", async () => {
+    const paper = (paperId: string, title: string) => ({ paperId, title, year: 2020, authors: [{ authorId: paperId, name: "B. Author" }] });
+    const byQuery: Record<string, any[]> = {
+      "Computer Science": [paper("cs1", "Databases at Scale"), paper("cs2", "Contrastive Learning of Protein Embeddings")],
+      "protein embeddings contrastive learning": [paper("cs2", "Contrastive Learning of Protein Embeddings")],
+    };
+    const defaultSearch = vi.mocked(semanticScholar.extractKeyPapers).getMockImplementation()!;
+    vi.mocked(semanticScholar.extractKeyPapers).mockImplementation(async (query: string) => ({
+      foundational: byQuery[query] ?? [],
+      recent: [],
+      highImpact: [],
+    }));
+    const defaultImpl = llmMocks.invokeLLM.getMockImplementation()!;
+    llmMocks.invokeLLM.mockImplementation(async (params: any) => {
+      if (params?.response_format?.json_schema?.name === "literature_queries") {
+        return {
+          id: "x",
+          created: Date.now(),
+          model: "mock",
+          choices: [{ index: 0, message: { role: "assistant", content: JSON.stringify({ queries: ["protein embeddings contrastive learning"] }) }, finish_reason: "stop" }],
+        };
+      }
+      return defaultImpl(params);
+    });
+
+    try {
+      await generateDocument({
+        jobId: 13,
+        documentType: "journal_article",
+        title: "Contrastive Protein Embeddings",
+        researchDomain: "Computer Science",
+        targetWordCount: 1200,
+        numReferences: 2,
+        citationStyle: "APA7",
+        keyHypotheses: ["Contrastive pretraining improves protein function prediction"],
+        authors: [{ name: "Dev User", affiliation: "Lab", isCorresponding: true }],
+      }, { workerId: WORKER_ID });
+    } finally {
+      llmMocks.invokeLLM.mockImplementation(defaultImpl);
+      vi.mocked(semanticScholar.extractKeyPapers).mockImplementation(defaultSearch);
+    }
+
+    const prompt = String((llmMocks.invokeLLM.mock.calls[0] as any[])[0].messages[0].content);
+    expect(prompt).toContain("Contrastive pretraining improves protein function prediction");
+    expect(vi.mocked(semanticScholar.extractKeyPapers).mock.calls.map(([query]) => query)).toEqual([
+      "Computer Science",
+      "protein embeddings contrastive learning",
+    ]);
+    const rows: any[] = savedRows().citations;
+    expect(rows.map(row => [row.title, row.searchQueries])).toEqual([
+      ["Contrastive Learning of Protein Embeddings", ["Computer Science", "protein embeddings contrastive learning"]],
+      ["Databases at Scale", ["Computer Science"]],
+    ]);
+  });
+
+  it("adds papers reached by snowballing the citation graph and keeps the graph in the checkpoint", async () => {
+    vi.mocked(semanticScholar.getPaperReferences).mockResolvedValueOnce([
+      { paperId: "seminal", title: "Sample Methods in Computer Science", year: 1999, authors: [{ authorId: "s", name: "S. Eminal" }] },
+    ]);
+
+    await generateDocument({
+      jobId: 14,
+      documentType: "journal_article",
+      title: "Sample Title",
+      researchDomain: "Computer Science",
+      targetWordCount: 1200,
+      numReferences: 2,
+      citationStyle: "APA7",
+      authors: [{ name: "Dev User", affiliation: "Lab", isCorresponding: true }],
+    }, { workerId: WORKER_ID });
+
+    expect(semanticScholar.getPaperReferences).toHaveBeenCalledWith("p1", 10, { signal: undefined });
+    const rows: any[] = savedRows().citations;
+    expect(rows.map(row => [row.title, row.searchQueries])).toEqual([
+      ["Sample Methods in Computer Science", ['cited by "Sample Paper"']],
+      ["Sample Paper", ["Computer Science", "sample title"]],
+    ]);
+    const checkpoint = dbMocks.saveGenerationCheckpoint.mock.calls
+      .map(([, data]: any[]) => data)
+      .find((data: any) => data.completedPhases.at(-1) === "Literature Review");
+    expect(checkpoint.context.citationGraph).toEqual([{ citing: "p1", cited: "seminal" }]);
+  });
+
+  it("verifies cited sentences against the cited abstract and stores the verdicts", async () => {
+    const paper = {
+      paperId: "p9",
+      title: "Attention Is All You Need",
+      abstract: "We propose the Transformer, based solely on attention mechanisms.",
+      year: 2017,
+      authors: [{ authorId: "a9", name: "A. Vaswani" }],
+    };
+    vi.mocked(semanticScholar.extractKeyPapers).mockResolvedValueOnce({
+      foundational: [paper],
+      recent: [],
+      highImpact: [],
+    });
+    const defaultImpl = llmMocks.invokeLLM.getMockImplementation()!;
+    llmMocks.invokeLLM.mockImplementation(async (params: any) => {
+      const prompt = String(params?.messages?.[0]?.content ?? "");
+      const reply = (content: string) => ({
+        id: "x",
+        created: Date.now(),
+        model: "mock",
+        choices: [{ index: 0, message: { role: "assistant", content }, finish_reason: "stop" }],
+      });
+      if (params?.response_format?.json_schema?.name === "citation_verification") {
+        return reply(JSON.stringify({
+          results: [{ index: 1, verdict: "supported", rationale: "The abstract introduces the Transformer." }],
+        }));
+      }
+      if (prompt.startsWith("Write ONLY the body text") && prompt.includes('"Introduction" section')) {
+        return reply("The Transformer relies only on attention [ref1]. Our setting is new.");
+      }
+      return defaultImpl(params);
+    });
+
+    try {
+      await generateDocument({
+        jobId: 12,
+        documentType: "journal_article",
+        title: "Attention in Sequence Models",
+        researchDomain: "Computer Science",
+        targetWordCount: 1200,
+        numReferences: 1,
+        citationStyle: "APA7",
+        authors: [{ name: "Dev User", affiliation: "Lab", isCorresponding: true }],
+      }, { workerId: WORKER_ID });
+    } finally {
+      llmMocks.invokeLLM.mockImplementation(defaultImpl);
+    }
+
+    const verificationCalls = llmMocks.invokeLLM.mock.calls.filter(
+      ([params]: any[]) => params?.response_format?.json_schema?.name === "citation_verification"
+    );
+    expect(verificationCalls).toHaveLength(1);
+    expect(String((verificationCalls[0] as any[])[0].messages[0].content)).toContain("based solely on attention mechanisms");
+    expect(savedRows().citationVerifications).toEqual([
+      {
+        citationKey: "ref1",
+        sectionTitle: "Introduction",
+        claim: "The Transformer relies only on attention.",
+        verdict: "supported",
+        rationale: "The abstract introduces the Transformer.",
+        evidence: null,
+        evidencePage: null,
+        orderIndex: 1,
+      },
+    ]);
+  });
+
+  it("matches uploaded PDFs to references and grounds drafting and verification in their pages", async () => {
+    const paper = {
+      paperId: "p9",
+      title: "Attention Is All You Need",
+      year: 2017,
+      authors: [{ authorId: "a9", name: "A. Vaswani" }],
+    };
+    vi.mocked(semanticScholar.extractKeyPapers).mockResolvedValueOnce({
+      foundational: [paper],
+      recent: [],
+      highImpact: [],
+    });
+    const page = (citationKey: string | null, number: number, content: string) => ({
+      id: number,
+      jobId: 13,
+      source: "upload" as const,
+      origin: "vaswani.pdf",
+      citationKey,
+      page: number,
+      content,
+      createdAt: new Date(),
+    });
+    const uploaded = [
+      page(null, 1, "Attention Is All You Need. Ashish Vaswani, Google Brain."),
+      page(null, 3, "The Transformer relies only on attention and dispenses with recurrence entirely."),
+    ];
+    dbMocks.getFullTextPages
+      .mockResolvedValueOnce(uploaded)
+      .mockResolvedValue(uploaded.map(row => ({ ...row, citationKey: "ref1" })));
+    const defaultImpl = llmMocks.invokeLLM.getMockImplementation()!;
+    llmMocks.invokeLLM.mockImplementation(async (params: any) => {
+      const prompt = String(params?.messages?.[0]?.content ?? "");
+      const reply = (content: string) => ({
+        id: "x",
+        created: Date.now(),
+        model: "mock",
+        choices: [{ index: 0, message: { role: "assistant", content }, finish_reason: "stop" }],
+      });
+      if (params?.response_format?.json_schema?.name === "citation_verification") {
+        const excerpt = Number(prompt.match(/\[(\d+)\] \(p\. 3\)/)?.[1]);
+        return reply(JSON.stringify({
+          results: [{ index: 1, verdict: "supported", rationale: "Stated on page 3.", excerpt, quote: "relies only on attention" }],
+        }));
+      }
+      if (prompt.startsWith("Write ONLY the body text") && prompt.includes('"Introduction" section')) {
+        return reply("The Transformer relies only on attention [ref1].");
+      }
+      return defaultImpl(params);
+    });
+
+    try {
+      await generateDocument({
+        jobId: 13,
+        documentType: "journal_article",
+        title: "Attention in Sequence Models",
+        researchDomain: "Computer Science",
+        targetWordCount: 1200,
+        numReferences: 1,
+        citationStyle: "APA7",
+        authors: [{ name: "Dev User", affiliation: "Lab", isCorresponding: true }],
+      }, { workerId: WORKER_ID });
+    } finally {
+      llmMocks.invokeLLM.mockImplementation(defaultImpl);
+      dbMocks.getFullTextPages.mockResolvedValue([]);
+    }
+
+    const [jobId, saved] = dbMocks.saveFullTextPages.mock.calls[0] as unknown as [number, any[]];
+    expect(jobId).toBe(13);
+    expect(saved.map(row => [row.source, row.origin, row.citationKey, row.page])).toEqual([
+      ["upload", "vaswani.pdf", "ref1", 1],
+      ["upload", "vaswani.pdf", "ref1", 3],
+    ]);
+    const introduction = llmMocks.invokeLLM.mock.calls
+      .map(([params]: any[]) => String(params?.messages?.[0]?.content ?? ""))
+      .find(prompt => prompt.startsWith("Write ONLY the body text") && prompt.includes('"Introduction" section'));
+    expect(introduction).toContain('[ref1, p. 3] "The Transformer relies only on attention');
+    expect(savedRows().citationVerifications).toEqual([
+      expect.objectContaining({ citationKey: "ref1", verdict: "supported", evidence: "relies only on attention", evidencePage: 3 }),
+    ]);
+  });
+
+  it("records token usage per call, tagged with job and phase, before completing the job", async () => {
+    const defaultImpl = llmMocks.invokeLLM.getMockImplementation()!;
+    llmMocks.invokeLLM.mockImplementation(async (params: any) => {
+      params?.onUsage?.({
+        model: "gpt-4o-mini",
+        promptTokens: 1000,
+        completionTokens: 500,
+        totalTokens: 1500,
+        latencyMs: 42,
+      });
+      return defaultImpl(params);
+    });
+
+    try {
+      await generateDocument({
+        jobId: 9,
+        documentType: "journal_article",
+        title: "Metered Title",
+        researchDomain: "Computer Science",
+        targetWordCount: 1200,
+        numReferences: 1,
+        citationStyle: "APA7",
+        authors: [{ name: "Dev User", affiliation: "Lab", isCorresponding: true }],
+      }, { workerId: WORKER_ID });
+    } finally {
+      llmMocks.invokeLLM.mockImplementation(defaultImpl);
+    }
+
+    expect(dbMocks.recordLlmUsage).toHaveBeenCalledTimes(llmMocks.invokeLLM.mock.calls.length);
+    expect(dbMocks.recordLlmUsage).toHaveBeenCalledWith({
+      jobId: 9,
+      phase: "Novelty Assessment",
+      model: "gpt-4o-mini",
+      promptTokens: 1000,
+      completionTokens: 500,
+      latencyMs: 42,
+      estimatedCostUsd: expect.closeTo(0.00045, 8),
+    });
+    const phases = new Set(dbMocks.recordLlmUsage.mock.calls.map(([entry]: any[]) => entry.phase));
+    expect(phases).toEqual(
+      new Set(["Literature Review", "Novelty Assessment", "Argument Architecture", "Section Writing", "Internal Review"])
+    );
+
+    const lastRecorded = Math.max(...dbMocks.recordLlmUsage.mock.invocationCallOrder);
+    expect(lastRecorded).toBeLessThan(dbMocks.saveGeneratedDocument.mock.invocationCallOrder[0]);
   });
 });
@@ -0,0 +1,123 @@
+import { inflateRawSync } from "node:zlib";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { exportDocx } from "./services/docxExport";
+import { imageDimensions } from "./services/exportContent";
+
+// 1x1 transparent PNG
+const PNG_DATA_URL =
+  "data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==";
+
+/** Reads one entry of a zip archive through its central directory. */
+function readZipEntry(zip: Buffer, name: string): string {
+  const end = zip.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+  let offset = zip.readUInt32LE(end + 16);
+  for (let i = 0; i < zip.readUInt16LE(end + 10); i++) {
+    const nameLength = zip.readUInt16LE(offset + 28);
+    const entryName = zip.toString("utf8", offset + 46, offset + 46 + nameLength);
+    if (entryName === name) {
+      const method = zip.readUInt16LE(offset + 10);
+      const size = zip.readUInt32LE(offset + 20);
+      const local = zip.readUInt32LE(offset + 42);
+      const start = local + 30 + zip.readUInt16LE(local + 26) + zip.readUInt16LE(local + 28);
+      const data = zip.subarray(start, start + size);
+      return (method === 8 ? inflateRawSync(data) : data).toString("utf8");
+    }
+    offset += 46 + nameLength + zip.readUInt16LE(offset + 30) + zip.readUInt16LE(offset + 32);
+  }
+  throw new Error(`${name} not in archive`);
+}
+
+const document = {
+  id: 1,
+  jobId: 1,
+  title: "Quartic Oscillators",
+  abstract: "We study oscillators.",
+  content: [
+    "## Introduction",
+    "",
+    "Oscillators matter [ref1]. The energy is $E=mc^2$ in *this* case.",
+    "",
+    "1. First step",
+    "2. Second step",
+    "",
+    "$$",
+    "V(x)=\\frac{k}{4}x^{4}. \\tag{1}",
+    "$$",
+    "",
+    "## Figures",
+    "",
+    "### Figure 1. Phase portrait",
+    "_Type:_ plot",
+    "",
+    "## Tables",
+    "",
+    "### Table 1. Parameters",
+    "",
+    "| Name | Value |",
+    "| --- | --- |",
+    "| k | 1 |",
+  ].join("\n"),
+  contentFormat: "canonical",
+  citationStyle: "APA7",
+} as any;
+
+const citations = [
+  { id: 1, documentId: 1, doi: null, title: "Nonlinear Oscillations", authorsText: "Ann Author", journal: "Physics Letters", year: 2020, volume: null, issue: null, pages: null, url: null, citationKey: "ref1", csl: null, formattedCitations: {}, orderIndex: 1, createdAt: new Date() },
+] as any;
+
+const authors = [
+  { id: 1, documentId: 1, name: "Ada Lovelace", affiliation: "Analytical Engine Lab", email: "ada@example.org", orcid: null, isCorresponding: 1, orderIndex: 1, createdAt: new Date() },
+  { id: 2, documentId: 1, name: "Charles Babbage", affiliation: "Analytical Engine Lab", email: null, orcid: null, isCorresponding: 0, orderIndex: 2, createdAt: new Date() },
+] as any;
+
+const figure = (imageUrl: string) =>
+  ({ id: 1, documentId: 1, figureNumber: "Figure 1", figureType: "plot", caption: "Phase portrait", imageUrl, generationMethod: "planned", altText: "Orbits", positionInDocument: 1, createdAt: new Date() }) as any;
+
+const tables = [
+  { id: 1, documentId: 1, tableNumber: "Table 1", caption: "Parameters", htmlContent: "<table><thead><tr><th>Name</th><th>Value</th></tr></thead><tbody><tr><td>k, stiffness</td><td>1 &amp; 2</td></tr></tbody></table>", csvData: "k, stiffness,1 & 2", columnHeaders: ["Name", "Value"], positionInDocument: 1, createdAt: new Date() },
+] as any;
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("docx export", () => {
+  it("maps headings, lists, equations, tables, authors and the bibliography onto Word structures", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => undefined);
+    const result = await exportDocx(document, { authors, citations, figures: [figure("")], tables });
+
+    expect(result.filename).toBe("Quartic_Oscillators.docx");
+    expect(result.mimeType).toBe("application/vnd.openxmlformats-officedocument.wordprocessingml.document");
+    const xml = readZipEntry(result.data, "word/document.xml");
+
+    expect(xml).toContain('<w:pStyle w:val="Title"/>');
+    expect(xml).toMatch(/<w:pStyle w:val="Heading1"\/>.*?Introduction/);
+    expect(xml).toContain("Ada Lovelace");
+    expect(xml).toContain("Corresponding author: ada@example.org");
+    expect(xml).toContain("Oscillators matter (Author, 2020).");
+    expect(xml).toMatch(/<m:oMath>.*?E=mc\^2.*?<\/m:oMath>/);
+    expect(xml).toContain("V(x)=\\frac{k}{4}x^{4}.");
+    expect(xml).toContain("(1)");
+    expect(xml.match(/<w:numId /g)?.length).toBe(2);
+    // The generated listings are rebuilt from the rows, not copied from the Markdown
+    expect(xml).not.toContain("_Type:_");
+    expect(xml.match(/<w:tbl>/g)?.length).toBe(1);
+    expect(xml).toContain("k, stiffness");
+    expect(xml).toContain("1 &amp; 2");
+    expect(xml).toContain("[plot: Orbits]");
+    expect(xml).toMatch(/<w:pStyle w:val="Caption"\/>.*?Figure 1\. .*?Phase portrait/);
+    expect(xml).toMatch(/References.*?Author, A\. \(2020\)\. .*?Nonlinear Oscillations/);
+  });
+
+  it("embeds figure images scaled from their own dimensions", async () => {
+    const png = new Uint8Array(Buffer.from(PNG_DATA_URL.split(",")[1], "base64"));
+    expect(imageDimensions(png)).toEqual({ type: "png", width: 1, height: 1 });
+
+    const result = await exportDocx(document, { figures: [figure(PNG_DATA_URL)] });
+    const xml = readZipEntry(result.data, "word/document.xml");
+
+    expect(xml).toContain("<w:drawing>");
+    expect(xml).toContain('descr="Orbits"');
+    expect(xml).not.toContain("[plot: Orbits]");
+  });
+});
@@ -0,0 +1,91 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { applyRegistryMetadata, validateCitation, validateCitations } from "./services/doiValidation";
+
+const work = (overrides: Record<string, unknown> = {}) => ({
+  DOI: "10.1000/gnn",
+  title: ["Graph Neural Networks for Molecules"],
+  "container-title": ["Journal of Chemical Learning"],
+  issued: { "date-parts": [[2021, 4]] },
+  volume: "12",
+  issue: "3",
+  page: "101-120",
+  ...overrides,
+});
+
+const respond = (routes: Record<string, unknown>) =>
+  vi.fn(async (url: string) => {
+    const match = Object.keys(routes).find(prefix => url.startsWith(prefix));
+    if (!match) return new Response("Resource not found.", { status: 404, statusText: "Not Found" });
+    return new Response(JSON.stringify({ status: "ok", message: routes[match] }), { status: 200 });
+  });
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.unstubAllEnvs();
+});
+
+describe("DOI validation", () => {
+  it("verifies a matching DOI and fills in missing registry metadata", async () => {
+    vi.stubEnv("DOI_RESOLVER_URL", "http://registry.local/");
+    const fetchMock = respond({ "http://registry.local/works/10.1000%2Fgnn": work() });
+    vi.stubGlobal("fetch", fetchMock);
+
+    const check = await validateCitation({ doi: "https://doi.org/10.1000/GNN", title: "Graph neural networks for molecules", year: 2021 });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(check.status).toBe("verified");
+
+    const item = applyRegistryMetadata({ id: "ref1", type: "article-journal", title: "Graph neural networks for molecules", page: "101" }, check);
+    expect(item).toMatchObject({
+      DOI: "10.1000/gnn",
+      "container-title": "Journal of Chemical Learning",
+      volume: "12",
+      issue: "3",
+      page: "101",
+      issued: { "date-parts": [[2021]] },
+    });
+  });
+
+  it("flags DOIs registered to another work, retracted works and unknown DOIs", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => undefined);
+    vi.stubEnv("DOI_RESOLVER_URL", "http://registry.local");
+    vi.stubGlobal(
+      "fetch",
+      respond({
+        "http://registry.local/works/10.1000%2Fother": work({ DOI: "10.1000/other", title: ["Protein Folding at Scale"] }),
+        "http://registry.local/works/10.1000%2Fold": work({ DOI: "10.1000/old", issued: { "date-parts": [[2015]] } }),
+        "http://registry.local/works/10.1000%2Fretracted": work({
+          DOI: "10.1000/retracted",
+          "updated-by": [{ type: "retraction", DOI: "10.1000/notice" }],
+        }),
+      })
+    );
+
+    const checks = await validateCitations([
+      { doi: "10.1000/other", title: "Graph Neural Networks for Molecules", year: 2021 },
+      { doi: "10.1000/old", title: "Graph Neural Networks for Molecules", year: 2021 },
+      { doi: "10.1000/retracted", title: "Graph Neural Networks for Molecules", year: 2021 },
+      { doi: "10.1000/missing", title: "Graph Neural Networks for Molecules", year: 2021 },
+    ]);
+
+    expect(checks.map(check => check.status)).toEqual(["mismatch", "mismatch", "retracted", "not_found"]);
+    expect(checks[0].notes[0]).toContain("Protein Folding at Scale");
+    expect(checks[1].notes[0]).toContain("year 2015");
+    expect(checks[2].notes[0]).toContain("10.1000/notice");
+    expect(applyRegistryMetadata({ id: "ref1", type: "article-journal" }, checks[0])).toEqual({ id: "ref1", type: "article-journal" });
+  });
+
+  it("leaves citations unchecked without a DOI, when turned off, or when the registry is down", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => undefined);
+    const fetchMock = vi.fn(async () => new Response("busy", { status: 503, statusText: "Service Unavailable" }));
+    vi.stubGlobal("fetch", fetchMock);
+
+    expect((await validateCitation({ doi: null, title: "No DOI" })).status).toBe("unchecked");
+    const down = await validateCitation({ doi: "10.1000/gnn", title: "Graph Neural Networks for Molecules" });
+    expect(down.status).toBe("unchecked");
+    expect(down.notes[0]).toContain("503");
+
+    vi.stubEnv("DOI_VALIDATION", "off");
+    expect((await validateCitation({ doi: "10.1000/gnn", title: "Graph Neural Networks for Molecules" })).status).toBe("unchecked");
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
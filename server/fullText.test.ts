@@ -0,0 +1,116 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  createPassageIndex,
+  extractPdfPages,
+  fetchOpenAccessFullTexts,
+  matchUploadToReference,
+  splitPassages,
+} from "./services/fullText";
+import type { SemanticScholarPaper } from "./services/semanticScholar";
+
+/** A minimal PDF with one line of Helvetica text per page. */
+function makePdf(pages: string[]): Uint8Array {
+  const objects = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    `<< /Type /Pages /Kids [${pages.map((_, i) => `${4 + i * 2} 0 R`).join(" ")}] /Count ${pages.length} >>`,
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>",
+  ];
+  pages.forEach((text, i) => {
+    const stream = `BT /F1 12 Tf 72 720 Td (${text}) Tj ET`;
+    objects.push(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Resources << /Font << /F1 3 0 R >> >> /Contents ${5 + i * 2} 0 R >>`);
+    objects.push(`<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`);
+  });
+  let pdf = "%PDF-1.4\n";
+  const offsets = objects.map((object, i) => {
+    const offset = pdf.length;
+    pdf += `${i + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(offset => `${String(offset).padStart(10, "0")} 00000 n \n`).join("");
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  return new TextEncoder().encode(pdf);
+}
+
+const paper = (paperId: string, title: string, extra: Partial<SemanticScholarPaper> = {}): SemanticScholarPaper => ({
+  paperId,
+  title,
+  year: 2020,
+  authors: [{ authorId: "a", name: "Ada Lovelace" }],
+  ...extra,
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe("full-text grounding", () => {
+  it("extracts pages, matches uploads to references and finds passages by page", async () => {
+    const pages = await extractPdfPages(
+      makePdf(["Graph Neural Networks for Molecules. doi:10.1000/GNN.7", "Message passing predicts solubility within 0.5 log units."])
+    );
+    expect(pages).toEqual(["Graph Neural Networks for Molecules. doi:10.1000/GNN.7", "Message passing predicts solubility within 0.5 log units."]);
+    await expect(extractPdfPages(new TextEncoder().encode("<html></html>"))).rejects.toThrow("Not a PDF file");
+
+    const sources = [
+      { citationKey: "ref1", paper: paper("p1", "Convolutional Networks for Images") },
+      { citationKey: "ref2", paper: paper("p2", "Molecular Graphs", { externalIds: { DOI: "10.1000/gnn.7" } }) },
+    ];
+    expect(matchUploadToReference(pages, sources)).toBe("ref2");
+    expect(matchUploadToReference(["Preprint: convolutional networks for images, revisited"], sources)).toBe("ref1");
+    expect(matchUploadToReference(["Unrelated notes"], sources)).toBeNull();
+
+    const passages = splitPassages([
+      ...pages.map((content, index) => ({ citationKey: "ref2", page: index + 1, content })),
+      { citationKey: "ref1", page: 4, content: "Convolutions classify images. Pooling adds invariance." },
+      { citationKey: null, page: 1, content: "Unmatched upload about solubility." },
+    ]);
+    expect(passages.map(passage => [passage.citationKey, passage.page])).toEqual([["ref2", 1], ["ref2", 2], ["ref1", 4]]);
+
+    const index = createPassageIndex(passages);
+    expect(index.search("predicting solubility with message passing", { limit: 1 })).toEqual([
+      { citationKey: "ref2", page: 2, text: "Message passing predicts solubility within 0.5 log units." },
+    ]);
+    expect(index.search("solubility", { limit: 5, citationKeys: new Set(["ref1"]) })).toEqual([]);
+  });
+
+  it("splits long pages into passages at sentence boundaries", () => {
+    const sentence = "Attention weights are computed for every token pair in the sequence. ";
+    const passages = splitPassages([{ citationKey: "ref1", page: 2, content: sentence.repeat(40).trim() }]);
+
+    expect(passages.length).toBeGreaterThan(1);
+    expect(passages.every(passage => passage.text.length <= 1200 && passage.text.endsWith("sequence."))).toBe(true);
+  });
+
+  it("downloads open-access PDFs and skips failures and sources covered by uploads", async () => {
+    const fetchMock = vi.fn(async (url: string) => {
+      if (url.endsWith("/missing.pdf")) return new Response("Not found", { status: 404, statusText: "Not Found" });
+      return new Response(makePdf([`Text of ${url.slice(url.lastIndexOf("/") + 1)}`]), { status: 200 });
+    });
+    vi.stubGlobal("fetch", fetchMock);
+    vi.spyOn(console, "warn").mockImplementation(() => undefined);
+
+    const fetched = await fetchOpenAccessFullTexts(
+      [
+        { citationKey: "ref1", paper: paper("p1", "One", { openAccessPdf: { url: "https://example.org/one.pdf" } }) },
+        { citationKey: "ref2", paper: paper("p2", "Two", { openAccessPdf: { url: "https://example.org/missing.pdf" } }) },
+        { citationKey: "ref3", paper: paper("p3", "Three", { externalIds: { ArXiv: "2101.00001" } }) },
+        { citationKey: "ref4", paper: paper("p4", "Four", { openAccessPdf: { url: "https://example.org/four.pdf" } }) },
+        { citationKey: "ref5", paper: paper("p5", "Five") },
+      ],
+      { skip: new Set(["ref4"]) }
+    );
+
+    expect(fetchMock.mock.calls.map(([url]) => url)).toEqual([
+      "https://example.org/one.pdf",
+      "https://example.org/missing.pdf",
+      "https://arxiv.org/pdf/2101.00001",
+    ]);
+    expect(fetched).toEqual([
+      { citationKey: "ref1", url: "https://example.org/one.pdf", pages: ["Text of one.pdf"] },
+      { citationKey: "ref3", url: "https://arxiv.org/pdf/2101.00001", pages: ["Text of 2101.00001"] },
+    ]);
+  });
+});
@@ -93,4 +93,23 @@ describe("generation.create", () => {
       })
     ).rejects.toThrow("Please login");
   });
+
+  it.each([
+    ["documentType", { documentType: "novel" }],
+    ["citationStyle", { citationStyle: "Bluebook" }],
+  ])("rejects an unknown %s", async (_field, override) => {
+    const caller = appRouter.createCaller(createAuthContext());
+
+    await expect(
+      caller.generation.create({
+        documentType: "journal_article",
+        title: "Test Article",
+        researchDomain: "Computer Science",
+        targetWordCount: 5000,
+        citationStyle: "APA7",
+        authors: [{ name: "Dr. Jane Smith", affiliation: "MIT", isCorresponding: true }],
+        ...(override as object),
+      })
+    ).rejects.toMatchObject({ code: "BAD_REQUEST" });
+  });
 });
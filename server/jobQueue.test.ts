@@ -0,0 +1,164 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+const generationMocks = vi.hoisted(() => ({
+  generateDocument: vi.fn(async (_params: any, _options?: { signal?: AbortSignal }) => undefined),
+}));
+vi.mock("./services/documentGeneration", () => generationMocks);
+
+const queuedJob = {
+  id: 7,
+  userId: 1,
+  status: "queued",
+  documentType: "journal_article",
+  title: "Queued Paper",
+  researchDomain: "Computer Science",
+  subdomain: null,
+  targetWordCount: 1200,
+  numFigures: 1,
+  numTables: null,
+  numReferences: 5,
+  citationStyle: "APA7",
+  targetJournal: null,
+  abstractProvided: null,
+  keyHypotheses: ["H1"],
+  methodologyConstraints: null,
+  authors: [{ name: "A", affiliation: "B", isCorresponding: true }],
+  attempts: 0,
+  lockedBy: null,
+  leaseExpiresAt: null,
+  heartbeatAt: null,
+  startedAt: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  completedAt: null,
+};
+
+const dbMocks = vi.hoisted(() => ({
+  requeueStaleGenerationJobs: vi.fn(async () => ({ requeued: 0, failed: 0 })),
+  claimNextGenerationJob: vi.fn(async (): Promise<any> => undefined),
+  renewGenerationJobLease: vi.fn(async () => true),
+  completeGenerationJob: vi.fn(async () => true),
+  releaseGenerationJobs: vi.fn(async () => 1),
+}));
+vi.mock("./db", () => dbMocks);
+
+import { abortRunningGeneration, startGenerationWorker, type GenerationWorker } from "./services/jobQueue";
+
+describe("generation job queue", () => {
+  let worker: GenerationWorker | null = null;
+
+  beforeEach(() => {
+    Object.values(dbMocks).forEach(fn => fn.mockClear());
+    generationMocks.generateDocument.mockReset();
+    generationMocks.generateDocument.mockImplementation(async () => undefined);
+  });
+
+  afterEach(async () => {
+    await worker?.stop();
+    worker = null;
+  });
+
+  it("claims queued jobs and runs them with the stored parameters", async () => {
+    dbMocks.claimNextGenerationJob.mockResolvedValueOnce({ ...queuedJob, status: "processing", attempts: 1 });
+
+    worker = startGenerationWorker({ concurrency: 1, maxJobsPerUser: 1, pollIntervalMs: 5, maxAttempts: 3 });
+
+    await vi.waitFor(() => expect(generationMocks.generateDocument).toHaveBeenCalled());
+    expect(dbMocks.requeueStaleGenerationJobs).toHaveBeenCalledWith(3);
+    expect(dbMocks.claimNextGenerationJob).toHaveBeenCalledWith(
+      expect.objectContaining({ workerId: worker.workerId, maxPerUser: 1 })
+    );
+    expect(generationMocks.generateDocument).toHaveBeenCalledWith(
+      expect.objectContaining({
+        jobId: 7,
+        title: "Queued Paper",
+        subdomain: undefined,
+        keyHypotheses: ["H1"],
+        authors: [{ name: "A", affiliation: "B", isCorresponding: true }],
+      }),
+      { signal: expect.any(AbortSignal), workerId: worker.workerId }
+    );
+  });
+
+  it("heartbeats while a job runs and respects the concurrency cap", async () => {
+    let finish: () => void = () => undefined;
+    generationMocks.generateDocument.mockImplementationOnce(
+      () => new Promise<undefined>(resolve => (finish = () => resolve(undefined)))
+    );
+    dbMocks.claimNextGenerationJob
+      .mockResolvedValueOnce({ ...queuedJob, status: "processing", attempts: 1 })
+      .mockResolvedValueOnce({ ...queuedJob, id: 8, status: "processing", attempts: 1 });
+
+    worker = startGenerationWorker({ concurrency: 1, pollIntervalMs: 5, heartbeatMs: 5, leaseMs: 1000 });
+
+    await vi.waitFor(() => expect(dbMocks.renewGenerationJobLease).toHaveBeenCalledWith(7, worker!.workerId, 1000));
+    expect(dbMocks.claimNextGenerationJob).toHaveBeenCalledTimes(1);
+
+    finish();
+    await vi.waitFor(() => expect(generationMocks.generateDocument).toHaveBeenCalledTimes(2));
+  });
+
+  it("marks a job failed when the pipeline crashes", async () => {
+    generationMocks.generateDocument.mockRejectedValueOnce(new Error("boom"));
+    dbMocks.claimNextGenerationJob.mockResolvedValueOnce({ ...queuedJob, status: "processing", attempts: 1 });
+
+    worker = startGenerationWorker({ concurrency: 1, pollIntervalMs: 5 });
+
+    await vi.waitFor(() =>
+      expect(dbMocks.completeGenerationJob).toHaveBeenCalledWith(7, { status: "failed", errorMessage: "boom" }, worker?.workerId)
+    );
+  });
+
+  it("aborts the pipeline when its lease is lost", async () => {
+    let signal: AbortSignal | undefined;
+    generationMocks.generateDocument.mockImplementationOnce(async (_params, options) => {
+      signal = options?.signal;
+      await new Promise<void>(resolve => signal?.addEventListener("abort", () => resolve()));
+      return undefined;
+    });
+    dbMocks.claimNextGenerationJob.mockResolvedValueOnce({ ...queuedJob, status: "processing", attempts: 1 });
+    dbMocks.renewGenerationJobLease.mockResolvedValueOnce(false);
+
+    worker = startGenerationWorker({ concurrency: 1, pollIntervalMs: 5, heartbeatMs: 5 });
+
+    await vi.waitFor(() => expect(signal?.aborted).toBe(true));
+    expect((signal?.reason as Error).message).toBe("Lease lost");
+    expect(dbMocks.completeGenerationJob).not.toHaveBeenCalled();
+  });
+
+  it("aborts a locally running job on cancel", async () => {
+    let signal: AbortSignal | undefined;
+    generationMocks.generateDocument.mockImplementationOnce(async (_params, options) => {
+      signal = options?.signal;
+      await new Promise<void>(resolve => signal?.addEventListener("abort", () => resolve()));
+      return undefined;
+    });
+    dbMocks.claimNextGenerationJob.mockResolvedValueOnce({ ...queuedJob, status: "processing", attempts: 1 });
+
+    worker = startGenerationWorker({ concurrency: 1, pollIntervalMs: 5 });
+    await vi.waitFor(() => expect(signal).toBeDefined());
+
+    expect(abortRunningGeneration(99)).toBe(false);
+    expect(abortRunningGeneration(7, "Cancelled by user")).toBe(true);
+    expect((signal?.reason as Error).message).toBe("Cancelled by user");
+  });
+
+  it("hands running jobs back to the queue on stop instead of waiting for them", async () => {
+    let signal: AbortSignal | undefined;
+    generationMocks.generateDocument.mockImplementationOnce(async (_params, options) => {
+      signal = options?.signal;
+      // Never settles: stopping must not wait for the pipeline.
+      await new Promise<void>(() => undefined);
+      return undefined;
+    });
+    dbMocks.claimNextGenerationJob.mockResolvedValueOnce({ ...queuedJob, status: "processing", attempts: 1 });
+
+    const stopping = startGenerationWorker({ concurrency: 1, pollIntervalMs: 5 });
+    await vi.waitFor(() => expect(signal).toBeDefined());
+    await stopping.stop();
+
+    expect((signal?.reason as Error).message).toBe("Worker stopped");
+    expect(dbMocks.releaseGenerationJobs).toHaveBeenCalledWith(stopping.workerId);
+    expect(dbMocks.completeGenerationJob).not.toHaveBeenCalled();
+  });
+});
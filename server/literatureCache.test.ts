@@ -0,0 +1,134 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const store = vi.hoisted(() => ({
+  entries: new Map<string, any>(),
+  papers: new Map<string, any>(),
+}));
+
+const dbMocks = vi.hoisted(() => ({
+  getLiteratureCacheEntry: vi.fn(async (cacheKey: string) => store.entries.get(cacheKey)),
+  saveLiteratureCacheEntry: vi.fn(async (entry: any) => {
+    const existing = store.entries.get(entry.cacheKey);
+    store.entries.set(entry.cacheKey, {
+      id: existing?.id ?? store.entries.size + 1,
+      hits: existing?.hits ?? 0,
+      fetches: (existing?.fetches ?? 0) + 1,
+      ...entry,
+    });
+  }),
+  recordLiteratureCacheHit: vi.fn(async (id: number) => {
+    Array.from(store.entries.values()).filter(entry => entry.id === id).forEach(entry => entry.hits++);
+  }),
+  // Mirrors the JSON_MERGE_PATCH upsert: stored fields survive unless a response carries them.
+  upsertLiteraturePapers: vi.fn(async (papers: any[]) => {
+    papers.forEach(row => {
+      const existing = store.papers.get(row.paperId);
+      store.papers.set(row.paperId, {
+        ...row,
+        doi: row.doi ?? existing?.doi ?? null,
+        paper: { ...existing?.paper, ...row.paper },
+        updatedAt: new Date(),
+      });
+    });
+  }),
+  getLiteratureCacheTotals: vi.fn(async () => {
+    const entries = Array.from(store.entries.values());
+    return {
+      entries: entries.length,
+      liveEntries: entries.filter(entry => entry.expiresAt.getTime() > Date.now()).length,
+      hits: entries.reduce((sum, entry) => sum + entry.hits, 0),
+      fetches: entries.reduce((sum, entry) => sum + entry.fetches, 0),
+      papers: store.papers.size,
+    };
+  }),
+}));
+
+vi.mock("./db", () => dbMocks);
+
+import { getLiteratureCacheStats } from "./services/literatureCache";
+import { getRecommendations, searchPapers } from "./services/semanticScholar";
+
+const paper = {
+  paperId: "abc123",
+  title: "Cached Paper",
+  year: 2020,
+  authors: [{ authorId: "a1", name: "A. Author" }],
+  externalIds: { DOI: "10.1000/Cached" },
+};
+
+beforeEach(() => {
+  store.entries.clear();
+  store.papers.clear();
+  vi.stubEnv("DATABASE_URL", "mysql://cache-test");
+  vi.stubEnv("SEMANTIC_SCHOLAR_API_KEY", "test-key");
+  vi.stubEnv("SEMANTIC_SCHOLAR_MIN_REQUEST_INTERVAL_MS", "0");
+  // Expire the in-memory layer immediately so every lookup reaches the persistent store.
+  vi.stubEnv("SEMANTIC_SCHOLAR_CACHE_TTL_MS", "0");
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.unstubAllEnvs();
+});
+
+describe("persistent literature cache", () => {
+  it("serves repeated searches from the store and keeps each paper by ID and DOI", async () => {
+    const fetchMock = vi.fn(async () => new Response(JSON.stringify({ total: 1, offset: 0, data: [paper] }), { status: 200 }));
+    vi.stubGlobal("fetch", fetchMock);
+
+    const first = await searchPapers("cached topic", { limit: 5 });
+    const second = await searchPapers("cached topic", { limit: 5 });
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(second).toEqual(first);
+    expect(store.papers.get("abc123")).toMatchObject({ doi: "10.1000/cached", paper: { title: "Cached Paper" } });
+
+    const stats = await getLiteratureCacheStats();
+    expect(stats).toMatchObject({ enabled: true, entries: 1, liveEntries: 1, papers: 1, hits: 1, fetches: 1, hitRate: 0.5 });
+  });
+
+  it("merges partial records into the stored paper instead of overwriting it", async () => {
+    const complete = { ...paper, abstract: "Full abstract.", url: "https://example.org/abc123", openAccessPdf: { url: "https://example.org/abc123.pdf" } };
+    const partial = { ...paper, title: "Cached Paper (revised)", abstract: null, externalIds: null };
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async (url: string) =>
+        new Response(
+          JSON.stringify(url.includes("/recommendations") ? { recommendedPapers: [partial] } : { total: 1, offset: 0, data: [complete] }),
+          { status: 200 }
+        )
+      )
+    );
+
+    await searchPapers("complete topic");
+    await getRecommendations("seed");
+
+    expect(store.papers.get("abc123")).toMatchObject({
+      doi: "10.1000/cached",
+      paper: {
+        title: "Cached Paper (revised)",
+        abstract: "Full abstract.",
+        url: "https://example.org/abc123",
+        openAccessPdf: { url: "https://example.org/abc123.pdf" },
+        externalIds: { DOI: "10.1000/Cached" },
+      },
+    });
+  });
+
+  it("refetches expired responses and is skipped when the TTL is 0", async () => {
+    const fetchMock = vi.fn(async () => new Response(JSON.stringify({ total: 0, offset: 0, data: [] }), { status: 200 }));
+    vi.stubGlobal("fetch", fetchMock);
+
+    await searchPapers("stale topic");
+    Array.from(store.entries.values()).forEach(entry => (entry.expiresAt = new Date(Date.now() - 1)));
+    await searchPapers("stale topic");
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(Array.from(store.entries.values())[0].fetches).toBe(2);
+
+    vi.stubEnv("LITERATURE_CACHE_TTL_MS", "0");
+    dbMocks.getLiteratureCacheEntry.mockClear();
+    await searchPapers("uncached topic");
+    expect(dbMocks.getLiteratureCacheEntry).not.toHaveBeenCalled();
+    expect((await getLiteratureCacheStats()).enabled).toBe(false);
+  });
+});
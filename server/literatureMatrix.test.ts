@@ -0,0 +1,81 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const llmMocks = vi.hoisted(() => ({
+  invokeLLM: vi.fn(async (_params: any): Promise<any> => undefined),
+}));
+
+vi.mock("./_core/llm", () => llmMocks);
+
+import { extractLiteratureMatrix, literatureMatrixContext, literatureMatrixToCsv } from "./services/literatureMatrix";
+import type { SemanticScholarPaper } from "./services/semanticScholar";
+
+const paper = (paperId: string, title: string, abstract?: string): SemanticScholarPaper => ({
+  paperId,
+  title,
+  year: 2020,
+  abstract,
+  authors: [{ authorId: "a", name: "Ada Lovelace" }],
+});
+
+const reply = (rows: object[]) => ({
+  id: "x",
+  created: Date.now(),
+  model: "mock",
+  choices: [{ index: 0, message: { role: "assistant", content: JSON.stringify({ rows }) }, finish_reason: "stop" }],
+});
+
+const fields = (findings: string) => ({ problem: "Sorting", method: "Quicksort", dataset: "", findings, limitations: "" });
+
+describe("literature matrix", () => {
+  beforeEach(() => {
+    llmMocks.invokeLLM.mockReset();
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("extracts fields in batches, skipping sources without abstracts and batches that fail", async () => {
+    vi.stubEnv("LITERATURE_MATRIX_BATCH_SIZE", "2");
+    vi.spyOn(console, "warn").mockImplementation(() => undefined);
+    llmMocks.invokeLLM
+      .mockResolvedValueOnce(reply([{ citationKey: "ref1", ...fields(" Fast on average. ") }, { citationKey: "ref9", ...fields("x") }]))
+      .mockRejectedValueOnce(new Error("LLM unavailable"));
+
+    const entries = await extractLiteratureMatrix(
+      [
+        { citationKey: "ref1", paper: paper("p1", "Quicksort", "We sort.") },
+        { citationKey: "ref2", paper: paper("p2", "No Abstract") },
+        { citationKey: "ref3", paper: paper("p3", "Heapsort", "We heap.") },
+        { citationKey: "ref4", paper: paper("p4", "Mergesort", "We merge.") },
+      ],
+      "Sorting algorithms"
+    );
+
+    expect(llmMocks.invokeLLM).toHaveBeenCalledTimes(2);
+    const prompt = llmMocks.invokeLLM.mock.calls[0][0].messages[0].content as string;
+    expect(prompt).toContain("[ref1] Quicksort (2020)");
+    expect(prompt).toContain("[ref3] Heapsort");
+    expect(prompt).not.toContain("No Abstract");
+    expect(entries.map(entry => [entry.citationKey, entry.findings])).toEqual([
+      ["ref1", "Fast on average."],
+      ["ref2", ""],
+      ["ref3", ""],
+      ["ref4", ""],
+    ]);
+    expect(literatureMatrixContext(entries)).toBe(
+      "- [ref1] Quicksort (2020) | problem: Sorting | method: Quicksort | findings: Fast on average."
+    );
+  });
+
+  it("exports a quoted CSV with a header row", () => {
+    const csv = literatureMatrixToCsv([
+      { citationKey: "ref1", title: 'Sorting, "fast"', year: null, ...fields("Line one\nline two") },
+    ]);
+
+    expect(csv).toBe(
+      "Key,Title,Year,Problem,Method,Dataset,Findings,Limitations\r\n" +
+        'ref1,"Sorting, ""fast""",,Sorting,Quicksort,,"Line one\nline two",\r\n'
+    );
+  });
+});
@@ -0,0 +1,298 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { mkdtemp, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import {
+  getLiteratureProviders,
+  isPlaceholderPaper,
+  searchLiterature,
+  searchLiteratureQueries,
+  type LiteratureProvider,
+} from "./services/literature";
+import { arxivProvider } from "./services/literature/arxiv";
+import { crossrefProvider } from "./services/literature/crossref";
+import { openAlexProvider } from "./services/literature/openAlex";
+import { pubMedProvider } from "./services/literature/pubmed";
+import type { SemanticScholarPaper } from "./services/semanticScholar";
+
+const paper = (paperId: string, title: string, doi?: string): SemanticScholarPaper => ({
+  paperId,
+  title,
+  year: 2020,
+  authors: [{ authorId: "a", name: "Ada Lovelace" }],
+  externalIds: doi ? { DOI: doi } : undefined,
+});
+
+const provider = (name: string, search: LiteratureProvider["search"]): LiteratureProvider => ({
+  name,
+  search: vi.fn(search),
+});
+
+const respond = (routes: Record<string, unknown>) =>
+  vi.fn(async (url: string) => {
+    const match = Object.keys(routes).find(prefix => url.startsWith(prefix));
+    if (!match) return new Response("not found", { status: 404, statusText: "Not Found" });
+    const body = routes[match];
+    return new Response(typeof body === "string" ? body : JSON.stringify(body), { status: 200 });
+  });
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.unstubAllEnvs();
+});
+
+describe("literature provider chain", () => {
+  it("falls through failing and short providers, de-duplicating across sources", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => undefined);
+    const failing = provider("primary", async () => {
+      throw new Error("Semantic Scholar API error: 429 Too Many Requests");
+    });
+    const short = provider("openAlex", async () => [
+      paper("openalex:W1", "Graph Neural Networks", "10.1/GNN"),
+      paper("openalex:W2", "Seeded Paper"),
+      { ...paper("placeholder_3", "Placeholder reference 3"), authors: [{ authorId: "placeholder", name: "Unknown" }] },
+    ]);
+    const topUp = provider("crossref", async () => [
+      paper("crossref:10.1/gnn", "Graph neural networks.", "https://doi.org/10.1/gnn"),
+      paper("crossref:10.2/x", "Message Passing", "10.2/x"),
+      paper("crossref:10.3/y", "Spectral Methods", "10.3/y"),
+    ]);
+    const unused = provider("arxiv", async () => [paper("arxiv:1", "Never Asked")]);
+
+    const result = await searchLiterature("graph learning", 3, {
+      providers: [failing, short, topUp, unused],
+      exclude: ["title:seededpaper"],
+    });
+
+    expect(result.papers.map(p => p.paperId)).toEqual(["openalex:W1", "crossref:10.2/x", "crossref:10.3/y"]);
+    expect(result.attempts).toEqual([
+      { provider: "primary", found: 0, error: "Semantic Scholar API error: 429 Too Many Requests" },
+      { provider: "openAlex", found: 1 },
+      { provider: "crossref", found: 2 },
+    ]);
+    expect(topUp.search).toHaveBeenCalledWith("graph learning", { limit: 2, signal: undefined });
+    expect(unused.search).not.toHaveBeenCalled();
+  });
+
+  it("stops the chain when the caller aborts", async () => {
+    const controller = new AbortController();
+    const cancelling = provider("primary", async () => {
+      controller.abort(new Error("Cancelled by user"));
+      throw new Error("fetch aborted");
+    });
+    const next = provider("openAlex", async () => [paper("openalex:W1", "Anything")]);
+
+    await expect(
+      searchLiterature("topic", 2, { providers: [cancelling, next], signal: controller.signal })
+    ).rejects.toThrow("Cancelled by user");
+    expect(next.search).not.toHaveBeenCalled();
+  });
+
+  it("orders providers from LITERATURE_PROVIDERS and searches an offline corpus file", async () => {
+    const dir = await mkdtemp(path.join(tmpdir(), "literature-"));
+    const corpus = path.join(dir, "corpus.json");
+    await writeFile(
+      corpus,
+      JSON.stringify([
+        { id: "k1", type: "article-journal", title: "Protein folding kinetics", DOI: "10.9/fold" },
+        { id: "k2", type: "article-journal", title: "Unrelated topic" },
+        { id: "k3", type: "article-journal", title: "Folding of protein complexes in cells" },
+      ])
+    );
+    vi.spyOn(console, "warn").mockImplementation(() => undefined);
+    vi.stubEnv("LITERATURE_PROVIDERS", "local, nope, PubMed");
+    vi.stubEnv("LITERATURE_LOCAL_CORPUS", corpus);
+
+    expect(getLiteratureProviders().map(p => p.name)).toEqual(["local", "pubmed"]);
+
+    const result = await searchLiterature("protein folding", 5, { providers: getLiteratureProviders().slice(0, 1) });
+    expect(result.papers.map(p => p.paperId)).toEqual(["local:k1", "local:k3"]);
+    expect(result.papers[0].externalIds?.DOI).toBe("10.9/fold");
+  });
+
+  it("merges results across queries, recording every query that found a paper, and ranks by topic relevance", async () => {
+    const byQuery: Record<string, SemanticScholarPaper[]> = {
+      "computer science": [
+        { ...paper("s2:1", "A Survey of Databases", "10.1/db"), citationCount: 5000 },
+        paper("s2:2", "Graph Neural Networks for Molecular Property Prediction", "10.1/gnn"),
+      ],
+      "molecular property prediction": [
+        paper("s2:3", "Molecular Property Prediction Benchmarks"),
+        paper("openalex:W9", "Graph neural networks for molecules.", "https://doi.org/10.1/GNN"),
+      ],
+    };
+    const source = provider("semanticScholar", async query => byQuery[query] ?? []);
+
+    const result = await searchLiteratureQueries(
+      ["computer science", "molecular property prediction", "nothing here"],
+      2,
+      { title: "Graph Networks for Molecular Property Prediction", domain: "Computer Science" },
+      { providers: [source], exclude: ["doi:10.9/seed"] }
+    );
+
+    expect(result.papers.map(p => [p.paper.paperId, p.queries])).toEqual([
+      ["s2:2", ["computer science", "molecular property prediction"]],
+      ["s2:3", ["molecular property prediction"]],
+    ]);
+    expect(result.papers[0].relevance).toBeGreaterThan(0.5);
+    expect(result.queries.map(q => [q.query, q.found])).toEqual([
+      ["computer science", 2],
+      ["molecular property prediction", 2],
+      ["nothing here", 0],
+    ]);
+    expect(source.search).toHaveBeenCalledWith("computer science", { limit: 5, signal: undefined });
+  });
+
+  it("recognizes placeholder references", () => {
+    expect(isPlaceholderPaper(paper("placeholder_2", "Placeholder reference 2"))).toBe(true);
+    expect(isPlaceholderPaper(paper("openalex:W1", "Real"))).toBe(false);
+  });
+});
+
+describe("literature providers", () => {
+  it("maps OpenAlex works, rebuilding inverted-index abstracts", async () => {
+    vi.stubGlobal(
+      "fetch",
+      respond({
+        "https://api.openalex.org/works": {
+          results: [
+            {
+              id: "https://openalex.org/W42",
+              doi: "https://doi.org/10.1000/oa",
+              display_name: "Open Graphs",
+              publication_year: 2022,
+              authorships: [{ author: { id: "https://openalex.org/A1", display_name: "Grace Hopper" } }],
+              primary_location: { source: { display_name: "Journal of Graphs" } },
+              cited_by_count: 12,
+              abstract_inverted_index: { graphs: [1], Open: [0], matter: [2] },
+            },
+          ],
+        },
+      })
+    );
+
+    const [result] = await openAlexProvider.search("open graphs", { limit: 5 });
+    expect(result).toMatchObject({
+      paperId: "openalex:W42",
+      title: "Open Graphs",
+      abstract: "Open graphs matter",
+      year: 2022,
+      authors: [{ authorId: "openalex:A1", name: "Grace Hopper" }],
+      venue: "Journal of Graphs",
+      citationCount: 12,
+      externalIds: { DOI: "10.1000/oa" },
+    });
+  });
+
+  it("maps Crossref works and strips JATS abstracts", async () => {
+    vi.stubGlobal(
+      "fetch",
+      respond({
+        "https://api.crossref.org/works": {
+          message: {
+            items: [
+              {
+                DOI: "10.2000/CR",
+                title: ["Registered Work"],
+                author: [{ given: "Alan", family: "Turing" }, { name: "Example Consortium" }],
+                "container-title": ["Computing Journal"],
+                issued: { "date-parts": [[1950, 10]] },
+                abstract: "<jats:title>Abstract</jats:title><jats:p>Machines can think.</jats:p>",
+              },
+              { DOI: "10.2000/untitled" },
+            ],
+          },
+        },
+      })
+    );
+
+    const results = await crossrefProvider.search("machines", { limit: 5 });
+    expect(results).toHaveLength(1);
+    expect(results[0]).toMatchObject({
+      paperId: "crossref:10.2000/cr",
+      title: "Registered Work",
+      abstract: "Machines can think.",
+      year: 1950,
+      authors: [{ name: "Alan Turing" }, { name: "Example Consortium" }],
+      venue: "Computing Journal",
+      url: "https://doi.org/10.2000/CR",
+    });
+  });
+
+  it("reads arXiv Atom feeds", async () => {
+    vi.stubGlobal(
+      "fetch",
+      respond({
+        "https://export.arxiv.org/api/query": `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom" xmlns:arxiv="http://arxiv.org/schemas/atom">
+  <entry>
+    <id>http://arxiv.org/abs/1706.03762v7</id>
+    <published>2017-06-12T17:57:34Z</published>
+    <title>Attention Is All
+      You Need</title>
+    <summary>  The dominant sequence transduction models &amp; more.  </summary>
+    <author><name>Ashish Vaswani</name></author>
+    <author><name>Noam Shazeer</name></author>
+    <arxiv:doi>10.48550/arXiv.1706.03762</arxiv:doi>
+  </entry>
+</feed>`,
+      })
+    );
+
+    const [result] = await arxivProvider.search("attention transformer", { limit: 1 });
+    expect(result).toEqual({
+      paperId: "arxiv:1706.03762",
+      title: "Attention Is All You Need",
+      abstract: "The dominant sequence transduction models & more.",
+      year: 2017,
+      authors: [
+        { authorId: "", name: "Ashish Vaswani" },
+        { authorId: "", name: "Noam Shazeer" },
+      ],
+      venue: "arXiv",
+      externalIds: { ArXiv: "1706.03762", DOI: "10.48550/arXiv.1706.03762" },
+      url: "https://arxiv.org/abs/1706.03762",
+      openAccessPdf: { url: "https://arxiv.org/pdf/1706.03762" },
+    });
+  });
+
+  it("searches PubMed then fetches summaries for the matching ids", async () => {
+    const fetchMock = respond({
+      "https://eutils.ncbi.nlm.nih.gov/entrez/eutils/esearch.fcgi": { esearchresult: { idlist: ["111", "222"] } },
+      "https://eutils.ncbi.nlm.nih.gov/entrez/eutils/esummary.fcgi": {
+        result: {
+          uids: ["111", "222"],
+          "111": {
+            uid: "111",
+            title: "Gene expression atlas.",
+            authors: [{ name: "Smith J", authtype: "Author" }, { name: "Atlas Group", authtype: "CollectiveName" }],
+            fulljournalname: "Nature Genetics",
+            pubdate: "2019 Mar 4",
+            articleids: [{ idtype: "pubmed", value: "111" }, { idtype: "doi", value: "10.3000/pm" }],
+          },
+          "222": { uid: "222" },
+        },
+      },
+    });
+    vi.stubGlobal("fetch", fetchMock);
+
+    const results = await pubMedProvider.search("gene expression", { limit: 2 });
+    expect(fetchMock.mock.calls[1][0]).toContain("id=111%2C222");
+    expect(results).toEqual([
+      {
+        paperId: "pubmed:111",
+        title: "Gene expression atlas",
+        year: 2019,
+        authors: [{ authorId: "", name: "Smith J" }],
+        venue: "Nature Genetics",
+        externalIds: { PubMed: "111", DOI: "10.3000/pm" },
+        url: "https://pubmed.ncbi.nlm.nih.gov/111/",
+      },
+    ]);
+  });
+
+  it("reports HTTP failures with the source name", async () => {
+    vi.stubGlobal("fetch", respond({}));
+    await expect(openAlexProvider.search("anything", { limit: 1 })).rejects.toThrow("OpenAlex API error: 404 Not Found");
+  });
+});
@@ -0,0 +1,79 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { graphPaperId, snowballLiterature, type CitationGraphSource } from "./services/literature";
+import { getPaperCitations, getPaperReferences, type SemanticScholarPaper } from "./services/semanticScholar";
+
+const paper = (paperId: string, title: string, doi?: string): SemanticScholarPaper => ({
+  paperId,
+  title,
+  year: 2019,
+  authors: [{ authorId: "a", name: "Ada Lovelace" }],
+  externalIds: doi ? { DOI: doi } : undefined,
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.unstubAllEnvs();
+});
+
+describe("citation-graph snowballing", () => {
+  it("follows references and citations, merging papers reached from several seeds", async () => {
+    const seminal = paper("seminal", "A Seminal Method");
+    const graph: Record<string, { references: SemanticScholarPaper[]; citations: SemanticScholarPaper[] }> = {
+      seedA: { references: [seminal, paper("known", "Already Selected")], citations: [paper("follow", "A Follow-up")] },
+      "DOI:10.1/b": { references: [{ ...seminal, title: "A seminal method." }, paper("seedA", "Seed A")], citations: [] },
+      seminal: { references: [paper("older", "An Older Classic")], citations: [] },
+    };
+    const source: CitationGraphSource = {
+      references: vi.fn(async (id: string) => graph[id]?.references ?? []),
+      citations: vi.fn(async (id: string) => {
+        if (id === "follow") throw new Error("Semantic Scholar API error: 500");
+        return graph[id]?.citations ?? [];
+      }),
+    };
+    vi.spyOn(console, "warn").mockImplementation(() => undefined);
+
+    const result = await snowballLiterature(
+      [paper("seedA", "Seed A"), paper("import:b", "Seed B", "10.1/b"), paper("import:c", "Seed C")],
+      { source, depth: 2, breadth: 5, seedCount: 2, exclude: ["title:alreadyselected"] }
+    );
+
+    expect(result.papers.map(p => [p.paper.paperId, p.via, p.depth])).toEqual([
+      ["seminal", ['cited by "Seed A"', 'cited by "Seed B"'], 1],
+      ["follow", ['cites "Seed A"'], 1],
+      ["older", ['cited by "A Seminal Method"'], 2],
+    ]);
+    expect(result.edges).toContainEqual({ citing: "import:b", cited: "seedA" });
+    expect(result.edges).toContainEqual({ citing: "seedA", cited: "known" });
+    expect(source.references).not.toHaveBeenCalledWith("import:c", expect.anything(), expect.anything());
+  });
+
+  it("resolves Semantic Scholar IDs for papers from other sources and can be turned off", async () => {
+    expect(graphPaperId(paper("abc123", "Native"))).toBe("abc123");
+    expect(graphPaperId(paper("openalex:W1", "From OpenAlex", "10.1/x"))).toBe("DOI:10.1/x");
+    expect(graphPaperId({ ...paper("arxiv:1706.03762", "From arXiv"), externalIds: { ArXiv: "1706.03762" } })).toBe("ARXIV:1706.03762");
+    expect(graphPaperId(paper("local:k1", "No identifiers"))).toBeNull();
+
+    vi.stubEnv("LITERATURE_SNOWBALL_DEPTH", "0");
+    const source: CitationGraphSource = { references: vi.fn(async () => []), citations: vi.fn(async () => []) };
+    expect(await snowballLiterature([paper("seedA", "Seed A")], { source })).toEqual({ papers: [], edges: [] });
+    expect(source.references).not.toHaveBeenCalled();
+  });
+
+  it("reads the Semantic Scholar references and citations endpoints", async () => {
+    vi.stubEnv("SEMANTIC_SCHOLAR_API_KEY", "test-key");
+    vi.stubEnv("SEMANTIC_SCHOLAR_MIN_REQUEST_INTERVAL_MS", "0");
+    const fetchMock = vi.fn(async (url: string) => {
+      const body = url.includes("/references?")
+        ? { data: [{ citedPaper: paper("r1", "Cited Work") }, { citedPaper: { paperId: null, title: "Unresolved" } }] }
+        : { data: [{ citingPaper: paper("c1", "Citing Work") }] };
+      return new Response(JSON.stringify(body), { status: 200 });
+    });
+    vi.stubGlobal("fetch", fetchMock);
+
+    expect((await getPaperReferences("DOI:10.1000/snow ball", 7)).map(p => p.paperId)).toEqual(["r1"]);
+    expect((await getPaperCitations("DOI:10.1000/snow ball", 7)).map(p => p.paperId)).toEqual(["c1"]);
+    expect(String(fetchMock.mock.calls[0][0])).toMatch(
+      /\/graph\/v1\/paper\/DOI:10\.1000\/snow%20ball\/references\?limit=7&fields=/
+    );
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import { extractPdfPages } from "./services/fullText";
+import { exportPdf, pdfSourceHash } from "./services/pdfExport";
+
+const paragraph = "Oscillators matter [ref1] and their energy is $E=mc^2$ in *this* case, which the sections below expand on at length. ";
+
+const document = {
+  id: 1,
+  jobId: 1,
+  title: "Quartic Oscillators",
+  abstract: "We study oscillators.",
+  keywords: ["physics"],
+  content: [
+    "## Abstract",
+    "",
+    "We study oscillators.",
+    "",
+    "## Introduction",
+    "",
+    paragraph.repeat(40),
+    "",
+    "### Background",
+    "",
+    "1. First step",
+    "2. Second step",
+    "",
+    "$$",
+    "V(x)=\\frac{k}{4}x^{4}. \\tag{1}",
+    "$$",
+    "",
+    "## Figures",
+    "",
+    "### Figure 1. Phase portrait",
+    "_Type:_ plot",
+  ].join("\n"),
+  contentFormat: "canonical",
+  citationStyle: "APA7",
+} as any;
+
+const options = {
+  authors: [
+    { id: 1, documentId: 1, name: "Ada Lovelace", affiliation: "Analytical Engine Lab", email: "ada@example.org", orcid: null, isCorresponding: 1, orderIndex: 1, createdAt: new Date() },
+  ],
+  citations: [
+    { id: 1, documentId: 1, doi: null, title: "Nonlinear Oscillations", authorsText: "Ann Author", journal: "Physics Letters", year: 2020, volume: null, issue: null, pages: null, url: null, citationKey: "ref1", csl: null, formattedCitations: {}, orderIndex: 1, createdAt: new Date() },
+  ],
+  figures: [
+    { id: 1, documentId: 1, figureNumber: "Figure 1", figureType: "plot", caption: "Phase portrait", imageUrl: "", generationMethod: "planned", altText: "Orbits", positionInDocument: 1, createdAt: new Date() },
+  ],
+  tables: [
+    { id: 1, documentId: 1, tableNumber: "Table 1", caption: "Parameters", htmlContent: "<table><tr><th>Name</th><th>Value</th></tr><tr><td>k</td><td>1 &amp; 2</td></tr></table>", csvData: null, columnHeaders: ["Name", "Value"], positionInDocument: 1, createdAt: new Date() },
+  ],
+} as any;
+
+describe("pdf export", () => {
+  it("typesets the title block, numbered sections, math, tables, figures, references and page numbers", async () => {
+    const result = await exportPdf(document, options);
+
+    expect(result.filename).toBe("Quartic_Oscillators.pdf");
+    expect(result.mimeType).toBe("application/pdf");
+    const pages = await extractPdfPages(new Uint8Array(result.data));
+    const text = pages.join("\n");
+
+    expect(pages.length).toBeGreaterThan(1);
+    pages.forEach((page, i) => expect(page.endsWith(` ${i + 1}`)).toBe(true));
+    expect(pages[0]).toMatch(/^Quartic Oscillators Ada Lovelace1,\* 1Analytical Engine Lab \*Corresponding author: ada@example\.org Abstract We study/);
+    expect(text).toContain("1 Introduction Oscillators matter (Author, 2020)");
+    expect(text).toContain("1.1 Background 1. First step 2. Second step");
+    // Math is drawn as vector paths, not left as TeX
+    expect(text).not.toContain("mc^2");
+    expect(text).not.toContain("\\frac");
+    expect(text).toContain("(1)");
+    expect(text).not.toContain("_Type:_");
+    expect(text).toContain("2 Figures [plot: Orbits] Figure 1. Phase portrait");
+    expect(text).toContain("3 Tables Table 1. Parameters Name Value k 1 & 2");
+    expect(text).toMatch(/References Author, A\. \(2020\)\. Nonlinear Oscillations\. Physics Letters\./);
+  });
+
+  it("keys the cached file on everything the PDF is rendered from", () => {
+    const hash = pdfSourceHash(document, options);
+
+    expect(hash).toMatch(/^[0-9a-f]{64}$/);
+    expect(pdfSourceHash({ ...document, updatedAt: new Date() }, { ...options })).toBe(hash);
+    expect(pdfSourceHash({ ...document, citationStyle: "IEEE" }, options)).not.toBe(hash);
+    expect(pdfSourceHash(document, { ...options, authors: [{ ...options.authors[0], name: "Ada King" }] })).not.toBe(hash);
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const dbMocks = vi.hoisted(() => ({
+  getGenerationJobById: vi.fn(async (): Promise<any> => ({
+    id: 1,
+    documentType: "technical_report",
+    status: "processing",
+    currentPhase: "Section Writing",
+    progressPercentage: 40,
+    errorMessage: null,
+  })),
+}));
+vi.mock("./db", () => dbMocks);
+
+import { publishGenerationEvent, streamGenerationEvents } from "./services/progressEvents";
+
+async function collect<T>(stream: AsyncGenerator<T>, onItem?: (item: T, index: number) => void) {
+  const items: T[] = [];
+  for await (const item of stream) {
+    onItem?.(item, items.length);
+    items.push(item);
+  }
+  return items;
+}
+
+describe("generation progress events", () => {
+  beforeEach(() => {
+    dbMocks.getGenerationJobById.mockClear();
+  });
+
+  it("streams a snapshot, then published events until the job finishes", async () => {
+    const events = await collect(streamGenerationEvents(1, { pollIntervalMs: 60_000 }), (_event, index) => {
+      if (index !== 0) return;
+      publishGenerationEvent(1, { type: "section_text", section: "Introduction", subsection: null, index: 0, text: "Draft" });
+      publishGenerationEvent(1, { type: "section_completed", section: "Introduction" });
+      publishGenerationEvent(2, { type: "progress", phase: "Final Assembly", progressPercentage: 95 });
+      publishGenerationEvent(1, { type: "status", status: "completed", errorMessage: null });
+    });
+
+    expect(events[0]).toMatchObject({
+      type: "snapshot",
+      status: "processing",
+      currentPhase: "Section Writing",
+      progressPercentage: 40,
+      sections: [],
+    });
+    expect((events[0] as any).phases).not.toContain("Novelty Assessment");
+    expect(events.slice(1)).toEqual([
+      { type: "section_text", section: "Introduction", subsection: null, index: 0, text: "Draft" },
+      { type: "section_completed", section: "Introduction" },
+      { type: "status", status: "completed", errorMessage: null },
+    ]);
+  });
+
+  it("replays text drafted before a client connects", async () => {
+    publishGenerationEvent(3, { type: "section_text", section: "Methods", subsection: "Data", index: 0, text: "Earlier" });
+    const controller = new AbortController();
+
+    const events = await collect(streamGenerationEvents(3, { signal: controller.signal, pollIntervalMs: 60_000 }), () => {
+      controller.abort();
+    });
+
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({
+      type: "snapshot",
+      sections: [{ type: "section_text", section: "Methods", subsection: "Data", index: 0, text: "Earlier" }],
+    });
+    publishGenerationEvent(3, { type: "status", status: "failed", errorMessage: "Cancelled by user" });
+  });
+
+  it("picks up progress from the job row when the worker runs in another process", async () => {
+    dbMocks.getGenerationJobById
+      .mockResolvedValueOnce({ id: 4, documentType: "journal_article", status: "processing", currentPhase: "Literature Review", progressPercentage: 0, errorMessage: null })
+      .mockResolvedValueOnce({ id: 4, documentType: "journal_article", status: "processing", currentPhase: "Novelty Assessment", progressPercentage: 15, errorMessage: null })
+      .mockResolvedValue({ id: 4, documentType: "journal_article", status: "failed", currentPhase: "Novelty Assessment", progressPercentage: 15, errorMessage: "boom" });
+
+    const events = await collect(streamGenerationEvents(4, { pollIntervalMs: 5 }));
+
+    expect(events.map(e => e.type)).toEqual(["snapshot", "progress", "status"]);
+    expect(events[1]).toEqual({ type: "progress", phase: "Novelty Assessment", progressPercentage: 15 });
+    expect(events[2]).toEqual({ type: "status", status: "failed", errorMessage: "boom" });
+  });
+});
@@ -0,0 +1,65 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+const llmMocks = vi.hoisted(() => ({ invokeLLM: vi.fn() }));
+vi.mock("./_core/llm", () => llmMocks);
+
+import { expandSearchQueries } from "./services/queryExpansion";
+
+const topic = {
+  title: "Graph Networks for Molecular Property Prediction",
+  researchDomain: "Computer Science",
+  subdomain: "Machine Learning",
+  keyHypotheses: ["Message passing improves solubility prediction", "Pretraining helps on small datasets"],
+};
+
+const reply = (content: string) => ({
+  id: "x",
+  created: Date.now(),
+  model: "mock",
+  choices: [{ index: 0, message: { role: "assistant", content }, finish_reason: "stop" }],
+});
+
+afterEach(() => {
+  llmMocks.invokeLLM.mockReset();
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+describe("search query expansion", () => {
+  it("starts with the domain query and drops duplicate or overlong generated queries", async () => {
+    vi.stubEnv("LITERATURE_MAX_QUERIES", "4");
+    llmMocks.invokeLLM.mockResolvedValueOnce(
+      reply(JSON.stringify({
+        queries: [
+          "\"graph neural networks\" molecular property prediction",
+          "Machine learning, computer science",
+          "message passing neural networks aqueous solubility prediction benchmark datasets comparison study review",
+          "molecular property prediction graph neural networks",
+          "self-supervised pretraining molecules",
+        ],
+      }))
+    );
+
+    const queries = await expandSearchQueries(topic);
+
+    expect(llmMocks.invokeLLM.mock.calls[0][0].response_format.json_schema.name).toBe("literature_queries");
+    expect(queries).toEqual([
+      "Computer Science Machine Learning",
+      "graph neural networks molecular property prediction",
+      "message passing neural networks aqueous solubility prediction benchmark datasets comparison",
+      "self-supervised pretraining molecules",
+    ]);
+  });
+
+  it("falls back to keyword queries from the title and hypotheses when the LLM fails", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => undefined);
+    llmMocks.invokeLLM.mockRejectedValueOnce(new Error("LLM invoke failed: 500"));
+
+    expect(await expandSearchQueries(topic)).toEqual([
+      "Computer Science Machine Learning",
+      "graph networks molecular property prediction",
+      "machine learning message passing improves solubility prediction",
+      "machine learning pretraining helps small datasets",
+    ]);
+  });
+});
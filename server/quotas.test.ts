@@ -0,0 +1,175 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { TrpcContext } from "./_core/context";
+
+const dbMocks = vi.hoisted(() => ({
+  getUserQuota: vi.fn(async (): Promise<any> => undefined),
+  getUserQuotaUsage: vi.fn(async () => ({ jobsToday: 0, wordsThisMonth: 0, tokensThisMonth: 0 })),
+  createGenerationJob: vi.fn(async () => 42),
+  createFullTextPages: vi.fn(async () => undefined),
+  getDocumentById: vi.fn(async () => ({ id: 10, jobId: 5, wordCount: 3000 })),
+  getGenerationJobById: vi.fn(async () => ({ id: 5, userId: 1 })),
+  createRevisionRequest: vi.fn(async () => 7),
+  getGenerationCheckpoint: vi.fn(async () => undefined),
+  resumeGenerationJob: vi.fn(async () => undefined),
+}));
+vi.mock("./db", () => dbMocks);
+
+vi.mock("./services/jobQueue", () => ({
+  notifyGenerationQueued: vi.fn(),
+  abortRunningGeneration: vi.fn(),
+}));
+
+vi.mock("./services/revisionProcessing", () => ({
+  processRevisionRequest: vi.fn(async () => undefined),
+}));
+
+import { appRouter } from "./routers";
+import { getQuotaStatus, getQuotaViolation } from "./services/quotas";
+
+function createAuthContext(role: "user" | "admin" = "user"): TrpcContext {
+  return {
+    user: {
+      id: 1,
+      openId: "test-user",
+      email: "test@example.com",
+      name: "Test User",
+      loginMethod: "local",
+      passwordHash: null,
+      passwordSalt: null,
+      role,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      lastSignedIn: new Date(),
+    } as NonNullable<TrpcContext["user"]>,
+    req: { protocol: "https", headers: {} } as TrpcContext["req"],
+    res: {} as TrpcContext["res"],
+  };
+}
+
+const generationInput = {
+  documentType: "journal_article",
+  title: "Quota Title",
+  researchDomain: "Computer Science",
+  targetWordCount: 5000,
+  citationStyle: "APA7",
+  authors: [{ name: "Dev User", affiliation: "Lab", isCorresponding: true }],
+};
+
+describe("generation quotas", () => {
+  beforeEach(() => {
+    process.env.QUOTA_USER_JOBS_PER_DAY = "3";
+    process.env.QUOTA_USER_WORDS_PER_MONTH = "10000";
+    process.env.QUOTA_USER_TOKENS_PER_MONTH = "1000";
+    for (const mock of Object.values(dbMocks)) mock.mockClear();
+  });
+
+  afterEach(() => {
+    delete process.env.QUOTA_USER_JOBS_PER_DAY;
+    delete process.env.QUOTA_USER_WORDS_PER_MONTH;
+    delete process.env.QUOTA_USER_TOKENS_PER_MONTH;
+  });
+
+  it("counts usage from the start of the UTC day and month", async () => {
+    const status = await getQuotaStatus({ id: 1, role: "user" }, new Date("2026-03-15T18:30:00Z"));
+
+    expect(dbMocks.getUserQuotaUsage).toHaveBeenCalledWith(1, {
+      dayStart: new Date("2026-03-15T00:00:00Z"),
+      monthStart: new Date("2026-03-01T00:00:00Z"),
+    });
+    expect(status.limits).toEqual({ jobsPerDay: 3, wordsPerMonth: 10000, tokensPerMonth: 1000 });
+    expect(status.dailyResetAt).toEqual(new Date("2026-03-16T00:00:00Z"));
+    expect(status.monthlyResetAt).toEqual(new Date("2026-04-01T00:00:00Z"));
+  });
+
+  it("replaces role defaults with admin overrides, where null is unlimited and 0 blocks", async () => {
+    dbMocks.getUserQuota.mockResolvedValueOnce({ userId: 1, jobsPerDay: 20, wordsPerMonth: null, tokensPerMonth: 0 });
+    const overridden = await getQuotaStatus({ id: 1, role: "user" });
+    expect(overridden.limits).toEqual({ jobsPerDay: 20, wordsPerMonth: null, tokensPerMonth: 0 });
+    expect(overridden.remaining.wordsThisMonth).toBeNull();
+    expect(getQuotaViolation(overridden, { jobs: 1, words: 1 })).toMatch(/token budget/);
+
+    const admin = await getQuotaStatus({ id: 2, role: "admin" });
+    expect(admin.limits).toEqual({ jobsPerDay: null, wordsPerMonth: null, tokensPerMonth: null });
+    expect(admin.remaining.jobsToday).toBeNull();
+  });
+
+  it("reads role defaults from the environment with the same meaning", async () => {
+    process.env.QUOTA_USER_JOBS_PER_DAY = "0";
+    process.env.QUOTA_USER_WORDS_PER_MONTH = "unlimited";
+    process.env.QUOTA_USER_TOKENS_PER_MONTH = "";
+    const status = await getQuotaStatus({ id: 1, role: "user" });
+
+    expect(status.limits).toEqual({ jobsPerDay: 0, wordsPerMonth: null, tokensPerMonth: 5_000_000 });
+    expect(getQuotaViolation(status, { jobs: 1, words: 1 })).toMatch(/Daily limit of 0/);
+  });
+
+  it("rejects generation over the daily job limit with TOO_MANY_REQUESTS", async () => {
+    dbMocks.getUserQuotaUsage.mockResolvedValueOnce({ jobsToday: 3, wordsThisMonth: 0, tokensThisMonth: 0 });
+    const caller = appRouter.createCaller(createAuthContext());
+
+    await expect(caller.generation.create(generationInput)).rejects.toMatchObject({
+      code: "TOO_MANY_REQUESTS",
+      message: expect.stringContaining("Daily limit of 3"),
+    });
+    expect(dbMocks.createGenerationJob).not.toHaveBeenCalled();
+  });
+
+  it("rejects requests that would exceed the monthly word quota", async () => {
+    dbMocks.getUserQuotaUsage.mockResolvedValueOnce({ jobsToday: 0, wordsThisMonth: 6000, tokensThisMonth: 0 });
+    const caller = appRouter.createCaller(createAuthContext());
+
+    await expect(caller.generation.create(generationInput)).rejects.toMatchObject({
+      code: "TOO_MANY_REQUESTS",
+      message: expect.stringContaining("only 4,000 of your 10,000-word monthly quota remain"),
+    });
+
+    const result = await caller.generation.create({ ...generationInput, targetWordCount: 4000 });
+    expect(result).toEqual({ jobId: 42, success: true });
+  });
+
+  it("rejects word counts that are not a positive whole number", async () => {
+    const caller = appRouter.createCaller(createAuthContext());
+
+    for (const targetWordCount of [-5000, 0, 1500.5]) {
+      await expect(caller.generation.create({ ...generationInput, targetWordCount })).rejects.toMatchObject({
+        code: "BAD_REQUEST",
+      });
+    }
+    expect(dbMocks.createGenerationJob).not.toHaveBeenCalled();
+  });
+
+  it("charges revisions the word count of the revised document", async () => {
+    dbMocks.getUserQuotaUsage.mockResolvedValueOnce({ jobsToday: 0, wordsThisMonth: 8000, tokensThisMonth: 0 });
+    const caller = appRouter.createCaller(createAuthContext());
+
+    await expect(
+      caller.revisions.create({
+        documentId: 10,
+        revisionType: "global_revision",
+        instructions: "Tighten",
+        preserveArgument: true,
+        preserveFigures: true,
+        preserveWordCount: false,
+        preserveCitations: true,
+      })
+    ).rejects.toMatchObject({ code: "TOO_MANY_REQUESTS" });
+    expect(dbMocks.createRevisionRequest).not.toHaveBeenCalled();
+  });
+  it("checks the token budget before resuming a failed job, without charging it again", async () => {
+    dbMocks.getGenerationJobById.mockResolvedValue({ id: 5, userId: 1, status: "failed" });
+    const caller = appRouter.createCaller(createAuthContext());
+
+    dbMocks.getUserQuotaUsage.mockResolvedValueOnce({ jobsToday: 0, wordsThisMonth: 0, tokensThisMonth: 1000 });
+    await expect(caller.generation.resume({ jobId: 5 })).rejects.toMatchObject({
+      code: "TOO_MANY_REQUESTS",
+      message: expect.stringContaining("token budget"),
+    });
+    expect(dbMocks.resumeGenerationJob).not.toHaveBeenCalled();
+
+    // A job that used the last daily request and the whole word quota can still be resumed
+    dbMocks.getUserQuotaUsage.mockResolvedValueOnce({ jobsToday: 3, wordsThisMonth: 10000, tokensThisMonth: 0 });
+    await expect(caller.generation.resume({ jobId: 5 })).resolves.toMatchObject({ success: true });
+    expect(dbMocks.resumeGenerationJob).toHaveBeenCalledWith(5);
+    dbMocks.getGenerationJobById.mockResolvedValue({ id: 5, userId: 1 });
+  });
+});
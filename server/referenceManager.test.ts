@@ -0,0 +1,187 @@
+import { describe, expect, it, vi } from "vitest";
+
+const dbMocks = vi.hoisted(() => ({
+  saveDocumentCitations: vi.fn(async (_documentId: number, _plan: (document: any, current: any[]) => any): Promise<string> => ""),
+  getDocumentCitations: vi.fn(async (): Promise<any[]> => []),
+  getDocumentAuthors: vi.fn(async () => [{ id: 1, documentId: 7, name: "Ada", affiliation: "Lab", orderIndex: 1, createdAt: new Date() }]),
+  getDocumentFigures: vi.fn(async () => []),
+  getDocumentTables: vi.fn(async () => []),
+  getDocumentArgumentNodes: vi.fn(async () => []),
+  getDocumentCitationVerifications: vi.fn(async () => [{ id: 3, documentId: 7, citationKey: "ref2", claim: "c", verdict: "supported", orderIndex: 1 }]),
+  createDocumentVersion: vi.fn(async (_document: any, _children: any) => 8),
+  getStyledDocuments: vi.fn(async (): Promise<any[]> => []),
+  updateDocumentContent: vi.fn(async () => undefined),
+}));
+
+vi.mock("./db", () => dbMocks);
+
+import type { Citation, Document } from "../drizzle/schema";
+import { remapCitationMarkers, restoreLegacyCitations } from "./services/citationMarkers";
+import type { CslItem } from "./services/csl";
+import { migrateStyledDocuments, renderDocumentContent } from "./services/documentContent";
+import { citationToReference, createRestyledDocument, saveReferences } from "./services/referenceManager";
+
+const item = (id: string, family: string, year: number, coauthors = 0): CslItem => ({
+  id,
+  type: "article-journal",
+  title: `Work by ${family}`,
+  author: [{ family, given: "A." }, ...Array.from({ length: coauthors }, (_, i) => ({ family: `Co${i}`, given: "B." }))],
+  issued: { "date-parts": [[year]] },
+  "container-title": "Journal of Tests",
+});
+
+const items = [item("ref1", "Smith", 2020, 2), item("ref2", "Jones", 2021), item("ref3", "Kim", 2019)];
+const body = "Prior work [ref1] and later studies [ref2][ref3] agree. Jones again [ref2].";
+
+const row = (csl: CslItem, index: number): Citation => ({
+  id: 100 + index,
+  documentId: 7,
+  doi: null,
+  title: csl.title ?? "",
+  authorsText: (csl.author ?? []).map(name => `${name.given} ${name.family}`).join(", "),
+  journal: "Journal of Tests",
+  year: Number(csl.issued?.["date-parts"]?.[0]?.[0]),
+  volume: null,
+  issue: null,
+  pages: null,
+  url: null,
+  citationKey: csl.id,
+  metadataStatus: "unchecked",
+  metadataNotes: null,
+  searchQueries: null,
+  csl,
+  formattedCitations: null,
+  orderIndex: index + 1,
+  createdAt: new Date(),
+});
+
+// In-text citations as the formatter before canonical storage wrote them.
+const legacyAuthorDate = "Prior work (Smith et al., 2020) and later studies (Jones, 2021; Kim, 2019) agree. Jones again (Jones, 2021).";
+const legacyIeee = "Prior work [1] and later studies [2,3] agree. Jones again [2].";
+
+const legacyWorks = (list: CslItem[]) =>
+  list.map(csl => ({ key: csl.id, authors: (csl.author ?? []).map(name => `${name.given} ${name.family}`), year: Number(csl.issued?.["date-parts"]?.[0]?.[0]) || null }));
+
+describe("citation markers", () => {
+  it("turns legacy in-text citations back into markers in every style", () => {
+    for (const style of ["APA7", "Chicago", "Harvard", "Vancouver", "Nature", "Science"]) {
+      expect(restoreLegacyCitations(legacyAuthorDate, legacyWorks(items), style)).toBe(body);
+    }
+    expect(restoreLegacyCitations(legacyIeee, legacyWorks(items), "IEEE")).toBe(body);
+    expect(restoreLegacyCitations("Prior work (Smith et al.) and later studies (Jones; Kim) agree. Jones again (Jones).", legacyWorks(items), "MLA9")).toBe(body);
+    expect(restoreLegacyCitations("Sample sizes (n = 40) vary (Smith et al., 2020).", legacyWorks(items), "APA7")).toBe(
+      "Sample sizes (n = 40) vary [ref1]."
+    );
+  });
+
+  it("maps two-author citations and tells same-label works apart only when all are cited together", () => {
+    const works = legacyWorks([item("ref1", "Lee", 2018, 0), item("ref2", "Vaswani", 2017, 3), item("ref3", "Vaswani", 2017, 4)]);
+    works[0].authors.push("C. Kim");
+
+    expect(restoreLegacyCitations("As shown (Lee & Kim).", works, "MLA9")).toBe("As shown [ref1].");
+    expect(restoreLegacyCitations("Attention (Vaswani et al., 2017; Vaswani et al., 2017) and (Lee & Kim, 2018).", works, "APA7")).toBe(
+      "Attention [ref2][ref3] and [ref1]."
+    );
+    expect(restoreLegacyCitations("Attention (Vaswani et al., 2017).", works, "APA7")).toBeNull();
+  });
+
+  it("reports citations that match no reference", () => {
+    expect(restoreLegacyCitations("Missing (Unknown, n.d.) here.", legacyWorks(items), "APA7")).toBeNull();
+    expect(restoreLegacyCitations("Missing [2,4] here.", legacyWorks(items), "IEEE")).toBeNull();
+  });
+
+  it("re-keys markers and drops those of removed works", () => {
+    const keys = new Map<string, string | null>([["ref1", "ref2"], ["ref2", null], ["ref3", "ref1"]]);
+    expect(remapCitationMarkers(body, keys)).toBe("Prior work [ref2] and later studies [ref1] agree. Jones again.");
+  });
+});
+
+describe("saveReferences", () => {
+  it("renumbers references and re-keys the in-text citations", async () => {
+    const current = items.map(row);
+    // A styled document from before canonical storage is converted as part of the save.
+    const document = {
+      id: 7,
+      citationStyle: "IEEE",
+      contentFormat: "styled",
+      content: `# Title\n\n${legacyIeee}\n\n## References\n\n1. stale`,
+    } as Document;
+    let plan: ReturnType<Parameters<typeof dbMocks.saveDocumentCitations>[1]> | undefined;
+    dbMocks.saveDocumentCitations.mockImplementationOnce(async (_documentId, build) => {
+      plan = build(document, current);
+      return plan.document.content;
+    });
+
+    const { content } = await saveReferences(7, ([smith, , kim]) => [kim, smith]);
+
+    expect(dbMocks.saveDocumentCitations).toHaveBeenCalledWith(7, expect.any(Function));
+    expect(content).toBe("# Title\n\nPrior work [ref2] and later studies [ref1] agree. Jones again.");
+    const { document: saved, rows, renamedKeys } = plan!;
+    expect(saved).toMatchObject({ content, contentFormat: "canonical" });
+    expect(renderDocumentContent({ ...document, ...saved }, rows as Citation[])).toMatch(
+      /Prior work \[2\] and later studies \[1\] agree\. Jones again\.\n\n## References\n\n.*Kim.*\n.*Smith/
+    );
+    expect(rows.map((r: Citation) => [r.id, r.citationKey, r.orderIndex])).toEqual([[102, "ref1", 1], [100, "ref2", 2]]);
+    expect(Array.from(renamedKeys.entries())).toEqual([["ref1", "ref2"], ["ref2", null], ["ref3", "ref1"]]);
+  });
+
+  it("applies the edit to the list as stored when the save runs", async () => {
+    const document = { id: 7, citationStyle: "APA7", contentFormat: "canonical", content: body } as Document;
+    // Another edit removed Jones between loading the page and this save.
+    const stored = [row(items[0], 0), row(items[2], 2)];
+    let plan: ReturnType<Parameters<typeof dbMocks.saveDocumentCitations>[1]> | undefined;
+    dbMocks.saveDocumentCitations.mockImplementationOnce(async (_documentId, build) => {
+      plan = build({ ...document, content: remapCitationMarkers(body, new Map([["ref2", null]])) }, stored);
+      return plan.document.content;
+    });
+
+    await saveReferences(7, references => references.filter(reference => reference.key !== "ref1"));
+
+    expect(plan!.rows.map((r: Citation) => [r.id, r.citationKey])).toEqual([[102, "ref1"]]);
+    expect(Array.from(plan!.renamedKeys.entries())).toEqual([["ref1", null], ["ref3", "ref1"]]);
+    expect(plan!.document.content).toBe("Prior work and later studies [ref1] agree. Jones again.");
+  });
+});
+
+describe("createRestyledDocument", () => {
+  it("saves a new version whose citations and bibliography render in the new style", async () => {
+    dbMocks.getDocumentCitations.mockResolvedValueOnce(items.map(row));
+    const document = { id: 7, jobId: 3, title: "Title", citationStyle: "APA7", contentFormat: "canonical", content: body } as Document;
+
+    expect(await createRestyledDocument(document, "Vancouver")).toBe(8);
+
+    expect(dbMocks.createDocumentVersion).toHaveBeenCalledTimes(1);
+    const [saved, children] = dbMocks.createDocumentVersion.mock.calls[0] as [Document, { citations: Citation[]; [rows: string]: any[] }];
+    expect(saved).toMatchObject({ jobId: 3, citationStyle: "Vancouver", contentFormat: "canonical", content: body });
+    const rendered = renderDocumentContent(saved, items.map(row));
+    expect(rendered).toContain("Prior work (1) and later studies (2,3) agree. Jones again (2).");
+    expect(rendered).toMatch(/## References\n\n1\. Smith/);
+    expect(renderDocumentContent(document, items.map(row))).toContain("(Smith et al., 2020)");
+    expect(children.citations.map(c => c.citationKey)).toEqual(["ref1", "ref2", "ref3"]);
+    expect(children.citations[0].formattedCitations?.Vancouver).toMatch(/^1\. Smith/);
+    expect(children.authors).toEqual([expect.objectContaining({ name: "Ada" })]);
+    expect(children.citationVerifications).toEqual([expect.objectContaining({ citationKey: "ref2" })]);
+    expect(Object.values(children).flat().some(child => "id" in child || "documentId" in child)).toBe(false);
+  });
+});
+
+describe("migrateStyledDocuments", () => {
+  it("maps legacy in-text citations back to keys and drops the References section", async () => {
+    const styled = {
+      id: 9,
+      citationStyle: "Harvard",
+      contentFormat: "styled",
+      content: `## Introduction\n\n${legacyAuthorDate}\n\n## References\n\n- Smith, A. (2020).`,
+    };
+    const unmatched = { ...styled, id: 10, content: "## Introduction\n\nOnly (Unknown, n.d.) here." };
+    dbMocks.getStyledDocuments.mockResolvedValueOnce([styled, unmatched]).mockResolvedValueOnce([unmatched]);
+    dbMocks.getDocumentCitations.mockResolvedValueOnce(items.map(row)).mockResolvedValueOnce(items.map(row));
+
+    expect(await migrateStyledDocuments()).toBe(1);
+    expect(dbMocks.updateDocumentContent).toHaveBeenCalledTimes(1);
+    expect(dbMocks.updateDocumentContent).toHaveBeenCalledWith(9, {
+      content: `## Introduction\n\n${body}`,
+      contentFormat: "canonical",
+    });
+  });
+});
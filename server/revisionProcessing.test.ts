@@ -63,11 +63,20 @@ const dbMocks = vi.hoisted(() => ({
     { id: 1, documentId: 10, name: "A", affiliation: "B", email: null, orcid: null, isCorresponding: 1, orderIndex: 1, createdAt: new Date() },
   ]),
   getDocumentCitations: vi.fn(async () => [
-    { id: 1, documentId: 10, doi: null, title: "C", authorsText: "A", journal: null, year: 2020, volume: null, pages: null, url: null, citationKey: "ref1", formattedCitations: {}, orderIndex: 1, createdAt: new Date() },
+    { id: 1, documentId: 10, doi: null, title: "C", authorsText: "A", journal: null, year: 2020, volume: null, issue: "2", pages: null, url: null, citationKey: "ref1", formattedCitations: {}, metadataStatus: "verified", metadataNotes: null, searchQueries: ["c"], orderIndex: 1, createdAt: new Date() },
   ]),
   createDocument: vi.fn(async () => 99),
   createAuthors: vi.fn(async () => undefined),
   createCitations: vi.fn(async () => undefined),
+  getDocumentCitationVerifications: vi.fn(async () => [
+    { id: 4, documentId: 10, citationKey: "ref1", claim: "Claim", verdict: "supported", orderIndex: 1, createdAt: new Date() },
+  ]),
+  createCitationVerifications: vi.fn(async () => undefined),
+  getDocumentArgumentNodes: vi.fn(async () => [
+    { id: 3, documentId: 10, nodeKey: "C1", nodeType: "claim", content: "Claim", parentKey: null, citationKeys: ["ref1"], sectionTitle: "Introduction", orderIndex: 1, createdAt: new Date() },
+  ]),
+  createArgumentNodes: vi.fn(async () => undefined),
+  recordLlmUsage: vi.fn(async () => undefined),
 }));
 
 vi.mock("./db", () => dbMocks);
@@ -86,11 +95,44 @@ describe("revision processing", () => {
     expect(dbMocks.updateRevisionRequestStatus).toHaveBeenCalledWith(1, { status: "processing" });
     expect(dbMocks.createDocument).toHaveBeenCalled();
     expect(dbMocks.createAuthors).toHaveBeenCalled();
-    expect(dbMocks.createCitations).toHaveBeenCalled();
+    expect(dbMocks.createCitations).toHaveBeenCalledWith([
+      { documentId: 99, doi: null, title: "C", authorsText: "A", journal: null, year: 2020, volume: null, issue: "2", pages: null, url: null, citationKey: "ref1", formattedCitations: {}, metadataStatus: "verified", metadataNotes: null, searchQueries: ["c"], orderIndex: 1 },
+    ]);
+    expect(dbMocks.createCitationVerifications).toHaveBeenCalledWith([
+      { documentId: 99, citationKey: "ref1", claim: "Claim", verdict: "supported", orderIndex: 1 },
+    ]);
+    expect(dbMocks.createArgumentNodes).toHaveBeenCalledWith([
+      { documentId: 99, nodeKey: "C1", nodeType: "claim", content: "Claim", parentKey: null, citationKeys: ["ref1"], sectionTitle: "Introduction", orderIndex: 1 },
+    ]);
     expect(dbMocks.updateRevisionRequestStatus).toHaveBeenCalledWith(
       1,
       expect.objectContaining({ status: "completed", newDocumentId: 99 })
     );
   });
+
+  it("charges the LLM tokens it spends to the revision request", async () => {
+    llmMocks.invokeLLM.mockImplementationOnce(async (params: any) => {
+      params.onUsage?.({ model: "gpt-4o-mini", promptTokens: 1000, completionTokens: 500, totalTokens: 1500, latencyMs: 42 });
+      return {
+        id: "x",
+        created: Date.now(),
+        model: "gpt-4o-mini",
+        choices: [{ index: 0, message: { role: "assistant", content: "## Abstract\n\nRevised.\n" }, finish_reason: "stop" }],
+      };
+    });
+
+    await processRevisionRequest(1);
+
+    expect(llmMocks.invokeLLM).toHaveBeenCalledWith(expect.objectContaining({ onUsage: expect.any(Function) }));
+    expect(dbMocks.recordLlmUsage).toHaveBeenCalledWith({
+      revisionRequestId: 1,
+      phase: "Revision",
+      model: "gpt-4o-mini",
+      promptTokens: 1000,
+      completionTokens: 500,
+      latencyMs: 42,
+      estimatedCostUsd: expect.closeTo(0.00045, 8),
+    });
+  });
 });
 
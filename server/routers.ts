@@ -1,4 +1,4 @@
-import { COOKIE_NAME, ONE_YEAR_MS } from "@shared/const";
+import { CITATION_STYLES, COOKIE_NAME, MAX_FULL_TEXT_UPLOAD_BYTES, MAX_FULL_TEXT_UPLOADS, MAX_TARGET_WORD_COUNT, ONE_YEAR_MS } from "@shared/const";
 import { getSessionCookieOptions } from "./_core/cookies";
 import { systemRouter } from "./_core/systemRouter";
 import { publicProcedure, protectedProcedure, router } from "./_core/trpc";
@@ -6,9 +6,31 @@ import { TRPCError } from "@trpc/server";
 import { z } from "zod";
 import { nanoid } from "nanoid";
 import * as db from "./db";
-import { generateDocument } from "./services/documentGeneration";
+import { abortRunningGeneration, notifyGenerationQueued } from "./services/jobQueue";
 import { processRevisionRequest } from "./services/revisionProcessing";
 import { exportDocument } from "./services/documentExport";
+import { exportDocx } from "./services/docxExport";
+import { exportPdf, pdfSourceHash, PDF_MIME_TYPE } from "./services/pdfExport";
+import { exportFilename } from "./services/exportContent";
+import { storagePut } from "./storage";
+import { getQuotaStatus, getQuotaViolation, getRoleDefaultLimits } from "./services/quotas";
+import { publishGenerationEvent, streamGenerationEvents } from "./services/progressEvents";
+import { MAX_BIBLIOGRAPHY_LENGTH, parseBibliography } from "./services/bibliographyImport";
+import { getLiteratureCacheStats } from "./services/literatureCache";
+import { searchLiterature } from "./services/literature";
+import { resolveCitationStyle } from "./services/csl";
+import { renderDocumentContent, restoreStyledContent } from "./services/documentContent";
+import { literatureMatrixToCsv } from "./services/literatureMatrix";
+import { extractPdfPages } from "./services/fullText";
+import { isDocumentType } from "./services/pipelines";
+import {
+  citationToReference,
+  createRestyledDocument,
+  referenceFromDoi,
+  referenceFromFields,
+  saveReferences,
+  type ManagedReference,
+} from "./services/referenceManager";
 import { sdk } from "./_core/sdk";
 import {
   hashPassword,
@@ -36,6 +58,38 @@ function toFriendlyAuthDbError(error: unknown): TRPCError | null {
   });
 }
 
+const referenceFieldsSchema = z.object({
+  title: z.string().trim().min(1).max(1000),
+  authors: z.array(z.string().max(255)).max(200),
+  year: z.number().int().min(1000).max(3000).nullish(),
+  journal: z.string().max(255).nullish(),
+  volume: z.string().max(50).nullish(),
+  issue: z.string().max(50).nullish(),
+  pages: z.string().max(50).nullish(),
+  doi: z.string().max(100).nullish(),
+  url: z.string().max(2000).nullish(),
+});
+
+// Loads a document for a reference-list edit; only the owner may change it.
+async function getEditableDocument(userId: number, documentId: number) {
+  const document = await db.getDocumentById(documentId);
+  if (!document) {
+    throw new TRPCError({ code: 'NOT_FOUND', message: 'Document not found' });
+  }
+  const job = await db.getGenerationJobById(document.jobId);
+  if (job.userId !== userId) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: 'Access denied' });
+  }
+  // Renumbering needs every in-text citation keyed to its reference.
+  if (document.contentFormat === 'styled' && restoreStyledContent(document, await db.getDocumentCitations(document.id)) === null) {
+    throw new TRPCError({
+      code: 'PRECONDITION_FAILED',
+      message: "This document's in-text citations could not all be matched to its references, so its reference list cannot be edited",
+    });
+  }
+  return document;
+}
+
 // Admin-only procedure
 const adminProcedure = protectedProcedure.use(({ ctx, next }) => {
   if (ctx.user.role !== 'admin') {
@@ -220,15 +274,15 @@ export const appRouter = router({
     // Create a new generation job
     create: protectedProcedure
       .input(z.object({
-        documentType: z.string(),
+        documentType: z.string().refine(isDocumentType, { message: "Unknown document type" }),
         title: z.string(),
         researchDomain: z.string(),
         subdomain: z.string().optional(),
-        targetWordCount: z.number(),
+        targetWordCount: z.number().int().positive().max(MAX_TARGET_WORD_COUNT),
         numFigures: z.number().optional(),
         numTables: z.number().optional(),
         numReferences: z.number().optional(),
-        citationStyle: z.string(),
+        citationStyle: z.enum(CITATION_STYLES),
         targetJournal: z.string().optional(),
         abstractProvided: z.string().optional(),
         keyHypotheses: z.array(z.string()).optional(),
@@ -240,37 +294,98 @@ export const appRouter = router({
           orcid: z.string().optional(),
           isCorresponding: z.boolean(),
         })),
+        referenceLibrary: z.object({
+          fileName: z.string().max(255).optional(),
+          content: z.string().max(MAX_BIBLIOGRAPHY_LENGTH),
+          mode: z.enum(["merge", "replace"]),
+        }).optional(),
+        // Base64-encoded PDFs of cited works; matched to the references once they are chosen
+        fullTexts: z.array(z.object({
+          fileName: z.string().min(1).max(255),
+          data: z.string().max(Math.ceil(MAX_FULL_TEXT_UPLOAD_BYTES / 3) * 4),
+        })).max(MAX_FULL_TEXT_UPLOADS).optional(),
       }))
       .mutation(async ({ ctx, input }) => {
-        const { authors, ...jobData } = input;
+        const quota = await getQuotaStatus(ctx.user);
+        const violation = getQuotaViolation(quota, { jobs: 1, words: input.targetWordCount });
+        if (violation) {
+          throw new TRPCError({ code: 'TOO_MANY_REQUESTS', message: violation });
+        }
+        
+        const { referenceLibrary, fullTexts, ...jobInput } = input;
+        const seedReferences = referenceLibrary
+          ? parseBibliography(referenceLibrary.content, referenceLibrary.fileName)
+          : null;
+        if (seedReferences && seedReferences.items.length === 0) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: seedReferences.warnings[0] ?? 'The reference library has no usable entries',
+          });
+        }
+        
+        // PDFs are read now so an unreadable upload fails the request rather than the job.
+        const uploads: Array<{ fileName: string; pages: string[] }> = [];
+        const fileNameCounts = new Map<string, number>();
+        for (const file of fullTexts ?? []) {
+          const pages = await extractPdfPages(Buffer.from(file.data, "base64")).catch(() => null);
+          if (!pages || !pages.some(Boolean)) {
+            throw new TRPCError({
+              code: 'BAD_REQUEST',
+              message: `"${file.fileName}" is not a PDF with extractable text`,
+            });
+          }
+          // File names identify uploads, so repeated names are numbered.
+          const count = (fileNameCounts.get(file.fileName) ?? 0) + 1;
+          fileNameCounts.set(file.fileName, count);
+          uploads.push({ fileName: count > 1 ? `${file.fileName} (${count})` : file.fileName, pages });
+        }
         
-        // Create generation job
+        // Create generation job; a queue worker claims it (see services/jobQueue.ts)
         const jobId = await db.createGenerationJob({
           userId: ctx.user.id,
-          ...jobData,
+          ...jobInput,
+          seedReferences: seedReferences?.items,
+          seedReferenceMode: referenceLibrary?.mode ?? "merge",
           status: "queued",
           progressPercentage: 0,
         });
+        // Read in the Full-Text Retrieval phase, which only starts after the literature search.
+        await db.createFullTextPages(
+          uploads.flatMap(upload =>
+            upload.pages.flatMap((content, index) =>
+              content ? [{ jobId, source: "upload" as const, origin: upload.fileName, page: index + 1, content }] : []
+            )
+          )
+        );
         
-        // Trigger real document generation in background
-        generateDocument({
-          jobId,
-          ...jobData,
-          authors: authors.map(a => ({
-            ...a,
-            isCorresponding: a.isCorresponding || false,
-          })),
-        }).catch(error => {
-          console.error("Generation error:", error);
-          db.completeGenerationJob(jobId, {
-            status: "failed",
-            errorMessage: error.message,
-          });
-        });
+        notifyGenerationQueued();
         
         return { jobId, success: true };
       }),
     
+    // Parse an uploaded reference library so the form can preview it before submitting
+    previewReferences: protectedProcedure
+      .input(z.object({
+        fileName: z.string().max(255).optional(),
+        content: z.string().max(MAX_BIBLIOGRAPHY_LENGTH),
+      }))
+      .mutation(({ input }) => {
+        const parsed = parseBibliography(input.content, input.fileName);
+        return {
+          format: parsed.format,
+          duplicates: parsed.duplicates,
+          warnings: parsed.warnings,
+          references: parsed.items.map(item => ({
+            id: item.id,
+            title: item.title ?? "",
+            authors: (item.author ?? []).map(name => name.literal ?? [name.given, name.family].filter(Boolean).join(" ")),
+            year: Number(item.issued?.["date-parts"]?.[0]?.[0]) || null,
+            venue: item["container-title"] ?? item.publisher ?? null,
+            doi: item.DOI ?? null,
+          })),
+        };
+      }),
+    
     // Get job status
     getStatus: protectedProcedure
       .input(z.object({ jobId: z.number() }))
@@ -289,12 +404,35 @@ export const appRouter = router({
         return job;
       }),
     
+    // Stream phase changes, drafted section text and the final status (SSE)
+    onProgress: protectedProcedure
+      .input(z.object({ jobId: z.number() }))
+      .subscription(async function* ({ ctx, input, signal }) {
+        const job = await db.getGenerationJobById(input.jobId);
+        
+        if (!job) {
+          throw new TRPCError({ code: 'NOT_FOUND', message: 'Job not found' });
+        }
+        
+        if (job.userId !== ctx.user.id && ctx.user.role !== 'admin') {
+          throw new TRPCError({ code: 'FORBIDDEN', message: 'Access denied' });
+        }
+        
+        yield* streamGenerationEvents(input.jobId, { signal });
+      }),
+    
     // Get user's generation history
     getHistory: protectedProcedure
       .query(async ({ ctx }) => {
         return db.getUserGenerationJobs(ctx.user.id);
       }),
     
+    // Get the caller's quota limits, usage and what remains
+    getQuota: protectedProcedure
+      .query(async ({ ctx }) => {
+        return getQuotaStatus(ctx.user);
+      }),
+    
     // Cancel a generation job
     cancel: protectedProcedure
       .input(z.object({ jobId: z.number() }))
@@ -317,9 +455,50 @@ export const appRouter = router({
           status: "failed",
           errorMessage: "Cancelled by user",
         });
+        abortRunningGeneration(input.jobId, "Cancelled by user");
+        publishGenerationEvent(input.jobId, {
+          type: "status",
+          status: "failed",
+          errorMessage: "Cancelled by user",
+        });
         
         return { success: true };
       }),
+    
+    // Resume a failed job from its last checkpoint (the phase that failed)
+    resume: protectedProcedure
+      .input(z.object({ jobId: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        const job = await db.getGenerationJobById(input.jobId);
+        
+        if (!job) {
+          throw new TRPCError({ code: 'NOT_FOUND', message: 'Job not found' });
+        }
+        
+        if (job.userId !== ctx.user.id) {
+          throw new TRPCError({ code: 'FORBIDDEN', message: 'Access denied' });
+        }
+        
+        if (job.status !== "failed") {
+          throw new TRPCError({ code: 'BAD_REQUEST', message: 'Only failed jobs can be resumed' });
+        }
+        
+        // The job and its words were charged when it was created; resuming spends more tokens
+        const violation = getQuotaViolation(await getQuotaStatus(ctx.user), { jobs: 0, words: 0 });
+        if (violation) {
+          throw new TRPCError({ code: 'TOO_MANY_REQUESTS', message: violation });
+        }
+        
+        const checkpoint = await db.getGenerationCheckpoint(input.jobId);
+        await db.resumeGenerationJob(input.jobId);
+        notifyGenerationQueued();
+        
+        return {
+          jobId: input.jobId,
+          completedPhases: checkpoint?.completedPhases ?? [],
+          success: true,
+        };
+      }),
   }),
 
   // Documents
@@ -345,13 +524,27 @@ export const appRouter = router({
         const citations = await db.getDocumentCitations(document.id);
         const figures = await db.getDocumentFigures(document.id);
         const tables = await db.getDocumentTables(document.id);
+        const argumentNodes = await db.getDocumentArgumentNodes(document.id);
+        const citationVerifications = await db.getDocumentCitationVerifications(document.id);
+        const literatureMatrix = await db.getLiteratureMatrix(document.jobId);
         
         return {
           ...document,
+          // Stored content keeps [refX] markers; readers get it in the document's style
+          content: renderDocumentContent(document, citations),
           authors,
           citations,
           figures,
           tables,
+          argumentNodes,
+          citationVerifications,
+          literatureMatrix,
+          usage: {
+            llmCalls: job.llmCalls,
+            promptTokens: job.promptTokens,
+            completionTokens: job.completionTokens,
+            estimatedCostUsd: job.estimatedCostUsd,
+          },
         };
       }),
     
@@ -380,21 +573,80 @@ export const appRouter = router({
         const citations = await db.getDocumentCitations(document.id);
         const figures = await db.getDocumentFigures(document.id);
         const tables = await db.getDocumentTables(document.id);
+        const argumentNodes = await db.getDocumentArgumentNodes(document.id);
+        const citationVerifications = await db.getDocumentCitationVerifications(document.id);
+        const literatureMatrix = await db.getLiteratureMatrix(document.jobId);
         
         return {
           ...document,
+          // Stored content keeps [refX] markers; readers get it in the document's style
+          content: renderDocumentContent(document, citations),
           authors,
           citations,
           figures,
           tables,
+          argumentNodes,
+          citationVerifications,
+          literatureMatrix,
+          usage: {
+            llmCalls: job.llmCalls,
+            promptTokens: job.promptTokens,
+            completionTokens: job.completionTokens,
+            estimatedCostUsd: job.estimatedCostUsd,
+          },
+        };
+      }),
+
+    exportLiteratureMatrix: protectedProcedure
+      .input(z.object({ documentId: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        const document = await db.getDocumentById(input.documentId);
+
+        if (!document) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Document not found" });
+        }
+
+        const job = await db.getGenerationJobById(document.jobId);
+        if (job.userId !== ctx.user.id && ctx.user.role !== "admin") {
+          throw new TRPCError({ code: "FORBIDDEN", message: "Access denied" });
+        }
+
+        const rows = await db.getLiteratureMatrix(document.jobId);
+        return {
+          filename: `${document.title.replace(/[^a-z0-9-_]+/gi, "_")}_literature_matrix.csv`,
+          mimeType: "text/csv; charset=utf-8",
+          content: literatureMatrixToCsv(rows),
         };
       }),
 
+    // Re-render citations and bibliography in another style, as a new version
+    changeCitationStyle: protectedProcedure
+      .input(z.object({ documentId: z.number(), citationStyle: z.enum(CITATION_STYLES) }))
+      .mutation(async ({ ctx, input }) => {
+        const document = await db.getDocumentById(input.documentId);
+
+        if (!document) {
+          throw new TRPCError({ code: 'NOT_FOUND', message: 'Document not found' });
+        }
+
+        const job = await db.getGenerationJobById(document.jobId);
+        if (job.userId !== ctx.user.id) {
+          throw new TRPCError({ code: 'FORBIDDEN', message: 'Access denied' });
+        }
+
+        if (resolveCitationStyle(document.citationStyle) === input.citationStyle) {
+          throw new TRPCError({ code: 'BAD_REQUEST', message: `The document already uses ${input.citationStyle}` });
+        }
+
+        const documentId = await createRestyledDocument(document, input.citationStyle);
+        return { documentId, success: true };
+      }),
+
     export: protectedProcedure
       .input(
         z.object({
           documentId: z.number(),
-          format: z.enum(["markdown", "latex"]),
+          format: z.enum(["markdown", "latex", "docx", "pdf"]),
         })
       )
       .mutation(async ({ ctx, input }) => {
@@ -412,7 +664,134 @@ export const appRouter = router({
         const authors = await db.getDocumentAuthors(document.id);
         const citations = await db.getDocumentCitations(document.id);
 
-        return exportDocument(input.format, document, { authors, citations });
+        if (input.format === "markdown" || input.format === "latex") {
+          return exportDocument(input.format, document, { authors, citations });
+        }
+
+        // Binary files go to storage and are linked on the document instead of returned inline
+        const figures = await db.getDocumentFigures(document.id);
+        const tables = await db.getDocumentTables(document.id);
+        const options = { authors, citations, figures, tables };
+
+        if (input.format === "pdf") {
+          // Rendered once per version of the inputs; an unchanged document reuses its stored PDF
+          const sourceHash = pdfSourceHash(document, options);
+          if (document.pdfUrl && document.pdfSourceHash === sourceHash) {
+            return { filename: exportFilename(document.title, "pdf"), mimeType: PDF_MIME_TYPE, url: document.pdfUrl };
+          }
+          const file = await exportPdf(document, options);
+          const { url } = await storagePut(`documents/${document.id}/${sourceHash}.pdf`, file.data, file.mimeType);
+          await db.updateDocumentFiles(document.id, { pdfUrl: url, pdfSourceHash: sourceHash });
+          return { filename: file.filename, mimeType: file.mimeType, url };
+        }
+
+        const file = await exportDocx(document, options);
+        const { url } = await storagePut(`documents/${document.id}/${nanoid(8)}-${file.filename}`, file.data, file.mimeType);
+        await db.updateDocumentFiles(document.id, { docxUrl: url });
+        return { filename: file.filename, mimeType: file.mimeType, url };
+      }),
+  }),
+
+  // Reference manager: every change renumbers the [refX] keys, rewrites the
+  // in-text citations and regenerates the References section.
+  citations: router({
+    // Find papers to add; results carry the fields `add` accepts
+    search: protectedProcedure
+      .input(z.object({ query: z.string().trim().min(2).max(300), limit: z.number().int().min(1).max(25).default(10) }))
+      .query(async ({ input }) => {
+        const { papers } = await searchLiterature(input.query, input.limit);
+        return papers.map(paper => ({
+          paperId: paper.paperId,
+          title: paper.title,
+          authors: paper.authors.map(author => author.name),
+          year: paper.year ?? null,
+          journal: paper.venue ?? null,
+          doi: paper.externalIds?.DOI ?? null,
+          url: paper.url ?? null,
+          citationCount: paper.citationCount ?? null,
+        }));
+      }),
+
+    add: protectedProcedure
+      .input(z.object({
+        documentId: z.number(),
+        doi: z.string().trim().min(1).max(100).optional(),
+        reference: referenceFieldsSchema.optional(),
+      }).refine(input => Boolean(input.doi) !== Boolean(input.reference), {
+        message: 'Provide either a DOI or reference details',
+      }))
+      .mutation(async ({ ctx, input }) => {
+        await getEditableDocument(ctx.user.id, input.documentId);
+
+        let added: ManagedReference | null;
+        if (input.doi) {
+          try {
+            added = await referenceFromDoi(input.doi);
+          } catch (error) {
+            console.warn("[References] DOI lookup failed", error);
+            throw new TRPCError({ code: 'BAD_GATEWAY', message: 'The DOI registry could not be reached' });
+          }
+          if (!added) {
+            throw new TRPCError({ code: 'NOT_FOUND', message: `No registered work found for DOI ${input.doi}` });
+          }
+        } else {
+          added = await referenceFromFields(input.reference!);
+        }
+
+        await saveReferences(input.documentId, references => [...references, added]);
+        return { success: true };
+      }),
+
+    update: protectedProcedure
+      .input(z.object({ citationId: z.number(), reference: referenceFieldsSchema }))
+      .mutation(async ({ ctx, input }) => {
+        const citation = await db.getCitationById(input.citationId);
+        if (!citation) {
+          throw new TRPCError({ code: 'NOT_FOUND', message: 'Citation not found' });
+        }
+        await getEditableDocument(ctx.user.id, citation.documentId);
+
+        // The registry check runs before the save; the edit only swaps in its result.
+        const { item, metadataStatus, metadataNotes } = await referenceFromFields(input.reference, citationToReference(citation));
+        await saveReferences(citation.documentId, references => {
+          if (!references.some(reference => reference.id === citation.id)) {
+            throw new TRPCError({ code: 'NOT_FOUND', message: 'Citation not found' });
+          }
+          return references.map(reference =>
+            reference.id === citation.id ? { ...reference, item, metadataStatus, metadataNotes } : reference
+          );
+        });
+        return { success: true };
+      }),
+
+    // Removing a reference also removes its in-text citations
+    remove: protectedProcedure
+      .input(z.object({ citationId: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        const citation = await db.getCitationById(input.citationId);
+        if (!citation) {
+          throw new TRPCError({ code: 'NOT_FOUND', message: 'Citation not found' });
+        }
+        await getEditableDocument(ctx.user.id, citation.documentId);
+
+        await saveReferences(citation.documentId, references => references.filter(reference => reference.id !== citation.id));
+        return { success: true };
+      }),
+
+    reorder: protectedProcedure
+      .input(z.object({ documentId: z.number(), citationIds: z.array(z.number()) }))
+      .mutation(async ({ ctx, input }) => {
+        await getEditableDocument(ctx.user.id, input.documentId);
+
+        await saveReferences(input.documentId, references => {
+          const byId = new Map(references.map(reference => [reference.id, reference]));
+          if (input.citationIds.length !== references.length || input.citationIds.some(id => !byId.has(id)) ||
+              new Set(input.citationIds).size !== input.citationIds.length) {
+            throw new TRPCError({ code: 'BAD_REQUEST', message: "citationIds must list each of the document's citations once" });
+          }
+          return input.citationIds.map(id => byId.get(id)!);
+        });
+        return { success: true };
       }),
   }),
 
@@ -442,6 +821,12 @@ export const appRouter = router({
           throw new TRPCError({ code: 'FORBIDDEN', message: 'Access denied' });
         }
         
+        const quota = await getQuotaStatus(ctx.user);
+        const violation = getQuotaViolation(quota, { jobs: 1, words: document.wordCount ?? 0 });
+        if (violation) {
+          throw new TRPCError({ code: 'TOO_MANY_REQUESTS', message: violation });
+        }
+        
         const requestId = await db.createRevisionRequest({
           documentId: input.documentId,
           userId: ctx.user.id,
@@ -508,10 +893,12 @@ export const appRouter = router({
       .query(async () => {
         const stats = await db.getGenerationStats();
         const activeCount = await db.getActiveGenerationsCount();
+        const literatureCache = await getLiteratureCacheStats();
         
         return {
           activeGenerations: activeCount,
           ...stats,
+          literatureCache,
         };
       }),
     
@@ -520,6 +907,52 @@ export const appRouter = router({
       .query(async () => {
         return db.getAllGenerationJobs();
       }),
+    
+    // Get a user's effective quota, including any override
+    getUserQuota: adminProcedure
+      .input(z.object({ userId: z.number() }))
+      .query(async ({ input }) => {
+        const user = await db.getUserById(input.userId);
+        if (!user) {
+          throw new TRPCError({ code: 'NOT_FOUND', message: 'User not found' });
+        }
+        
+        const override = await db.getUserQuota(user.id);
+        return {
+          user: { id: user.id, name: user.name, email: user.email, role: user.role },
+          override: override ?? null,
+          defaults: getRoleDefaultLimits(user.role),
+          ...(await getQuotaStatus(user)),
+        };
+      }),
+    
+    // Replace a user's role defaults; null is unlimited and 0 blocks
+    setUserQuota: adminProcedure
+      .input(z.object({
+        userId: z.number(),
+        jobsPerDay: z.number().int().min(0).nullable(),
+        wordsPerMonth: z.number().int().min(0).nullable(),
+        tokensPerMonth: z.number().int().min(0).nullable(),
+      }))
+      .mutation(async ({ input }) => {
+        const user = await db.getUserById(input.userId);
+        if (!user) {
+          throw new TRPCError({ code: 'NOT_FOUND', message: 'User not found' });
+        }
+        
+        const { userId, ...limits } = input;
+        await db.upsertUserQuota(userId, limits);
+        
+        return { success: true };
+      }),
+    
+    // Drop a user's override so the role defaults apply again
+    clearUserQuota: adminProcedure
+      .input(z.object({ userId: z.number() }))
+      .mutation(async ({ input }) => {
+        await db.deleteUserQuota(input.userId);
+        return { success: true };
+      }),
   }),
 });
 
@@ -0,0 +1,451 @@
+/**
+ * Parses a user's reference library (BibTeX, RIS or CSL-JSON) into CSL-JSON
+ * items that seed Literature Review, de-duplicated by DOI or title.
+ */
+
+import type { SemanticScholarPaper } from "./semanticScholar";
+import { parseAuthorName, type CslItem, type CslName } from "./csl";
+
+export type BibliographyFormat = "bibtex" | "ris" | "csl-json";
+
+export const BIBLIOGRAPHY_FORMATS: BibliographyFormat[] = ["bibtex", "ris", "csl-json"];
+
+/** Upper bound on an uploaded library, in characters. */
+export const MAX_BIBLIOGRAPHY_LENGTH = 2_000_000;
+
+export interface ParsedBibliography {
+  format: BibliographyFormat | null;
+  items: CslItem[];
+  /** Entries dropped because an earlier entry had the same DOI or title. */
+  duplicates: number;
+  /** Entries that could not be used, with the reason. */
+  warnings: string[];
+}
+
+export function detectBibliographyFormat(content: string, fileName?: string): BibliographyFormat | null {
+  const extension = fileName?.toLowerCase().match(/\.([a-z]+)$/)?.[1];
+  if (extension === "bib" || extension === "bibtex") return "bibtex";
+  if (extension === "ris") return "ris";
+  if (extension === "json") return "csl-json";
+
+  const trimmed = content.trimStart();
+  if (trimmed.startsWith("[") || trimmed.startsWith("{")) return "csl-json";
+  if (/^TY {2}- /m.test(content)) return "ris";
+  if (/@\w+\s*[{(]/.test(content)) return "bibtex";
+  return null;
+}
+
+export function parseBibliography(content: string, fileName?: string): ParsedBibliography {
+  const format = detectBibliographyFormat(content, fileName);
+  if (!format) {
+    return { format: null, items: [], duplicates: 0, warnings: ["Unrecognized file format; upload a .bib, .ris or CSL-JSON file."] };
+  }
+
+  const warnings: string[] = [];
+  let items: CslItem[];
+  switch (format) {
+    case "bibtex":
+      items = parseBibtex(content, warnings);
+      break;
+    case "ris":
+      items = parseRis(content, warnings);
+      break;
+    case "csl-json":
+      items = parseCslJson(content, warnings);
+      break;
+  }
+
+  const usable = items.filter(item => {
+    if (typeof item.title === "string" && item.title.trim()) return true;
+    warnings.push(`Skipped entry "${item.id}": it has no title.`);
+    return false;
+  });
+  const { items: unique, duplicates } = dedupeReferences(usable);
+  return { format, items: unique, duplicates, warnings };
+}
+
+// De-duplication
+
+export function normalizeDoi(doi: unknown): string | null {
+  if (typeof doi !== "string") return null;
+  const cleaned = doi
+    .trim()
+    .replace(/^https?:\/\/(dx\.)?doi\.org\//i, "")
+    .replace(/^doi:\s*/i, "")
+    .toLowerCase();
+  return cleaned || null;
+}
+
+export function normalizeTitle(title: unknown): string {
+  return typeof title === "string" ? title.toLowerCase().replace(/[^a-z0-9]+/g, "") : "";
+}
+
+/** Keys under which a reference counts as a duplicate: its DOI and its normalized title. */
+export function referenceKeys(reference: { doi?: unknown; title?: unknown }): string[] {
+  const keys: string[] = [];
+  const doi = normalizeDoi(reference.doi);
+  if (doi) keys.push(`doi:${doi}`);
+  const title = normalizeTitle(reference.title);
+  if (title) keys.push(`title:${title}`);
+  return keys;
+}
+
+export function dedupeReferences(items: CslItem[]): { items: CslItem[]; duplicates: number } {
+  const seen = new Set<string>();
+  const unique: CslItem[] = [];
+  for (const item of items) {
+    const keys = referenceKeys({ doi: item.DOI, title: item.title });
+    if (keys.some(key => seen.has(key))) continue;
+    keys.forEach(key => seen.add(key));
+    unique.push(item);
+  }
+  return { items: unique, duplicates: items.length - unique.length };
+}
+
+/** Stand-in Semantic Scholar record for an imported item, so prompts can treat both alike. */
+export function cslItemToPaper(item: CslItem): SemanticScholarPaper {
+  const year = Number(item.issued?.["date-parts"]?.[0]?.[0]);
+  const names = item.author?.length ? item.author : item.editor ?? [];
+  return {
+    paperId: `import:${item.id}`,
+    title: item.title ?? "",
+    abstract: item.abstract,
+    year: Number.isFinite(year) && year > 0 ? year : undefined,
+    authors: names.map((name, index) => ({
+      authorId: `import:${item.id}:${index + 1}`,
+      name: name.literal ?? [name.given, name.family].filter(Boolean).join(" "),
+    })),
+    venue: item["container-title"] ?? item.publisher,
+    externalIds: item.DOI ? { DOI: item.DOI } : undefined,
+    url: item.URL,
+  };
+}
+
+// BibTeX
+
+const BIBTEX_TYPES: Record<string, string> = {
+  article: "article-journal",
+  inproceedings: "paper-conference",
+  conference: "paper-conference",
+  book: "book",
+  inbook: "chapter",
+  incollection: "chapter",
+  phdthesis: "thesis",
+  mastersthesis: "thesis",
+  thesis: "thesis",
+  techreport: "report",
+  report: "report",
+  online: "webpage",
+  misc: "article",
+  unpublished: "manuscript",
+};
+
+const LATEX_ACCENTS: Record<string, Record<string, string>> = {
+  '"': { a: "ä", e: "ë", i: "ï", o: "ö", u: "ü", A: "Ä", E: "Ë", I: "Ï", O: "Ö", U: "Ü" },
+  "'": { a: "á", e: "é", i: "í", o: "ó", u: "ú", y: "ý", c: "ć", n: "ń", s: "ś", z: "ź", A: "Á", E: "É", I: "Í", O: "Ó", U: "Ú" },
+  "`": { a: "à", e: "è", i: "ì", o: "ò", u: "ù", A: "À", E: "È", I: "Ì", O: "Ò", U: "Ù" },
+  "^": { a: "â", e: "ê", i: "î", o: "ô", u: "û", A: "Â", E: "Ê", I: "Î", O: "Ô", U: "Û" },
+  "~": { a: "ã", n: "ñ", o: "õ", A: "Ã", N: "Ñ", O: "Õ" },
+  c: { c: "ç", C: "Ç", s: "ş", S: "Ş" },
+  v: { c: "č", s: "š", z: "ž", r: "ř", e: "ě", C: "Č", S: "Š", Z: "Ž", R: "Ř" },
+};
+
+function latexToUnicode(value: string): string {
+  return value
+    .replace(/\\([`'"^~cv])\s*\{?\\?([A-Za-z])\}?/g, (match, accent: string, letter: string) => LATEX_ACCENTS[accent]?.[letter] ?? match)
+    .replace(/\\ss\b\s*/g, "ß")
+    .replace(/\\([&%$#_])/g, "$1")
+    .replace(/---/g, "—")
+    .replace(/--/g, "–")
+    .replace(/~/g, " ")
+    .replace(/\\[a-zA-Z]+\s*\{([^{}]*)\}/g, "$1")
+    .replace(/[{}]/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/** Splits on a delimiter pattern only where it occurs outside braces. */
+function splitTopLevel(value: string, delimiter: RegExp): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = "";
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i];
+    if (char === "{") depth++;
+    if (char === "}") depth = Math.max(0, depth - 1);
+    if (depth === 0) {
+      const match = value.slice(i).match(delimiter);
+      if (match && match.index === 0) {
+        parts.push(current);
+        current = "";
+        i += match[0].length - 1;
+        continue;
+      }
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.map(part => part.trim()).filter(Boolean);
+}
+
+function bibtexNames(value: string): CslName[] {
+  return splitTopLevel(value, /^\s+and\s+/i).map(raw => {
+    // A fully braced name ("{World Health Organization}") is institutional.
+    if (/^\{[^{}]*\}$/.test(raw)) return { literal: latexToUnicode(raw) };
+    return parseAuthorName(latexToUnicode(raw));
+  });
+}
+
+/** Reads a braced or quoted value starting at `start`; returns the raw text and the index after it. */
+function readDelimited(source: string, start: number): { value: string; end: number } {
+  const open = source[start];
+  if (open === '"') {
+    let depth = 0;
+    for (let i = start + 1; i < source.length; i++) {
+      if (source[i] === "{") depth++;
+      if (source[i] === "}") depth--;
+      if (source[i] === '"' && depth === 0 && source[i - 1] !== "\\") return { value: source.slice(start + 1, i), end: i + 1 };
+    }
+    return { value: source.slice(start + 1), end: source.length };
+  }
+  let depth = 0;
+  for (let i = start; i < source.length; i++) {
+    if (source[i] === "{") depth++;
+    if (source[i] === "}") {
+      depth--;
+      if (depth === 0) return { value: source.slice(start + 1, i), end: i + 1 };
+    }
+  }
+  return { value: source.slice(start + 1), end: source.length };
+}
+
+function parseBibtexFields(body: string, strings: Map<string, string>): Record<string, string> {
+  const fields: Record<string, string> = {};
+  let i = 0;
+  while (i < body.length) {
+    const nameMatch = body.slice(i).match(/^[\s,]*([\w-]+)\s*=\s*/);
+    if (!nameMatch) break;
+    const name = nameMatch[1].toLowerCase();
+    i += nameMatch[0].length;
+
+    // A value is one or more pieces joined with "#".
+    let value = "";
+    while (i < body.length) {
+      const char = body[i];
+      if (char === "{" || char === '"') {
+        const piece = readDelimited(body, i);
+        value += piece.value;
+        i = piece.end;
+      } else {
+        const bare = body.slice(i).match(/^[\w.:/-]+/);
+        if (!bare) break;
+        value += strings.get(bare[0].toLowerCase()) ?? bare[0];
+        i += bare[0].length;
+      }
+      const concat = body.slice(i).match(/^\s*#\s*/);
+      if (!concat) break;
+      i += concat[0].length;
+    }
+    fields[name] = value;
+    const next = body.indexOf(",", i);
+    if (next === -1) break;
+    i = next + 1;
+  }
+  return fields;
+}
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+function parseBibtexDate(fields: Record<string, string>): CslItem["issued"] {
+  const date = fields.date?.match(/^(\d{4})(?:-(\d{1,2}))?(?:-(\d{1,2}))?/);
+  if (date) return { "date-parts": [[date[1], date[2], date[3]].filter(Boolean).map(Number)] };
+  const year = Number(fields.year?.match(/\d{4}/)?.[0]);
+  if (!year) return undefined;
+  const monthRaw = fields.month?.trim().toLowerCase();
+  const month = monthRaw ? (Number(monthRaw) || MONTHS.indexOf(monthRaw.slice(0, 3)) + 1) : 0;
+  return { "date-parts": [month > 0 && month <= 12 ? [year, month] : [year]] };
+}
+
+function parseBibtex(content: string, warnings: string[]): CslItem[] {
+  const strings = new Map<string, string>();
+  const items: CslItem[] = [];
+  const entryStart = /@(\w+)\s*([{(])/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = entryStart.exec(content))) {
+    const entryType = match[1].toLowerCase();
+    const openIndex = match.index + match[0].length - 1;
+    const { value: body, end } =
+      match[2] === "{" ? readDelimited(content, openIndex) : { value: content.slice(openIndex + 1, content.indexOf(")", openIndex)), end: content.indexOf(")", openIndex) + 1 };
+    entryStart.lastIndex = Math.max(end, openIndex + 1);
+
+    if (entryType === "comment" || entryType === "preamble") continue;
+    if (entryType === "string") {
+      for (const [name, value] of Object.entries(parseBibtexFields(body, strings))) strings.set(name, value);
+      continue;
+    }
+
+    const commaIndex = body.indexOf(",");
+    const key = (commaIndex === -1 ? body : body.slice(0, commaIndex)).trim();
+    if (!key || commaIndex === -1) {
+      warnings.push(`Skipped a @${entryType} entry without a citation key.`);
+      continue;
+    }
+    const fields = parseBibtexFields(body.slice(commaIndex + 1), strings);
+    const text = (name: string) => (fields[name] ? latexToUnicode(fields[name]) : undefined);
+    const type = BIBTEX_TYPES[entryType] ?? "article";
+    const container = text("journal") ?? text("journaltitle") ?? text("booktitle");
+    const arxivId = fields.archiveprefix?.toLowerCase() === "arxiv" ? text("eprint") : undefined;
+
+    const item: CslItem = { id: key, type, title: text("title") };
+    if (fields.author) item.author = bibtexNames(fields.author);
+    if (fields.editor) item.editor = bibtexNames(fields.editor);
+    if (container) item["container-title"] = container;
+    const issued = parseBibtexDate(fields);
+    if (issued) item.issued = issued;
+    const assign = (variable: string, value: string | undefined) => {
+      if (value) item[variable] = value;
+    };
+    assign("volume", text("volume"));
+    assign(type === "report" ? "number" : "issue", text("number") ?? text("issue"));
+    // Keep page ranges as plain "a-b" so the citation styles render their own range delimiter
+    assign("page", fields.pages?.replace(/-+/g, "-").replace(/\s+/g, ""));
+    assign("publisher", text("publisher") ?? text("school") ?? text("institution") ?? (arxivId ? "arXiv" : undefined));
+    assign("publisher-place", text("address") ?? text("location"));
+    assign("edition", text("edition"));
+    assign("DOI", normalizeDoi(fields.doi) ?? undefined);
+    assign("URL", fields.url?.trim() || (arxivId ? `https://arxiv.org/abs/${arxivId}` : undefined));
+    assign("ISBN", text("isbn"));
+    assign("ISSN", text("issn"));
+    assign("abstract", text("abstract"));
+    if (entryType === "phdthesis") item.genre = "PhD thesis";
+    if (entryType === "mastersthesis") item.genre = "Master's thesis";
+    items.push(item);
+  }
+  return items;
+}
+
+// RIS
+
+const RIS_TYPES: Record<string, string> = {
+  JOUR: "article-journal",
+  JFULL: "article-journal",
+  MGZN: "article-magazine",
+  NEWS: "article-newspaper",
+  CONF: "paper-conference",
+  CPAPER: "paper-conference",
+  BOOK: "book",
+  EBOOK: "book",
+  CHAP: "chapter",
+  ECHAP: "chapter",
+  THES: "thesis",
+  RPRT: "report",
+  ELEC: "webpage",
+  WEB: "webpage",
+  UNPB: "manuscript",
+  GEN: "article",
+};
+
+function parseRisDate(value: string): CslItem["issued"] {
+  const [year, month, day] = value.split("/").map(part => Number(part.trim()));
+  if (!year) return undefined;
+  return { "date-parts": [[year, month, day].filter(n => Number.isFinite(n) && n > 0)] };
+}
+
+function parseRis(content: string, warnings: string[]): CslItem[] {
+  const items: CslItem[] = [];
+  let record: Record<string, string[]> | null = null;
+
+  const finish = () => {
+    if (!record) return;
+    const first = (...tags: string[]) => tags.map(tag => record![tag]?.[0]?.trim()).find(Boolean);
+    const all = (...tags: string[]) => tags.flatMap(tag => record![tag] ?? []).map(value => value.trim()).filter(Boolean);
+    const type = RIS_TYPES[first("TY") ?? ""] ?? "article";
+    const item: CslItem = { id: first("ID") ?? `ris${items.length + 1}`, type, title: first("TI", "T1", "CT") };
+
+    const authors = all("AU", "A1");
+    if (authors.length) item.author = authors.map(parseAuthorName);
+    // A2 is the editor for chapters and books but means other things elsewhere.
+    const editors = type === "chapter" || type === "book" ? all("ED", "A2") : all("ED");
+    if (editors.length) item.editor = editors.map(parseAuthorName);
+    const container = first("T2", "JO", "JF", "JA", "BT");
+    if (container) item["container-title"] = container;
+    const issued = parseRisDate(first("PY", "Y1", "DA") ?? "");
+    if (issued) item.issued = issued;
+
+    const startPage = first("SP");
+    const endPage = first("EP");
+    const assign = (variable: string, value: string | undefined) => {
+      if (value) item[variable] = value;
+    };
+    assign("page", startPage && endPage && endPage !== startPage ? `${startPage}-${endPage}` : startPage);
+    assign("volume", first("VL"));
+    assign("issue", first("IS"));
+    assign("publisher", first("PB"));
+    assign("publisher-place", first("CY"));
+    assign("DOI", normalizeDoi(first("DO")) ?? undefined);
+    assign("URL", first("UR"));
+    assign("abstract", first("AB", "N2"));
+    const serial = first("SN");
+    if (serial) item[/^(97[89])?\d{9}[\dX]$/i.test(serial.replace(/-/g, "")) ? "ISBN" : "ISSN"] = serial;
+
+    items.push(item);
+    record = null;
+  };
+
+  for (const line of content.split(/\r?\n/)) {
+    const match = line.match(/^([A-Z][A-Z0-9])  - ?(.*)$/);
+    if (!match) {
+      // Continuation of a long abstract or title.
+      const lastTag = record && Object.keys(record).pop();
+      if (record && lastTag && line.trim()) record[lastTag][record[lastTag].length - 1] += ` ${line.trim()}`;
+      continue;
+    }
+    const [, tag, value] = match;
+    if (tag === "TY") {
+      if (record) warnings.push("An RIS record was missing its ER line; it was closed at the next TY.");
+      finish();
+      record = {};
+    }
+    if (!record) continue;
+    if (tag === "ER") {
+      finish();
+      continue;
+    }
+    (record[tag] ??= []).push(value);
+  }
+  finish();
+  return items;
+}
+
+// CSL-JSON
+
+function parseCslJson(content: string, warnings: string[]): CslItem[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch {
+    warnings.push("The file is not valid JSON.");
+    return [];
+  }
+  const list = Array.isArray(data) ? data : Array.isArray((data as { items?: unknown })?.items) ? (data as { items: unknown[] }).items : [data];
+  const items: CslItem[] = [];
+  list.forEach((entry, index) => {
+    if (!entry || typeof entry !== "object" || Array.isArray(entry)) {
+      warnings.push(`Skipped item ${index + 1}: not a CSL-JSON object.`);
+      return;
+    }
+    const raw = entry as Record<string, unknown>;
+    const item: CslItem = {
+      ...raw,
+      id: raw.id !== undefined && raw.id !== null ? String(raw.id) : `item${index + 1}`,
+      type: typeof raw.type === "string" ? raw.type : "article-journal",
+    };
+    if (item.DOI) item.DOI = normalizeDoi(item.DOI) ?? undefined;
+    for (const role of ["author", "editor"] as const) {
+      if (item[role] !== undefined && !Array.isArray(item[role])) delete item[role];
+    }
+    items.push(item);
+  });
+  return items;
+}
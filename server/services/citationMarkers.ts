@@ -0,0 +1,153 @@
+/**
+ * In-text citation markers. Drafts cite sources as `[refN]`; assembly renders
+ * those in the document's citation style. The helpers here also re-key
+ * markers when references change, and read the citations of documents saved
+ * before canonical storage back into markers.
+ */
+
+import type { CitationProcessor } from "./csl";
+
+const MARKER = /\[\s*ref(\d+)\s*\]/gi;
+const MARKER_RUN = /(?:\[\s*ref(\d+)\s*\]\s*)+/gi;
+const REFERENCES_HEADING = /^## References[ \t]*$/m;
+
+/** Keys cited by `[refN]` markers, in order of first appearance. */
+export function citedKeys(markdown: string): string[] {
+  return Array.from(new Set(Array.from(markdown.matchAll(MARKER)).map(m => `ref${Number(m[1])}`)));
+}
+
+/** Replaces each run of `[refN]` markers with the style's in-text citation. */
+export function renderCitationMarkers(markdown: string, processor: CitationProcessor): string {
+  return markdown.replace(MARKER_RUN, match => {
+    const trailingWhitespaceMatch = match.match(/\s+$/);
+    const trailingWhitespace = trailingWhitespaceMatch ? trailingWhitespaceMatch[0] : "";
+    const ids = Array.from(match.matchAll(MARKER)).map(m => `ref${Number(m[1])}`);
+    if (ids.length === 0) return match;
+    // Markers for references that were never retrieved are dropped rather than left dangling.
+    return `${processor.cite(ids)}${trailingWhitespace}`;
+  });
+}
+
+export function buildReferencesSection(processor: CitationProcessor): string {
+  const entries = processor.bibliography();
+  if (entries.length === 0) return "## References\n\n_No references available._";
+  // Styles that number their entries ("1. Smith J, ...") read as an ordered list as-is.
+  const items = entries.map(entry => (/^\d+\.\s/.test(entry.text) ? entry.text : `- ${entry.text}`));
+  return `## References\n\n${items.join("\n")}`;
+}
+
+/** Splits off the "## References" section (up to the next "## " heading); `references` is "" if there is none. */
+export function splitReferencesSection(markdown: string): { before: string; references: string; after: string } {
+  const heading = REFERENCES_HEADING.exec(markdown);
+  if (!heading) return { before: markdown, references: "", after: "" };
+  const rest = markdown.slice(heading.index + heading[0].length);
+  const next = rest.search(/^## /m);
+  const end = next === -1 ? markdown.length : heading.index + heading[0].length + next;
+  return { before: markdown.slice(0, heading.index), references: markdown.slice(heading.index, end), after: markdown.slice(end) };
+}
+
+/** Swaps in a new References section, appending one if the document has none. */
+export function replaceReferencesSection(markdown: string, section: string): string {
+  const { before, references, after } = splitReferencesSection(markdown);
+  if (!references) return `${markdown.trimEnd()}\n\n${section}`;
+  return `${before}${section}${after ? `\n\n${after.trimStart()}` : ""}`.trimEnd();
+}
+
+/**
+ * Rewrites `[refN]` markers through `keys` (old key -> new key). Keys mapped to
+ * null are removed, and a run left empty takes the space before it along;
+ * unmapped keys are kept.
+ */
+export function remapCitationMarkers(markdown: string, keys: Map<string, string | null>): string {
+  return markdown.replace(/(\s*)((?:\[\s*ref\d+\s*\])+)/gi, (match, space: string, run: string) => {
+    const markers = Array.from(run.matchAll(MARKER)).map(m => {
+      const key = `ref${Number(m[1])}`;
+      return keys.has(key) ? keys.get(key) ?? null : key;
+    });
+    const kept = markers.filter((key): key is string => key !== null);
+    return kept.length ? `${space}${kept.map(key => `[${key}]`).join("")}` : "";
+  });
+}
+
+/** A work as the pre-canonical formatter saw it: its key, author names as stored, and year. */
+export interface LegacyCitedWork {
+  key: string;
+  authors: string[];
+  year: number | null;
+}
+
+const legacyFamily = (name: string) => {
+  const parts = name.trim().replace(/\s+/g, " ").split(" ");
+  return parts[parts.length - 1].replace(/[.,;:]+$/, "") || "Unknown";
+};
+
+/** What the formatter wrote inside the parentheses for one work: "Smith et al., 2020", or "Lee & Kim" in MLA. */
+function legacyLabel(work: Pick<LegacyCitedWork, "authors" | "year">, mla: boolean): string {
+  const names = work.authors.filter(Boolean);
+  const author =
+    names.length === 0 ? "Unknown"
+    : names.length === 1 ? legacyFamily(names[0])
+    : names.length === 2 ? `${legacyFamily(names[0])} & ${legacyFamily(names[1])}`
+    : `${legacyFamily(names[0])} et al.`;
+  return mla ? author : `${author}, ${work.year ? String(work.year) : "n.d."}`;
+}
+
+function restoreLegacyNumeric(markdown: string, works: LegacyCitedWork[]): string | null {
+  const keys = new Set(works.map(work => work.key));
+  let unmapped = false;
+  const restored = markdown.replace(/\[(\d+(?:,\d+)*)\]/g, (match, list: string) => {
+    const cited = list.split(",").map(n => `ref${Number(n)}`);
+    if (!cited.every(key => keys.has(key))) {
+      unmapped = true;
+      return match;
+    }
+    return cited.map(key => `[${key}]`).join("");
+  });
+  return unmapped ? null : restored;
+}
+
+function restoreLegacyAuthorDate(markdown: string, works: LegacyCitedWork[], mla: boolean): string | null {
+  const byLabel = new Map<string, string[]>();
+  for (const work of works) {
+    const label = legacyLabel(work, mla);
+    byLabel.set(label, [...(byLabel.get(label) ?? []), work.key]);
+  }
+  // Written for a marker whose reference was never retrieved.
+  const missing = legacyLabel({ authors: [], year: null }, mla);
+
+  let unmapped = false;
+  const restored = markdown.replace(/\(([^()\n]+)\)/g, (match, inner: string) => {
+    const parts = inner.split("; ");
+    if (!parts.every(part => byLabel.has(part) || part === missing)) return match;
+    const seen = new Map<string, number>();
+    const keys: string[] = [];
+    for (const part of parts) {
+      const candidates = byLabel.get(part) ?? [];
+      const count = parts.filter(other => other === part).length;
+      // Works that share a label (same authors and year) are only told apart
+      // when the group cites every one of them.
+      if (candidates.length !== 1 && candidates.length !== count) {
+        unmapped = true;
+        return match;
+      }
+      const index = seen.get(part) ?? 0;
+      seen.set(part, index + 1);
+      keys.push(candidates[Math.min(index, candidates.length - 1)]);
+    }
+    return Array.from(new Set(keys)).map(key => `[${key}]`).join("");
+  });
+  return unmapped ? null : restored;
+}
+
+/**
+ * Turns in-text citations written by the formatter used before canonical
+ * storage back into `[refN]` markers. It wrote "[1,2]" for IEEE and
+ * "(Smith et al., 2020; Lee & Kim, 2019)" for every other style, leaving out
+ * the year in MLA. Returns null if any citation does not map to exactly one
+ * work. Pass the body only: bibliography entries are not citations.
+ */
+export function restoreLegacyCitations(markdown: string, works: LegacyCitedWork[], style: string): string | null {
+  const normalized = style.trim();
+  if (normalized.toUpperCase() === "IEEE") return restoreLegacyNumeric(markdown, works);
+  return restoreLegacyAuthorDate(markdown, works, normalized === "MLA9");
+}
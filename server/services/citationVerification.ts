@@ -0,0 +1,280 @@
+/**
+ * Quote-to-source matching: every sentence that cites a [refX] key is checked
+ * against the cited paper's abstract, and the matching passages of its full text
+ * when one was retrieved, and labelled supported, unsupported or unclear.
+ */
+
+import { invokeLLM, type LLMUsage } from "../_core/llm";
+import type { PassageIndex, SourcePassage } from "./fullText";
+
+export type CitationVerdict = "supported" | "unsupported" | "unclear";
+
+export interface CitedClaim {
+  citationKey: string;
+  sectionTitle: string;
+  /** The citing sentence with its citation markers removed. */
+  claim: string;
+}
+
+export interface VerifiedClaim extends CitedClaim {
+  verdict: CitationVerdict;
+  rationale: string;
+  /** Words quoted from the full text the verdict rests on; null when none were quoted verbatim. */
+  evidence: string | null;
+  /** Page of the full-text passage the verdict rests on. */
+  evidencePage: number | null;
+}
+
+export interface CitationSource {
+  title: string;
+  abstract?: string;
+}
+
+const DEFAULT_MAX_CLAIMS = 80;
+const DEFAULT_CONCURRENCY = 3;
+const MAX_ABSTRACT_CHARS = 3000;
+const EXCERPTS_PER_CLAIM = 2;
+const MAX_EXCERPTS = 8;
+
+const getNumberEnv = (key: string, fallback: number) => {
+  const raw = process.env[key];
+  if (!raw) return fallback;
+  const value = Number(raw);
+  return Number.isFinite(value) && value >= 1 ? Math.floor(value) : fallback;
+};
+
+// Periods that do not end a sentence: abbreviations and decimals.
+const ABBREVIATIONS = /\b(et al|e\.g|i\.e|cf|vs|approx|Fig|Figs|Eq|Eqs|No|Sec|Ch)\./g;
+const SENTINEL = "\u0000";
+
+function splitSentences(paragraph: string): string[] {
+  const masked = paragraph
+    .replace(ABBREVIATIONS, match => match.replace(/\./g, SENTINEL))
+    .replace(/(\d)\.(\d)/g, `$1${SENTINEL}$2`);
+  const sentences = masked.match(/[^.!?]+(?:[.!?]+(?=\s|$)|$)/g) ?? [];
+  return sentences.map(sentence => sentence.split(SENTINEL).join(".").trim()).filter(Boolean);
+}
+
+/**
+ * Pairs each citing sentence with every key it cites. Only keys in `knownKeys`
+ * count; markers may hold several keys ("[ref1, ref3]"). Headings, equations and
+ * table rows are skipped.
+ */
+export function extractCitedClaims(
+  sections: Array<{ title: string; content: string }>,
+  knownKeys: Set<string>
+): CitedClaim[] {
+  const claims: CitedClaim[] = [];
+  const seen = new Set<string>();
+
+  for (const section of sections) {
+    const paragraphs = section.content
+      .replace(/\$\$[\s\S]*?\$\$/g, " ")
+      .split(/\n\s*\n/)
+      .map(block =>
+        block
+          .split("\n")
+          .filter(line => !/^\s*(#{1,6}\s|\||```)/.test(line))
+          .join(" ")
+      );
+
+    for (const sentence of paragraphs.flatMap(splitSentences)) {
+      const keys = Array.from(sentence.matchAll(/\[([^\]]+)\]/g))
+        .flatMap(match => match[1].split(/[,;]\s*/))
+        .map(key => key.trim())
+        .filter(key => knownKeys.has(key));
+      if (keys.length === 0) continue;
+
+      const claim = sentence
+        .replace(/\s*\[(?:ref\d+(?:[,;]\s*)?)+\]/g, "")
+        .replace(/\s+([.,;:!?])/g, "$1")
+        .replace(/\s+/g, " ")
+        .trim();
+      for (const citationKey of Array.from(new Set(keys))) {
+        const id = `${citationKey}\n${claim}`;
+        if (seen.has(id)) continue;
+        seen.add(id);
+        claims.push({ citationKey, sectionTitle: section.title, claim });
+      }
+    }
+  }
+
+  return claims;
+}
+
+type VerificationOptions = { signal?: AbortSignal; onUsage?: (usage: LLMUsage) => void; passages?: PassageIndex };
+
+/** Full-text passages for a group of claims: the best few per claim, without repeats. */
+function excerptsFor(citationKey: string, claims: CitedClaim[], passages: PassageIndex | undefined): SourcePassage[] {
+  if (!passages || passages.size === 0) return [];
+  const keys = new Set([citationKey]);
+  const excerpts = new Set<SourcePassage>();
+  for (const claim of claims) {
+    passages.search(claim.claim, { limit: EXCERPTS_PER_CLAIM, citationKeys: keys }).forEach(passage => excerpts.add(passage));
+  }
+  return Array.from(excerpts).slice(0, MAX_EXCERPTS);
+}
+
+const quoteText = (value: string) => value.toLowerCase().replace(/[\u201c\u201d"]/g, "").replace(/\s+/g, " ").trim();
+
+async function verifyAgainstSource(
+  citationKey: string,
+  source: CitationSource,
+  claims: CitedClaim[],
+  options: VerificationOptions
+): Promise<VerifiedClaim[]> {
+  const abstract = source.abstract?.trim();
+  const excerpts = excerptsFor(citationKey, claims, options.passages);
+  if (!abstract && excerpts.length === 0) {
+    return claims.map(claim => ({
+      ...claim,
+      verdict: "unclear",
+      rationale: "The cited source has no abstract or full text to check the claim against.",
+      evidence: null,
+      evidencePage: null,
+    }));
+  }
+
+  const fullText = excerpts.length > 0;
+  const prompt = fullText
+    ? `You are checking citations in a scholarly manuscript. Each claim below cites the same source.
+Decide, using ONLY the source's abstract and the numbered excerpts from its full text, whether each claim is supported.
+- "supported": the source states or directly implies the claim.
+- "unsupported": the source contradicts the claim or is about something else.
+- "unclear": the claim is plausible but these passages cannot confirm it.
+For each claim, also give the number of the excerpt the verdict rests on (0 if none) and a short quote copied word for word from that excerpt ("" if none).
+
+Source title: ${source.title}
+${abstract ? `Source abstract:\n${abstract.slice(0, MAX_ABSTRACT_CHARS)}\n` : ""}
+Excerpts:
+${excerpts.map((excerpt, index) => `[${index + 1}] (p. ${excerpt.page}) ${excerpt.text}`).join("\n")}
+
+Claims:
+${claims.map((claim, index) => `${index + 1}. ${claim.claim}`).join("\n")}
+
+Respond in JSON: {"results": [{"index": 1, "verdict": "supported", "rationale": "one sentence", "excerpt": 2, "quote": "exact words"}]}`
+    : `You are checking citations in a scholarly manuscript. Each claim below cites the same source.
+Decide, using ONLY the source's title and abstract, whether each claim is supported.
+- "supported": the abstract states or directly implies the claim.
+- "unsupported": the abstract contradicts the claim or is about something else.
+- "unclear": the claim is plausible but the abstract alone cannot confirm it.
+
+Source title: ${source.title}
+Source abstract:
+${abstract!.slice(0, MAX_ABSTRACT_CHARS)}
+
+Claims:
+${claims.map((claim, index) => `${index + 1}. ${claim.claim}`).join("\n")}
+
+Respond in JSON: {"results": [{"index": 1, "verdict": "supported", "rationale": "one sentence"}]}`;
+
+  const evidenceProperties = fullText ? { excerpt: { type: "integer" }, quote: { type: "string" } } : {};
+  const response = await invokeLLM({
+    messages: [{ role: "user", content: prompt }],
+    signal: options.signal,
+    onUsage: options.onUsage,
+    response_format: {
+      type: "json_schema",
+      json_schema: {
+        name: "citation_verification",
+        strict: true,
+        schema: {
+          type: "object",
+          properties: {
+            results: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  index: { type: "integer" },
+                  verdict: { type: "string", enum: ["supported", "unsupported", "unclear"] },
+                  rationale: { type: "string" },
+                  ...evidenceProperties,
+                },
+                required: ["index", "verdict", "rationale", ...Object.keys(evidenceProperties)],
+                additionalProperties: false,
+              },
+            },
+          },
+          required: ["results"],
+          additionalProperties: false,
+        },
+      },
+    },
+  });
+
+  const content = response.choices[0]?.message?.content;
+  let results: Array<{ index?: unknown; verdict?: unknown; rationale?: unknown; excerpt?: unknown; quote?: unknown }> = [];
+  try {
+    const parsed = JSON.parse(typeof content === "string" ? content : "");
+    if (Array.isArray(parsed?.results)) results = parsed.results;
+  } catch {
+    // Treated below as no verdicts.
+  }
+
+  return claims.map((claim, index) => {
+    const result = results.find(entry => Number(entry?.index) === index + 1);
+    const verdict = result?.verdict;
+    if (verdict !== "supported" && verdict !== "unsupported" && verdict !== "unclear") {
+      return { ...claim, verdict: "unclear", rationale: "The verifier returned no verdict for this claim.", evidence: null, evidencePage: null };
+    }
+    // Quotes are only kept when they really occur in the excerpt, so the page they point to can be trusted.
+    const excerpt = excerpts[Number(result?.excerpt) - 1];
+    const quote = typeof result?.quote === "string" ? result.quote.trim() : "";
+    const verbatim = excerpt && quote && quoteText(excerpt.text).includes(quoteText(quote));
+    return {
+      ...claim,
+      verdict,
+      rationale: String(result?.rationale ?? "").trim(),
+      evidence: verbatim ? quote : null,
+      evidencePage: excerpt ? excerpt.page : null,
+    };
+  });
+}
+
+/**
+ * Checks claims source by source (one LLM call per cited paper, a few in flight
+ * at once). At most CITATION_VERIFICATION_MAX_CLAIMS claims are checked; results
+ * keep the order of `claims`. With `passages`, claims are also checked against the
+ * best-matching passages of the cited paper's full text.
+ */
+export async function verifyCitedClaims(
+  claims: CitedClaim[],
+  sources: Map<string, CitationSource>,
+  options: VerificationOptions = {}
+): Promise<VerifiedClaim[]> {
+  const maxClaims = getNumberEnv("CITATION_VERIFICATION_MAX_CLAIMS", DEFAULT_MAX_CLAIMS);
+  if (claims.length > maxClaims) {
+    console.warn("[CitationVerification] Too many cited claims; checking the first ones only", {
+      claims: claims.length,
+      maxClaims,
+    });
+  }
+  const checked = claims.slice(0, maxClaims).filter(claim => sources.has(claim.citationKey));
+
+  const byKey = new Map<string, CitedClaim[]>();
+  for (const claim of checked) {
+    byKey.set(claim.citationKey, [...(byKey.get(claim.citationKey) ?? []), claim]);
+  }
+
+  const verified = new Map<CitedClaim, VerifiedClaim>();
+  const groups = Array.from(byKey.entries());
+  let next = 0;
+  let failed = false;
+  const worker = async () => {
+    while (!failed && next < groups.length) {
+      const [key, group] = groups[next++];
+      try {
+        const results = await verifyAgainstSource(key, sources.get(key)!, group, options);
+        group.forEach((claim, index) => verified.set(claim, results[index]));
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+  const concurrency = getNumberEnv("CITATION_VERIFICATION_CONCURRENCY", DEFAULT_CONCURRENCY);
+  await Promise.all(Array.from({ length: Math.min(concurrency, groups.length) }, worker));
+
+  return checked.map(claim => verified.get(claim)!);
+}
@@ -0,0 +1,786 @@
+/**
+ * Interpreter for the subset of CSL 1.0 (https://docs.citationstyles.org/en/stable/specification.html)
+ * used by the bundled styles: macros, names (et al., initials, sort order,
+ * substitution), dates, numbers, labels, groups with empty-variable
+ * suppression, conditionals, sorting, numeric range collapsing, and
+ * disambiguation by year suffix and the `disambiguate` condition. Output is
+ * Markdown (`*italic*`, `**bold**`, `<sup>`).
+ */
+
+import { childElement, childElements, parseXml, type XmlElement } from "./xml";
+
+export interface CslName {
+  family?: string;
+  given?: string;
+  suffix?: string;
+  /** Institutional or otherwise unsplittable names. */
+  literal?: string;
+}
+
+export interface CslDate {
+  "date-parts"?: Array<Array<number | string>>;
+  literal?: string;
+}
+
+/** A bibliographic item in CSL-JSON form; unknown variables are carried through untouched. */
+export interface CslItem {
+  id: string;
+  type: string;
+  title?: string;
+  "title-short"?: string;
+  "container-title"?: string;
+  "container-title-short"?: string;
+  author?: CslName[];
+  editor?: CslName[];
+  issued?: CslDate;
+  accessed?: CslDate;
+  volume?: string | number;
+  issue?: string | number;
+  page?: string;
+  number?: string | number;
+  edition?: string | number;
+  publisher?: string;
+  "publisher-place"?: string;
+  genre?: string;
+  DOI?: string;
+  URL?: string;
+  ISBN?: string;
+  ISSN?: string;
+  PMID?: string;
+  abstract?: string;
+  [variable: string]: unknown;
+}
+
+export interface CslLocale {
+  terms: Map<string, { single: string; multiple: string }>;
+  dates: Map<string, XmlElement>;
+  punctuationInQuote: boolean;
+}
+
+export interface CslStyle {
+  title: string;
+  /** `author-date`, `author`, `numeric`, `label` or `note`, from the style's info block. */
+  citationFormat: string;
+  options: Record<string, string>;
+  macros: Map<string, XmlElement>;
+  citation: XmlElement;
+  bibliography?: XmlElement;
+  /** Whether the style places `year-suffix` itself rather than relying on it following the issued year. */
+  rendersYearSuffix: boolean;
+}
+
+const NAME_OPTIONS = [
+  "and",
+  "delimiter-precedes-et-al",
+  "delimiter-precedes-last",
+  "et-al-min",
+  "et-al-use-first",
+  "et-al-use-last",
+  "initialize",
+  "initialize-with",
+  "name-as-sort-order",
+  "sort-separator",
+];
+
+const NAME_VARIABLES = new Set(["author", "editor", "translator", "container-author", "collection-editor", "director", "recipient", "interviewer"]);
+const DATE_VARIABLES = new Set(["issued", "accessed", "event-date", "original-date", "submitted"]);
+
+// Title-case stop words: the single words of citeproc-js's list, so titles case the way it does.
+const STOP_WORDS = new Set(
+  (
+    "about above across afore after against al along alongside amid amidst among amongst and anenst apropos apud " +
+    "around as aside astride at athwart atop barring before behind below beneath beside besides between beyond but " +
+    "by c ca circa d' de despite down during et except for forenenst from given in inside into lest like modulo " +
+    "near next nor notwithstanding of off on onto or out over per plus pro qua sans since so than the through thru " +
+    "throughout thruout till to toward towards under underneath until unto up upon v v. van versus via vis-à-vis " +
+    "von vs vs. with within without yet a an"
+  ).split(" ")
+);
+
+// Words are split at spaces and punctuation, hyphens included.
+const TITLE_WORD = /[^\s\-\u2013\u2014/.,;?!:()[\]\u2018\u2019\u201c\u201d"']+/g;
+
+/**
+ * CSL title case as citeproc-js applies it: lower-case words are capitalized
+ * unless they are stop words, which are capitalized only first, last or after
+ * a colon, question or exclamation mark. Words that already carry a capital
+ * ("ICML", "iPhone") are left as written, and so are single letters.
+ */
+function titleCase(text: string): string {
+  const words = Array.from(text.matchAll(TITLE_WORD));
+  let out = "";
+  let end = 0;
+  words.forEach((match, index) => {
+    const word = match[0];
+    const start = match.index ?? 0;
+    const separator = text.slice(end, start);
+    const lower = word.toLowerCase();
+    const capitalize =
+      index === 0 || /[!?:]/.test(separator) || (word.length > 1 && (!STOP_WORDS.has(lower) || index === words.length - 1));
+    out += separator + (capitalize && word === lower ? word.charAt(0).toUpperCase() + word.slice(1) : word);
+    end = start + word.length;
+  });
+  return out + text.slice(end);
+}
+
+export function parseLocale(source: string): CslLocale {
+  const root = parseXml(source);
+  const terms = new Map<string, { single: string; multiple: string }>();
+  for (const term of childElements(childElement(root, "terms") ?? root, "term")) {
+    const single = childElement(term, "single")?.text ?? term.text;
+    const multiple = childElement(term, "multiple")?.text ?? single;
+    terms.set(`${term.attrs.name}|${term.attrs.form ?? "long"}`, { single, multiple });
+  }
+  const dates = new Map<string, XmlElement>();
+  for (const date of childElements(root, "date")) dates.set(date.attrs.form, date);
+  const styleOptions = childElement(root, "style-options");
+  return { terms, dates, punctuationInQuote: styleOptions?.attrs["punctuation-in-quote"] === "true" };
+}
+
+export function parseStyle(source: string): CslStyle {
+  const root = parseXml(source);
+  if (root.name !== "style") throw new Error("Not a CSL style: root element must be <style>");
+  const info = childElement(root, "info");
+  const citation = childElement(root, "citation");
+  if (!citation || !childElement(citation, "layout")) throw new Error("CSL style has no citation layout");
+
+  const macros = new Map<string, XmlElement>();
+  for (const macro of childElements(root, "macro")) macros.set(macro.attrs.name, macro);
+
+  return {
+    title: (info && childElement(info, "title")?.text.trim()) || "Untitled style",
+    citationFormat: (info && childElements(info, "category").find(c => c.attrs["citation-format"])?.attrs["citation-format"]) || "author-date",
+    options: root.attrs,
+    macros,
+    citation,
+    bibliography: childElement(root, "bibliography"),
+    rendersYearSuffix: source.includes('variable="year-suffix"'),
+  };
+}
+
+// Rendering
+
+type Rendered = { text: string; called: number; filled: number };
+
+const EMPTY: Rendered = { text: "", called: 0, filled: 0 };
+
+interface RenderContext {
+  style: CslStyle;
+  locale: CslLocale;
+  item: CslItem;
+  citationNumber: number;
+  yearSuffix: string;
+  /** Set for items whose citations are still ambiguous after year suffixes; tested by `disambiguate="true"`. */
+  disambiguate: boolean;
+  /** Inherited name options (style, then citation/bibliography). */
+  nameOptions: Record<string, string>;
+  /** Rendering a sort key: names in sort order, dates sortable, no formatting. */
+  sorting: boolean;
+  depth: number;
+  /** Variables rendered so far in this entry, and those consumed by a names substitution. */
+  used: Set<string>;
+  suppressed: Set<string>;
+}
+
+function pickNameOptions(attrs: Record<string, string>): Record<string, string> {
+  const picked: Record<string, string> = {};
+  for (const key of NAME_OPTIONS) if (attrs[key] !== undefined) picked[key] = attrs[key];
+  if (attrs["name-form"] !== undefined) picked.form = attrs["name-form"];
+  if (attrs["name-delimiter"] !== undefined) picked.delimiter = attrs["name-delimiter"];
+  if (attrs["names-delimiter"] !== undefined) picked["names-delimiter"] = attrs["names-delimiter"];
+  return picked;
+}
+
+function lookupTerm(locale: CslLocale, name: string, form = "long", plural = false): string {
+  const fallbacks: Record<string, string[]> = {
+    long: ["long"],
+    short: ["short", "long"],
+    verb: ["verb", "long"],
+    "verb-short": ["verb-short", "verb", "long"],
+    symbol: ["symbol", "short", "long"],
+  };
+  for (const candidate of fallbacks[form] ?? [form, "long"]) {
+    const term = locale.terms.get(`${name}|${candidate}`);
+    if (term) return plural ? term.multiple : term.single;
+  }
+  return "";
+}
+
+function applyTextCase(text: string, textCase: string | undefined): string {
+  switch (textCase) {
+    case "lowercase":
+      return text.toLowerCase();
+    case "uppercase":
+      return text.toUpperCase();
+    case "capitalize-first":
+      return text.charAt(0).toUpperCase() + text.slice(1);
+    case "capitalize-all":
+      return text.replace(/(^|\s)([a-z])/g, (_m, space: string, letter: string) => space + letter.toUpperCase());
+    case "sentence": {
+      const base = text === text.toUpperCase() ? text.toLowerCase() : text;
+      return base.charAt(0).toUpperCase() + base.slice(1);
+    }
+    case "title":
+      return titleCase(text);
+    default:
+      return text;
+  }
+}
+
+/** Applies an element's formatting and affixes; affixes are never formatted. */
+function decorate(text: string, element: XmlElement, ctx: RenderContext): string {
+  if (!text) return "";
+  const { attrs } = element;
+  let out = applyTextCase(text, attrs["text-case"]);
+  if (attrs["strip-periods"] === "true") out = out.replace(/\./g, "");
+  if (!ctx.sorting) {
+    if (attrs.quotes === "true") {
+      out = `${lookupTerm(ctx.locale, "open-quote") || "“"}${out}${lookupTerm(ctx.locale, "close-quote") || "”"}`;
+    }
+    if (attrs["font-style"] === "italic" || attrs["font-style"] === "oblique") out = `*${out.trim()}*`;
+    if (attrs["font-weight"] === "bold") out = `**${out.trim()}**`;
+    if (attrs["vertical-align"] === "sup") out = `<sup>${out}</sup>`;
+    if (attrs["vertical-align"] === "sub") out = `<sub>${out}</sub>`;
+  }
+  return `${attrs.prefix ?? ""}${out}${attrs.suffix ?? ""}`;
+}
+
+function stringVariable(ctx: RenderContext, name: string, form?: string): string {
+  if (ctx.suppressed.has(name)) return "";
+  if (name === "citation-number") return String(ctx.citationNumber);
+  if (name === "year-suffix") return ctx.yearSuffix;
+  const raw = (form === "short" ? ctx.item[`${name}-short`] : undefined) ?? ctx.item[name];
+  if (typeof raw === "number") return String(raw);
+  if (typeof raw !== "string") return "";
+  const value = raw.trim().replace(/\s+/g, " ");
+  if (name === "page") {
+    return value.replace(/(\w)\s*[-‐‑–—]+\s*(\w)/g, `$1${lookupTerm(ctx.locale, "page-range-delimiter") || "–"}$2`);
+  }
+  return value;
+}
+
+function hasVariable(ctx: RenderContext, name: string): boolean {
+  if (ctx.suppressed.has(name)) return false;
+  if (name === "citation-number") return true;
+  if (name === "year-suffix") return Boolean(ctx.yearSuffix);
+  const value = ctx.item[name];
+  if (Array.isArray(value)) return value.length > 0;
+  if (DATE_VARIABLES.has(name)) {
+    const date = value as CslDate | undefined;
+    return Boolean(date?.literal || date?.["date-parts"]?.[0]?.length);
+  }
+  return value !== undefined && value !== null && String(value).trim() !== "";
+}
+
+function isNumeric(value: string): boolean {
+  return /^\s*\d+[a-z]?(\s*[-–,&]\s*\d+[a-z]?)*\s*$/i.test(value);
+}
+
+function renderChildren(element: XmlElement, ctx: RenderContext, delimiter = ""): Rendered {
+  const parts = element.children.map(child => renderElement(child, ctx));
+  return {
+    text: parts
+      .map(part => part.text)
+      .filter(Boolean)
+      .join(delimiter),
+    called: parts.reduce((sum, part) => sum + part.called, 0),
+    filled: parts.reduce((sum, part) => sum + part.filled, 0),
+  };
+}
+
+function renderElement(element: XmlElement, ctx: RenderContext): Rendered {
+  switch (element.name) {
+    case "text":
+      return renderText(element, ctx);
+    case "names":
+      return renderNames(element, ctx);
+    case "date":
+      return renderDate(element, ctx);
+    case "number":
+      return renderNumber(element, ctx);
+    case "label":
+      return { text: renderLabel(element, ctx, element.attrs.variable), called: 0, filled: 0 };
+    case "group": {
+      const inner = renderChildren(element, ctx, element.attrs.delimiter ?? "");
+      // A group that calls variables but none of them are set is suppressed entirely.
+      if (inner.called > 0 && inner.filled === 0) return { text: "", called: inner.called, filled: 0 };
+      return { text: decorate(inner.text, element, ctx), called: inner.called, filled: inner.filled };
+    }
+    case "choose":
+      return renderChoose(element, ctx);
+    default:
+      return EMPTY;
+  }
+}
+
+function renderText(element: XmlElement, ctx: RenderContext): Rendered {
+  const { attrs } = element;
+  if (attrs.variable) {
+    const value = stringVariable(ctx, attrs.variable, attrs.form);
+    if (value) ctx.used.add(attrs.variable);
+    return { text: decorate(value, element, ctx), called: 1, filled: value ? 1 : 0 };
+  }
+  if (attrs.macro) {
+    const macro = ctx.style.macros.get(attrs.macro);
+    if (!macro || ctx.depth > 20) return EMPTY;
+    const inner = renderChildren(macro, { ...ctx, depth: ctx.depth + 1 });
+    return { text: decorate(inner.text, element, ctx), called: inner.called, filled: inner.filled };
+  }
+  if (attrs.term) {
+    const term = lookupTerm(ctx.locale, attrs.term, attrs.form, attrs.plural === "true");
+    return { text: decorate(term, element, ctx), called: 0, filled: 0 };
+  }
+  if (attrs.value !== undefined) return { text: decorate(attrs.value, element, ctx), called: 0, filled: 0 };
+  return EMPTY;
+}
+
+function renderNumber(element: XmlElement, ctx: RenderContext): Rendered {
+  const value = stringVariable(ctx, element.attrs.variable);
+  if (!value) return { text: "", called: 1, filled: 0 };
+  ctx.used.add(element.attrs.variable);
+  let text = value;
+  if ((element.attrs.form === "ordinal" || element.attrs.form === "long-ordinal") && /^\d+$/.test(value)) {
+    const n = Number(value);
+    const lastTwo = n % 100;
+    const specific = lookupTerm(ctx.locale, `ordinal-${String(lastTwo).padStart(2, "0")}`);
+    const lastDigit = lookupTerm(ctx.locale, `ordinal-${String(n % 10).padStart(2, "0")}`);
+    text = `${n}${(lastTwo >= 11 && lastTwo <= 13 ? specific : lastDigit) || lookupTerm(ctx.locale, "ordinal")}`;
+  }
+  return { text: decorate(text, element, ctx), called: 1, filled: 1 };
+}
+
+function renderLabel(element: XmlElement, ctx: RenderContext, variable: string | undefined, count?: number): string {
+  if (!variable) return "";
+  let plural: boolean;
+  if (count !== undefined) {
+    plural = count > 1;
+  } else {
+    const value = stringVariable(ctx, variable);
+    if (!value) return "";
+    plural = /[-–,&]/.test(value);
+  }
+  if (element.attrs.plural === "always") plural = true;
+  if (element.attrs.plural === "never") plural = false;
+  const termName = variable === "page" || variable === "locator" ? "page" : variable;
+  return decorate(lookupTerm(ctx.locale, termName, element.attrs.form ?? "long", plural), element, ctx);
+}
+
+// Names
+
+function initialize(given: string, initializeWith: string): string {
+  const joiner = /\s$/.test(initializeWith) ? " " : "";
+  const mark = initializeWith.trimEnd();
+  return given
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(word =>
+      word
+        .split("-")
+        .filter(Boolean)
+        .map(part => `${part.replace(/\.$/, "").charAt(0).toUpperCase()}${mark}`)
+        .join("-")
+    )
+    .join(joiner)
+    .trim();
+}
+
+function formatName(name: CslName, options: Record<string, string>, index: number, ctx: RenderContext): string {
+  if (name.literal) return name.literal;
+  let family = name.family?.trim() ?? "";
+  if (options.form === "short" && !ctx.sorting) return family || name.given?.trim() || "";
+
+  let given = name.given?.trim() ?? "";
+  const shouldInitialize = options["initialize-with"] !== undefined && options.initialize !== "false";
+  if (given && shouldInitialize && !ctx.sorting) given = initialize(given, options["initialize-with"]);
+
+  const sortOrder = options["name-as-sort-order"];
+  const inverted = ctx.sorting || sortOrder === "all" || (sortOrder === "first" && index === 0);
+  if (!given) return family;
+  if (!family) return given;
+  if (inverted) {
+    // Lower-case words leading the family name ("van der" Berg) are a particle
+    // the style may move after the given name, for sorting or for display too.
+    const particle = family.match(/^((?:[a-z][^\s]*\s+)+)(\S.*)$/);
+    const demote = ctx.style.options["demote-non-dropping-particle"] ?? "display-and-sort";
+    if (particle && (demote === "display-and-sort" || (demote === "sort-only" && ctx.sorting))) {
+      family = particle[2];
+      given = `${given} ${particle[1].trim()}`;
+    }
+    const separator = options["sort-separator"] ?? ", ";
+    return `${family}${separator}${given}${name.suffix ? `${separator}${name.suffix}` : ""}`;
+  }
+  return `${given} ${family}${name.suffix ? ` ${name.suffix}` : ""}`;
+}
+
+function delimiterBefore(rule: string | undefined, contextual: boolean, lastInverted: boolean, delimiter: string): string {
+  switch (rule ?? "contextual") {
+    case "always":
+      return delimiter;
+    case "never":
+      return " ";
+    case "after-inverted-name":
+      return lastInverted ? delimiter : " ";
+    default:
+      return contextual ? delimiter : " ";
+  }
+}
+
+function formatNameList(
+  names: CslName[],
+  nameElement: XmlElement | undefined,
+  etAlElement: XmlElement | undefined,
+  ctx: RenderContext
+): string {
+  const options = { ...ctx.nameOptions, ...(nameElement?.attrs ?? {}) };
+  const delimiter = options.delimiter ?? ", ";
+  const etAlMin = Number(options["et-al-min"]);
+  const etAlUseFirst = Number(options["et-al-use-first"]);
+  const truncate = etAlMin > 0 && etAlUseFirst > 0 && names.length >= etAlMin && etAlUseFirst < names.length;
+  const shown = truncate ? names.slice(0, etAlUseFirst) : names;
+
+  if (options.form === "count") return String(shown.length);
+  // Sort keys compare the names shown, without "et al.".
+  if (ctx.sorting) return shown.map((name, index) => formatName(name, options, index, ctx)).join(" ");
+
+  const isInverted = (index: number) =>
+    options["name-as-sort-order"] === "all" || (options["name-as-sort-order"] === "first" && index === 0);
+  const formatted = shown.map((name, index) => decorateNameParts(formatName(name, options, index, ctx), nameElement, ctx));
+
+  if (truncate) {
+    if (options["et-al-use-last"] === "true" && names.length - etAlUseFirst >= 2) {
+      const last = decorateNameParts(formatName(names[names.length - 1], options, names.length - 1, ctx), nameElement, ctx);
+      return `${formatted.join(delimiter)}${delimiter}… ${last}`;
+    }
+    const etAlTerm = lookupTerm(ctx.locale, etAlElement?.attrs.term ?? "et-al");
+    const etAl = etAlElement ? decorate(etAlTerm, etAlElement, ctx) : etAlTerm;
+    const before = delimiterBefore(options["delimiter-precedes-et-al"], shown.length >= 2, isInverted(shown.length - 1), delimiter);
+    return `${formatted.join(delimiter)}${before}${etAl}`;
+  }
+
+  const andTerm =
+    options.and === "text" ? lookupTerm(ctx.locale, "and") : options.and === "symbol" ? "&" : "";
+  if (!andTerm || formatted.length < 2) return formatted.join(delimiter);
+  const before = delimiterBefore(options["delimiter-precedes-last"], formatted.length >= 3, isInverted(formatted.length - 2), delimiter);
+  return `${formatted.slice(0, -1).join(delimiter)}${before}${andTerm} ${formatted[formatted.length - 1]}`;
+}
+
+function decorateNameParts(text: string, nameElement: XmlElement | undefined, ctx: RenderContext): string {
+  if (!nameElement || ctx.sorting) return text;
+  // Only font styling applies per name; affixes on <name> wrap the whole list.
+  const styling = { ...nameElement.attrs };
+  delete styling.prefix;
+  delete styling.suffix;
+  return decorate(text, { ...nameElement, attrs: styling }, ctx);
+}
+
+function renderNames(element: XmlElement, ctx: RenderContext, inherited?: XmlElement): Rendered {
+  const variables = (element.attrs.variable ?? "").split(/\s+/).filter(Boolean);
+  const source = element.children.some(child => child.name === "name") || !inherited ? element : inherited;
+  const nameElement = childElement(source, "name");
+  const etAlElement = childElement(source, "et-al");
+  const namesDelimiter = element.attrs.delimiter ?? ctx.nameOptions["names-delimiter"] ?? ", ";
+
+  const lists: string[] = [];
+  for (const variable of variables) {
+    const names = ctx.item[variable];
+    if (ctx.suppressed.has(variable) || !Array.isArray(names) || names.length === 0) continue;
+    ctx.used.add(variable);
+    const list = formatNameList(names as CslName[], nameElement, etAlElement, ctx);
+    const affixed = nameElement ? `${nameElement.attrs.prefix ?? ""}${list}${nameElement.attrs.suffix ?? ""}` : list;
+    const parts: string[] = [];
+    for (const child of source.children) {
+      if (child.name === "name") parts.push(affixed);
+      if (child.name === "label" && !ctx.sorting) parts.push(renderLabel(child, ctx, variable, names.length));
+    }
+    if (!nameElement) parts.unshift(affixed);
+    lists.push(parts.join(""));
+  }
+
+  if (lists.length > 0) {
+    return { text: decorate(lists.join(namesDelimiter), element, ctx), called: 1, filled: 1 };
+  }
+
+  const substitute = childElement(element, "substitute");
+  if (substitute) {
+    for (const child of substitute.children) {
+      const usedBefore = new Set(ctx.used);
+      const rendered = child.name === "names" ? renderNames(child, ctx, source) : renderElement(child, ctx);
+      if (rendered.text) {
+        // Substituted variables are not rendered again later in the same entry.
+        for (const name of Array.from(ctx.used)) if (!usedBefore.has(name)) ctx.suppressed.add(name);
+        return { text: decorate(rendered.text, element, ctx), called: 1, filled: 1 };
+      }
+    }
+  }
+  return { text: "", called: 1, filled: 0 };
+}
+
+// Dates
+
+function renderDate(element: XmlElement, ctx: RenderContext): Rendered {
+  const variable = element.attrs.variable;
+  const date = ctx.suppressed.has(variable) ? undefined : (ctx.item[variable] as CslDate | undefined);
+  const parts = (date?.["date-parts"]?.[0] ?? []).map(Number).filter(n => Number.isFinite(n));
+  if (parts.length === 0) {
+    if (date?.literal) return { text: decorate(date.literal, element, ctx), called: 1, filled: 1 };
+    return { text: "", called: 1, filled: 0 };
+  }
+  const [year, month, day] = parts;
+  ctx.used.add(variable);
+
+  if (ctx.sorting) {
+    const key = `${String(year).padStart(4, "0")}${String(month ?? 0).padStart(2, "0")}${String(day ?? 0).padStart(2, "0")}`;
+    return { text: key, called: 1, filled: 1 };
+  }
+
+  let dateParts: XmlElement[];
+  let delimiter = element.attrs.delimiter ?? "";
+  const localized = element.attrs.form ? ctx.locale.dates.get(element.attrs.form) : undefined;
+  if (localized) {
+    const wanted = (element.attrs["date-parts"] ?? "year-month-day").split("-");
+    const overrides = new Map(childElements(element, "date-part").map(part => [part.attrs.name, part.attrs]));
+    dateParts = childElements(localized, "date-part")
+      .filter(part => wanted.includes(part.attrs.name))
+      .map(part => ({ ...part, attrs: { ...part.attrs, ...(overrides.get(part.attrs.name) ?? {}) } }));
+    delimiter = localized.attrs.delimiter ?? "";
+  } else {
+    dateParts = childElements(element, "date-part");
+  }
+
+  const rendered = dateParts
+    .map(part => {
+      const form = part.attrs.form;
+      let text = "";
+      switch (part.attrs.name) {
+        case "year":
+          text = year < 0 ? `${-year}BC` : String(year);
+          if (variable === "issued" && ctx.yearSuffix && !ctx.style.rendersYearSuffix) text += ctx.yearSuffix;
+          break;
+        case "month":
+          if (!month) return "";
+          if (form === "numeric") text = String(month);
+          else if (form === "numeric-leading-zeros") text = String(month).padStart(2, "0");
+          else text = lookupTerm(ctx.locale, `month-${String(month).padStart(2, "0")}`, form === "short" ? "short" : "long");
+          break;
+        case "day":
+          if (!day) return "";
+          text = form === "numeric-leading-zeros" ? String(day).padStart(2, "0") : String(day);
+          break;
+      }
+      return decorate(text, part, ctx);
+    })
+    .filter(Boolean);
+
+  return { text: decorate(rendered.join(delimiter), element, ctx), called: 1, filled: 1 };
+}
+
+// Conditionals
+
+function evaluateCondition(condition: XmlElement, ctx: RenderContext): boolean {
+  const results: boolean[] = [];
+  const values = (attr: string) => (condition.attrs[attr] ?? "").split(/\s+/).filter(Boolean);
+
+  for (const type of values("type")) results.push(ctx.item.type === type);
+  for (const variable of values("variable")) results.push(hasVariable(ctx, variable));
+  for (const variable of values("is-numeric")) results.push(isNumeric(stringVariable(ctx, variable)));
+  for (const position of values("position")) results.push(position === "first");
+  if (condition.attrs.disambiguate) results.push(ctx.disambiguate === (condition.attrs.disambiguate === "true"));
+  // Uncertain dates and locators are not modelled.
+  if (condition.attrs["is-uncertain-date"] || condition.attrs.locator) results.push(false);
+
+  switch (condition.attrs.match ?? "all") {
+    case "any":
+      return results.some(Boolean);
+    case "none":
+      return !results.some(Boolean);
+    default:
+      return results.length > 0 && results.every(Boolean);
+  }
+}
+
+function renderChoose(element: XmlElement, ctx: RenderContext): Rendered {
+  for (const branch of element.children) {
+    if (branch.name === "else" || evaluateCondition(branch, ctx)) return renderChildren(branch, ctx);
+  }
+  return EMPTY;
+}
+
+// Sorting
+
+function sortKeyValue(key: XmlElement, ctx: RenderContext): string {
+  const sortingCtx = { ...ctx, sorting: true };
+  if (key.attrs.macro) return renderText({ ...key, name: "text", attrs: { macro: key.attrs.macro } }, sortingCtx).text;
+  const variable = key.attrs.variable;
+  if (!variable) return "";
+  if (NAME_VARIABLES.has(variable)) {
+    return renderNames({ name: "names", attrs: { variable }, children: [], text: "" }, sortingCtx).text;
+  }
+  if (DATE_VARIABLES.has(variable)) {
+    return renderDate({ name: "date", attrs: { variable }, children: [], text: "" }, sortingCtx).text;
+  }
+  if (variable === "citation-number") return String(ctx.citationNumber).padStart(6, "0");
+  return stringVariable(ctx, variable);
+}
+
+function normalizeSortValue(value: string): string {
+  return value
+    .replace(/[*_“”"‘’'[\]()]/g, "")
+    .trim()
+    .toLowerCase();
+}
+
+function compareByKeys(a: string[], b: string[], directions: boolean[]): number {
+  for (let i = 0; i < a.length; i++) {
+    // Items missing a key sort after those that have it, whatever the direction.
+    if (!a[i] && b[i]) return 1;
+    if (a[i] && !b[i]) return -1;
+    const cmp = a[i].localeCompare(b[i], "en", { numeric: true, sensitivity: "base" });
+    if (cmp !== 0) return directions[i] ? -cmp : cmp;
+  }
+  return 0;
+}
+
+// Output
+
+function cleanPunctuation(text: string, punctuationInQuote: boolean): string {
+  let out = text.replace(/\s{2,}/g, " ");
+  if (punctuationInQuote) out = out.replace(/”([.,])/g, "$1”");
+  // "et al." followed by a "." suffix, "Why?." and similar.
+  out = out.replace(/([.?!])((?:\*{1,2}|[”’]|<\/su[pb]>)*)\.+/g, "$1$2");
+  return out.trim();
+}
+
+function collapseNumbers(entries: Array<{ number: number; text: string }>, delimiter: string): string {
+  const runs: Array<Array<{ number: number; text: string }>> = [];
+  for (const entry of entries) {
+    const run = runs[runs.length - 1];
+    if (run && entry.number === run[run.length - 1].number + 1) run.push(entry);
+    else runs.push([entry]);
+  }
+  return runs
+    .map(run => (run.length >= 3 ? `${run[0].text}–${run[run.length - 1].text}` : run.map(entry => entry.text).join(delimiter)))
+    .join(delimiter);
+}
+
+function yearSuffixLetters(index: number): string {
+  let n = index + 1;
+  let letters = "";
+  while (n > 0) {
+    const remainder = (n - 1) % 26;
+    letters = String.fromCharCode(97 + remainder) + letters;
+    n = Math.floor((n - 1) / 26);
+  }
+  return letters;
+}
+
+export interface CitationEngine {
+  /** In-text citation for a cluster of item ids (unknown ids are ignored; empty string if none match). */
+  cite(ids: string[]): string;
+  /** Bibliography entries in the style's order. */
+  bibliography(): Array<{ id: string; text: string }>;
+}
+
+/**
+ * Registers `items` (in first-cited order) with a style: assigns citation
+ * numbers, sorts the bibliography and, for items whose citations would
+ * otherwise render identically, adds year suffixes or sets `disambiguate`.
+ */
+export function createCitationEngine(style: CslStyle, locale: CslLocale, items: CslItem[]): CitationEngine {
+  const styleNameOptions = pickNameOptions(style.options);
+  const citationNameOptions = { ...styleNameOptions, ...pickNameOptions(style.citation.attrs) };
+  const bibliographyNameOptions = { ...styleNameOptions, ...pickNameOptions(style.bibliography?.attrs ?? {}) };
+
+  const entries = new Map<string, { item: CslItem; citationNumber: number; yearSuffix: string; disambiguate: boolean }>();
+  items.forEach((item, index) => {
+    if (!entries.has(item.id)) entries.set(item.id, { item, citationNumber: index + 1, yearSuffix: "", disambiguate: false });
+  });
+
+  const contextFor = (id: string, nameOptions: Record<string, string>): RenderContext => {
+    const entry = entries.get(id)!;
+    return {
+      style,
+      locale,
+      item: entry.item,
+      citationNumber: entry.citationNumber,
+      yearSuffix: entry.yearSuffix,
+      disambiguate: entry.disambiguate,
+      nameOptions,
+      sorting: false,
+      depth: 0,
+      used: new Set(),
+      suppressed: new Set(),
+    };
+  };
+
+  // Ties keep the order given, as in citeproc-js.
+  const sortIds = (ids: string[], sortElement: XmlElement | undefined, nameOptions: Record<string, string>) => {
+    const keys = sortElement ? childElements(sortElement, "key") : [];
+    if (keys.length === 0) return ids;
+    const directions = keys.map(key => key.attrs.sort === "descending");
+    const values = new Map(ids.map(id => [id, keys.map(key => normalizeSortValue(sortKeyValue(key, contextFor(id, nameOptions))))]));
+    return [...ids].sort((a, b) => compareByKeys(values.get(a)!, values.get(b)!, directions));
+  };
+
+  // Bibliography order; numbering follows it unless the style sorts by citation number itself.
+  const bibliographySort = style.bibliography ? childElement(style.bibliography, "sort") : undefined;
+  const bibliographyOrder = sortIds(Array.from(entries.keys()), bibliographySort, bibliographyNameOptions);
+  const sortsByNumber = bibliographySort?.children.some(key => key.attrs.variable === "citation-number");
+  if (bibliographySort && !sortsByNumber) {
+    bibliographyOrder.forEach((id, index) => {
+      entries.get(id)!.citationNumber = index + 1;
+    });
+  }
+
+  const citationLayout = childElement(style.citation, "layout")!;
+  const renderCite = (id: string) =>
+    cleanPunctuation(renderChildren(citationLayout, contextFor(id, citationNameOptions)).text, locale.punctuationInQuote);
+
+  // Groups of items whose citations render identically, in bibliography order.
+  const ambiguousGroups = () => {
+    const byRendering = new Map<string, string[]>();
+    for (const id of bibliographyOrder) {
+      const rendered = renderCite(id);
+      byRendering.set(rendered, [...(byRendering.get(rendered) ?? []), id]);
+    }
+    return Array.from(byRendering.values()).filter(ids => ids.length > 1);
+  };
+  if (style.citation.attrs["disambiguate-add-year-suffix"] === "true") {
+    for (const ids of ambiguousGroups()) {
+      ids.forEach((id, index) => {
+        entries.get(id)!.yearSuffix = yearSuffixLetters(index);
+      });
+    }
+  }
+  // Last resort: styles can render more (e.g. MLA's short title) under `disambiguate="true"`.
+  for (const ids of ambiguousGroups()) {
+    for (const id of ids) entries.get(id)!.disambiguate = true;
+  }
+
+  const citationSort = childElement(style.citation, "sort");
+  const collapse = style.citation.attrs.collapse;
+
+  return {
+    cite(ids) {
+      const known = ids.filter((id, index) => entries.has(id) && ids.indexOf(id) === index);
+      if (known.length === 0) return "";
+      const ordered = sortIds(known, citationSort, citationNameOptions);
+      const delimiter = citationLayout.attrs.delimiter ?? "";
+      const rendered = ordered.map(id => ({ number: entries.get(id)!.citationNumber, text: renderCite(id) })).filter(entry => entry.text);
+      const body =
+        collapse === "citation-number"
+          ? collapseNumbers([...rendered].sort((a, b) => a.number - b.number), delimiter)
+          : rendered.map(entry => entry.text).join(delimiter);
+      return cleanPunctuation(decorate(body, citationLayout, contextFor(ordered[0], citationNameOptions)), locale.punctuationInQuote);
+    },
+
+    bibliography() {
+      const layout = style.bibliography && childElement(style.bibliography, "layout");
+      if (!layout) return bibliographyOrder.map(id => ({ id, text: renderCite(id) }));
+      return bibliographyOrder.map(id => {
+        const ctx = contextFor(id, bibliographyNameOptions);
+        const text = decorate(renderChildren(layout, ctx).text, layout, ctx);
+        return { id, text: cleanPunctuation(text, locale.punctuationInQuote) };
+      });
+    },
+  };
+}
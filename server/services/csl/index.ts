@@ -0,0 +1,144 @@
+/**
+ * Citation formatting driven by bundled Citation Style Language styles.
+ * Register the works a document cites as CSL-JSON items, then ask the
+ * processor for in-text citations and bibliography entries in the chosen style.
+ * The tests render every bundled style with citeproc-js as well and require
+ * the same output.
+ */
+
+import { CITATION_STYLES, type CitationStyle } from "@shared/const";
+import type { SemanticScholarPaper } from "../semanticScholar";
+import {
+  createCitationEngine,
+  parseLocale,
+  parseStyle,
+  type CslItem,
+  type CslLocale,
+  type CslName,
+  type CslStyle,
+} from "./engine";
+import enUS from "./locales/en-US";
+import apa from "./styles/apa";
+import chicagoAuthorDate from "./styles/chicago-author-date";
+import harvardCiteThemRight from "./styles/harvard-cite-them-right";
+import ieee from "./styles/ieee";
+import modernLanguageAssociation from "./styles/modern-language-association";
+import nature from "./styles/nature";
+import science from "./styles/science";
+import vancouver from "./styles/vancouver";
+
+export type { CslDate, CslItem, CslName } from "./engine";
+
+const STYLE_SOURCES: Record<CitationStyle, string> = {
+  APA7: apa,
+  MLA9: modernLanguageAssociation,
+  Chicago: chicagoAuthorDate,
+  Harvard: harvardCiteThemRight,
+  IEEE: ieee,
+  Vancouver: vancouver,
+  Nature: nature,
+  Science: science,
+};
+
+const DEFAULT_STYLE: CitationStyle = "APA7";
+
+const parsedStyles = new Map<CitationStyle, CslStyle>();
+let parsedLocale: CslLocale | null = null;
+
+/** Maps a stored style name (case-insensitive) to a bundled style, falling back to APA 7. */
+export function resolveCitationStyle(style: string): CitationStyle {
+  const normalized = style.trim().toLowerCase();
+  return CITATION_STYLES.find(candidate => candidate.toLowerCase() === normalized) ?? DEFAULT_STYLE;
+}
+
+function loadStyle(style: CitationStyle): CslStyle {
+  let parsed = parsedStyles.get(style);
+  if (!parsed) {
+    parsed = parseStyle(STYLE_SOURCES[style]);
+    parsedStyles.set(style, parsed);
+  }
+  return parsed;
+}
+
+export interface CitationProcessor {
+  style: CitationStyle;
+  /** True for styles whose in-text citations are reference numbers (IEEE, Vancouver, Nature, Science). */
+  numeric: boolean;
+  /** In-text citation for a cluster of item ids; empty string if none are registered. */
+  cite(ids: string[]): string;
+  /** Bibliography entries, in the order the style lists them. */
+  bibliography(): Array<{ id: string; text: string }>;
+}
+
+/**
+ * Builds a processor for `items`, which should be in first-cited order (that
+ * order determines numbering in numeric styles).
+ */
+export function createCitationProcessor(style: string, items: CslItem[]): CitationProcessor {
+  const resolved = resolveCitationStyle(style);
+  const cslStyle = loadStyle(resolved);
+  parsedLocale ??= parseLocale(enUS);
+  const engine = createCitationEngine(cslStyle, parsedLocale, items);
+  return {
+    style: resolved,
+    numeric: cslStyle.citationFormat === "numeric",
+    cite: ids => engine.cite(ids),
+    bibliography: () => engine.bibliography(),
+  };
+}
+
+const FAMILY_PARTICLES = new Set(["van", "von", "de", "der", "den", "del", "della", "di", "da", "du", "la", "le", "dos", "das", "ter", "ten"]);
+const NAME_SUFFIXES = /^(jr\.?|sr\.?|ii|iii|iv)$/i;
+
+/** Splits a display name ("Jane Q. van der Berg", "Berg, Jane") into CSL name parts. */
+export function parseAuthorName(name: string): CslName {
+  const cleaned = name.trim().replace(/\s+/g, " ");
+  if (!cleaned) return { literal: "Anonymous" };
+
+  const commaIndex = cleaned.indexOf(",");
+  if (commaIndex > 0) {
+    const family = cleaned.slice(0, commaIndex).trim();
+    const given = cleaned.slice(commaIndex + 1).trim();
+    return given ? { family, given } : { family };
+  }
+
+  const parts = cleaned.split(" ");
+  const suffix = parts.length > 2 && NAME_SUFFIXES.test(parts[parts.length - 1]) ? parts.pop() : undefined;
+  if (parts.length === 1) return { family: parts[0], ...(suffix ? { suffix } : {}) };
+
+  // Lower-case particles ("van", "de la") stay with the family name.
+  let familyStart = parts.length - 1;
+  while (familyStart > 1 && FAMILY_PARTICLES.has(parts[familyStart - 1])) familyStart--;
+  return {
+    given: parts.slice(0, familyStart).join(" "),
+    family: parts.slice(familyStart).join(" "),
+    ...(suffix ? { suffix } : {}),
+  };
+}
+
+function paperType(paper: SemanticScholarPaper): string {
+  const venue = paper.venue?.toLowerCase() ?? "";
+  if (/arxiv|biorxiv|medrxiv|ssrn|preprint/.test(venue) || (!venue && paper.externalIds?.ArXiv)) return "article";
+  if (/conference|proceedings|symposium|workshop/.test(venue)) return "paper-conference";
+  return "article-journal";
+}
+
+/** Converts a Semantic Scholar paper into a CSL-JSON item with the given id (e.g. "ref3"). */
+export function paperToCslItem(paper: SemanticScholarPaper, id: string): CslItem {
+  const type = paperType(paper);
+  const venue = paper.venue?.trim() || undefined;
+  const doi = paper.externalIds?.DOI?.replace(/^https?:\/\/(dx\.)?doi\.org\//i, "");
+  const arxivId = paper.externalIds?.ArXiv;
+  return {
+    id,
+    type,
+    title: paper.title,
+    author: (paper.authors ?? []).map(author => parseAuthorName(author.name)),
+    ...(type === "article"
+      ? { publisher: venue ?? (arxivId ? "arXiv" : undefined) }
+      : { "container-title": venue }),
+    ...(paper.year ? { issued: { "date-parts": [[paper.year]] } } : {}),
+    ...(doi ? { DOI: doi } : {}),
+    ...(paper.url || arxivId ? { URL: paper.url || `https://arxiv.org/abs/${arxivId}` } : {}),
+  };
+}
@@ -0,0 +1,80 @@
+/**
+ * Minimal XML reader for CSL style and locale files: elements, attributes,
+ * text content and the predefined/numeric entities. Comments, processing
+ * instructions and CDATA are skipped.
+ */
+
+export interface XmlElement {
+  name: string;
+  attrs: Record<string, string>;
+  children: XmlElement[];
+  /** Concatenated text content of this element (not of its children). */
+  text: string;
+}
+
+const ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+};
+
+function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+    if (entity[0] === "#") {
+      const code = entity[1].toLowerCase() === "x" ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+    }
+    return ENTITIES[entity] ?? match;
+  });
+}
+
+export function parseXml(source: string): XmlElement {
+  const root: XmlElement = { name: "#document", attrs: {}, children: [], text: "" };
+  const stack: XmlElement[] = [root];
+  const tagPattern = /<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!\[CDATA\[[\s\S]*?\]\]>|<!DOCTYPE[^>]*>|<(\/?)([\w:.-]+)((?:\s+[\w:.-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/g;
+  const attrPattern = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+  let cursor = 0;
+  for (const match of Array.from(source.matchAll(tagPattern))) {
+    const current = stack[stack.length - 1];
+    const text = source.slice(cursor, match.index);
+    if (text.trim()) current.text += decodeEntities(text);
+    cursor = match.index! + match[0].length;
+
+    const [, closing, name, rawAttrs, selfClosing] = match;
+    if (!name) continue; // comment, PI, CDATA or doctype
+
+    if (closing) {
+      if (current.name !== name) {
+        throw new Error(`Malformed XML: expected </${current.name}> but found </${name}>`);
+      }
+      stack.pop();
+      continue;
+    }
+
+    const attrs: Record<string, string> = {};
+    for (const attr of Array.from((rawAttrs ?? "").matchAll(attrPattern))) {
+      attrs[attr[1]] = decodeEntities(attr[2] ?? attr[3] ?? "");
+    }
+    const element: XmlElement = { name, attrs, children: [], text: "" };
+    current.children.push(element);
+    if (!selfClosing) stack.push(element);
+  }
+
+  if (stack.length !== 1) {
+    throw new Error(`Malformed XML: unclosed <${stack[stack.length - 1].name}>`);
+  }
+  const [documentElement] = root.children;
+  if (!documentElement) throw new Error("Malformed XML: no root element");
+  return documentElement;
+}
+
+export function childElement(element: XmlElement, name: string): XmlElement | undefined {
+  return element.children.find(child => child.name === name);
+}
+
+export function childElements(element: XmlElement, name: string): XmlElement[] {
+  return element.children.filter(child => child.name === name);
+}
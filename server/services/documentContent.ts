@@ -0,0 +1,123 @@
+/**
+ * Stored vs. rendered document content. Documents are stored in canonical
+ * form: in-text citations are `[refN]` markers keyed to the `citations` rows,
+ * and there is no References section. The citation style is applied when the
+ * document is viewed or exported, so revisions, LaTeX `\cite` and style
+ * switching all work from the same keys.
+ */
+
+import type { Citation, Document } from "../../drizzle/schema";
+import * as db from "../db";
+import {
+  buildReferencesSection,
+  renderCitationMarkers,
+  replaceReferencesSection,
+  restoreLegacyCitations,
+  splitReferencesSection,
+  type LegacyCitedWork,
+} from "./citationMarkers";
+import { createCitationProcessor, parseAuthorName, type CitationProcessor, type CslItem } from "./csl";
+
+const MIGRATION_BATCH_SIZE = 50;
+
+export const citationKeyOf = (row: Pick<Citation, "citationKey" | "orderIndex">) => row.citationKey || `ref${row.orderIndex}`;
+
+/** The stored CSL record, or one rebuilt from the flat columns for rows that predate it. */
+export function citationToCslItem(row: Citation): CslItem {
+  const id = citationKeyOf(row);
+  if (row.csl) return { ...(row.csl as CslItem), id };
+  return {
+    id,
+    type: "article-journal",
+    title: row.title,
+    author: row.authorsText.split(/,\s+/).filter(Boolean).map(parseAuthorName),
+    ...(row.journal ? { "container-title": row.journal } : {}),
+    ...(row.year ? { issued: { "date-parts": [[row.year]] } } : {}),
+    ...(row.volume ? { volume: row.volume } : {}),
+    ...(row.issue ? { issue: row.issue } : {}),
+    ...(row.pages ? { page: row.pages } : {}),
+    ...(row.doi ? { DOI: row.doi } : {}),
+    ...(row.url ? { URL: row.url } : {}),
+  };
+}
+
+export function citationProcessorForRows(style: string, rows: Citation[]): CitationProcessor {
+  return createCitationProcessor(style, rows.map(citationToCslItem));
+}
+
+/** Drops the References section; it is regenerated from the citations on render. */
+function withoutReferences(markdown: string): string {
+  const { before, references, after } = splitReferencesSection(markdown);
+  if (!references) return markdown;
+  return [before.trimEnd(), after.trim()].filter(Boolean).join("\n\n");
+}
+
+// Rows of styled documents hold the author names the legacy formatter read.
+const legacyWork = (row: Citation): LegacyCitedWork => ({
+  key: citationKeyOf(row),
+  authors: row.authorsText.split(/,\s+/),
+  year: row.year,
+});
+
+/**
+ * A styled document's content with its in-text citations mapped back to
+ * `[refN]` markers and no References section; null if any citation does not
+ * map to exactly one of `citations`.
+ */
+export function restoreStyledContent(document: Pick<Document, "content" | "citationStyle">, citations: Citation[]): string | null {
+  const works = citations.map(legacyWork);
+  const { before, references, after } = splitReferencesSection(document.content);
+  const restoredBefore = restoreLegacyCitations(before, works, document.citationStyle);
+  const restoredAfter = restoreLegacyCitations(after, works, document.citationStyle);
+  if (restoredBefore === null || restoredAfter === null) return null;
+  return withoutReferences(`${restoredBefore}${references}${restoredAfter}`);
+}
+
+/**
+ * The document's content with `[refN]` markers and no References section.
+ * Styled rows are converted on the fly; one whose citations do not all map
+ * keeps them as written.
+ */
+export function canonicalContent(document: Pick<Document, "content" | "contentFormat" | "citationStyle">, citations: Citation[]): string {
+  if (document.contentFormat === "canonical") return document.content;
+  return restoreStyledContent(document, citations) ?? withoutReferences(document.content);
+}
+
+/** The document as readers see it: citations and References section in `style` (default: the document's). */
+export function renderDocumentContent(
+  document: Pick<Document, "content" | "contentFormat" | "citationStyle">,
+  citations: Citation[],
+  style = document.citationStyle
+): string {
+  const processor = citationProcessorForRows(style, citations);
+  return replaceReferencesSection(renderCitationMarkers(canonicalContent(document, citations), processor), buildReferencesSection(processor));
+}
+
+/**
+ * Converts documents saved before canonical storage, a batch at a time.
+ * Returns how many were converted; documents whose citations do not all map,
+ * and failures, are logged and left styled.
+ */
+export async function migrateStyledDocuments(): Promise<number> {
+  let migrated = 0;
+  const skipped = new Set<number>();
+  for (;;) {
+    const batch = (await db.getStyledDocuments(MIGRATION_BATCH_SIZE + skipped.size)).filter(doc => !skipped.has(doc.id));
+    if (batch.length === 0) return migrated;
+    for (const document of batch) {
+      try {
+        const content = restoreStyledContent(document, await db.getDocumentCitations(document.id));
+        if (content === null) {
+          skipped.add(document.id);
+          console.warn("[Documents] Left styled: not every in-text citation matches a reference", { documentId: document.id });
+          continue;
+        }
+        await db.updateDocumentContent(document.id, { content, contentFormat: "canonical" });
+        migrated++;
+      } catch (error) {
+        skipped.add(document.id);
+        console.warn("[Documents] Failed to convert document to canonical citations", { documentId: document.id, error });
+      }
+    }
+  }
+}
@@ -1,4 +1,5 @@
 import type { Document, Citation, Author } from "../../drizzle/schema";
+import { canonicalContent, renderDocumentContent } from "./documentContent";
 
 export type ExportFormat = "markdown" | "latex";
 
@@ -77,13 +78,14 @@ export function exportDocument(
 ): { filename: string; mimeType: string; content: string } {
   if (format === "markdown") {
     const filename = `${document.title.replace(/[^a-z0-9-_]+/gi, "_")}.md`;
-    return { filename, mimeType: "text/markdown; charset=utf-8", content: document.content };
+    return { filename, mimeType: "text/markdown; charset=utf-8", content: renderDocumentContent(document, options.citations ?? []) };
   }
 
   const title = escapeLatex(document.title);
   const authorLine = (options.authors ?? []).map(a => escapeLatex(a.name)).join(" \\and ");
 
-  const body = markdownToLatex(document.content);
+  // The bibliography below replaces the rendered References section; citations stay keys for \cite.
+  const body = markdownToLatex(canonicalContent(document, options.citations ?? []));
 
   const bib = (options.citations ?? [])
     .map((c) => {
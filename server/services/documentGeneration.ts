@@ -2,9 +2,36 @@
  * Document generation service using LLMs and Semantic Scholar
  */
 
-import { invokeLLM } from "../_core/llm";
+import { invokeLLM, type LLMUsage } from "../_core/llm";
 import * as semanticScholar from "./semanticScholar";
+import { createCitationProcessor, paperToCslItem, type CitationProcessor, type CslItem } from "./csl";
+import { cslItemToPaper, referenceKeys } from "./bibliographyImport";
+import {
+  isPlaceholderPaper,
+  rankByRelevance,
+  searchLiteratureQueries,
+  snowballLiterature,
+  type CitationGraphEdge,
+} from "./literature";
+import { expandSearchQueries } from "./queryExpansion";
+import { extractLiteratureMatrix, literatureMatrixContext, type LiteratureMatrixEntry } from "./literatureMatrix";
+import { extractCitedClaims, verifyCitedClaims, type VerifiedClaim } from "./citationVerification";
+import {
+  createPassageIndex,
+  fetchOpenAccessFullTexts,
+  isOpenAccessRetrievalEnabled,
+  matchUploadToReference,
+  passagesContext,
+  passagesPerSection,
+  splitPassages,
+} from "./fullText";
+import { applyRegistryMetadata, validateCitations, type CitationMetadataCheck } from "./doiValidation";
+import { buildReferencesSection, citedKeys, remapCitationMarkers, renderCitationMarkers } from "./citationMarkers";
 import * as db from "../db";
+import { createUsageTracker } from "./llmUsage";
+import { discardGenerationEvents, publishGenerationEvent } from "./progressEvents";
+import { getPipeline, type PhaseName, type PipelineDefinition, type SectionSpec } from "./pipelines";
+import type { ArgumentNode, FullTextPage, InsertFullTextPage } from "../../drizzle/schema";
 
 interface GenerationParams {
   jobId: number;
@@ -28,23 +55,74 @@ interface GenerationParams {
     orcid?: string;
     isCorresponding: boolean;
   }>;
+  /** References imported from the user's library (CSL-JSON). */
+  seedReferences?: CslItem[];
+  /** "replace" uses only the imported references; "merge" tops them up from search. */
+  seedReferenceMode?: "merge" | "replace";
 }
 
 interface GenerationPhase {
-  name: string;
-  weight: number; // Percentage of total work
-  execute: (context: GenerationContext) => Promise<void>;
+  name: PhaseName;
+  weight: number; // Share of total work, from the pipeline definition
+  execute: (context: GenerationContext, progress: PhaseProgress) => Promise<void>;
+}
+
+/** Where a phase sits on the 0-100 progress bar. */
+interface PhaseProgress {
+  start: number;
+  span: number;
+}
+
+interface OutlineSubsection {
+  title: string;
+  wordBudget: number;
+  claims: string[];
+  /** Set when a long subsection is drafted in consecutive parts; each part is one LLM call. */
+  part?: { index: number; count: number };
+}
+
+interface OutlineSection {
+  title: string;
+  wordBudget: number;
+  subsections: OutlineSubsection[];
+}
+
+type ArgumentNodeType = ArgumentNode["nodeType"];
+
+/** A node of the claim graph; mirrors a row of `argument_nodes` before it has a document. */
+interface ArgumentMapNode {
+  key: string;
+  type: ArgumentNodeType;
+  text: string;
+  parentKey: string | null;
+  citationKeys: string[];
+  section: string | null;
 }
 
 interface GenerationContext {
   params: GenerationParams;
   literature: semanticScholar.SemanticScholarPaper[];
+  /** Markdown rendering of `structuredOutline`, shared with every drafting prompt. */
   outline: string;
+  structuredOutline: OutlineSection[];
+  argumentMap: ArgumentMapNode[];
   sections: Record<string, string>;
   citations: Array<{
     paper: semanticScholar.SemanticScholarPaper;
     citationKey: string;
+    /** Full bibliographic record for imported references; search results are formatted from `paper`. */
+    csl?: CslItem;
+    /** DOI registry check; matching records fill in missing journal/volume/issue/pages. */
+    metadataCheck?: CitationMetadataCheck;
+    /** Literature Review queries (or citation-graph links) that found this paper; unset for imported references. */
+    searchQueries?: string[];
   }>;
+  /** Cited sentences checked against the cited paper's abstract. */
+  citationVerifications: VerifiedClaim[];
+  /** Reference/citation links walked while snowballing the literature search. */
+  citationGraph: CitationGraphEdge[];
+  /** Per-source problem/method/dataset/findings/limitations, extracted from abstracts. */
+  literatureMatrix: LiteratureMatrixEntry[];
   figurePlans: Array<{
     figureNumber: string;
     figureType: string;
@@ -59,6 +137,39 @@ interface GenerationContext {
   }>;
   noveltyScore?: number;
   qualityScore?: number;
+  /** Aborted when the job is cancelled or its lease is lost. */
+  signal?: AbortSignal;
+  /** Queue worker holding the job's lease; the job is only finished while it still does. */
+  workerId: string;
+  /** Records token usage against the job and the phase currently running. */
+  onUsage?: (usage: LLMUsage) => void;
+}
+
+/**
+ * Context state persisted after each phase. `params` is rebuilt from the job row.
+ */
+type CheckpointState = Omit<GenerationContext, "params" | "signal" | "workerId" | "onUsage">;
+
+function toCheckpointState(ctx: GenerationContext): CheckpointState {
+  const { params: _params, signal: _signal, workerId: _workerId, onUsage: _onUsage, ...state } = ctx;
+  return state;
+}
+
+function restoreCheckpointState(ctx: GenerationContext, saved: Record<string, unknown>): void {
+  const state = saved as Partial<CheckpointState>;
+  ctx.literature = state.literature ?? ctx.literature;
+  ctx.outline = state.outline ?? ctx.outline;
+  ctx.structuredOutline = state.structuredOutline ?? ctx.structuredOutline;
+  ctx.argumentMap = state.argumentMap ?? ctx.argumentMap;
+  ctx.sections = state.sections ?? ctx.sections;
+  ctx.citations = state.citations ?? ctx.citations;
+  ctx.citationVerifications = state.citationVerifications ?? ctx.citationVerifications;
+  ctx.citationGraph = state.citationGraph ?? ctx.citationGraph;
+  ctx.literatureMatrix = state.literatureMatrix ?? ctx.literatureMatrix;
+  ctx.figurePlans = state.figurePlans ?? ctx.figurePlans;
+  ctx.tablePlans = state.tablePlans ?? ctx.tablePlans;
+  ctx.noveltyScore = state.noveltyScore ?? ctx.noveltyScore;
+  ctx.qualityScore = state.qualityScore ?? ctx.qualityScore;
 }
 
 function safeJsonParse<T>(value: unknown, fallback: T): T {
@@ -146,97 +257,13 @@ function computeWordCount(text: string): number {
   return text.trim().split(/\s+/).filter(Boolean).length;
 }
 
-function buildReferencesSection(
-  citations: Array<{ citationKey: string; paper: semanticScholar.SemanticScholarPaper }>,
-  style: string
-): string {
-  if (citations.length === 0) return "## References\n\n_No references available._";
-  const normalizedStyle = style.trim();
-  const isIEEE = normalizedStyle.toUpperCase() === "IEEE";
-
-  const items = citations.map((c, index) => {
-    const formatted = semanticScholar.formatCitation(c.paper, normalizedStyle as any);
-    if (isIEEE) return `${index + 1}. ${formatted}`;
-    return `- ${formatted}`;
-  });
-  return `## References\n\n${items.join("\n")}`.trim();
+function citationCslItem(citation: GenerationContext["citations"][number]): CslItem {
+  const item = citation.csl ? { ...citation.csl, id: citation.citationKey } : paperToCslItem(citation.paper, citation.citationKey);
+  return applyRegistryMetadata(item, citation.metadataCheck);
 }
 
-function lastNameFromAuthor(authorName: string): string {
-  const cleaned = authorName.trim().replace(/\s+/g, " ");
-  if (!cleaned) return "Unknown";
-  const parts = cleaned.split(" ");
-  return parts[parts.length - 1].replace(/[.,;:]+$/, "") || "Unknown";
-}
-
-function inTextCitationForPaper(
-  paper: semanticScholar.SemanticScholarPaper,
-  style: string
-): string {
-  const normalizedStyle = style.trim();
-  const year = paper.year ? String(paper.year) : "n.d.";
-  const authorNames = Array.isArray(paper.authors) ? paper.authors.map(a => a.name).filter(Boolean) : [];
-
-  const authorLabel = (() => {
-    if (authorNames.length === 0) return "Unknown";
-    if (authorNames.length === 1) return lastNameFromAuthor(authorNames[0]);
-    if (authorNames.length === 2) return `${lastNameFromAuthor(authorNames[0])} & ${lastNameFromAuthor(authorNames[1])}`;
-    return `${lastNameFromAuthor(authorNames[0])} et al.`;
-  })();
-
-  switch (normalizedStyle) {
-    case "IEEE":
-      // Numeric citations handled elsewhere.
-      return "";
-    case "MLA9":
-      return `(${authorLabel})`;
-    case "Chicago":
-    case "APA7":
-    default:
-      return `(${authorLabel}, ${year})`;
-  }
-}
-
-function applyCitationStyleToBody(
-  markdown: string,
-  citations: Array<{ citationKey: string; paper: semanticScholar.SemanticScholarPaper }>,
-  style: string
-): string {
-  const normalizedStyle = style.trim();
-  const isIEEE = normalizedStyle.toUpperCase() === "IEEE";
-
-  const refMap = new Map<number, semanticScholar.SemanticScholarPaper>();
-  for (const c of citations) {
-    const match = c.citationKey.match(/^ref(\d+)$/i);
-    if (!match) continue;
-    const idx = Number(match[1]);
-    if (Number.isFinite(idx)) refMap.set(idx, c.paper);
-  }
-
-  return markdown.replace(/(?:\[\s*ref(\d+)\s*\]\s*)+/gi, match => {
-    const trailingWhitespaceMatch = match.match(/\s+$/);
-    const trailingWhitespace = trailingWhitespaceMatch ? trailingWhitespaceMatch[0] : "";
-    const refs = Array.from(match.matchAll(/\[\s*ref(\d+)\s*\]/gi))
-      .map(m => Number(m[1]))
-      .filter(n => Number.isFinite(n) && n > 0);
-
-    if (refs.length === 0) return match;
-    const uniqueRefs: number[] = [];
-    for (const r of refs) if (!uniqueRefs.includes(r)) uniqueRefs.push(r);
-
-    if (isIEEE) return `[${uniqueRefs.join(",")}]${trailingWhitespace}`;
-
-    const parts = uniqueRefs.map(r => {
-      const paper = refMap.get(r);
-      if (!paper) return `(Unknown, n.d.)`;
-      return inTextCitationForPaper(paper, normalizedStyle);
-    });
-
-    if (parts.length === 1) return `${parts[0]}${trailingWhitespace}`;
-    return `(${parts
-      .map(p => p.replace(/^\(|\)$/g, ""))
-      .join("; ")})${trailingWhitespace}`;
-  });
+function citationProcessorFor(citations: GenerationContext["citations"], style: string): CitationProcessor {
+  return createCitationProcessor(style, citations.map(citationCslItem));
 }
 
 function isQuarticOscillatorTopic(params: GenerationParams): boolean {
@@ -244,8 +271,8 @@ function isQuarticOscillatorTopic(params: GenerationParams): boolean {
   return haystack.includes("quartic") && haystack.includes("oscillator");
 }
 
-function shouldRequestStepByStepMath(params: GenerationParams, section: string): boolean {
-  if (section !== "Methodology" && section !== "Results") return false;
+function shouldRequestStepByStepMath(params: GenerationParams, section: SectionSpec): boolean {
+  if (!section.technical) return false;
   const haystack = `${params.title} ${params.researchDomain} ${params.subdomain ?? ""}`.toLowerCase();
   const keywords = [
     "physics",
@@ -274,7 +301,7 @@ function ensureMathDerivation(
   // If the model already produced tagged display equations, keep as-is.
   if (markdown.includes("\\tag{")) return markdown;
 
-  if (section === "Methodology" && isQuarticOscillatorTopic(params)) {
+  if (/\bMethodology$/.test(section) && isQuarticOscillatorTopic(params)) {
     const cite = maxRefCount > 0 ? " [ref1]" : "";
     const derivation = `**Mathematical model and equation of motion.**
 
@@ -351,6 +378,38 @@ function buildTablesMarkdown(plans: GenerationContext["tablePlans"]): string {
   return lines.join("\n").trim();
 }
 
+const DEFAULT_SECTION_CONCURRENCY = 3;
+
+function getSectionConcurrency(): number {
+  const value = Number(process.env.GENERATION_SECTION_CONCURRENCY);
+  return Number.isFinite(value) && value >= 1 ? Math.floor(value) : DEFAULT_SECTION_CONCURRENCY;
+}
+
+/**
+ * Runs `fn` over `items` with at most `limit` calls in flight. After the first
+ * failure no new items are started, and that failure is rethrown.
+ */
+async function mapWithConcurrency<T>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<void>
+): Promise<void> {
+  let next = 0;
+  let failed = false;
+  const worker = async () => {
+    while (!failed && next < items.length) {
+      const index = next++;
+      try {
+        await fn(items[index], index);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+}
+
 function shouldEnforceWordCount(): boolean {
   if (process.env.VITEST) return false;
   const raw = (process.env.ENFORCE_WORD_COUNT ?? "1").trim().toLowerCase();
@@ -360,11 +419,12 @@ function shouldEnforceWordCount(): boolean {
 async function adjustBodyToTargetWordCount(
   bodyMarkdown: string,
   params: GenerationParams,
-  maxRefCount: number
+  maxRefCount: number,
+  options: { signal?: AbortSignal; onUsage?: (usage: LLMUsage) => void } = {}
 ): Promise<string> {
   if (!shouldEnforceWordCount()) return bodyMarkdown;
   const target = params.targetWordCount;
-  if (!target || target <= 0) return bodyMarkdown;
+  if (!target || target <= 0 || target > MAX_WORDS_FOR_BODY_REVISION) return bodyMarkdown;
 
   const current = computeWordCount(bodyMarkdown);
   const lower = Math.floor(target * 0.9);
@@ -388,52 +448,215 @@ Strict requirements:
 Markdown to revise:
 ${bodyMarkdown}`;
 
-  const response = await invokeLLM({ messages: [{ role: "user", content: prompt }] });
+  const response = await invokeLLM({
+    messages: [{ role: "user", content: prompt }],
+    signal: options.signal,
+    onUsage: options.onUsage,
+  });
   const content = response.choices[0]?.message?.content;
   const revised = typeof content === "string" && content.trim().length > 0 ? content : bodyMarkdown;
   return normalizeCitationKeys(revised, maxRefCount);
 }
 
-function defaultOutline(params: GenerationParams) {
-  return `# Outline: ${params.title}
+// Longest unit drafted in a single LLM call; longer sections are split into subsections.
+const MAX_SUBSECTION_WORDS = 900;
 
-## Abstract
-- Summary of problem, approach, results, and contributions
+// The whole-body word-count revision is a single LLM call, so it only runs on bodies short
+// enough to be rewritten in one response; longer documents rely on per-subsection budgets.
+const MAX_WORDS_FOR_BODY_REVISION = 4000;
 
-## Introduction
-- Background and motivation
-- Problem statement and research questions
-- Contributions and paper organization
+function positiveOr(value: unknown, fallback: number): number {
+  return typeof value === "number" && Number.isFinite(value) && value > 0 ? value : fallback;
+}
 
-## Literature Review
-- Thematic overview of related work
-- Gaps and limitations in prior work
+/** Splits `total` across `weights` proportionally, rounding each share. */
+function allocateBudget(total: number, weights: number[]): number[] {
+  const sum = weights.reduce((acc, w) => acc + w, 0) || 1;
+  return weights.map(w => Math.max(1, Math.round((total * w) / sum)));
+}
 
-## Methodology
-- Data/materials
-- Experimental/analytical design
-- Evaluation metrics and baselines
+/**
+ * Splits subsections over MAX_SUBSECTION_WORDS into consecutive parts of at most
+ * that length; the subsection's claims are shared out across its parts in order.
+ */
+function splitLongSubsections(subsections: OutlineSubsection[]): OutlineSubsection[] {
+  return subsections.flatMap(sub => {
+    const count = Math.ceil(sub.wordBudget / MAX_SUBSECTION_WORDS);
+    if (count <= 1) return [sub];
+    return allocateBudget(sub.wordBudget, new Array(count).fill(1)).map((wordBudget, index) => ({
+      title: sub.title,
+      wordBudget,
+      claims: sub.claims.filter((_, i) => Math.floor((i * count) / sub.claims.length) === index),
+      part: { index, count },
+    }));
+  });
+}
+
+/** Subsections as the reader sees them: a subsection drafted in parts counts once. */
+const logicalSubsections = (section: OutlineSection) => section.subsections.filter(sub => !sub.part || sub.part.index === 0);
+
+/**
+ * Reconciles the model's outline with the pipeline's section list: every pipeline
+ * section is present in order, and word budgets are rescaled so sections sum to the
+ * target and subsections sum to their section. Sections the model left out (or an
+ * unparseable response) get a single subsection covering the whole section. Whatever
+ * the model proposed, no drafting unit is longer than MAX_SUBSECTION_WORDS.
+ */
+function buildStructuredOutline(
+  raw: { sections?: any[] } | null,
+  params: GenerationParams,
+  pipeline: PipelineDefinition
+): OutlineSection[] {
+  const normalizeTitle = (title: unknown) => String(title ?? "").trim().toLowerCase();
+  const proposed = new Map<string, any>();
+  for (const section of raw?.sections ?? []) {
+    if (section && typeof section === "object") proposed.set(normalizeTitle(section.title), section);
+  }
+
+  const specs = pipeline.sections;
+  const matches = specs.map(spec => proposed.get(normalizeTitle(spec.title)));
+  const sectionBudgets = allocateBudget(
+    Math.max(specs.length, params.targetWordCount),
+    matches.map(match => positiveOr(match?.wordBudget, 1))
+  );
+
+  return specs.map((spec, i) => {
+    const budget = sectionBudgets[i];
+    const candidates = (Array.isArray(matches[i]?.subsections) ? matches[i].subsections : [])
+      .filter((sub: any) => sub && typeof sub.title === "string" && sub.title.trim())
+      .slice(0, 12);
+
+    if (candidates.length === 0) {
+      return {
+        title: spec.title,
+        wordBudget: budget,
+        subsections: splitLongSubsections([{ title: spec.title, wordBudget: budget, claims: [] }]),
+      };
+    }
+
+    const subBudgets = allocateBudget(budget, candidates.map((sub: any) => positiveOr(sub.wordBudget, 1)));
+    return {
+      title: spec.title,
+      wordBudget: budget,
+      subsections: splitLongSubsections(
+        candidates.map((sub: any, j: number) => ({
+          title: sub.title.trim(),
+          wordBudget: subBudgets[j],
+          claims: Array.isArray(sub.claims) ? sub.claims.map(String).filter(Boolean).slice(0, 8) : [],
+        }))
+      ),
+    };
+  });
+}
+
+const ARGUMENT_KEY_PREFIXES: Record<ArgumentNodeType, string> = {
+  research_question: "RQ",
+  hypothesis: "H",
+  claim: "C",
+  evidence: "E",
+  counterargument: "X",
+};
+
+const MAX_ARGUMENT_NODES = 60;
+
+/**
+ * Validates the model's claim graph: unknown node types are dropped, keys are made
+ * unique, citation keys outside the bibliography and dangling parent links are removed.
+ * Without a usable graph, falls back to the stated hypotheses and the outline's claims.
+ */
+function buildArgumentMap(
+  raw: unknown,
+  params: GenerationParams,
+  outline: OutlineSection[],
+  citationCount: number
+): ArgumentMapNode[] {
+  const sectionTitles = new Map(outline.map(section => [section.title.toLowerCase(), section.title]));
+  const usedKeys = new Set<string>();
+  const counters: Record<string, number> = {};
+  const nextKey = (type: ArgumentNodeType, proposed?: unknown) => {
+    const candidate = typeof proposed === "string" ? proposed.trim().slice(0, 32) : "";
+    if (candidate && !usedKeys.has(candidate)) {
+      usedKeys.add(candidate);
+      return candidate;
+    }
+    let key: string;
+    do {
+      counters[type] = (counters[type] ?? 0) + 1;
+      key = `${ARGUMENT_KEY_PREFIXES[type]}${counters[type]}`;
+    } while (usedKeys.has(key));
+    usedKeys.add(key);
+    return key;
+  };
 
-## Results
-- Key findings
-- Tables/figures references (if any)
+  const nodes: ArgumentMapNode[] = [];
+  const parentLinks = new Map<ArgumentMapNode, string>();
+  for (const entry of Array.isArray(raw) ? raw : []) {
+    if (nodes.length >= MAX_ARGUMENT_NODES) break;
+    if (!entry || typeof entry !== "object") continue;
+    const type = entry.type as ArgumentNodeType;
+    const text = typeof entry.text === "string" ? entry.text.trim() : "";
+    if (!Object.hasOwn(ARGUMENT_KEY_PREFIXES, type) || !text) continue;
+
+    const citationKeys = (Array.isArray(entry.citationKeys) ? entry.citationKeys : [])
+      .map((k: unknown) => String(k).replace(/^\[|\]$/g, "").trim())
+      .filter((k: string) => {
+        const match = k.match(/^ref(\d+)$/);
+        return match !== null && Number(match[1]) >= 1 && Number(match[1]) <= citationCount;
+      });
+    const node: ArgumentMapNode = {
+      key: nextKey(type, entry.key),
+      type,
+      text,
+      parentKey: null,
+      citationKeys: Array.from(new Set<string>(citationKeys)),
+      section: sectionTitles.get(String(entry.section ?? "").trim().toLowerCase()) ?? null,
+    };
+    if (typeof entry.parentKey === "string" && entry.parentKey.trim()) {
+      parentLinks.set(node, entry.parentKey.trim());
+    }
+    nodes.push(node);
+  }
 
-## Discussion
-- Interpretation of results
-- Limitations and implications
+  const keys = new Set(nodes.map(node => node.key));
+  parentLinks.forEach((parentKey, node) => {
+    if (keys.has(parentKey) && parentKey !== node.key) node.parentKey = parentKey;
+  });
+  if (nodes.length > 0) return nodes;
+
+  const fallback: ArgumentMapNode[] = (params.keyHypotheses ?? [])
+    .filter(h => h.trim())
+    .map(h => ({ key: nextKey("hypothesis"), type: "hypothesis", text: h.trim(), parentKey: null, citationKeys: [], section: null }));
+  for (const section of outline) {
+    for (const sub of section.subsections) {
+      for (const claim of sub.claims) {
+        if (fallback.length >= MAX_ARGUMENT_NODES) return fallback;
+        fallback.push({ key: nextKey("claim"), type: "claim", text: claim, parentKey: null, citationKeys: [], section: section.title });
+      }
+    }
+  }
+  return fallback;
+}
 
-## Conclusion
-- Summary
-- Future work`;
+function renderOutline(params: GenerationParams, outline: OutlineSection[]): string {
+  const blocks = outline.map(section => {
+    const lines = [`## ${section.title} (~${section.wordBudget} words)`];
+    for (const sub of section.subsections) {
+      if (sub.title !== section.title) lines.push(`### ${sub.title} (~${sub.wordBudget} words)`);
+      lines.push(...sub.claims.map(claim => `- ${claim}`));
+    }
+    return lines.join("\n");
+  });
+  return `# Outline: ${params.title}\n\n${blocks.join("\n\n")}`;
 }
 
-function defaultSection(section: string, params: GenerationParams) {
+function defaultSection(section: SectionSpec, params: GenerationParams, pipeline: PipelineDefinition) {
   const base = `This section was generated with a fallback template because the LLM response was unavailable or invalid.`;
-  switch (section) {
-    case "Abstract":
-      return params.abstractProvided?.trim()
-        ? params.abstractProvided.trim()
-        : `${base}\n\nWe study ${params.title} in the context of ${params.researchDomain}. We describe the approach, report key results, and discuss implications.`;
+  if (section.title === pipeline.abstractSection) {
+    return params.abstractProvided?.trim()
+      ? params.abstractProvided.trim()
+      : `${base}\n\nWe study ${params.title} in the context of ${params.researchDomain}. We describe the approach, report key results, and discuss implications.`;
+  }
+  switch (section.title) {
     case "Introduction":
       return `${base}\n\n${params.title} addresses an important problem in ${params.researchDomain}. We motivate the problem, summarize prior work, and outline our contributions.`;
     case "Literature Review":
@@ -447,93 +670,156 @@ function defaultSection(section: string, params: GenerationParams) {
     case "Conclusion":
       return `${base}\n\nWe conclude with a summary of contributions and directions for future work.`;
     default:
-      return base;
+      return `${base}\n\n${section.guidance} for ${params.title}.`;
   }
 }
 
 /**
  * Main document generation pipeline
  */
-export async function generateDocument(params: GenerationParams): Promise<void> {
+export async function generateDocument(
+  params: GenerationParams,
+  options: { signal?: AbortSignal; workerId: string }
+): Promise<void> {
+  const { signal, workerId } = options;
+  const pipeline = getPipeline(params.documentType);
+  const usage = createUsageTracker({ jobId: params.jobId });
   const context: GenerationContext = {
     params,
+    signal,
+    workerId,
     literature: [],
     outline: "",
+    structuredOutline: [],
+    argumentMap: [],
     sections: {},
     citations: [],
+    citationVerifications: [],
+    citationGraph: [],
+    literatureMatrix: [],
     figurePlans: [],
     tablePlans: [],
   };
+  let documentSaved = false;
+
+  const executors: Record<PhaseName, GenerationPhase["execute"]> = {
+    "Literature Review": async (ctx) => {
+      const requested = Math.max(0, ctx.params.numReferences || 0);
+      const seeds = (ctx.params.seedReferences ?? []).map(csl => ({ paper: cslItemToPaper(csl), csl }));
+      // Keys follow citation order; every DOI is checked against the registry first.
+      const cite = async (citations: Array<Pick<GenerationContext["citations"][number], "paper" | "csl" | "searchQueries">>) => {
+        const checks = await validateCitations(
+          citations.map(c => ({ doi: c.csl?.DOI ?? c.paper.externalIds?.DOI, title: c.paper.title, year: c.paper.year })),
+          { signal: ctx.signal }
+        );
+        ctx.literature = citations.map(citation => citation.paper);
+        ctx.citations = citations.map((citation, index) => ({
+          ...citation,
+          citationKey: `ref${index + 1}`,
+          metadataCheck: checks[index],
+        }));
+
+        ctx.literatureMatrix = await extractLiteratureMatrix(ctx.citations, ctx.params.title, {
+          signal: ctx.signal,
+          onUsage: ctx.onUsage,
+        });
+        await db.saveLiteratureMatrix(
+          ctx.params.jobId,
+          ctx.literatureMatrix.map((entry, index) => ({ ...entry, title: entry.title || "Untitled", orderIndex: index + 1 }))
+        );
+      };
+
+      // Imported references come first; search (query expansion, retrieval and
+      // snowballing) only runs to top them up.
+      const remaining = requested - seeds.length;
+      if ((seeds.length > 0 && ctx.params.seedReferenceMode === "replace") || remaining <= 0) {
+        await cite(seeds);
+        return;
+      }
+      const seedKeys = seeds.flatMap(seed => referenceKeys({ doi: seed.csl.DOI, title: seed.csl.title }));
+
+      // Several focused queries from the title, abstract and hypotheses; results
+      // are merged and ranked by relevance to the topic.
+      const queries = await expandSearchQueries(ctx.params, { signal: ctx.signal, onUsage: ctx.onUsage });
+
+      // Each query walks the provider chain until it has enough real papers. A short
+      // list is cited as-is: references are never padded with placeholders.
+      const topic = {
+        title: ctx.params.title,
+        domain: ctx.params.researchDomain,
+        subdomain: ctx.params.subdomain,
+        abstract: ctx.params.abstractProvided,
+        hypotheses: ctx.params.keyHypotheses,
+      };
+      const searchResult = await searchLiteratureQueries(queries, remaining, topic, {
+        signal: ctx.signal,
+        exclude: seedKeys,
+      });
+      const searched = searchResult.queries;
+
+      // Snowball from the imported references and best search results; papers reached
+      // through the citation graph compete with search results on relevance, helped by
+      // how many of the job's papers link to them.
+      const graph = await snowballLiterature(
+        [...seeds.map(seed => seed.paper), ...searchResult.papers.map(({ paper }) => paper)],
+        { signal: ctx.signal, exclude: seedKeys }
+      );
+      ctx.citationGraph = graph.edges;
+      const papers = rankByRelevance(
+        [
+          ...searchResult.papers.map(({ paper, queries }) => ({ paper, queries })),
+          ...graph.papers.map(({ paper, via }) => ({ paper, queries: via })),
+        ],
+        topic
+      ).slice(0, remaining);
+      if (papers.length < remaining) {
+        console.warn("[Literature] Found fewer references than requested", {
+          jobId: ctx.params.jobId,
+          requested: remaining,
+          found: papers.length,
+          queries: searched,
+        });
+      }
 
-  const phases: GenerationPhase[] = [
-    {
-      name: "Literature Review",
-      weight: 15,
-      execute: async (ctx) => {
-        await updateProgress(params.jobId, "Literature Review", 0);
-        
-        // Search for relevant literature
-        const query = ctx.params.subdomain 
-          ? `${ctx.params.researchDomain} ${ctx.params.subdomain}`
-          : ctx.params.researchDomain;
-
-        const requested = Math.max(0, ctx.params.numReferences || 0);
-        try {
-          const keyPapers = await semanticScholar.extractKeyPapers(query, Math.max(requested, 1));
-
-          const all = [...keyPapers.foundational, ...keyPapers.recent, ...keyPapers.highImpact];
-          const unique = new Map<string, semanticScholar.SemanticScholarPaper>();
-          for (const p of all) {
-            if (!p?.paperId) continue;
-            if (!unique.has(p.paperId)) unique.set(p.paperId, p);
-          }
-
-          ctx.literature = Array.from(unique.values()).slice(0, requested);
-
-          // If Semantic Scholar yields fewer than requested, pad with placeholders.
-          while (ctx.literature.length < requested) {
-            ctx.literature.push({
-              paperId: `placeholder_${ctx.literature.length + 1}`,
-              title: `Placeholder reference ${ctx.literature.length + 1} (insufficient Semantic Scholar results)`,
-              year: new Date().getFullYear(),
-              authors: [{ authorId: "placeholder", name: "Unknown" }],
-              venue: "Unknown",
-            } as any);
-          }
-
-          ctx.citations = ctx.literature.map((paper, index) => ({
-            paper,
-            citationKey: `ref${index + 1}`,
-          }));
-        } catch (error) {
-          console.warn("[Literature] Semantic Scholar lookup failed; using placeholder references", error);
-          ctx.literature = [];
-          ctx.citations = Array.from({ length: requested }).map((_, i) => ({
-            paper: {
-              paperId: `placeholder_${i + 1}`,
-              title: `Placeholder reference ${i + 1} (Semantic Scholar unavailable)`,
-              year: new Date().getFullYear(),
-              authors: [{ authorId: "placeholder", name: "Unknown" }],
-              venue: "Unknown",
-            } as any,
-            citationKey: `ref${i + 1}`,
-          }));
+      await cite([...seeds, ...papers.map(({ paper, queries }) => ({ paper, searchQueries: queries }))]);
+    },
+    "Full-Text Retrieval": async (ctx) => {
+      // Uploaded PDFs are stored with the job unmatched; each run re-matches them to the
+      // references and fetches open-access PDFs for the rest.
+      const uploads = new Map<string, FullTextPage[]>();
+      for (const page of await db.getFullTextPages(ctx.params.jobId)) {
+        if (page.source === "upload") uploads.set(page.origin, [...(uploads.get(page.origin) ?? []), page]);
+      }
+      const pages: Array<Omit<InsertFullTextPage, "jobId">> = [];
+      const covered = new Set<string>();
+      uploads.forEach((filePages, origin) => {
+        const citationKey = matchUploadToReference(filePages.map(page => page.content), ctx.citations);
+        if (citationKey) {
+          covered.add(citationKey);
+        } else {
+          console.warn("[FullText] Uploaded PDF matches no reference; it is not used", { jobId: ctx.params.jobId, fileName: origin });
         }
-      },
+        pages.push(...filePages.map(({ page, content }) => ({ source: "upload" as const, origin, citationKey, page, content })));
+      });
+
+      const fetched = isOpenAccessRetrievalEnabled()
+        ? await fetchOpenAccessFullTexts(ctx.citations, { signal: ctx.signal, skip: covered })
+        : [];
+      for (const { citationKey, url, pages: texts } of fetched) {
+        texts.forEach((content, index) => {
+          if (content) pages.push({ source: "open_access", origin: url.slice(0, 1024), citationKey, page: index + 1, content });
+        });
+      }
+      await db.saveFullTextPages(ctx.params.jobId, pages);
     },
-    {
-      name: "Novelty Assessment",
-      weight: 10,
-      execute: async (ctx) => {
-        await updateProgress(params.jobId, "Novelty Assessment", 15);
-        
-        // Analyze novelty using LLM
-        const literatureSummary = ctx.citations
-          .slice(0, 10)
-          .map(c => `- [${c.citationKey}] ${c.paper.title} (${c.paper.year})`)
-          .join("\n");
-        
-        const prompt = `Given the following research topic and existing literature, assess the novelty potential:
+    "Novelty Assessment": async (ctx) => {
+      // Analyze novelty using LLM
+      const literatureSummary = ctx.citations
+        .slice(0, 10)
+        .map(c => `- [${c.citationKey}] ${c.paper.title} (${c.paper.year})`)
+        .join("\n");
+      
+      const prompt = `Given the following research topic and existing literature, assess the novelty potential:
 
 Topic: ${ctx.params.title}
 Domain: ${ctx.params.researchDomain}${ctx.params.subdomain ? ` / ${ctx.params.subdomain}` : ""}
@@ -546,162 +832,328 @@ ${ctx.params.abstractProvided ? `Proposed Abstract:\n${ctx.params.abstractProvid
 Provide a novelty score (0.0-1.0) and classification (incremental/moderate/substantial). Respond in JSON format:
 {"score": 0.85, "classification": "substantial", "reasoning": "..."}`;
 
-        const response = await invokeLLM({
-          messages: [{ role: "user", content: prompt }],
-          response_format: {
-            type: "json_schema",
-            json_schema: {
-              name: "novelty_assessment",
-              strict: true,
-              schema: {
-                type: "object",
-                properties: {
-                  score: { type: "number" },
-                  classification: { type: "string" },
-                  reasoning: { type: "string" },
-                },
-                required: ["score", "classification", "reasoning"],
-                additionalProperties: false,
+      const response = await invokeLLM({
+        messages: [{ role: "user", content: prompt }],
+        signal: ctx.signal,
+        onUsage: ctx.onUsage,
+        response_format: {
+          type: "json_schema",
+          json_schema: {
+            name: "novelty_assessment",
+            strict: true,
+            schema: {
+              type: "object",
+              properties: {
+                score: { type: "number" },
+                classification: { type: "string" },
+                reasoning: { type: "string" },
               },
+              required: ["score", "classification", "reasoning"],
+              additionalProperties: false,
             },
           },
-        });
-        
-        const content = response.choices[0].message.content;
-        const assessment = safeJsonParse<{ score?: unknown }>(
-          typeof content === "string" ? content : "",
-          {}
-        );
-        ctx.noveltyScore = clampNumber(assessment.score, 0.6, 0, 1);
-      },
+        },
+      });
+      
+      const content = response.choices[0].message.content;
+      const assessment = safeJsonParse<{ score?: unknown }>(
+        typeof content === "string" ? content : "",
+        {}
+      );
+      ctx.noveltyScore = clampNumber(assessment.score, 0.6, 0, 1);
     },
-    {
-      name: "Argument Architecture",
-      weight: 15,
-      execute: async (ctx) => {
-        await updateProgress(params.jobId, "Argument Architecture", 25);
-        
-        // Generate document outline
-        const prompt = `Create a detailed outline for a ${ctx.params.documentType} titled "${ctx.params.title}".
+    "Argument Architecture": async (ctx) => {
+      // Generate a structured outline (sections -> subsections -> claims, with word budgets)
+      // and the claim graph the document argues.
+      const citationsContext = ctx.citations
+        .slice(0, 30)
+        .map(c => `[${c.citationKey}] ${c.paper.title} (${c.paper.year})`)
+        .join("\n");
+      const structure = pipeline.sections
+        .map((section, index) => `${index + 1}. ${section.title} (${section.guidance})`)
+        .join("\n");
+      const prompt = `Create a detailed outline for a ${pipeline.genre} titled "${ctx.params.title}".
 
 Research Domain: ${ctx.params.researchDomain}
 Target Word Count: ${ctx.params.targetWordCount}
 ${ctx.params.abstractProvided ? `Abstract: ${ctx.params.abstractProvided}\n` : ""}
 ${ctx.params.keyHypotheses ? `Key Hypotheses:\n${ctx.params.keyHypotheses.map(h => `- ${h}`).join("\n")}\n` : ""}
 
-Create a comprehensive outline with:
-1. Introduction (background, motivation, research questions)
-2. Literature Review (organized by themes)
-3. Methodology
-4. Results/Findings
-5. Discussion
-6. Conclusion
+Use exactly these sections, in this order, with these titles:
+${structure}
+
+Requirements:
+- Give every section a wordBudget; section budgets must sum to about ${ctx.params.targetWordCount}.
+- Split each section into subsections of at most ~${MAX_SUBSECTION_WORDS} words; short sections may have a single subsection.
+- Give every subsection a specific title, a wordBudget, and 1-4 concrete claims it will argue.
+
+Also map the argument as a graph of nodes. Node types:
+- research_question (key RQ1, RQ2, ...) and hypothesis (H1, ...): what the document sets out to answer
+- claim (C1, ...): an assertion the document makes; parentKey is the question/hypothesis it addresses
+- evidence (E1, ...): support for a claim; parentKey is the claim; cite sources via citationKeys
+- counterargument (X1, ...): a challenge to a claim; parentKey is the claim
+Use "" for parentKey when there is none, and set section to the section title where the node is argued.
+
+Available citations:
+${citationsContext || "(none)"}
+
+Respond in JSON format:
+{"sections": [{"title": "...", "wordBudget": 800, "subsections": [{"title": "...", "wordBudget": 400, "claims": ["..."]}]}],
+ "argumentMap": [{"key": "C1", "type": "claim", "text": "...", "parentKey": "RQ1", "citationKeys": ["ref1"], "section": "..."}]}`;
+
+      const response = await invokeLLM({
+        messages: [{ role: "user", content: prompt }],
+        signal: ctx.signal,
+        onUsage: ctx.onUsage,
+        response_format: {
+          type: "json_schema",
+          json_schema: {
+            name: "document_outline",
+            strict: true,
+            schema: {
+              type: "object",
+              properties: {
+                sections: {
+                  type: "array",
+                  items: {
+                    type: "object",
+                    properties: {
+                      title: { type: "string" },
+                      wordBudget: { type: "number" },
+                      subsections: {
+                        type: "array",
+                        items: {
+                          type: "object",
+                          properties: {
+                            title: { type: "string" },
+                            wordBudget: { type: "number" },
+                            claims: { type: "array", items: { type: "string" } },
+                          },
+                          required: ["title", "wordBudget", "claims"],
+                          additionalProperties: false,
+                        },
+                      },
+                    },
+                    required: ["title", "wordBudget", "subsections"],
+                    additionalProperties: false,
+                  },
+                },
+                argumentMap: {
+                  type: "array",
+                  items: {
+                    type: "object",
+                    properties: {
+                      key: { type: "string" },
+                      type: {
+                        type: "string",
+                        enum: ["research_question", "hypothesis", "claim", "evidence", "counterargument"],
+                      },
+                      text: { type: "string" },
+                      parentKey: { type: "string" },
+                      citationKeys: { type: "array", items: { type: "string" } },
+                      section: { type: "string" },
+                    },
+                    required: ["key", "type", "text", "parentKey", "citationKeys", "section"],
+                    additionalProperties: false,
+                  },
+                },
+              },
+              required: ["sections", "argumentMap"],
+              additionalProperties: false,
+            },
+          },
+        },
+      });
+      
+      const content = response.choices[0].message.content;
+      const parsed = safeJsonParse<{ sections?: any[]; argumentMap?: unknown } | null>(
+        typeof content === "string" ? content : "",
+        null
+      );
+      ctx.structuredOutline = buildStructuredOutline(parsed, ctx.params, pipeline);
+      ctx.outline = renderOutline(ctx.params, ctx.structuredOutline);
+      ctx.argumentMap = buildArgumentMap(
+        parsed?.argumentMap,
+        ctx.params,
+        ctx.structuredOutline,
+        ctx.citations.length
+      );
+    },
+    "Section Writing": async (ctx, { start, span }) => {
+      // Checkpoints written before outlines were structured only carry the markdown.
+      if (ctx.structuredOutline.length === 0) {
+        ctx.structuredOutline = buildStructuredOutline(null, ctx.params, pipeline);
+      }
+
+      // Draft subsections concurrently; each prompt depends only on the outline and citations.
+      const outlineByTitle = new Map(ctx.structuredOutline.map(section => [section.title, section]));
+      const units = pipeline.sections.flatMap(spec => {
+        const outlineSection = outlineByTitle.get(spec.title);
+        if (!outlineSection) return [];
+        return outlineSection.subsections.map((subsection, index) => ({ spec, outlineSection, subsection, index }));
+      });
+      const drafts = new Map<string, string[]>();
+      const citationsContext = ctx.citations
+        .slice(0, Math.max(5, Math.min(20, ctx.citations.length)))
+        .map(c => `[${c.citationKey}] ${c.paper.title} (${c.paper.year})`)
+        .join("\n");
+      const matrixContext = literatureMatrixContext(ctx.literatureMatrix);
+      const passageIndex = createPassageIndex(splitPassages(await db.getFullTextPages(ctx.params.jobId)));
+
+      // Progress tracks completed subsections; writes are chained so they land in order.
+      const remainingUnits = new Map(ctx.structuredOutline.map(section => [section.title, section.subsections.length]));
+      let completed = 0;
+      let progressChain: Promise<void> = Promise.resolve();
+      const reportProgress = () => {
+        const progress = start + Math.round((completed / units.length) * span);
+        progressChain = progressChain.then(() => updateProgress(params.jobId, "Section Writing", progress));
+        return progressChain;
+      };
+
+      await mapWithConcurrency(units, getSectionConcurrency(), async ({ spec, outlineSection, subsection, index }) => {
+        const isWholeSection = logicalSubsections(outlineSection).length === 1;
+        const unitLabel = `${subsection.part ? `part ${subsection.part.index + 1} of ${subsection.part.count} of ` : ""}${
+          isWholeSection ? `the "${spec.title}" section` : `the "${subsection.title}" subsection of the "${spec.title}" section`
+        }`;
+        const argumentNotes = ctx.argumentMap
+          .filter(node => node.section === spec.title)
+          .map(node => {
+            const refs = node.citationKeys.map(k => `[${k}]`).join(" ");
+            return `- ${node.key} (${node.type.replace("_", " ")}${node.parentKey ? ` -> ${node.parentKey}` : ""}): ${node.text}${refs ? ` ${refs}` : ""}`;
+          })
+          .join("\n");
+        const siblings = logicalSubsections(outlineSection)
+          .filter(sub => sub.title !== subsection.title)
+          .map(sub => `- ${sub.title}`)
+          .join("\n");
+        // Parts of one subsection are drafted independently, so each is told where it sits.
+        const partNotes = subsection.part
+          ? `\nThis is part ${subsection.part.index + 1} of ${subsection.part.count}; the parts are joined in order without headings. ${
+              subsection.part.index === 0 ? "Open the topic" : "Continue from the previous part without reintroducing the topic"
+            }${subsection.part.index === subsection.part.count - 1 ? " and bring it to a close" : ""}.\n`
+          : "";
+
+        const evidence = passageIndex.size > 0
+          ? passagesContext(
+              passageIndex.search(
+                [ctx.params.title, spec.title, subsection.title, ...subsection.claims].join(" "),
+                { limit: passagesPerSection() }
+              )
+            )
+          : "";
+
+        // Derivations belong at the start of a technical section, not in every subsection.
+        const mathRequirements = index === 0 && shouldRequestStepByStepMath(ctx.params, spec)
+          ? `\nMath requirements (important):\n- Include at least 3 displayed LaTeX equations.\n- Number displayed equations using \\\\tag{1}, \\\\tag{2}, ...\n- Reference them in the prose as Eq. (1), Eq. (2), etc.\n- Show at least one step-by-step derivation (not just final formulas).\n`
+          : "";
+
+        const prompt = `Write ONLY the body text for ${unitLabel} of a scholarly ${pipeline.genre} titled "${ctx.params.title}".
+
+Section purpose: ${spec.guidance}
+${subsection.claims.length > 0 ? `\nClaims to develop:\n${subsection.claims.map(claim => `- ${claim}`).join("\n")}\n` : ""}${argumentNotes ? `\nArgument map for this section (support claims with the listed evidence; address counterarguments):\n${argumentNotes}\n` : ""}${siblings ? `\nOther subsections of this section (covered separately; do not repeat them):\n${siblings}\n` : ""}${partNotes}
+Outline:
+${ctx.outline}
+
+Target word count for this ${subsection.part ? "part" : isWholeSection ? "section" : "subsection"}: ~${subsection.wordBudget} words
 
-Provide the outline in markdown format with section headers and bullet points.`;
+Available citations:
+${citationsContext}
+${evidence ? `\nExcerpts from the cited papers' full texts (ground claims in this evidence; quote sparingly and word for word, in quotation marks, followed by the source's [refX] key):\n${evidence}\n` : ""}${spec.synthesis && matrixContext ? `\nLiterature matrix (synthesize across sources: compare problems, methods, data and findings, and draw out gaps and limitations rather than summarizing papers one by one):\n${matrixContext}\n` : ""}
+${spec.title === pipeline.abstractSection && ctx.params.abstractProvided ? `Use this as a starting point:\n${ctx.params.abstractProvided}\n\n` : ""}
+
+Constraints:
+- Do NOT include any headings (no "##", no numbered titles).
+- Do NOT output duplicate section titles.
+- Use citation keys in [refX] format ONLY (do not use [1], (1), etc).
+- If you mention figures or tables, reference them as "Figure N" / "Table N".
+${mathRequirements}
+
+${pipeline.prompts.writing}
+Write in formal academic style with concrete technical details.`;
 
         const response = await invokeLLM({
           messages: [{ role: "user", content: prompt }],
+          signal: ctx.signal,
+          onUsage: ctx.onUsage,
         });
-        
+
         const content = response.choices[0].message.content;
-        ctx.outline =
-          typeof content === "string" && content.trim().length > 0
-            ? content
-            : defaultOutline(ctx.params);
-      },
-    },
-    {
-      name: "Section Writing",
-      weight: 40,
-      execute: async (ctx) => {
-        await updateProgress(params.jobId, "Section Writing", 40);
-        
-        // Generate each section
-        const sections = [
-          "Abstract",
-          "Introduction",
-          "Literature Review",
-          "Methodology",
-          "Results",
-          "Discussion",
-          "Conclusion",
-        ];
-        
-        for (let i = 0; i < sections.length; i++) {
-          const section = sections[i];
-          const progress = 40 + Math.round((i / sections.length) * 30);
-          await updateProgress(params.jobId, "Section Writing", progress);
-          
-          const sectionWordCount = Math.round(ctx.params.targetWordCount / sections.length);
-          
-	          const citationsContext = ctx.citations
-	            .slice(0, Math.max(5, Math.min(20, ctx.citations.length)))
-	            .map(c => `[${c.citationKey}] ${c.paper.title} (${c.paper.year})`)
-	            .join("\n");
-
-	          const mathRequirements = shouldRequestStepByStepMath(ctx.params, section)
-	            ? `\nMath requirements (important):\n- Include at least 3 displayed LaTeX equations.\n- Number displayed equations using \\\\tag{1}, \\\\tag{2}, ...\n- Reference them in the prose as Eq. (1), Eq. (2), etc.\n- Show at least one step-by-step derivation (not just final formulas).\n`
-	            : "";
-	          
-	          const prompt = `Write ONLY the body text for the "${section}" section of a scholarly ${ctx.params.documentType} titled "${ctx.params.title}".
-	
-	Outline:
-	${ctx.outline}
-	
-	Target word count for this section: ~${sectionWordCount} words
-	
-	Available citations:
-	${citationsContext}
-	
-	${section === "Abstract" && ctx.params.abstractProvided ? `Use this as a starting point:\n${ctx.params.abstractProvided}\n\n` : ""}
-	
-	Constraints:
-	- Do NOT include any headings (no "##", no numbered titles).
-	- Do NOT output duplicate section titles.
-	- Use citation keys in [refX] format ONLY (do not use [1], (1), etc).
-	- If you mention figures or tables, reference them as "Figure N" / "Table N".
-	${mathRequirements}
-	
-	Write in formal academic style with concrete technical details.`;
-
-	          const response = await invokeLLM({
-	            messages: [{ role: "user", content: prompt }],
-	          });
-	          
-	          const content = response.choices[0].message.content;
-	          const raw = typeof content === "string" && content.trim().length > 0 ? content : defaultSection(section, ctx.params);
-	          const cleaned = normalizeCitationKeys(
-	            stripLeadingHeadings(stripLeadingSectionTitle(raw, section)),
-	            ctx.citations.length
-	          );
-	          const enriched =
-	            cleaned.trim().length > 0
-	              ? ensureMathDerivation(section, cleaned, ctx.params, ctx.citations.length)
-	              : defaultSection(section, ctx.params);
-	          ctx.sections[section] = enriched;
-	        }
-	      },
-	    },
-    {
-      name: "Figure Generation",
-      weight: 10,
-      execute: async (ctx) => {
-        await updateProgress(params.jobId, "Figure Generation", 70);
-
-        const numFigures = Math.max(0, ctx.params.numFigures || 0);
-        const numTables = Math.max(0, ctx.params.numTables || 0);
-        if (numFigures === 0 && numTables === 0) {
-          ctx.figurePlans = [];
-          ctx.tablePlans = [];
-          return;
+        const raw = typeof content === "string" ? content : "";
+        const cleaned = normalizeCitationKeys(
+          stripLeadingHeadings(stripLeadingSectionTitle(stripLeadingSectionTitle(raw, spec.title), subsection.title)),
+          ctx.citations.length
+        );
+        const parts = drafts.get(spec.title) ?? new Array<string>(outlineSection.subsections.length).fill("");
+        parts[index] = cleaned.trim();
+        drafts.set(spec.title, parts);
+
+        publishGenerationEvent(ctx.params.jobId, {
+          type: "section_text",
+          section: spec.title,
+          subsection: isWholeSection || (subsection.part?.index ?? 0) > 0 ? null : subsection.title,
+          index,
+          text: parts[index],
+        });
+        const remaining = (remainingUnits.get(spec.title) ?? 1) - 1;
+        remainingUnits.set(spec.title, remaining);
+        if (remaining === 0) {
+          publishGenerationEvent(ctx.params.jobId, { type: "section_completed", section: spec.title });
         }
 
-        const citationsContext = ctx.citations
-          .slice(0, Math.max(5, Math.min(20, ctx.citations.length)))
-          .map(c => `[${c.citationKey}] ${c.paper.title} (${c.paper.year})`)
-          .join("\n");
+        completed += 1;
+        await reportProgress();
+      });
+
+      // Stitch subsections back into their sections.
+      for (const spec of pipeline.sections) {
+        const outlineSection = outlineByTitle.get(spec.title);
+        const parts = drafts.get(spec.title) ?? [];
+        const headed = outlineSection ? logicalSubsections(outlineSection).length > 1 : false;
+        // Continuation parts follow their subsection's first part without a heading of their own.
+        const stitched = parts
+          .map((text, i) => {
+            const unit = outlineSection?.subsections[i];
+            return text && headed && (!unit?.part || unit.part.index === 0) ? `### ${unit?.title}\n\n${text}` : text;
+          })
+          .filter(Boolean)
+          .join("\n\n");
+        ctx.sections[spec.title] = stitched.trim().length > 0
+          ? ensureMathDerivation(spec.title, stitched, ctx.params, ctx.citations.length)
+          : defaultSection(spec, ctx.params, pipeline);
+      }
+    },
+    "Citation Verification": async (ctx) => {
+      const sections = pipeline.sections
+        .filter(section => ctx.sections[section.title])
+        .map(section => ({
+          title: section.title,
+          content: normalizeCitationKeys(ctx.sections[section.title], ctx.citations.length),
+        }));
+      const sources = new Map(
+        ctx.citations.map(c => [c.citationKey, { title: c.paper.title, abstract: c.paper.abstract }])
+      );
+      const claims = extractCitedClaims(sections, new Set(sources.keys()));
+      ctx.citationVerifications = await verifyCitedClaims(claims, sources, {
+        signal: ctx.signal,
+        onUsage: ctx.onUsage,
+        passages: createPassageIndex(splitPassages(await db.getFullTextPages(ctx.params.jobId))),
+      });
+    },
+    "Figure Generation": async (ctx) => {
+      const numFigures = Math.max(0, ctx.params.numFigures || 0);
+      const numTables = Math.max(0, ctx.params.numTables || 0);
+      if (numFigures === 0 && numTables === 0) {
+        ctx.figurePlans = [];
+        ctx.tablePlans = [];
+        return;
+      }
+
+      const citationsContext = ctx.citations
+        .slice(0, Math.max(5, Math.min(20, ctx.citations.length)))
+        .map(c => `[${c.citationKey}] ${c.paper.title} (${c.paper.year})`)
+        .join("\n");
 
-        const prompt = `Plan figures and tables for a scholarly ${ctx.params.documentType} titled "${ctx.params.title}".
+      const prompt = `Plan figures and tables for a scholarly ${pipeline.genre} titled "${ctx.params.title}".
 
 Constraints:
 - Create exactly ${numFigures} figures and exactly ${numTables} tables.
@@ -716,287 +1168,357 @@ ${citationsContext || "(none)"}
 
 Respond with JSON:
 {
-  "figures": [{"figureType":"plot","caption":"...","altText":"..."}],
-  "tables": [{"caption":"...","columns":["..."],"rows":[["..."]]}]
+"figures": [{"figureType":"plot","caption":"...","altText":"..."}],
+"tables": [{"caption":"...","columns":["..."],"rows":[["..."]]}]
 }`;
 
-        const response = await invokeLLM({
-          messages: [{ role: "user", content: prompt }],
-          response_format: {
-            type: "json_schema",
-            json_schema: {
-              name: "figures_tables_plan",
-              strict: true,
-              schema: {
-                type: "object",
-                properties: {
-                  figures: {
-                    type: "array",
-                    items: {
-                      type: "object",
-                      properties: {
-                        figureType: { type: "string" },
-                        caption: { type: "string" },
-                        altText: { type: "string" },
-                      },
-                      required: ["figureType", "caption", "altText"],
-                      additionalProperties: false,
+      const response = await invokeLLM({
+        messages: [{ role: "user", content: prompt }],
+        signal: ctx.signal,
+        onUsage: ctx.onUsage,
+        response_format: {
+          type: "json_schema",
+          json_schema: {
+            name: "figures_tables_plan",
+            strict: true,
+            schema: {
+              type: "object",
+              properties: {
+                figures: {
+                  type: "array",
+                  items: {
+                    type: "object",
+                    properties: {
+                      figureType: { type: "string" },
+                      caption: { type: "string" },
+                      altText: { type: "string" },
                     },
+                    required: ["figureType", "caption", "altText"],
+                    additionalProperties: false,
                   },
-                  tables: {
-                    type: "array",
-                    items: {
-                      type: "object",
-                      properties: {
-                        caption: { type: "string" },
-                        columns: { type: "array", items: { type: "string" } },
-                        rows: {
-                          type: "array",
-                          items: { type: "array", items: { type: "string" } },
-                        },
+                },
+                tables: {
+                  type: "array",
+                  items: {
+                    type: "object",
+                    properties: {
+                      caption: { type: "string" },
+                      columns: { type: "array", items: { type: "string" } },
+                      rows: {
+                        type: "array",
+                        items: { type: "array", items: { type: "string" } },
                       },
-                      required: ["caption", "columns", "rows"],
-                      additionalProperties: false,
                     },
+                    required: ["caption", "columns", "rows"],
+                    additionalProperties: false,
                   },
                 },
-                required: ["figures", "tables"],
-                additionalProperties: false,
               },
+              required: ["figures", "tables"],
+              additionalProperties: false,
             },
           },
-        });
-
-        const content = response.choices[0]?.message?.content;
-        const parsed = safeJsonParse<{ figures?: any[]; tables?: any[] }>(
-          typeof content === "string" ? content : "",
-          {}
-        );
-
-        ctx.figurePlans = Array.from({ length: numFigures }).map((_, i) => {
-          const entry = parsed.figures?.[i] ?? {};
-          return {
-            figureNumber: `Figure ${i + 1}`,
-            figureType: String(entry.figureType ?? "figure"),
-            caption: String(entry.caption ?? `Planned figure ${i + 1} for ${ctx.params.title}`),
-            altText: String(entry.altText ?? `Figure ${i + 1}`),
-          };
-        });
-
-        ctx.tablePlans = Array.from({ length: numTables }).map((_, i) => {
-          const entry = parsed.tables?.[i] ?? {};
-          const columns =
-            Array.isArray(entry.columns) && entry.columns.length > 0
-              ? entry.columns.map(String)
-              : ["Metric", "Value"];
-          const rows =
-            Array.isArray(entry.rows) && entry.rows.length > 0
-              ? entry.rows.map((r: any) => (Array.isArray(r) ? r.map(String) : []))
-              : [["Example", "1"]];
-          return {
-            tableNumber: `Table ${i + 1}`,
-            caption: String(entry.caption ?? `Planned table ${i + 1} for ${ctx.params.title}`),
-            columns,
-            rows,
-          };
-        });
-      },
+        },
+      });
+
+      const content = response.choices[0]?.message?.content;
+      const parsed = safeJsonParse<{ figures?: any[]; tables?: any[] }>(
+        typeof content === "string" ? content : "",
+        {}
+      );
+
+      ctx.figurePlans = Array.from({ length: numFigures }).map((_, i) => {
+        const entry = parsed.figures?.[i] ?? {};
+        return {
+          figureNumber: `Figure ${i + 1}`,
+          figureType: String(entry.figureType ?? "figure"),
+          caption: String(entry.caption ?? `Planned figure ${i + 1} for ${ctx.params.title}`),
+          altText: String(entry.altText ?? `Figure ${i + 1}`),
+        };
+      });
+
+      ctx.tablePlans = Array.from({ length: numTables }).map((_, i) => {
+        const entry = parsed.tables?.[i] ?? {};
+        const columns =
+          Array.isArray(entry.columns) && entry.columns.length > 0
+            ? entry.columns.map(String)
+            : ["Metric", "Value"];
+        const rows =
+          Array.isArray(entry.rows) && entry.rows.length > 0
+            ? entry.rows.map((r: any) => (Array.isArray(r) ? r.map(String) : []))
+            : [["Example", "1"]];
+        return {
+          tableNumber: `Table ${i + 1}`,
+          caption: String(entry.caption ?? `Planned table ${i + 1} for ${ctx.params.title}`),
+          columns,
+          rows,
+        };
+      });
     },
-    {
-      name: "Internal Review",
-      weight: 5,
-      execute: async (ctx) => {
-        await updateProgress(params.jobId, "Internal Review", 80);
-        
-        // Quality assessment
-        const fullDocument = Object.values(ctx.sections).join("\n\n");
-        
-        const prompt = `Review this academic document and provide a quality score (0-100) based on:
-- Clarity and coherence
-- Logical flow
-- Academic rigor
-- Citation appropriateness
+    "Internal Review": async (ctx) => {
+      // Quality assessment (in document order; sections may finish out of order)
+      const fullDocument = pipeline.sections
+        .map(section => ctx.sections[section.title])
+        .filter(Boolean)
+        .join("\n\n");
+      
+      const prompt = `Review this ${pipeline.genre} and provide a quality score (0-100) based on:
+${pipeline.prompts.reviewCriteria.map(criterion => `- ${criterion}`).join("\n")}
 
 Document excerpt (first 2000 chars):
 ${fullDocument.substring(0, 2000)}
 
 Respond in JSON format: {"score": 85, "feedback": "..."}`;
 
-        const response = await invokeLLM({
-          messages: [{ role: "user", content: prompt }],
-          response_format: {
-            type: "json_schema",
-            json_schema: {
-              name: "quality_assessment",
-              strict: true,
-              schema: {
-                type: "object",
-                properties: {
-                  score: { type: "number" },
-                  feedback: { type: "string" },
-                },
-                required: ["score", "feedback"],
-                additionalProperties: false,
+      const response = await invokeLLM({
+        messages: [{ role: "user", content: prompt }],
+        signal: ctx.signal,
+        onUsage: ctx.onUsage,
+        response_format: {
+          type: "json_schema",
+          json_schema: {
+            name: "quality_assessment",
+            strict: true,
+            schema: {
+              type: "object",
+              properties: {
+                score: { type: "number" },
+                feedback: { type: "string" },
               },
+              required: ["score", "feedback"],
+              additionalProperties: false,
             },
           },
-        });
-        
-        const content = response.choices[0].message.content;
-        const assessment = safeJsonParse<{ score?: unknown }>(
-          typeof content === "string" ? content : "",
-          {}
-        );
-        ctx.qualityScore = clampNumber(assessment.score, 80, 0, 100);
-      },
+        },
+      });
+      
+      const content = response.choices[0].message.content;
+      const assessment = safeJsonParse<{ score?: unknown }>(
+        typeof content === "string" ? content : "",
+        {}
+      );
+      ctx.qualityScore = clampNumber(assessment.score, 80, 0, 100);
     },
-    {
-      name: "Final Assembly",
-      weight: 5,
-      execute: async (ctx) => {
-        await updateProgress(params.jobId, "Final Assembly", 90);
-        
-        // Assemble final document (ensure single heading per section)
-        const orderedSections = [
-          "Abstract",
-          "Introduction",
-          "Literature Review",
-          "Methodology",
-          "Results",
-          "Discussion",
-          "Conclusion",
-        ];
-
-        const normalizedSections = orderedSections.map(section => {
-          const content = ctx.sections[section] ?? defaultSection(section, ctx.params);
-          const cleaned = normalizeCitationKeys(
-            stripLeadingHeadings(stripLeadingSectionTitle(content, section)),
-            ctx.citations.length
-          );
-          return `## ${section}\n\n${cleaned}`;
-        });
-
-        const body = normalizedSections.filter(Boolean).join("\n\n").trim();
-        const adjustedBody = await adjustBodyToTargetWordCount(body, ctx.params, ctx.citations.length);
-        const styledBody = applyCitationStyleToBody(adjustedBody, ctx.citations, ctx.params.citationStyle);
-
-        const figuresBlock = buildFiguresMarkdown(ctx.figurePlans, 1).markdown;
-        const tablesBlock = buildTablesMarkdown(ctx.tablePlans);
-        const referencesBlock = buildReferencesSection(ctx.citations, ctx.params.citationStyle);
-
-        const fullContent = [styledBody, figuresBlock, tablesBlock, referencesBlock]
-          .filter(Boolean)
-          .join("\n\n")
-          .trim();
-
-        // Create document in database
-        const documentId = await db.createDocument({
-          jobId: ctx.params.jobId,
+    "Final Assembly": async (ctx) => {
+      // Checkpoints from before the provider chain may still carry placeholder
+      // references; they are dropped here so none reaches a persisted document.
+      const citations = ctx.citations.filter(citation => !isPlaceholderPaper(citation.paper));
+
+      // Assemble final document (ensure single heading per section)
+      const normalizedSections = pipeline.sections.map(section => {
+        const content = ctx.sections[section.title] ?? defaultSection(section, ctx.params, pipeline);
+        // Stitched sections open with their first "###" subsection heading, which must survive.
+        const cleaned = normalizeCitationKeys(
+          content.trimStart().startsWith("### ")
+            ? content.trim()
+            : stripLeadingHeadings(stripLeadingSectionTitle(content, section.title)),
+          ctx.citations.length
+        );
+        return `## ${section.title}\n\n${cleaned}`;
+      });
+
+      const body = normalizedSections.filter(Boolean).join("\n\n").trim();
+      const adjustedBody = await adjustBodyToTargetWordCount(
+        body,
+        ctx.params,
+        ctx.citations.length,
+        { signal: ctx.signal, onUsage: ctx.onUsage }
+      );
+      const citationProcessor = citationProcessorFor(citations, ctx.params.citationStyle);
+
+      const figuresBlock = buildFiguresMarkdown(ctx.figurePlans, 1).markdown;
+      const tablesBlock = buildTablesMarkdown(ctx.tablePlans);
+
+      // Stored with [refX] markers; the style and References section are applied on read.
+      // Markers for references that were never retrieved are dropped rather than left dangling.
+      const retrievedKeys = new Set(citations.map(citation => citation.citationKey));
+      const danglingKeys = new Map(citedKeys(adjustedBody).filter(key => !retrievedKeys.has(key)).map(key => [key, null]));
+      const fullContent = [remapCitationMarkers(adjustedBody, danglingKeys), figuresBlock, tablesBlock]
+        .filter(Boolean)
+        .join("\n\n")
+        .trim();
+      const renderedContent = `${renderCitationMarkers(fullContent, citationProcessor)}\n\n${buildReferencesSection(citationProcessor)}`;
+
+      // Last chance to honour a cancel before anything is persisted.
+      ctx.signal?.throwIfAborted();
+
+      const formattedReferences = new Map(
+        citationProcessorFor(citations, ctx.params.citationStyle)
+          .bibliography()
+          .map(entry => [entry.id, entry.text])
+      );
+      const keptKeys = new Set(citations.map(citation => citation.citationKey));
+
+      // The job's usage totals are final before it is marked complete.
+      await usage.flush();
+      const documentId = await db.saveGeneratedDocument(ctx.params.jobId, ctx.workerId, {
+        document: {
           title: ctx.params.title,
-          abstract: (ctx.sections["Abstract"] || "").trim(),
+          abstract: (ctx.sections[pipeline.abstractSection] || "").trim(),
           content: fullContent,
+          contentFormat: "canonical",
           keywords: [ctx.params.researchDomain, ctx.params.subdomain].filter(Boolean) as string[],
           documentType: ctx.params.documentType,
-          wordCount: computeWordCount(fullContent),
+          wordCount: computeWordCount(renderedContent),
           citationStyle: ctx.params.citationStyle,
           noveltyScore: ctx.noveltyScore,
           qualityScore: ctx.qualityScore,
-          noveltyClassification: ctx.noveltyScore && ctx.noveltyScore >= 0.8 ? "substantial" : 
-                                 ctx.noveltyScore && ctx.noveltyScore >= 0.6 ? "moderate" : "incremental",
-        });
-        
-        // Save authors
-        await db.createAuthors(
-          ctx.params.authors.map((author, index) => ({
-            documentId,
-            name: author.name,
-            affiliation: author.affiliation,
-            email: author.email || null,
-            orcid: author.orcid || null,
-            isCorresponding: author.isCorresponding ? 1 : 0,
-            orderIndex: index + 1,
-          }))
-        );
-        
-        // Save citations
-        await db.createCitations(
-          ctx.citations.map((citation, index) => ({
-            documentId,
-            doi: citation.paper.externalIds?.DOI || null,
+          noveltyClassification: ctx.noveltyScore === undefined ? null :
+                                 ctx.noveltyScore >= 0.8 ? "substantial" : 
+                                 ctx.noveltyScore >= 0.6 ? "moderate" : "incremental",
+        },
+        authors: ctx.params.authors.map((author, index) => ({
+          name: author.name,
+          affiliation: author.affiliation,
+          email: author.email || null,
+          orcid: author.orcid || null,
+          isCorresponding: author.isCorresponding ? 1 : 0,
+          orderIndex: index + 1,
+        })),
+        citations: citations.map((citation, index) => {
+          const item = citationCslItem(citation);
+          const field = (value: unknown) => (value === undefined || value === null || value === "" ? null : String(value).slice(0, 50));
+          return {
+            doi: item.DOI || citation.paper.externalIds?.DOI || null,
             title: citation.paper.title,
             authorsText: citation.paper.authors.map((a: any) => a.name).join(", "),
-            journal: citation.paper.venue || null,
+            journal: citation.paper.venue || item["container-title"] || null,
             year: citation.paper.year || null,
-            volume: null,
-            pages: null,
+            volume: field(item.volume),
+            issue: field(item.issue),
+            pages: field(item.page),
             url: citation.paper.url || null,
             citationKey: citation.citationKey,
+            csl: item as Record<string, unknown>,
             formattedCitations: {
-              [ctx.params.citationStyle]: semanticScholar.formatCitation(
-                citation.paper,
-                ctx.params.citationStyle as any
-              ),
+              [ctx.params.citationStyle]: formattedReferences.get(citation.citationKey) ?? "",
             },
+            metadataStatus: citation.metadataCheck?.status ?? "unchecked",
+            metadataNotes: citation.metadataCheck?.notes.length ? citation.metadataCheck.notes : null,
+            searchQueries: citation.searchQueries ?? null,
             orderIndex: index + 1,
-          }))
-        );
-
-        // Save figures (placeholder URLs for now)
-        await db.createFigures(
-          ctx.figurePlans.map((fig, index) => ({
-            documentId,
-            figureNumber: fig.figureNumber,
-            figureType: fig.figureType,
-            caption: fig.caption,
-            imageUrl: "",
-            generationMethod: "planned",
-            altText: fig.altText,
-            positionInDocument: index + 1,
-          }))
-        );
+          };
+        }),
+        // Figures are planned only; they have no image yet
+        figures: ctx.figurePlans.map((fig, index) => ({
+          figureNumber: fig.figureNumber,
+          figureType: fig.figureType,
+          caption: fig.caption,
+          imageUrl: "",
+          generationMethod: "planned",
+          altText: fig.altText,
+          positionInDocument: index + 1,
+        })),
+        tables: ctx.tablePlans.map((t, index) => ({
+          tableNumber: t.tableNumber,
+          caption: t.caption,
+          htmlContent: tableToHtml(t.columns, t.rows),
+          csvData: t.rows.map(r => r.join(",")).join("\n"),
+          columnHeaders: t.columns,
+          positionInDocument: index + 1,
+        })),
+        argumentNodes: ctx.argumentMap.map((node, index) => ({
+          nodeKey: node.key,
+          nodeType: node.type,
+          content: node.text,
+          parentKey: node.parentKey,
+          citationKeys: node.citationKeys,
+          sectionTitle: node.section,
+          orderIndex: index + 1,
+        })),
+        // Citation verification results for the references that were kept
+        citationVerifications: ctx.citationVerifications
+          .filter(result => keptKeys.has(result.citationKey))
+          .map((result, index) => ({
+            citationKey: result.citationKey,
+            sectionTitle: result.sectionTitle,
+            claim: result.claim,
+            verdict: result.verdict,
+            rationale: result.rationale || null,
+            evidence: result.evidence ?? null,
+            evidencePage: result.evidencePage ?? null,
+            orderIndex: index + 1,
+          })),
+        scores: { noveltyScore: ctx.noveltyScore, qualityScore: ctx.qualityScore },
+      });
+      if (documentId === null) {
+        // Cancelled or re-leased while assembling; whoever took the job owns its status.
+        ctx.signal?.throwIfAborted();
+        console.log("[Generation] Lost the job before its document was saved", { jobId: ctx.params.jobId });
+        return;
+      }
+      documentSaved = true;
 
-        // Save tables
-        await db.createTables(
-          ctx.tablePlans.map((t, index) => ({
-            documentId,
-            tableNumber: t.tableNumber,
-            caption: t.caption,
-            htmlContent: tableToHtml(t.columns, t.rows),
-            csvData: t.rows.map(r => r.join(",")).join("\n"),
-            columnHeaders: t.columns,
-            positionInDocument: index + 1,
-          }))
-        );
-        
-        // Complete the job
-        await db.completeGenerationJob(ctx.params.jobId, {
-          status: "completed",
-          noveltyScore: ctx.noveltyScore,
-          qualityScore: ctx.qualityScore,
-        });
-      },
+      publishGenerationEvent(ctx.params.jobId, { type: "status", status: "completed", errorMessage: null });
     },
-  ];
+  };
+
+  const phases: GenerationPhase[] = pipeline.phases.map(spec => ({
+    ...spec,
+    execute: executors[spec.name],
+  }));
+  const totalWeight = phases.reduce((sum, phase) => sum + phase.weight, 0) || 1;
+  const toPercent = (weight: number) => Math.round((weight / totalWeight) * 100);
 
-  // Execute all phases
+  // Execute all phases, skipping those already completed by an earlier attempt
   try {
     let cumulativeProgress = 0;
     
+    const checkpoint = await db.getGenerationCheckpoint(params.jobId);
+    const completedPhases = new Set<string>(checkpoint?.completedPhases ?? []);
+    if (checkpoint) {
+      restoreCheckpointState(context, checkpoint.context);
+      console.log("[Generation] Resuming from checkpoint", {
+        jobId: params.jobId,
+        completedPhases: Array.from(completedPhases),
+      });
+    }
+    
     for (const phase of phases) {
+      if (completedPhases.has(phase.name)) {
+        cumulativeProgress += phase.weight;
+        continue;
+      }
+      signal?.throwIfAborted();
       try {
-        await phase.execute(context);
+        const start = toPercent(cumulativeProgress);
+        await updateProgress(params.jobId, phase.name, start);
+        context.onUsage = usage.forPhase(phase.name);
+        await phase.execute(context, { start, span: toPercent(phase.weight) });
         cumulativeProgress += phase.weight;
       } catch (error) {
         const message = error instanceof Error ? error.message : String(error);
         throw new Error(`[${phase.name}] ${message}`);
       }
+      completedPhases.add(phase.name);
+      if (phase === phases[phases.length - 1]) break;
+      await db.saveGenerationCheckpoint(params.jobId, {
+        completedPhases: Array.from(completedPhases),
+        context: toCheckpointState(context),
+      });
     }
+    
+    // The document is persisted; the checkpoint is no longer needed. A job
+    // taken over by another worker keeps it for that worker.
+    if (!documentSaved) return;
+    await db.deleteGenerationCheckpoint(params.jobId).catch(error => {
+      console.warn("[Generation] Failed to delete checkpoint", { jobId: params.jobId, error });
+    });
   } catch (error) {
+    if (signal?.aborted) {
+      // Whoever aborted owns the job's final status (cancelled, or re-leased elsewhere).
+      console.log("[Generation] Aborted", { jobId: params.jobId, reason: String(signal.reason) });
+      discardGenerationEvents(params.jobId);
+      return;
+    }
     console.error("Generation error:", error);
-    await db.completeGenerationJob(params.jobId, {
-      status: "failed",
-      errorMessage: error instanceof Error ? error.message : "Unknown error",
-    });
+    await usage.flush();
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    if (!(await db.completeGenerationJob(params.jobId, { status: "failed", errorMessage }, workerId))) {
+      console.log("[Generation] Lost the job before it could be marked failed", { jobId: params.jobId });
+      return;
+    }
+    publishGenerationEvent(params.jobId, { type: "status", status: "failed", errorMessage });
   }
 }
 
@@ -1011,4 +1533,5 @@ async function updateProgress(
     progressPercentage: percentage,
     estimatedTimeRemaining: Math.round((100 - percentage) / 10), // Rough estimate
   });
+  publishGenerationEvent(jobId, { type: "progress", phase, progressPercentage: percentage });
 }
@@ -0,0 +1,278 @@
+/**
+ * Native Word export. The canonical Markdown is rendered in the document's
+ * citation style and mapped onto Word's own structures: heading styles,
+ * numbered and bulleted lists, equation objects, real tables and inline
+ * images with captions. Figures and tables come from their rows rather than
+ * the Markdown listing, and the bibliography is written from the citations.
+ */
+
+import {
+  AlignmentType,
+  BorderStyle,
+  Document as WordDocument,
+  ExternalHyperlink,
+  HeadingLevel,
+  ImageRun,
+  LevelFormat,
+  Math as OfficeMath,
+  MathRun,
+  Packer,
+  Paragraph,
+  Table,
+  TableCell,
+  TableRow,
+  TextRun,
+  WidthType,
+  type ParagraphChild,
+} from "docx";
+import type { Author, Citation, Document, Figure, TableData } from "../../drizzle/schema";
+import { byPosition, exportBody, exportFilename, loadFigureImage, parseInline, parseMarkdownBlocks, tableRows } from "./exportContent";
+
+const DOCX_MIME_TYPE = "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
+/** Figures are scaled to fit the text column (about 6.25in at 96 dpi). */
+const MAX_IMAGE_WIDTH = 600;
+const NUMBERED_LIST = "numbered-list";
+
+type HeadingValue = (typeof HeadingLevel)[keyof typeof HeadingLevel];
+
+const HEADINGS: HeadingValue[] = [
+  HeadingLevel.HEADING_1,
+  HeadingLevel.HEADING_2,
+  HeadingLevel.HEADING_3,
+  HeadingLevel.HEADING_4,
+  HeadingLevel.HEADING_5,
+  HeadingLevel.HEADING_6,
+];
+
+export interface DocxExportOptions {
+  authors?: Author[];
+  citations?: Citation[];
+  figures?: Figure[];
+  tables?: TableData[];
+}
+
+/** Word runs for inline Markdown. */
+function inlineRuns(text: string): ParagraphChild[] {
+  return parseInline(text).map(span => {
+    if (span.kind === "math") return new OfficeMath({ children: [new MathRun(span.tex)] });
+    if (span.link) return new ExternalHyperlink({ link: span.link, children: [new TextRun({ text: span.text, style: "Hyperlink" })] });
+    return new TextRun({
+      text: span.text,
+      bold: span.bold,
+      italics: span.italic,
+      superScript: span.superscript,
+      font: span.code ? "Consolas" : undefined,
+    });
+  });
+}
+
+function wordTable(header: string[], rows: string[][]): Table {
+  const columns = Math.max(header.length, ...rows.map(row => row.length), 1);
+  const pad = (cells: string[]) => Array.from({ length: columns }, (_, i) => cells[i] ?? "");
+  const row = (cells: string[], isHeader: boolean) =>
+    new TableRow({
+      tableHeader: isHeader,
+      children: pad(cells).map(
+        cell =>
+          new TableCell({
+            children: [
+              new Paragraph({
+                children: isHeader ? [new TextRun({ text: cell, bold: true })] : inlineRuns(cell),
+              }),
+            ],
+          })
+      ),
+    });
+  return new Table({
+    width: { size: 100, type: WidthType.PERCENTAGE },
+    rows: [...(header.length ? [row(header, true)] : []), ...rows.map(cells => row(cells, false))],
+  });
+}
+
+/** Markdown body to Word blocks. Headings shift up one level: "##" sections are Heading 1. */
+function markdownBlocks(markdown: string): Array<Paragraph | Table> {
+  return parseMarkdownBlocks(markdown).flatMap((block): Array<Paragraph | Table> => {
+    switch (block.kind) {
+      case "heading":
+        return [new Paragraph({ heading: HEADINGS[Math.max(block.level - 1, 1) - 1], children: inlineRuns(block.text) })];
+      case "paragraph":
+        return [new Paragraph({ children: inlineRuns(block.text) })];
+      case "quote":
+        return [new Paragraph({ style: "Quote", children: inlineRuns(block.text) })];
+      case "bullet":
+        return [new Paragraph({ bullet: { level: block.level }, children: inlineRuns(block.text) })];
+      case "numbered":
+        return [new Paragraph({ numbering: { reference: NUMBERED_LIST, level: 0, instance: block.list }, children: inlineRuns(block.text) })];
+      case "equation":
+        // The tag becomes a right-hand "(n)".
+        return [
+          new Paragraph({
+            alignment: AlignmentType.CENTER,
+            children: [
+              new OfficeMath({ children: [new MathRun(block.tex)] }),
+              ...(block.tag ? [new TextRun({ text: `\t(${block.tag})` })] : []),
+            ],
+          }),
+        ];
+      case "table":
+        return [wordTable(block.header, block.rows), new Paragraph({})];
+    }
+  });
+}
+
+const caption = (label: string, text: string) =>
+  new Paragraph({
+    style: "Caption",
+    children: [new TextRun({ text: `${label}. `, bold: true }), ...inlineRuns(text)],
+  });
+
+async function figureBlocks(figures: Figure[]): Promise<Paragraph[]> {
+  const blocks: Paragraph[] = [];
+  for (const figure of figures) {
+    const image = await loadFigureImage(figure.imageUrl);
+    const scale = image ? Math.min(1, MAX_IMAGE_WIDTH / image.width) : 1;
+    blocks.push(
+      image
+        ? new Paragraph({
+            alignment: AlignmentType.CENTER,
+            keepNext: true,
+            children: [
+              new ImageRun({
+                type: image.type,
+                data: image.data,
+                transformation: { width: Math.round(image.width * scale), height: Math.round(image.height * scale) },
+                altText: { name: figure.figureNumber, description: figure.altText ?? figure.caption, title: figure.figureNumber },
+              }),
+            ],
+          })
+        : // Planned figures have no image yet; leave a marked box to drop one into.
+          new Paragraph({
+            alignment: AlignmentType.CENTER,
+            keepNext: true,
+            border: {
+              top: { style: BorderStyle.DASHED, size: 6, color: "999999", space: 8 },
+              bottom: { style: BorderStyle.DASHED, size: 6, color: "999999", space: 8 },
+              left: { style: BorderStyle.DASHED, size: 6, color: "999999", space: 8 },
+              right: { style: BorderStyle.DASHED, size: 6, color: "999999", space: 8 },
+            },
+            children: [new TextRun({ text: `[${figure.figureType ?? "Figure"}: ${figure.altText || figure.caption}]`, italics: true })],
+          }),
+      caption(figure.figureNumber, figure.caption)
+    );
+  }
+  return blocks;
+}
+
+function tableBlocks(tables: TableData[]): Array<Paragraph | Table> {
+  return tables.flatMap(table => {
+    const { header, rows } = tableRows(table);
+    return [caption(table.tableNumber, table.caption), wordTable(header, rows), new Paragraph({})];
+  });
+}
+
+/** Names with affiliation numbers, the affiliations, and the corresponding author's email. */
+function authorBlock(authors: Author[]): Paragraph[] {
+  if (authors.length === 0) return [];
+  const ordered = [...authors].sort((a, b) => a.orderIndex - b.orderIndex);
+  const affiliations = Array.from(new Set(ordered.map(author => author.affiliation.trim()).filter(Boolean)));
+  const names: ParagraphChild[] = ordered.flatMap((author, i) => {
+    const marks = [
+      affiliations.indexOf(author.affiliation.trim()) + 1 || null,
+      author.isCorresponding ? "*" : null,
+    ].filter(Boolean);
+    return [
+      new TextRun(`${i > 0 ? ", " : ""}${author.name}`),
+      ...(marks.length ? [new TextRun({ text: marks.join(","), superScript: true })] : []),
+    ];
+  });
+  const corresponding = ordered.filter(author => author.isCorresponding && author.email);
+  return [
+    new Paragraph({ alignment: AlignmentType.CENTER, children: names }),
+    ...affiliations.map(
+      (affiliation, i) =>
+        new Paragraph({
+          alignment: AlignmentType.CENTER,
+          children: [new TextRun({ text: String(i + 1), superScript: true }), new TextRun({ text: affiliation, italics: true })],
+        })
+    ),
+    ...(corresponding.length
+      ? [
+          new Paragraph({
+            alignment: AlignmentType.CENTER,
+            children: [
+              new TextRun({ text: "*", superScript: true }),
+              new TextRun(`Corresponding author: ${corresponding.map(author => author.email).join(", ")}`),
+            ],
+          }),
+        ]
+      : []),
+    new Paragraph({}),
+  ];
+}
+
+/** Word document bytes for `document`, with citations in its style. */
+export async function exportDocx(
+  document: Document,
+  options: DocxExportOptions = {}
+): Promise<{ filename: string; mimeType: string; data: Buffer }> {
+  const figures = byPosition(options.figures ?? []);
+  const tables = byPosition(options.tables ?? []);
+  const { markdown, bibliography } = exportBody(document, options.citations ?? [], { figures, tables });
+
+  const children: Array<Paragraph | Table> = [
+    new Paragraph({ heading: HeadingLevel.TITLE, alignment: AlignmentType.CENTER, children: inlineRuns(document.title) }),
+    ...authorBlock(options.authors ?? []),
+    ...markdownBlocks(markdown),
+    ...(figures.length ? [new Paragraph({ heading: HeadingLevel.HEADING_1, text: "Figures" }), ...(await figureBlocks(figures))] : []),
+    ...(tables.length ? [new Paragraph({ heading: HeadingLevel.HEADING_1, text: "Tables" }), ...tableBlocks(tables)] : []),
+    ...(bibliography.length
+      ? [
+          new Paragraph({ heading: HeadingLevel.HEADING_1, text: "References" }),
+          // Numeric styles number their own entries; the rest hang-indent.
+          ...bibliography.map(
+            entry => new Paragraph({ indent: { left: 720, hanging: 720 }, spacing: { after: 120 }, children: inlineRuns(entry.text) })
+          ),
+        ]
+      : []),
+  ];
+
+  const wordDocument = new WordDocument({
+    title: document.title,
+    creator: (options.authors ?? []).map(author => author.name).join(", ") || undefined,
+    description: document.abstract ?? undefined,
+    styles: {
+      default: { document: { run: { font: "Times New Roman", size: 24 } } },
+      paragraphStyles: [
+        {
+          id: "Caption",
+          name: "Caption",
+          basedOn: "Normal",
+          next: "Normal",
+          quickFormat: true,
+          run: { size: 20, italics: true },
+          paragraph: { spacing: { before: 120, after: 240 } },
+        },
+        {
+          id: "Quote",
+          name: "Quote",
+          basedOn: "Normal",
+          next: "Normal",
+          quickFormat: true,
+          run: { italics: true },
+          paragraph: { indent: { left: 720, right: 720 } },
+        },
+      ],
+    },
+    numbering: {
+      config: [
+        {
+          reference: NUMBERED_LIST,
+          levels: [{ level: 0, format: LevelFormat.DECIMAL, text: "%1.", alignment: AlignmentType.START, style: { paragraph: { indent: { left: 720, hanging: 360 } } } }],
+        },
+      ],
+    },
+    sections: [{ children }],
+  });
+
+  return { filename: exportFilename(document.title, "docx"), mimeType: DOCX_MIME_TYPE, data: await Packer.toBuffer(wordDocument) };
+}
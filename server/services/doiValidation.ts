@@ -0,0 +1,178 @@
+/**
+ * DOI and metadata validation for cited works. Each DOI is resolved against a
+ * Crossref-compatible registry (DOI_RESOLVER_URL, so a local stub can stand in),
+ * compared with what the search returned, and used to fill in missing
+ * journal/volume/issue/pages. Set DOI_VALIDATION=off to skip the lookups.
+ */
+
+import { HttpError } from "@shared/_core/errors";
+import type { CitationMetadataStatus } from "../../drizzle/schema";
+import { normalizeDoi } from "./bibliographyImport";
+import type { CslItem } from "./csl";
+import { CROSSREF_API_BASE, type CrossrefWork } from "./literature/crossref";
+import { fetchJson } from "./literature/http";
+
+const DEFAULT_CONCURRENCY = 4;
+/** Share of the shorter title's words the registry title must contain. */
+const TITLE_MATCH_THRESHOLD = 0.6;
+
+const getNumberEnv = (key: string, fallback: number) => {
+  const raw = process.env[key];
+  if (!raw) return fallback;
+  const value = Number(raw);
+  return Number.isFinite(value) && value >= 1 ? Math.floor(value) : fallback;
+};
+
+export interface CitationMetadataCheck {
+  status: CitationMetadataStatus;
+  /** Why the entry was flagged, or which fields were filled in. */
+  notes: string[];
+  /** Registry record for the DOI; only set when it matches the cited work. */
+  registry?: {
+    DOI: string;
+    title?: string;
+    containerTitle?: string;
+    volume?: string;
+    issue?: string;
+    page?: string;
+    year?: number;
+  };
+}
+
+export interface CitationToValidate {
+  doi?: string | null;
+  title: string;
+  year?: number | null;
+}
+
+const isEnabled = () => {
+  const raw = (process.env.DOI_VALIDATION ?? "on").trim().toLowerCase();
+  return raw !== "0" && raw !== "false" && raw !== "off";
+};
+
+const resolverBase = () => (process.env.DOI_RESOLVER_URL?.trim() || CROSSREF_API_BASE).replace(/\/+$/, "");
+
+const titleWords = (title: string) =>
+  new Set(title.toLowerCase().replace(/<[^>]+>/g, " ").split(/[^a-z0-9]+/).filter(word => word.length > 2));
+
+export function titlesMatch(a: string, b: string): boolean {
+  const wordsA = titleWords(a);
+  const wordsB = titleWords(b);
+  const shorter = wordsA.size <= wordsB.size ? wordsA : wordsB;
+  const longer = shorter === wordsA ? wordsB : wordsA;
+  if (shorter.size === 0) return false;
+  const shared = Array.from(shorter).filter(word => longer.has(word)).length;
+  return shared / shorter.size >= TITLE_MATCH_THRESHOLD;
+}
+
+/** Compares one cited work with its DOI's registry record. */
+export function checkAgainstRegistry(citation: CitationToValidate, work: CrossrefWork): CitationMetadataCheck {
+  const registeredTitle = work.title?.[0]?.trim() ?? "";
+  const year = work.issued?.["date-parts"]?.[0]?.[0] ?? undefined;
+  const notes: string[] = [];
+
+  const retraction =
+    work["updated-by"]?.find(update => update.type === "retraction") ??
+    (/^retracted\b/i.test(registeredTitle) ? { DOI: undefined } : undefined);
+  if (retraction) {
+    notes.push(`Retracted${retraction.DOI ? ` (notice: ${retraction.DOI})` : ""}.`);
+  }
+  if (work["update-to"]?.some(update => update.type === "retraction")) {
+    notes.push("The DOI is a retraction notice, not the original work.");
+  }
+
+  if (registeredTitle && !titlesMatch(citation.title, registeredTitle)) {
+    notes.push(`The DOI is registered to "${registeredTitle}".`);
+  }
+  if (citation.year && typeof year === "number" && Math.abs(citation.year - year) > 1) {
+    notes.push(`The DOI is registered with year ${year}, not ${citation.year}.`);
+  }
+
+  const mismatched = notes.some(note => note.startsWith("The DOI is"));
+  if (mismatched) {
+    return { status: retraction ? "retracted" : "mismatch", notes };
+  }
+
+  return {
+    status: retraction ? "retracted" : "verified",
+    notes,
+    registry: {
+      DOI: work.DOI,
+      title: registeredTitle || undefined,
+      containerTitle: work["container-title"]?.[0] || undefined,
+      volume: work.volume || undefined,
+      issue: work.issue || undefined,
+      page: work.page || undefined,
+      year: typeof year === "number" ? year : undefined,
+    },
+  };
+}
+
+/** The registry record for a DOI, or null if it is not registered. Other failures are thrown. */
+export async function fetchRegisteredWork(doi: string, options: { signal?: AbortSignal } = {}): Promise<CrossrefWork | null> {
+  try {
+    const data = await fetchJson<{ message?: CrossrefWork }>(
+      "DOI resolver",
+      `${resolverBase()}/works/${encodeURIComponent(doi)}`,
+      { signal: options.signal }
+    );
+    return data.message?.DOI ? data.message : null;
+  } catch (error) {
+    if (error instanceof HttpError && error.statusCode === 404) return null;
+    throw error;
+  }
+}
+
+export async function validateCitation(
+  citation: CitationToValidate,
+  options: { signal?: AbortSignal } = {}
+): Promise<CitationMetadataCheck> {
+  const doi = normalizeDoi(citation.doi);
+  if (!doi) return { status: "unchecked", notes: ["No DOI to check."] };
+  if (!isEnabled()) return { status: "unchecked", notes: ["DOI validation is turned off."] };
+
+  try {
+    const work = await fetchRegisteredWork(doi, options);
+    if (!work) return { status: "not_found", notes: [`The DOI ${doi} is not registered.`] };
+    return checkAgainstRegistry(citation, work);
+  } catch (error) {
+    options.signal?.throwIfAborted();
+    console.warn("[DOI] Lookup failed", { doi, error });
+    return { status: "unchecked", notes: [`The DOI registry could not be reached: ${error instanceof Error ? error.message : String(error)}`] };
+  }
+}
+
+/** Validates every citation, a few lookups at a time; results keep the input order. */
+export async function validateCitations(
+  citations: CitationToValidate[],
+  options: { signal?: AbortSignal } = {}
+): Promise<CitationMetadataCheck[]> {
+  const results: CitationMetadataCheck[] = new Array(citations.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < citations.length) {
+      const index = next++;
+      results[index] = await validateCitation(citations[index], options);
+    }
+  };
+  const concurrency = getNumberEnv("DOI_VALIDATION_CONCURRENCY", DEFAULT_CONCURRENCY);
+  await Promise.all(Array.from({ length: Math.min(concurrency, citations.length) }, worker));
+  return results;
+}
+
+/** Fills fields the CSL item lacks from a matching registry record; existing values win. */
+export function applyRegistryMetadata(item: CslItem, check: CitationMetadataCheck | undefined): CslItem {
+  const registry = check?.registry;
+  if (!registry) return item;
+  const filled: CslItem = { ...item };
+  const fill = (variable: string, value: string | undefined) => {
+    if (value && (filled[variable] === undefined || filled[variable] === "")) filled[variable] = value;
+  };
+  filled.DOI = registry.DOI;
+  fill("container-title", registry.containerTitle);
+  fill("volume", registry.volume);
+  fill("issue", registry.issue);
+  fill("page", registry.page);
+  if (!filled.issued && registry.year) filled.issued = { "date-parts": [[registry.year]] };
+  return filled;
+}
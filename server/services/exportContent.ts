@@ -0,0 +1,249 @@
+/**
+ * What the binary exports (Word, PDF) render from: the body in the
+ * document's citation style parsed into blocks and inline spans, the
+ * bibliography, stored table rows and figure images. The Figures and Tables
+ * listings in the Markdown are dropped when the rows they were generated
+ * from exist, so each renderer lays those out natively instead.
+ */
+
+import type { Citation, Document, Figure, TableData } from "../../drizzle/schema";
+import { renderCitationMarkers, splitReferencesSection } from "./citationMarkers";
+import { canonicalContent, citationProcessorForRows } from "./documentContent";
+
+const IMAGE_TIMEOUT_MS = 15_000;
+
+export const exportFilename = (title: string, extension: string) => `${title.replace(/[^a-z0-9-_]+/gi, "_")}.${extension}`;
+
+export const byPosition = <T extends { positionInDocument: number }>(rows: T[]) =>
+  [...rows].sort((a, b) => a.positionInDocument - b.positionInDocument);
+
+/** Drops "## <title>" sections. */
+function withoutSections(markdown: string, titles: string[]): string {
+  return markdown
+    .split(/^(?=## )/m)
+    .filter(part => {
+      const title = part.match(/^## (.*)/)?.[1].trim();
+      return !title || !titles.includes(title);
+    })
+    .join("")
+    .trim();
+}
+
+/**
+ * The body with citations rendered in the document's style and no References
+ * section, plus the bibliography entries to write in its place.
+ */
+export function exportBody(
+  document: Pick<Document, "content" | "contentFormat" | "citationStyle">,
+  citations: Citation[],
+  options: { figures?: Figure[]; tables?: TableData[] } = {}
+): { markdown: string; bibliography: Array<{ id: string; text: string }> } {
+  const processor = citationProcessorForRows(document.citationStyle, citations);
+  const { before, after } = splitReferencesSection(renderCitationMarkers(canonicalContent(document, citations), processor));
+  const generated = [...(options.figures?.length ? ["Figures"] : []), ...(options.tables?.length ? ["Tables"] : [])];
+  return { markdown: withoutSections(`${before}${after}`, generated), bibliography: processor.bibliography() };
+}
+
+const decodeEntities = (html: string) =>
+  html
+    .replace(/<[^>]+>/g, "")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, "&")
+    .trim();
+
+/** Rows of a stored table: from its HTML, or its CSV when the HTML has none. */
+export function tableRows(table: TableData): { header: string[]; rows: string[][] } {
+  const htmlRows = Array.from(table.htmlContent.matchAll(/<tr[^>]*>([\s\S]*?)<\/tr>/gi)).map(row => ({
+    isHeader: /<th[\s>]/i.test(row[1]),
+    cells: Array.from(row[1].matchAll(/<t[hd][^>]*>([\s\S]*?)<\/t[hd]>/gi)).map(cell => decodeEntities(cell[1])),
+  }));
+  if (htmlRows.length) {
+    const header = htmlRows[0].isHeader ? htmlRows[0].cells : table.columnHeaders ?? [];
+    return { header, rows: htmlRows.filter((row, i) => !(i === 0 && row.isHeader)).map(row => row.cells) };
+  }
+  const csvRows = (table.csvData ?? "").split("\n").filter(Boolean).map(line => line.split(","));
+  return { header: table.columnHeaders ?? [], rows: csvRows };
+}
+
+export type InlineSpan =
+  | { kind: "text"; text: string; bold?: boolean; italic?: boolean; code?: boolean; superscript?: boolean; link?: string }
+  | { kind: "math"; tex: string };
+
+export type MarkdownBlock =
+  | { kind: "heading"; level: number; text: string }
+  | { kind: "paragraph"; text: string }
+  | { kind: "quote"; text: string }
+  | { kind: "bullet"; level: number; text: string }
+  /** `list` numbers the lists in the document; each restarts at 1. */
+  | { kind: "numbered"; list: number; text: string }
+  | { kind: "equation"; tex: string; tag: string | null }
+  | { kind: "table"; header: string[]; rows: string[][] };
+
+const INLINE_TOKEN =
+  /\*\*([^*]+)\*\*|\*([^*\s][^*]*)\*|\b_([^_\n]+)_\b|`([^`]+)`|\\\((.+?)\\\)|\$([^$\n]+)\$|<sup>(.*?)<\/sup>|\[([^\]]+)\]\(([^)\s]+)\)/g;
+
+/** Bold, italics, code, inline math, superscripts and links; everything else is plain text. */
+export function parseInline(text: string): InlineSpan[] {
+  const spans: InlineSpan[] = [];
+  let last = 0;
+  for (const match of Array.from(text.matchAll(INLINE_TOKEN))) {
+    const index = match.index ?? 0;
+    if (index > last) spans.push({ kind: "text", text: text.slice(last, index) });
+    const [, bold, italic, underscored, code, parenMath, dollarMath, sup, linkText, linkUrl] = match;
+    if (bold !== undefined) spans.push({ kind: "text", text: bold, bold: true });
+    else if (italic !== undefined || underscored !== undefined) spans.push({ kind: "text", text: italic ?? underscored, italic: true });
+    else if (code !== undefined) spans.push({ kind: "text", text: code, code: true });
+    else if (parenMath !== undefined || dollarMath !== undefined) spans.push({ kind: "math", tex: (parenMath ?? dollarMath).trim() });
+    else if (sup !== undefined) spans.push({ kind: "text", text: sup, superscript: true });
+    else spans.push({ kind: "text", text: linkText, link: linkUrl });
+    last = index + match[0].length;
+  }
+  if (last < text.length) spans.push({ kind: "text", text: text.slice(last) });
+  return spans;
+}
+
+/** The text of `markdown` without inline formatting (math keeps its TeX). */
+export const plainText = (markdown: string) =>
+  parseInline(markdown)
+    .map(span => (span.kind === "math" ? span.tex : span.text))
+    .join("");
+
+const markdownTableCells = (line: string) =>
+  line
+    .trim()
+    .replace(/^\|/, "")
+    .replace(/\|$/, "")
+    .split("|")
+    .map(cell => cell.trim());
+
+/** A display equation; its `\tag{n}` is split off. */
+function equationBlock(tex: string): MarkdownBlock {
+  const tag = tex.match(/\\tag\{([^}]*)\}/);
+  return { kind: "equation", tex: tex.replace(/\\tag\{[^}]*\}/g, "").trim(), tag: tag ? tag[1] : null };
+}
+
+/** Block structure of the Markdown the generator writes. Paragraph lines are joined with spaces. */
+export function parseMarkdownBlocks(markdown: string): MarkdownBlock[] {
+  const blocks: MarkdownBlock[] = [];
+  const lines = markdown.split("\n");
+  let paragraph: string[] = [];
+  let list = 0;
+  let inNumberedList = false;
+
+  const flushParagraph = () => {
+    if (paragraph.length) blocks.push({ kind: "paragraph", text: paragraph.join(" ") });
+    paragraph = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trimEnd();
+    const trimmed = line.trim();
+
+    const numbered = trimmed.match(/^\d+[.)]\s+(.*)$/);
+    if (!numbered && trimmed) inNumberedList = false;
+
+    if (!trimmed) {
+      flushParagraph();
+      continue;
+    }
+
+    const heading = trimmed.match(/^(#{1,6})\s+(.*)$/);
+    if (heading) {
+      flushParagraph();
+      blocks.push({ kind: "heading", level: heading[1].length, text: heading[2].trim() });
+      continue;
+    }
+
+    // Display math: $$ ... $$ or \[ ... \], on one line or several.
+    const mathOpen = trimmed.match(/^(\$\$|\\\[)/);
+    if (mathOpen) {
+      flushParagraph();
+      const close = mathOpen[1] === "$$" ? "$$" : "\\]";
+      let tex = trimmed.slice(mathOpen[1].length);
+      while (!tex.trimEnd().endsWith(close) && i + 1 < lines.length) tex += `\n${lines[++i]}`;
+      tex = tex.trimEnd();
+      if (tex.endsWith(close)) tex = tex.slice(0, -close.length);
+      blocks.push(equationBlock(tex));
+      continue;
+    }
+
+    if (trimmed.startsWith("|")) {
+      flushParagraph();
+      const rows: string[][] = [];
+      for (; i < lines.length && lines[i].trim().startsWith("|"); i++) {
+        if (!/^\|?[\s:|-]+\|?$/.test(lines[i].trim())) rows.push(markdownTableCells(lines[i]));
+      }
+      i--;
+      const [header = [], ...body] = rows;
+      blocks.push({ kind: "table", header, rows: body });
+      continue;
+    }
+
+    const bullet = line.match(/^(\s*)[-*+]\s+(.*)$/);
+    if (bullet) {
+      flushParagraph();
+      blocks.push({ kind: "bullet", level: Math.min(Math.floor(bullet[1].length / 2), 8), text: bullet[2] });
+      continue;
+    }
+
+    if (numbered) {
+      flushParagraph();
+      if (!inNumberedList) list++;
+      inNumberedList = true;
+      blocks.push({ kind: "numbered", list, text: numbered[1] });
+      continue;
+    }
+
+    if (trimmed.startsWith(">")) {
+      flushParagraph();
+      blocks.push({ kind: "quote", text: trimmed.replace(/^>\s?/, "") });
+      continue;
+    }
+
+    paragraph.push(trimmed);
+  }
+  flushParagraph();
+  return blocks;
+}
+
+/** Pixel size of a PNG or JPEG, or null for other formats. */
+export function imageDimensions(data: Uint8Array): { type: "png" | "jpg"; width: number; height: number } | null {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  if (data.length > 24 && data[0] === 0x89 && data[1] === 0x50 && data[2] === 0x4e && data[3] === 0x47) {
+    return { type: "png", width: view.getUint32(16), height: view.getUint32(20) };
+  }
+  if (data.length > 4 && data[0] === 0xff && data[1] === 0xd8) {
+    let offset = 2;
+    while (offset + 9 < data.length && data[offset] === 0xff) {
+      const marker = data[offset + 1];
+      const length = view.getUint16(offset + 2);
+      // Start-of-frame markers carry the dimensions; C4, C8 and CC are other tables.
+      if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+        return { type: "jpg", height: view.getUint16(offset + 5), width: view.getUint16(offset + 7) };
+      }
+      offset += 2 + length;
+    }
+  }
+  return null;
+}
+
+/** A figure's PNG or JPEG image; null for planned figures and images that fail to load (logged). */
+export async function loadFigureImage(
+  url: string
+): Promise<{ data: Uint8Array; type: "png" | "jpg"; width: number; height: number } | null> {
+  if (!url.trim()) return null;
+  try {
+    const response = await fetch(url, { signal: AbortSignal.timeout(IMAGE_TIMEOUT_MS) });
+    if (!response.ok) throw new Error(`${response.status} ${response.statusText}`);
+    const data = new Uint8Array(await response.arrayBuffer());
+    const size = imageDimensions(data);
+    if (!size || !size.width || !size.height) throw new Error("Unsupported image format");
+    return { data, ...size };
+  } catch (error) {
+    console.warn("[Export] Figure image not embedded", { url, error: String(error) });
+    return null;
+  }
+}
@@ -0,0 +1,256 @@
+/**
+ * Full-text grounding: open-access and uploaded PDFs are reduced to per-page
+ * text, split into passages that never cross a page boundary, and searched
+ * with BM25. Drafting prompts and citation checks then see what the cited
+ * papers actually say, and every passage carries the page it came from.
+ */
+
+import { extractText, getDocumentProxy } from "unpdf";
+import { HttpError } from "@shared/_core/errors";
+import { contactEmail } from "./literature/http";
+import { topicTerms } from "./literature/relevance";
+import type { SemanticScholarPaper } from "./semanticScholar";
+
+const DEFAULT_CONCURRENCY = 3;
+const DEFAULT_TIMEOUT_MS = 30_000;
+const DEFAULT_MAX_BYTES = 20 * 1024 * 1024;
+/** Longer pages (scanned tables, OCR noise) are cut; the column holds 64 KB. */
+const MAX_PAGE_CHARS = 60_000;
+const PASSAGE_CHARS = 1200;
+const DEFAULT_PASSAGES_PER_SECTION = 6;
+/** Matching an upload to a reference only looks at the first pages. */
+const MATCH_PAGES = 2;
+// BM25 parameters.
+const K1 = 1.2;
+const B = 0.75;
+
+const getNumberEnv = (key: string, fallback: number) => {
+  const raw = process.env[key];
+  if (!raw) return fallback;
+  const value = Number(raw);
+  return Number.isFinite(value) && value >= 1 ? Math.floor(value) : fallback;
+};
+
+/** FULL_TEXT_RETRIEVAL=off skips fetching open-access PDFs; uploads are still used. */
+export const isOpenAccessRetrievalEnabled = () => process.env.FULL_TEXT_RETRIEVAL?.trim().toLowerCase() !== "off";
+
+/** Passages retrieved for each drafted subsection (FULL_TEXT_PASSAGES_PER_SECTION). */
+export const passagesPerSection = () => getNumberEnv("FULL_TEXT_PASSAGES_PER_SECTION", DEFAULT_PASSAGES_PER_SECTION);
+
+export interface FullTextSource {
+  citationKey: string;
+  paper: SemanticScholarPaper;
+}
+
+/** A stored page: uploads start without a key and get one once matched to a reference. */
+export interface FullTextPageText {
+  citationKey: string | null;
+  page: number;
+  content: string;
+}
+
+export interface SourcePassage {
+  citationKey: string;
+  page: number;
+  text: string;
+}
+
+/** Rejoins words hyphenated across line breaks and collapses the layout whitespace. */
+function normalizePageText(text: string): string {
+  return text
+    .replace(/(\w)-\s*\n\s*(\w)/g, "$1$2")
+    .replace(/\s+/g, " ")
+    .trim()
+    .slice(0, MAX_PAGE_CHARS);
+}
+
+/** Text of each page, in order. Throws when `data` is not a readable PDF. */
+export async function extractPdfPages(data: Uint8Array): Promise<string[]> {
+  if (new TextDecoder().decode(data.subarray(0, 5)) !== "%PDF-") {
+    throw new Error("Not a PDF file");
+  }
+  const pdf = await getDocumentProxy(new Uint8Array(data));
+  try {
+    const { text } = await extractText(pdf, { mergePages: false });
+    return text.map(normalizePageText);
+  } finally {
+    await pdf.loadingTask.destroy();
+  }
+}
+
+/** The paper's open-access PDF; arXiv papers always have one. */
+export function openAccessPdfUrl(paper: SemanticScholarPaper): string | null {
+  const url = paper.openAccessPdf?.url?.trim();
+  if (url) return url;
+  return paper.externalIds?.ArXiv ? `https://arxiv.org/pdf/${paper.externalIds.ArXiv}` : null;
+}
+
+/** Downloads a PDF with a timeout and size cap (FULL_TEXT_TIMEOUT_MS, FULL_TEXT_MAX_BYTES). */
+export async function fetchPdf(url: string, options: { signal?: AbortSignal } = {}): Promise<Uint8Array> {
+  const timeoutMs = getNumberEnv("FULL_TEXT_TIMEOUT_MS", DEFAULT_TIMEOUT_MS);
+  const maxBytes = getNumberEnv("FULL_TEXT_MAX_BYTES", DEFAULT_MAX_BYTES);
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), timeoutMs);
+  const signal = options.signal ? AbortSignal.any([controller.signal, options.signal]) : controller.signal;
+
+  try {
+    const response = await fetch(url, {
+      headers: {
+        accept: "application/pdf",
+        "user-agent": `scholarforge-ai${contactEmail() ? ` (mailto:${contactEmail()})` : ""}`,
+      },
+      signal,
+    });
+    if (!response.ok) {
+      throw new HttpError(response.status, `PDF download failed: ${response.status} ${response.statusText}`);
+    }
+    if (Number(response.headers.get("content-length")) > maxBytes) {
+      throw new Error(`PDF download failed: larger than ${maxBytes} bytes`);
+    }
+    const data = new Uint8Array(await response.arrayBuffer());
+    if (data.byteLength > maxBytes) throw new Error(`PDF download failed: larger than ${maxBytes} bytes`);
+    return data;
+  } catch (error) {
+    options.signal?.throwIfAborted();
+    if (controller.signal.aborted) throw new Error(`PDF download failed: timed out after ${timeoutMs}ms`);
+    throw error;
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+const matchText = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+
+/**
+ * The reference an uploaded PDF is a copy of: its DOI, or else its full title,
+ * appears on the first pages. Null when nothing matches.
+ */
+export function matchUploadToReference(pages: string[], sources: FullTextSource[]): string | null {
+  const head = pages.slice(0, MATCH_PAGES).join(" ");
+  const lowered = head.toLowerCase();
+  const byDoi = sources.find(({ paper }) => {
+    const doi = paper.externalIds?.DOI?.toLowerCase();
+    return doi && lowered.includes(doi);
+  });
+  if (byDoi) return byDoi.citationKey;
+
+  const words = ` ${matchText(head)} `;
+  const byTitle = sources.find(({ paper }) => {
+    const title = matchText(paper.title);
+    return title.split(" ").length >= 3 && words.includes(` ${title} `);
+  });
+  return byTitle?.citationKey ?? null;
+}
+
+/**
+ * Pages of every source with an open-access PDF, fetched FULL_TEXT_CONCURRENCY
+ * at a time. Sources in `skip` (already covered by an upload) are left out;
+ * downloads or PDFs that fail are logged and skipped.
+ */
+export async function fetchOpenAccessFullTexts(
+  sources: FullTextSource[],
+  options: { signal?: AbortSignal; skip?: Set<string> } = {}
+): Promise<Array<{ citationKey: string; url: string; pages: string[] }>> {
+  const queue = sources
+    .filter(source => !options.skip?.has(source.citationKey))
+    .flatMap(source => {
+      const url = openAccessPdfUrl(source.paper);
+      return url ? [{ citationKey: source.citationKey, url }] : [];
+    });
+  const results: Array<{ citationKey: string; url: string; pages: string[] } | null> = new Array(queue.length).fill(null);
+
+  let next = 0;
+  const worker = async () => {
+    while (next < queue.length) {
+      const index = next++;
+      const { citationKey, url } = queue[index];
+      try {
+        const pages = await extractPdfPages(await fetchPdf(url, { signal: options.signal }));
+        if (pages.some(Boolean)) results[index] = { citationKey, url, pages };
+      } catch (error) {
+        options.signal?.throwIfAborted();
+        console.warn("[FullText] Skipping open-access PDF", { citationKey, url, error: String(error) });
+      }
+    }
+  };
+  const concurrency = getNumberEnv("FULL_TEXT_CONCURRENCY", DEFAULT_CONCURRENCY);
+  await Promise.all(Array.from({ length: Math.min(concurrency, queue.length) }, worker));
+  return results.filter((result): result is NonNullable<typeof result> => result !== null);
+}
+
+/** Splits pages into passages of about PASSAGE_CHARS at sentence boundaries. Unmatched uploads are dropped. */
+export function splitPassages(pages: FullTextPageText[]): SourcePassage[] {
+  const passages: SourcePassage[] = [];
+  for (const { citationKey, page, content } of pages) {
+    if (!citationKey) continue;
+    // Run-on "sentences" (reference lists, tables) are cut at word boundaries.
+    const sentences = content
+      .replace(/([.!?])\s+/g, "$1\n")
+      .split("\n")
+      .map(sentence => sentence.trim())
+      .filter(Boolean)
+      .flatMap(sentence => sentence.match(new RegExp(`.{1,${PASSAGE_CHARS}}(?=\\s|$)|\\S{${PASSAGE_CHARS}}`, "g")) ?? [])
+      .map(piece => piece.trim());
+    let current = "";
+    for (const sentence of sentences) {
+      if (current && current.length + sentence.length + 1 > PASSAGE_CHARS) {
+        passages.push({ citationKey, page, text: current });
+        current = "";
+      }
+      current = current ? `${current} ${sentence}` : sentence;
+    }
+    if (current) passages.push({ citationKey, page, text: current });
+  }
+  return passages;
+}
+
+export interface PassageIndex {
+  readonly size: number;
+  /** Best-scoring passages for `query`, optionally only from the given sources. */
+  search(query: string, options: { limit: number; citationKeys?: Set<string> }): SourcePassage[];
+}
+
+/** In-memory BM25 index over the passages. */
+export function createPassageIndex(passages: SourcePassage[]): PassageIndex {
+  const documents = passages.map(passage => {
+    const terms = topicTerms(passage.text);
+    const frequencies = new Map<string, number>();
+    for (const term of terms) frequencies.set(term, (frequencies.get(term) ?? 0) + 1);
+    return { passage, length: terms.length, frequencies };
+  });
+  const documentFrequency = new Map<string, number>();
+  for (const { frequencies } of documents) {
+    Array.from(frequencies.keys()).forEach(term => documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1));
+  }
+  const averageLength = documents.reduce((sum, doc) => sum + doc.length, 0) / (documents.length || 1);
+
+  return {
+    size: passages.length,
+    search(query, { limit, citationKeys }) {
+      const terms = Array.from(new Set(topicTerms(query)));
+      if (terms.length === 0) return [];
+      return documents
+        .filter(doc => !citationKeys || citationKeys.has(doc.passage.citationKey))
+        .map(doc => {
+          let score = 0;
+          for (const term of terms) {
+            const frequency = doc.frequencies.get(term);
+            if (!frequency) continue;
+            const df = documentFrequency.get(term) ?? 0;
+            const idf = Math.log(1 + (documents.length - df + 0.5) / (df + 0.5));
+            score += (idf * frequency * (K1 + 1)) / (frequency + K1 * (1 - B + (B * doc.length) / (averageLength || 1)));
+          }
+          return { passage: doc.passage, score };
+        })
+        .filter(result => result.score > 0)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit)
+        .map(result => result.passage);
+    },
+  };
+}
+
+/** Prompt context: one passage per line, labelled with its source key and page. */
+export function passagesContext(passages: SourcePassage[]): string {
+  return passages.map(passage => `- [${passage.citationKey}, p. ${passage.page}] "${passage.text}"`).join("\n");
+}
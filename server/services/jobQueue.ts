@@ -0,0 +1,214 @@
+/**
+ * Durable generation job queue backed by the `generation_jobs` table.
+ *
+ * `generation.create` only inserts a queued row; a worker loop in each server
+ * process claims rows under a lease, heartbeats while the pipeline runs, and
+ * hands abandoned leases (crashes, restarts) back to the queue.
+ */
+
+import os from "node:os";
+import { nanoid } from "nanoid";
+import * as db from "../db";
+import { generateDocument } from "./documentGeneration";
+import type { GenerationJob } from "../../drizzle/schema";
+
+const DEFAULT_CONCURRENCY = 2;
+const DEFAULT_MAX_JOBS_PER_USER = 1;
+const DEFAULT_LEASE_MS = 2 * 60 * 1000;
+const DEFAULT_HEARTBEAT_MS = 30 * 1000;
+const DEFAULT_POLL_INTERVAL_MS = 2000;
+const DEFAULT_MAX_ATTEMPTS = 3;
+
+const getNumberEnv = (key: string, fallback: number) => {
+  const raw = process.env[key];
+  if (!raw) return fallback;
+  const value = Number(raw);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+};
+
+export interface WorkerConfig {
+  concurrency: number;
+  maxJobsPerUser: number;
+  leaseMs: number;
+  heartbeatMs: number;
+  pollIntervalMs: number;
+  maxAttempts: number;
+}
+
+function resolveConfig(overrides: Partial<WorkerConfig>): WorkerConfig {
+  return {
+    concurrency: getNumberEnv("GENERATION_WORKER_CONCURRENCY", DEFAULT_CONCURRENCY),
+    maxJobsPerUser: getNumberEnv("GENERATION_MAX_JOBS_PER_USER", DEFAULT_MAX_JOBS_PER_USER),
+    leaseMs: getNumberEnv("GENERATION_LEASE_MS", DEFAULT_LEASE_MS),
+    heartbeatMs: getNumberEnv("GENERATION_HEARTBEAT_MS", DEFAULT_HEARTBEAT_MS),
+    pollIntervalMs: getNumberEnv("GENERATION_POLL_INTERVAL_MS", DEFAULT_POLL_INTERVAL_MS),
+    maxAttempts: getNumberEnv("GENERATION_MAX_ATTEMPTS", DEFAULT_MAX_ATTEMPTS),
+    ...overrides,
+  };
+}
+
+export function jobToGenerationParams(job: GenerationJob): Parameters<typeof generateDocument>[0] {
+  return {
+    jobId: job.id,
+    documentType: job.documentType,
+    title: job.title,
+    researchDomain: job.researchDomain,
+    subdomain: job.subdomain ?? undefined,
+    targetWordCount: job.targetWordCount,
+    numFigures: job.numFigures ?? undefined,
+    numTables: job.numTables ?? undefined,
+    numReferences: job.numReferences ?? undefined,
+    citationStyle: job.citationStyle,
+    targetJournal: job.targetJournal ?? undefined,
+    abstractProvided: job.abstractProvided ?? undefined,
+    keyHypotheses: job.keyHypotheses ?? undefined,
+    methodologyConstraints: job.methodologyConstraints ?? undefined,
+    authors: (job.authors ?? []).map(a => ({
+      ...a,
+      isCorresponding: a.isCorresponding || false,
+    })),
+    seedReferences: job.seedReferences ?? undefined,
+    seedReferenceMode: job.seedReferenceMode,
+  };
+}
+
+export interface GenerationWorker {
+  readonly workerId: string;
+  /** Runs a claim pass immediately instead of waiting for the next poll. */
+  wake(): void;
+  /** Stops polling, aborts in-flight jobs and puts them back on the queue for another worker. */
+  stop(): Promise<void>;
+  /** Aborts a job running in this process. Returns false if it is not running here. */
+  abort(jobId: number, reason?: string): boolean;
+}
+
+let activeWorker: GenerationWorker | null = null;
+
+export function startGenerationWorker(overrides: Partial<WorkerConfig> = {}): GenerationWorker {
+  if (activeWorker) return activeWorker;
+
+  const config = resolveConfig(overrides);
+  const workerId = `${os.hostname()}:${process.pid}:${nanoid(6)}`.slice(0, 64);
+  const running = new Map<number, { task: Promise<void>; controller: AbortController; heartbeat: ReturnType<typeof setInterval> }>();
+  let stopped = false;
+  let ticking = false;
+  let rerun = false;
+  let pollTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const schedule = (delayMs: number) => {
+    if (stopped) return;
+    if (pollTimer) clearTimeout(pollTimer);
+    pollTimer = setTimeout(() => {
+      pollTimer = null;
+      void tick();
+    }, delayMs);
+  };
+
+  const runJob = (job: GenerationJob) => {
+    const controller = new AbortController();
+    const heartbeat = setInterval(() => {
+      db.renewGenerationJobLease(job.id, workerId, config.leaseMs)
+        .then(held => {
+          if (held) return;
+          // Cancelled (possibly from another process) or reclaimed by another worker.
+          console.warn("[JobQueue] Lost lease on job", { jobId: job.id, workerId });
+          controller.abort(new Error("Lease lost"));
+        })
+        .catch(error => console.warn("[JobQueue] Heartbeat failed", { jobId: job.id, error }));
+    }, config.heartbeatMs);
+
+    const task = generateDocument(jobToGenerationParams(job), { signal: controller.signal, workerId })
+      .catch(async error => {
+        console.error("[JobQueue] Job crashed", { jobId: job.id, error });
+        await db.completeGenerationJob(job.id, {
+          status: "failed",
+          errorMessage: error instanceof Error ? error.message : String(error),
+        }, workerId).catch(err => console.error("[JobQueue] Failed to mark job failed", err));
+      })
+      .finally(() => {
+        clearInterval(heartbeat);
+        running.delete(job.id);
+        schedule(0);
+      });
+
+    running.set(job.id, { task, controller, heartbeat });
+  };
+
+  const tick = async () => {
+    if (stopped) return;
+    if (ticking) {
+      rerun = true;
+      return;
+    }
+    ticking = true;
+    rerun = false;
+    try {
+      const stale = await db.requeueStaleGenerationJobs(config.maxAttempts);
+      if (stale.requeued > 0 || stale.failed > 0) {
+        console.warn("[JobQueue] Reclaimed stale jobs", stale);
+      }
+
+      while (!stopped && running.size < config.concurrency) {
+        const job = await db.claimNextGenerationJob({
+          workerId,
+          leaseMs: config.leaseMs,
+          maxPerUser: config.maxJobsPerUser,
+        });
+        if (!job) break;
+        runJob(job);
+      }
+    } catch (error) {
+      console.error("[JobQueue] Poll failed", error);
+    } finally {
+      ticking = false;
+      schedule(rerun ? 0 : config.pollIntervalMs);
+    }
+  };
+
+  const worker: GenerationWorker = {
+    workerId,
+    wake() {
+      schedule(0);
+    },
+    async stop() {
+      stopped = true;
+      if (pollTimer) clearTimeout(pollTimer);
+      pollTimer = null;
+      if (activeWorker === worker) activeWorker = null;
+      if (running.size === 0) return;
+      for (const entry of Array.from(running.values())) {
+        clearInterval(entry.heartbeat);
+        entry.controller.abort(new Error("Worker stopped"));
+      }
+      const released = await db.releaseGenerationJobs(workerId);
+      console.log("[JobQueue] Released jobs on shutdown", { workerId, released });
+    },
+    abort(jobId, reason = "Aborted") {
+      const entry = running.get(jobId);
+      if (!entry) return false;
+      entry.controller.abort(new Error(reason));
+      return true;
+    },
+  };
+
+  activeWorker = worker;
+  console.log(`[JobQueue] Worker ${workerId} started (concurrency ${config.concurrency})`);
+  schedule(0);
+  return worker;
+}
+
+/**
+ * Nudges the local worker after a job is enqueued so it does not wait for the
+ * next poll. Workers in other processes pick the job up on their own schedule.
+ */
+export function notifyGenerationQueued(): void {
+  activeWorker?.wake();
+}
+
+/**
+ * Stops a job immediately if this process is running it. Jobs leased by other
+ * processes stop at their next heartbeat, once they see the lease is gone.
+ */
+export function abortRunningGeneration(jobId: number, reason?: string): boolean {
+  return activeWorker?.abort(jobId, reason) ?? false;
+}
@@ -0,0 +1,57 @@
+import type { SemanticScholarPaper } from "../semanticScholar";
+import { childElement, childElements, parseXml, type XmlElement } from "../csl/xml";
+import { fetchText } from "./http";
+import type { LiteratureProvider } from "./types";
+
+const ARXIV_API_BASE = "https://export.arxiv.org/api/query";
+
+const textOf = (element: XmlElement | undefined) => element?.text.replace(/\s+/g, " ").trim() ?? "";
+
+/** Reads the Atom feed returned by the arXiv query API. */
+export function parseArxivFeed(xml: string): SemanticScholarPaper[] {
+  const feed = parseXml(xml);
+  if (feed.name !== "feed") return [];
+
+  return childElements(feed, "entry").flatMap(entry => {
+    const title = textOf(childElement(entry, "title"));
+    const absUrl = textOf(childElement(entry, "id"));
+    const arxivId = absUrl.match(/arxiv\.org\/abs\/(.+?)(v\d+)?$/)?.[1];
+    if (!title || !arxivId) return [];
+
+    const year = Number(textOf(childElement(entry, "published")).slice(0, 4));
+    const doi = textOf(childElement(entry, "arxiv:doi"));
+    const journalRef = textOf(childElement(entry, "arxiv:journal_ref"));
+    const paper: SemanticScholarPaper = {
+      paperId: `arxiv:${arxivId}`,
+      title,
+      abstract: textOf(childElement(entry, "summary")) || undefined,
+      year: Number.isFinite(year) && year > 0 ? year : undefined,
+      authors: childElements(entry, "author")
+        .map(author => ({ authorId: "", name: textOf(childElement(author, "name")) }))
+        .filter(author => author.name),
+      venue: journalRef || "arXiv",
+      externalIds: { ArXiv: arxivId, DOI: doi || undefined },
+      url: `https://arxiv.org/abs/${arxivId}`,
+      openAccessPdf: { url: `https://arxiv.org/pdf/${arxivId}` },
+    };
+    return [paper];
+  });
+}
+
+export const arxivProvider: LiteratureProvider = {
+  name: "arxiv",
+  async search(query, { limit, signal }) {
+    const terms = query.split(/\s+/).filter(Boolean).map(term => `all:${term.replace(/[():"]/g, "")}`);
+    const params = new URLSearchParams({
+      search_query: terms.join(" AND "),
+      start: "0",
+      max_results: String(Math.min(Math.max(limit, 1), 100)),
+      sortBy: "relevance",
+    });
+    const xml = await fetchText("arXiv", `${ARXIV_API_BASE}?${params.toString()}`, {
+      signal,
+      accept: "application/atom+xml",
+    });
+    return parseArxivFeed(xml);
+  },
+};
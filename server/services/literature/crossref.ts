@@ -0,0 +1,75 @@
+import type { SemanticScholarPaper } from "../semanticScholar";
+import { contactEmail, fetchJson } from "./http";
+import type { LiteratureProvider } from "./types";
+
+export const CROSSREF_API_BASE = "https://api.crossref.org";
+
+export interface CrossrefWork {
+  DOI: string;
+  type?: string;
+  title?: string[];
+  author?: Array<{ given?: string; family?: string; name?: string; ORCID?: string }>;
+  "container-title"?: string[];
+  issued?: { "date-parts"?: Array<Array<number | null>> };
+  volume?: string;
+  issue?: string;
+  page?: string;
+  "is-referenced-by-count"?: number;
+  abstract?: string;
+  URL?: string;
+  /** Notices (retractions, corrections) that amend this work. */
+  "updated-by"?: Array<{ type?: string; DOI?: string }>;
+  /** Set on a notice: the works it amends. */
+  "update-to"?: Array<{ type?: string; DOI?: string }>;
+}
+
+/** Crossref abstracts are JATS XML fragments. */
+const stripJats = (value: string) =>
+  value
+    .replace(/<jats:title>[^<]*<\/jats:title>/g, "")
+    .replace(/<[^>]+>/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+
+export function crossrefWorkToPaper(work: CrossrefWork): SemanticScholarPaper | null {
+  const title = work.title?.[0]?.trim();
+  if (!work.DOI || !title) return null;
+  const year = work.issued?.["date-parts"]?.[0]?.[0];
+  return {
+    paperId: `crossref:${work.DOI.toLowerCase()}`,
+    title,
+    abstract: work.abstract ? stripJats(work.abstract) || undefined : undefined,
+    year: typeof year === "number" ? year : undefined,
+    authors: (work.author ?? [])
+      .map(author => ({
+        authorId: author.ORCID ?? "",
+        name: author.name ?? [author.given, author.family].filter(Boolean).join(" "),
+      }))
+      .filter(author => author.name),
+    venue: work["container-title"]?.[0],
+    citationCount: work["is-referenced-by-count"],
+    externalIds: { DOI: work.DOI },
+    url: work.URL ?? `https://doi.org/${work.DOI}`,
+  };
+}
+
+export const crossrefProvider: LiteratureProvider = {
+  name: "crossref",
+  async search(query, { limit, signal }) {
+    const params = new URLSearchParams({
+      "query.bibliographic": query,
+      rows: String(Math.min(Math.max(limit, 1), 100)),
+      filter: "type:journal-article,type:proceedings-article,type:book-chapter,type:posted-content",
+      select: "DOI,title,author,container-title,issued,is-referenced-by-count,abstract,URL",
+    });
+    const mailto = contactEmail();
+    if (mailto) params.set("mailto", mailto);
+
+    const data = await fetchJson<{ message?: { items?: CrossrefWork[] } }>(
+      "Crossref",
+      `${CROSSREF_API_BASE}/works?${params.toString()}`,
+      { signal }
+    );
+    return (data.message?.items ?? []).map(crossrefWorkToPaper).filter((paper): paper is SemanticScholarPaper => paper !== null);
+  },
+};
@@ -0,0 +1,62 @@
+/**
+ * Shared HTTP plumbing for the open scholarly APIs used as fallback literature sources.
+ */
+
+import { HttpError } from "@shared/_core/errors";
+
+const DEFAULT_TIMEOUT_MS = 20_000;
+
+const getNumberEnv = (key: string, fallback: number) => {
+  const raw = process.env[key];
+  if (!raw) return fallback;
+  const value = Number(raw);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+/** Address sent to OpenAlex, Crossref and NCBI so requests land in their "polite" pools. */
+export const contactEmail = () => process.env.LITERATURE_CONTACT_EMAIL?.trim() || undefined;
+
+/**
+ * GET `url` with a per-request timeout; the caller's signal still cancels immediately.
+ * Non-2xx responses throw an HttpError naming the source, so chain logs say which API failed.
+ */
+export async function fetchText(
+  source: string,
+  url: string,
+  options: { signal?: AbortSignal; accept?: string } = {}
+): Promise<string> {
+  const timeoutMs = getNumberEnv("LITERATURE_REQUEST_TIMEOUT_MS", DEFAULT_TIMEOUT_MS);
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), timeoutMs);
+  const signal = options.signal ? AbortSignal.any([controller.signal, options.signal]) : controller.signal;
+
+  try {
+    const response = await fetch(url, {
+      headers: {
+        accept: options.accept ?? "application/json",
+        "user-agent": `scholarforge-ai${contactEmail() ? ` (mailto:${contactEmail()})` : ""}`,
+      },
+      signal,
+    });
+    if (!response.ok) {
+      const body = await response.text().catch(() => "");
+      const suffix = body ? ` - ${body.slice(0, 300)}` : "";
+      throw new HttpError(response.status, `${source} API error: ${response.status} ${response.statusText}${suffix}`);
+    }
+    return await response.text();
+  } catch (error) {
+    options.signal?.throwIfAborted();
+    if (controller.signal.aborted) throw new Error(`${source} API error: timed out after ${timeoutMs}ms`);
+    throw error;
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+export async function fetchJson<T>(
+  source: string,
+  url: string,
+  options: { signal?: AbortSignal } = {}
+): Promise<T> {
+  return JSON.parse(await fetchText(source, url, options)) as T;
+}
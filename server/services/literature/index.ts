@@ -0,0 +1,149 @@
+/**
+ * Literature search across an ordered chain of sources. Semantic Scholar is
+ * asked first; when it fails or comes up short the remaining providers
+ * (OpenAlex, Crossref, arXiv, PubMed, or an offline corpus) top up the
+ * results. Set LITERATURE_PROVIDERS to a comma-separated list to change the order.
+ */
+
+import type { SemanticScholarPaper } from "../semanticScholar";
+import { referenceKeys } from "../bibliographyImport";
+import { arxivProvider } from "./arxiv";
+import { crossrefProvider } from "./crossref";
+import { localCorpusProvider } from "./localCorpus";
+import { openAlexProvider } from "./openAlex";
+import { pubMedProvider } from "./pubmed";
+import { rankByRelevance, type RankedCandidate, type RelevanceTopic } from "./relevance";
+import { semanticScholarProvider } from "./semanticScholar";
+import type { LiteratureProvider } from "./types";
+
+export type { LiteratureProvider } from "./types";
+export { createLocalCorpusProvider } from "./localCorpus";
+export {
+  graphPaperId,
+  snowballLiterature,
+  type CitationGraphEdge,
+  type CitationGraphSource,
+  type SnowballCandidate,
+} from "./snowball";
+export { rankByRelevance, relevanceScore, type RankedCandidate, type RelevanceTopic } from "./relevance";
+
+export const DEFAULT_LITERATURE_PROVIDERS = ["semanticScholar", "openAlex", "crossref", "arxiv", "pubmed"];
+
+const registry = new Map<string, LiteratureProvider>();
+
+/** Makes a provider selectable by name in LITERATURE_PROVIDERS; replaces any provider of the same name. */
+export function registerLiteratureProvider(provider: LiteratureProvider): void {
+  registry.set(provider.name.toLowerCase(), provider);
+}
+
+[semanticScholarProvider, openAlexProvider, crossrefProvider, arxivProvider, pubMedProvider, localCorpusProvider].forEach(
+  registerLiteratureProvider
+);
+
+/** Providers in the configured order; unknown names are logged and skipped. */
+export function getLiteratureProviders(): LiteratureProvider[] {
+  const configured = process.env.LITERATURE_PROVIDERS?.split(",").map(name => name.trim()).filter(Boolean);
+  const names = configured?.length ? configured : DEFAULT_LITERATURE_PROVIDERS;
+  return names.flatMap(name => {
+    const provider = registry.get(name.toLowerCase());
+    if (!provider) console.warn(`[Literature] Unknown provider "${name}" in LITERATURE_PROVIDERS; skipping`);
+    return provider ? [provider] : [];
+  });
+}
+
+export interface LiteratureSearchResult {
+  papers: SemanticScholarPaper[];
+  /** How each provider that was tried fared, in chain order. */
+  attempts: Array<{ provider: string; found: number; error?: string }>;
+}
+
+/**
+ * Collects up to `count` distinct papers, moving down the provider chain until
+ * enough are found. Papers are distinct by DOI and normalized title; `exclude`
+ * holds keys (see `referenceKeys`) of papers the caller already has.
+ * Provider failures are recorded and skipped; only an abort is rethrown.
+ */
+export async function searchLiterature(
+  query: string,
+  count: number,
+  options: { signal?: AbortSignal; exclude?: Iterable<string>; providers?: LiteratureProvider[] } = {}
+): Promise<LiteratureSearchResult> {
+  const seen = new Set(options.exclude ?? []);
+  const papers: SemanticScholarPaper[] = [];
+  const attempts: LiteratureSearchResult["attempts"] = [];
+
+  for (const provider of options.providers ?? getLiteratureProviders()) {
+    if (papers.length >= count) break;
+    try {
+      const results = await provider.search(query, { limit: count - papers.length, signal: options.signal });
+      let found = 0;
+      for (const paper of results) {
+        if (papers.length >= count) break;
+        if (!paper?.paperId || !paper.title?.trim() || isPlaceholderPaper(paper)) continue;
+        const keys = [`id:${paper.paperId}`, ...referenceKeys({ doi: paper.externalIds?.DOI, title: paper.title })];
+        if (keys.some(key => seen.has(key))) continue;
+        keys.forEach(key => seen.add(key));
+        papers.push(paper);
+        found++;
+      }
+      attempts.push({ provider: provider.name, found });
+    } catch (error) {
+      options.signal?.throwIfAborted();
+      console.warn(`[Literature] ${provider.name} search failed; trying the next provider`, error);
+      attempts.push({ provider: provider.name, found: 0, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  return { papers, attempts };
+}
+
+export interface MultiQuerySearchResult {
+  /** Best `count` papers across all queries, most relevant first. */
+  papers: RankedCandidate[];
+  /** The provider chain's attempts for each query, in the order the queries ran. */
+  queries: Array<{ query: string; found: number; attempts: LiteratureSearchResult["attempts"] }>;
+}
+
+/**
+ * Runs each query through the provider chain, merges the results (a paper found
+ * by several queries keeps all of them) and keeps the `count` papers most
+ * relevant to `topic`. Each query over-fetches so ranking has candidates to drop.
+ * Queries run one after another to stay inside the providers' rate limits.
+ */
+export async function searchLiteratureQueries(
+  queries: string[],
+  count: number,
+  topic: RelevanceTopic,
+  options: { signal?: AbortSignal; exclude?: Iterable<string>; providers?: LiteratureProvider[] } = {}
+): Promise<MultiQuerySearchResult> {
+  const exclude = Array.from(options.exclude ?? []);
+  const perQuery = Math.max(5, Math.ceil((count * 2) / Math.max(queries.length, 1)));
+  const byKey = new Map<string, Omit<RankedCandidate, "relevance">>();
+  const candidates: Array<Omit<RankedCandidate, "relevance">> = [];
+  const log: MultiQuerySearchResult["queries"] = [];
+
+  for (const query of queries) {
+    if (count <= 0) break;
+    const { papers, attempts } = await searchLiterature(query, perQuery, { ...options, exclude });
+    for (const paper of papers) {
+      const keys = [`id:${paper.paperId}`, ...referenceKeys({ doi: paper.externalIds?.DOI, title: paper.title })];
+      const existing = keys.map(key => byKey.get(key)).find(Boolean);
+      if (existing) {
+        if (!existing.queries.includes(query)) existing.queries.push(query);
+        keys.forEach(key => byKey.set(key, existing));
+        continue;
+      }
+      const candidate = { paper, queries: [query] };
+      keys.forEach(key => byKey.set(key, candidate));
+      candidates.push(candidate);
+    }
+    log.push({ query, found: papers.length, attempts });
+  }
+
+  return { papers: rankByRelevance(candidates, topic).slice(0, Math.max(count, 0)), queries: log };
+}
+
+/** Stand-in records older pipeline versions padded the reference list with; they must never be persisted. */
+export function isPlaceholderPaper(paper: Pick<SemanticScholarPaper, "paperId" | "authors">): boolean {
+  return paper.paperId.startsWith("placeholder_") || paper.authors.some(author => author.authorId === "placeholder");
+}
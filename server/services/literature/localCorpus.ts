@@ -0,0 +1,56 @@
+import { readFile } from "node:fs/promises";
+import type { SemanticScholarPaper } from "../semanticScholar";
+import { cslItemToPaper, parseBibliography } from "../bibliographyImport";
+import type { LiteratureProvider } from "./types";
+
+const tokenize = (value: string) => value.toLowerCase().split(/[^a-z0-9]+/).filter(token => token.length > 2);
+
+/**
+ * Offline source that ranks a fixed set of papers by how many query terms
+ * appear in their title, abstract and venue. Papers matching no term are never returned.
+ */
+export function createLocalCorpusProvider(
+  papers: SemanticScholarPaper[] | (() => Promise<SemanticScholarPaper[]>)
+): LiteratureProvider {
+  return {
+    name: "local",
+    async search(query, { limit }) {
+      const corpus = typeof papers === "function" ? await papers() : papers;
+      const terms = Array.from(new Set(tokenize(query)));
+      return corpus
+        .map((paper, index) => {
+          const haystack = new Set(tokenize(`${paper.title} ${paper.abstract ?? ""} ${paper.venue ?? ""}`));
+          return { paper, index, score: terms.filter(term => haystack.has(term)).length };
+        })
+        .filter(entry => entry.score > 0)
+        .sort((a, b) => b.score - a.score || (b.paper.citationCount ?? 0) - (a.paper.citationCount ?? 0) || a.index - b.index)
+        .slice(0, limit)
+        .map(entry => entry.paper);
+    },
+  };
+}
+
+let corpusFile: { path: string; papers: Promise<SemanticScholarPaper[]> } | null = null;
+
+/** Reads the BibTeX/RIS/CSL-JSON file named by LITERATURE_LOCAL_CORPUS, once per path. */
+async function loadCorpusFile(): Promise<SemanticScholarPaper[]> {
+  const path = process.env.LITERATURE_LOCAL_CORPUS?.trim();
+  if (!path) throw new Error("LITERATURE_LOCAL_CORPUS not configured");
+  if (corpusFile?.path !== path) {
+    const papers = readFile(path, "utf8").then(content => {
+      const parsed = parseBibliography(content, path);
+      if (parsed.items.length === 0) {
+        throw new Error(`Local literature corpus ${path} has no usable entries: ${parsed.warnings[0] ?? "empty file"}`);
+      }
+      return parsed.items.map(item => ({ ...cslItemToPaper(item), paperId: `local:${item.id}` }));
+    });
+    // A failed read is retried on the next search rather than cached.
+    papers.catch(() => {
+      if (corpusFile?.papers === papers) corpusFile = null;
+    });
+    corpusFile = { path, papers };
+  }
+  return corpusFile.papers;
+}
+
+export const localCorpusProvider = createLocalCorpusProvider(loadCorpusFile);
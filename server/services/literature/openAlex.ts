@@ -0,0 +1,74 @@
+import type { SemanticScholarPaper } from "../semanticScholar";
+import { contactEmail, fetchJson } from "./http";
+import type { LiteratureProvider } from "./types";
+
+const OPENALEX_API_BASE = "https://api.openalex.org";
+
+interface OpenAlexWork {
+  id: string;
+  doi?: string | null;
+  display_name?: string | null;
+  publication_year?: number | null;
+  authorships?: Array<{ author?: { id?: string | null; display_name?: string | null } }>;
+  primary_location?: { source?: { display_name?: string | null } | null; landing_page_url?: string | null } | null;
+  cited_by_count?: number;
+  abstract_inverted_index?: Record<string, number[]> | null;
+  ids?: { pmid?: string | null };
+  best_oa_location?: { pdf_url?: string | null } | null;
+}
+
+/** OpenAlex ships abstracts as word -> positions; rebuild the running text. */
+function rebuildAbstract(index: Record<string, number[]> | null | undefined): string | undefined {
+  if (!index) return undefined;
+  const words: string[] = [];
+  for (const [word, positions] of Object.entries(index)) {
+    for (const position of positions) words[position] = word;
+  }
+  const text = words.filter(Boolean).join(" ").trim();
+  return text || undefined;
+}
+
+const shortId = (url: string) => url.slice(url.lastIndexOf("/") + 1);
+
+export function openAlexWorkToPaper(work: OpenAlexWork): SemanticScholarPaper | null {
+  if (!work.id || !work.display_name) return null;
+  const doi = work.doi?.replace(/^https?:\/\/(dx\.)?doi\.org\//i, "") || undefined;
+  const pmid = work.ids?.pmid ? shortId(work.ids.pmid) : undefined;
+  return {
+    paperId: `openalex:${shortId(work.id)}`,
+    title: work.display_name,
+    abstract: rebuildAbstract(work.abstract_inverted_index),
+    year: work.publication_year ?? undefined,
+    authors: (work.authorships ?? [])
+      .filter(authorship => authorship.author?.display_name)
+      .map(authorship => ({
+        authorId: authorship.author?.id ? `openalex:${shortId(authorship.author.id)}` : "",
+        name: authorship.author!.display_name!,
+      })),
+    venue: work.primary_location?.source?.display_name ?? undefined,
+    citationCount: work.cited_by_count,
+    externalIds: doi || pmid ? { DOI: doi, PubMed: pmid } : undefined,
+    url: work.primary_location?.landing_page_url ?? work.id,
+    openAccessPdf: work.best_oa_location?.pdf_url ? { url: work.best_oa_location.pdf_url } : undefined,
+  };
+}
+
+export const openAlexProvider: LiteratureProvider = {
+  name: "openAlex",
+  async search(query, { limit, signal }) {
+    const params = new URLSearchParams({
+      search: query,
+      "per-page": String(Math.min(Math.max(limit, 1), 200)),
+      sort: "relevance_score:desc",
+    });
+    const mailto = contactEmail();
+    if (mailto) params.set("mailto", mailto);
+
+    const data = await fetchJson<{ results?: OpenAlexWork[] }>(
+      "OpenAlex",
+      `${OPENALEX_API_BASE}/works?${params.toString()}`,
+      { signal }
+    );
+    return (data.results ?? []).map(openAlexWorkToPaper).filter((paper): paper is SemanticScholarPaper => paper !== null);
+  },
+};
@@ -0,0 +1,64 @@
+import type { SemanticScholarPaper } from "../semanticScholar";
+import { contactEmail, fetchJson } from "./http";
+import type { LiteratureProvider } from "./types";
+
+const EUTILS_API_BASE = "https://eutils.ncbi.nlm.nih.gov/entrez/eutils";
+
+interface PubMedSummary {
+  uid: string;
+  title?: string;
+  authors?: Array<{ name?: string; authtype?: string }>;
+  fulljournalname?: string;
+  source?: string;
+  pubdate?: string;
+  articleids?: Array<{ idtype?: string; value?: string }>;
+}
+
+export function pubMedSummaryToPaper(summary: PubMedSummary | undefined): SemanticScholarPaper | null {
+  const title = summary?.title?.replace(/\.$/, "").trim();
+  if (!summary?.uid || !title) return null;
+  const year = Number(summary.pubdate?.slice(0, 4));
+  const doi = summary.articleids?.find(id => id.idtype === "doi")?.value;
+  return {
+    paperId: `pubmed:${summary.uid}`,
+    title,
+    year: Number.isFinite(year) && year > 0 ? year : undefined,
+    authors: (summary.authors ?? [])
+      .filter(author => author.name && (author.authtype ?? "Author") === "Author")
+      .map(author => ({ authorId: "", name: author.name! })),
+    venue: summary.fulljournalname || summary.source,
+    externalIds: { PubMed: summary.uid, DOI: doi },
+    url: `https://pubmed.ncbi.nlm.nih.gov/${summary.uid}/`,
+  };
+}
+
+function eutilsParams(extra: Record<string, string>): string {
+  const params = new URLSearchParams({ db: "pubmed", retmode: "json", tool: "scholarforge-ai", ...extra });
+  const email = contactEmail();
+  if (email) params.set("email", email);
+  if (process.env.NCBI_API_KEY) params.set("api_key", process.env.NCBI_API_KEY);
+  return params.toString();
+}
+
+export const pubMedProvider: LiteratureProvider = {
+  name: "pubmed",
+  async search(query, { limit, signal }) {
+    const search = await fetchJson<{ esearchresult?: { idlist?: string[] } }>(
+      "PubMed",
+      `${EUTILS_API_BASE}/esearch.fcgi?${eutilsParams({ term: query, retmax: String(Math.min(Math.max(limit, 1), 100)), sort: "relevance" })}`,
+      { signal }
+    );
+    const ids = search.esearchresult?.idlist ?? [];
+    if (ids.length === 0) return [];
+
+    const summaries = await fetchJson<{ result?: Record<string, unknown> & { uids?: string[] } }>(
+      "PubMed",
+      `${EUTILS_API_BASE}/esummary.fcgi?${eutilsParams({ id: ids.join(",") })}`,
+      { signal }
+    );
+    const result = summaries.result ?? {};
+    return (result.uids ?? ids)
+      .map(uid => pubMedSummaryToPaper(result[uid] as PubMedSummary | undefined))
+      .filter((paper): paper is SemanticScholarPaper => paper !== null);
+  },
+};
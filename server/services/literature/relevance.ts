@@ -0,0 +1,77 @@
+import type { SemanticScholarPaper } from "../semanticScholar";
+
+// Words too common in titles and abstracts to say anything about the topic.
+const STOPWORDS = new Set(
+  (
+    "the and for with from into onto over under about between among using based via its their this that these those " +
+    "are was were been being has have had not but can may might will would should could our your new study studies " +
+    "analysis approach approaches method methods paper papers research results result toward towards effect effects " +
+    "role use case review evidence"
+  ).split(" ")
+);
+
+export const topicTerms = (value: string) =>
+  value
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length > 2 && !STOPWORDS.has(token));
+
+/** What the document is about; every field that is set contributes terms. */
+export interface RelevanceTopic {
+  title: string;
+  domain?: string;
+  subdomain?: string;
+  abstract?: string;
+  hypotheses?: string[];
+}
+
+/**
+ * Share of the topic's distinct terms that appear in the paper, with title hits
+ * counting double. Terms from the document title, domain and subdomain weigh more
+ * than terms that only occur in the abstract or hypotheses.
+ */
+export function relevanceScore(paper: Pick<SemanticScholarPaper, "title" | "abstract">, topic: RelevanceTopic): number {
+  const core = new Set(topicTerms([topic.title, topic.domain, topic.subdomain].filter(Boolean).join(" ")));
+  const extra = new Set(topicTerms([topic.abstract, ...(topic.hypotheses ?? [])].filter(Boolean).join(" ")));
+  const titleTerms = new Set(topicTerms(paper.title));
+  const abstractTerms = new Set(topicTerms(paper.abstract ?? ""));
+
+  let score = 0;
+  let max = 0;
+  const weigh = (terms: Set<string>, weight: number) => {
+    Array.from(terms).forEach(term => {
+      max += 2 * weight;
+      if (titleTerms.has(term)) score += 2 * weight;
+      else if (abstractTerms.has(term)) score += weight;
+    });
+  };
+  weigh(core, 2);
+  weigh(new Set(Array.from(extra).filter(term => !core.has(term))), 1);
+  return max > 0 ? score / max : 0;
+}
+
+export interface RankedCandidate {
+  paper: SemanticScholarPaper;
+  /** Search queries that returned this paper, in the order they were run. */
+  queries: string[];
+  relevance: number;
+}
+
+/**
+ * Orders candidates by topic relevance, nudged up for each additional query that
+ * found the paper; citation count only breaks near-ties.
+ */
+export function rankByRelevance(
+  candidates: Array<Omit<RankedCandidate, "relevance">>,
+  topic: RelevanceTopic
+): RankedCandidate[] {
+  const rank = (candidate: RankedCandidate) =>
+    candidate.relevance +
+    0.05 * (candidate.queries.length - 1) +
+    0.01 * Math.log10(1 + (candidate.paper.citationCount ?? 0));
+
+  return candidates
+    .map((candidate, index) => ({ ...candidate, relevance: relevanceScore(candidate.paper, topic), index }))
+    .sort((a, b) => rank(b) - rank(a) || a.index - b.index)
+    .map(({ index: _index, ...candidate }) => candidate);
+}
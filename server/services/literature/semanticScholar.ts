@@ -0,0 +1,11 @@
+import { extractKeyPapers } from "../semanticScholar";
+import type { LiteratureProvider } from "./types";
+
+/** Primary source: foundational, recent and high-impact papers from Semantic Scholar. */
+export const semanticScholarProvider: LiteratureProvider = {
+  name: "semanticScholar",
+  async search(query, { limit, signal }) {
+    const keyPapers = await extractKeyPapers(query, limit, { signal });
+    return [...keyPapers.foundational, ...keyPapers.recent, ...keyPapers.highImpact];
+  },
+};
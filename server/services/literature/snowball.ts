@@ -0,0 +1,161 @@
+/**
+ * Citation-graph snowballing: starting from the best papers found so far, follow
+ * their references (backward) and the papers citing them (forward) to reach
+ * seminal and follow-up work that keyword search misses. The edges walked form
+ * the job's local citation graph.
+ */
+
+import { referenceKeys } from "../bibliographyImport";
+import { getPaperCitations, getPaperReferences, type SemanticScholarPaper } from "../semanticScholar";
+
+const DEFAULT_DEPTH = 1;
+const DEFAULT_BREADTH = 10;
+const DEFAULT_SEEDS = 5;
+
+const getNumberEnv = (key: string, fallback: number) => {
+  const raw = process.env[key];
+  if (!raw) return fallback;
+  const value = Number(raw);
+  return Number.isFinite(value) && value >= 0 ? Math.floor(value) : fallback;
+};
+
+/** Where references and citing papers come from; Semantic Scholar unless a test swaps it. */
+export interface CitationGraphSource {
+  references(paperId: string, limit: number, options: { signal?: AbortSignal }): Promise<SemanticScholarPaper[]>;
+  citations(paperId: string, limit: number, options: { signal?: AbortSignal }): Promise<SemanticScholarPaper[]>;
+}
+
+export const semanticScholarGraph: CitationGraphSource = {
+  references: (paperId, limit, options) => getPaperReferences(paperId, limit, options),
+  citations: (paperId, limit, options) => getPaperCitations(paperId, limit, options),
+};
+
+/** `citing` cites `cited`; both are paper IDs as the pipeline holds them. */
+export interface CitationGraphEdge {
+  citing: string;
+  cited: string;
+}
+
+export interface SnowballCandidate {
+  paper: SemanticScholarPaper;
+  /** How the paper was reached, e.g. `cited by "Seed Title"`; one entry per link. */
+  via: string[];
+  /** 1 for papers linked to a seed, 2 for papers linked to those, and so on. */
+  depth: number;
+}
+
+export interface SnowballResult {
+  /** Newly reached papers, most linked first. */
+  papers: SnowballCandidate[];
+  edges: CitationGraphEdge[];
+}
+
+/**
+ * ID Semantic Scholar can resolve: its own paper IDs as-is, otherwise a DOI,
+ * arXiv or PubMed ID. Papers with none of these cannot be expanded.
+ */
+export function graphPaperId(paper: SemanticScholarPaper): string | null {
+  if (!paper.paperId.includes(":")) return paper.paperId;
+  if (paper.externalIds?.DOI) return `DOI:${paper.externalIds.DOI}`;
+  if (paper.externalIds?.ArXiv) return `ARXIV:${paper.externalIds.ArXiv}`;
+  if (paper.externalIds?.PubMed) return `PMID:${paper.externalIds.PubMed}`;
+  return null;
+}
+
+const paperKeys = (paper: SemanticScholarPaper) => [
+  `id:${paper.paperId}`,
+  ...referenceKeys({ doi: paper.externalIds?.DOI, title: paper.title }),
+];
+
+const label = (title: string) => (title.length > 80 ? `${title.slice(0, 77)}...` : title);
+
+/**
+ * Expands `seeds` for LITERATURE_SNOWBALL_DEPTH rounds (0 turns snowballing
+ * off). Each round follows the references and citations of up to
+ * LITERATURE_SNOWBALL_SEEDS papers, at most LITERATURE_SNOWBALL_BREADTH per
+ * direction; later rounds expand the most linked papers of the previous one.
+ * Seeds and `exclude` (keys from `referenceKeys`) are never returned, but links
+ * to them still count. Lookup failures are logged and skipped; only an abort is rethrown.
+ */
+export async function snowballLiterature(
+  seeds: SemanticScholarPaper[],
+  options: {
+    signal?: AbortSignal;
+    exclude?: Iterable<string>;
+    depth?: number;
+    breadth?: number;
+    seedCount?: number;
+    source?: CitationGraphSource;
+  } = {}
+): Promise<SnowballResult> {
+  const depth = options.depth ?? getNumberEnv("LITERATURE_SNOWBALL_DEPTH", DEFAULT_DEPTH);
+  const breadth = options.breadth ?? getNumberEnv("LITERATURE_SNOWBALL_BREADTH", DEFAULT_BREADTH);
+  const seedCount = options.seedCount ?? getNumberEnv("LITERATURE_SNOWBALL_SEEDS", DEFAULT_SEEDS);
+  const source = options.source ?? semanticScholarGraph;
+
+  const excluded = new Set(options.exclude ?? []);
+  const known = new Map<string, SemanticScholarPaper>();
+  seeds.forEach(seed => paperKeys(seed).forEach(key => known.set(key, seed)));
+  const found = new Map<string, SnowballCandidate>();
+  const candidates: SnowballCandidate[] = [];
+  const edges: CitationGraphEdge[] = [];
+  const edgeKeys = new Set<string>();
+
+  const link = (from: SemanticScholarPaper, to: SemanticScholarPaper, backward: boolean, round: number) => {
+    if (!to.paperId || !to.title?.trim()) return [];
+    const keys = paperKeys(to);
+    const existing = keys.map(key => known.get(key)).find(Boolean);
+    const paper = existing ?? to;
+    const edge = backward ? { citing: from.paperId, cited: paper.paperId } : { citing: paper.paperId, cited: from.paperId };
+    const edgeKey = `${edge.citing}>${edge.cited}`;
+    if (edge.citing === edge.cited || edgeKeys.has(edgeKey)) return [];
+    edgeKeys.add(edgeKey);
+    edges.push(edge);
+
+    if (!existing) keys.forEach(key => known.set(key, paper));
+    if (keys.some(key => excluded.has(key)) || seeds.includes(paper)) return [];
+    const via = `${backward ? "cited by" : "cites"} "${label(from.title)}"`;
+    const candidate = found.get(paper.paperId);
+    if (candidate) {
+      candidate.via.push(via);
+      return [];
+    }
+    const added = { paper, via: [via], depth: round };
+    found.set(paper.paperId, added);
+    candidates.push(added);
+    return [added];
+  };
+
+  let frontier = seeds.slice(0, seedCount);
+  for (let round = 1; round <= depth && frontier.length > 0 && breadth > 0; round++) {
+    const reached: SnowballCandidate[] = [];
+    for (const paper of frontier) {
+      const id = graphPaperId(paper);
+      if (!id) continue;
+      for (const backward of [true, false]) {
+        try {
+          const linked = backward
+            ? await source.references(id, breadth, { signal: options.signal })
+            : await source.citations(id, breadth, { signal: options.signal });
+          linked.forEach(other => reached.push(...link(paper, other, backward, round)));
+        } catch (error) {
+          options.signal?.throwIfAborted();
+          console.warn(`[Literature] Snowballing ${backward ? "references" : "citations"} of ${id} failed`, error);
+        }
+      }
+    }
+    frontier = reached
+      .slice()
+      .sort((a, b) => b.via.length - a.via.length)
+      .slice(0, seedCount)
+      .map(candidate => candidate.paper);
+  }
+
+  return {
+    papers: candidates
+      .map((candidate, index) => ({ candidate, index }))
+      .sort((a, b) => b.candidate.via.length - a.candidate.via.length || a.index - b.index)
+      .map(({ candidate }) => candidate),
+    edges,
+  };
+}
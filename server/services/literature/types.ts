@@ -0,0 +1,14 @@
+import type { SemanticScholarPaper } from "../semanticScholar";
+
+/**
+ * One literature source. Results use the Semantic Scholar paper shape so the
+ * pipeline, prompts and citation formatting treat every source alike; `paperId`
+ * is prefixed with the source name (e.g. "openalex:W2741809807").
+ */
+export interface LiteratureProvider {
+  name: string;
+  search(
+    query: string,
+    options: { limit: number; signal?: AbortSignal }
+  ): Promise<SemanticScholarPaper[]>;
+}
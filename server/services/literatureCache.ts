@@ -0,0 +1,135 @@
+/**
+ * Persistent literature cache shared by every job and worker: Semantic Scholar
+ * responses are stored in `literature_cache` by request URL and served from
+ * there. Each paper they contain is also recorded in `literature_papers` by
+ * paperId and DOI, merged across responses; lookups go through the response
+ * cache, not that record. It sits behind the in-process response cache, so a
+ * restart or a similar job does not re-hit the rate-limited API. Without
+ * DATABASE_URL, or with LITERATURE_CACHE_TTL_MS=0, it is skipped.
+ */
+
+import { createHash } from "node:crypto";
+import * as db from "../db";
+import type { SemanticScholarPaper } from "./semanticScholar";
+
+const DEFAULT_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+const getNumberEnv = (key: string, fallback: number) => {
+  const raw = process.env[key];
+  if (!raw) return fallback;
+  const value = Number(raw);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+};
+
+const ttlMs = () => getNumberEnv("LITERATURE_CACHE_TTL_MS", DEFAULT_TTL_MS);
+
+const isEnabled = () => Boolean(process.env.DATABASE_URL) && ttlMs() > 0;
+
+/** Lookups served by this process since it started; the table totals cover every process. */
+const counters = { memoryHits: 0, storeHits: 0, misses: 0 };
+
+const cacheKeyFor = (url: string) => createHash("sha256").update(url).digest("hex");
+
+export function recordMemoryHit(): void {
+  counters.memoryHits++;
+}
+
+/** A stored response for `url` that has not expired, or null. */
+export async function readCachedResponse<T>(url: string): Promise<T | null> {
+  if (!isEnabled()) {
+    counters.misses++;
+    return null;
+  }
+  try {
+    const entry = await db.getLiteratureCacheEntry(cacheKeyFor(url));
+    if (!entry || entry.expiresAt.getTime() <= Date.now()) {
+      counters.misses++;
+      return null;
+    }
+    counters.storeHits++;
+    db.recordLiteratureCacheHit(entry.id).catch(error => {
+      console.warn("[LiteratureCache] Failed to record hit", error);
+    });
+    return entry.response as T;
+  } catch (error) {
+    counters.misses++;
+    console.warn("[LiteratureCache] Read failed; fetching from the API", error);
+    return null;
+  }
+}
+
+/** Papers anywhere in a response: search results, lookups, recommendations and graph edges. */
+function collectPapers(value: unknown, found: Map<string, SemanticScholarPaper>, depth = 0): void {
+  if (!value || typeof value !== "object" || depth > 3) return;
+  if (Array.isArray(value)) {
+    value.forEach(item => collectPapers(item, found, depth + 1));
+    return;
+  }
+  const record = value as Record<string, unknown>;
+  if (typeof record.paperId === "string" && record.paperId && typeof record.title === "string") {
+    found.set(record.paperId, record as unknown as SemanticScholarPaper);
+    return;
+  }
+  Object.values(record).forEach(child => collectPapers(child, found, depth + 1));
+}
+
+/**
+ * The fields a response actually returned. Responses ask for different fields
+ * (recommendations carry no `url` or `openAccessPdf`), so stored papers only
+ * take the ones each response filled in.
+ */
+const filledFields = (paper: SemanticScholarPaper) =>
+  Object.fromEntries(Object.entries(paper).filter(([, value]) => value !== null && value !== undefined));
+
+/** Stores a fresh API response and the papers in it. Failures are logged, never thrown. */
+export async function writeCachedResponse(url: string, response: unknown): Promise<void> {
+  if (!isEnabled()) return;
+  try {
+    await db.saveLiteratureCacheEntry({
+      cacheKey: cacheKeyFor(url),
+      url,
+      response,
+      expiresAt: new Date(Date.now() + ttlMs()),
+    });
+    const papers = new Map<string, SemanticScholarPaper>();
+    collectPapers(response, papers);
+    await db.upsertLiteraturePapers(
+      Array.from(papers.values()).map(paper => ({
+        paperId: paper.paperId.slice(0, 100),
+        doi: paper.externalIds?.DOI ? paper.externalIds.DOI.toLowerCase().slice(0, 255) : null,
+        paper: filledFields(paper),
+      }))
+    );
+  } catch (error) {
+    console.warn("[LiteratureCache] Write failed", error);
+  }
+}
+
+export interface LiteratureCacheStats {
+  enabled: boolean;
+  ttlMs: number;
+  /** Stored responses, and those not yet expired. */
+  entries: number;
+  liveEntries: number;
+  papers: number;
+  /** Requests answered from the table vs. fetched from the API, across all processes. */
+  hits: number;
+  fetches: number;
+  hitRate: number;
+  /** This process only, including in-memory hits that never reach the table. */
+  process: typeof counters & { hitRate: number };
+}
+
+export async function getLiteratureCacheStats(): Promise<LiteratureCacheStats> {
+  const totals = isEnabled()
+    ? await db.getLiteratureCacheTotals()
+    : { entries: 0, liveEntries: 0, papers: 0, hits: 0, fetches: 0 };
+  const served = counters.memoryHits + counters.storeHits;
+  return {
+    enabled: isEnabled(),
+    ttlMs: ttlMs(),
+    ...totals,
+    hitRate: totals.hits + totals.fetches > 0 ? totals.hits / (totals.hits + totals.fetches) : 0,
+    process: { ...counters, hitRate: served + counters.misses > 0 ? served / (served + counters.misses) : 0 },
+  };
+}
@@ -0,0 +1,174 @@
+/**
+ * Literature matrix: for every retrieved source, the problem it addresses, its
+ * method, data, findings and limitations, extracted from the abstract. It is
+ * stored per job, shown next to the document, exported as CSV, and gives the
+ * Literature Review drafting prompts a synthesis to work from rather than a
+ * bare list of titles.
+ */
+
+import { invokeLLM, type LLMUsage } from "../_core/llm";
+import type { SemanticScholarPaper } from "./semanticScholar";
+
+const DEFAULT_BATCH_SIZE = 8;
+/** Abstracts are cut to this many characters in the extraction prompt. */
+const MAX_ABSTRACT_CHARS = 2000;
+
+const getNumberEnv = (key: string, fallback: number) => {
+  const raw = process.env[key];
+  if (!raw) return fallback;
+  const value = Number(raw);
+  return Number.isFinite(value) && value >= 1 ? Math.floor(value) : fallback;
+};
+
+export const LITERATURE_MATRIX_FIELDS = ["problem", "method", "dataset", "findings", "limitations"] as const;
+
+export type LiteratureMatrixField = (typeof LITERATURE_MATRIX_FIELDS)[number];
+
+export interface LiteratureMatrixEntry extends Record<LiteratureMatrixField, string> {
+  citationKey: string;
+  title: string;
+  year: number | null;
+}
+
+interface MatrixSource {
+  citationKey: string;
+  paper: SemanticScholarPaper;
+}
+
+const emptyEntry = ({ citationKey, paper }: MatrixSource): LiteratureMatrixEntry => ({
+  citationKey,
+  title: paper.title,
+  year: paper.year ?? null,
+  problem: "",
+  method: "",
+  dataset: "",
+  findings: "",
+  limitations: "",
+});
+
+const MATRIX_SCHEMA = {
+  type: "object",
+  properties: {
+    rows: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          citationKey: { type: "string" },
+          ...Object.fromEntries(LITERATURE_MATRIX_FIELDS.map(field => [field, { type: "string" }])),
+        },
+        required: ["citationKey", ...LITERATURE_MATRIX_FIELDS],
+        additionalProperties: false,
+      },
+    },
+  },
+  required: ["rows"],
+  additionalProperties: false,
+};
+
+async function extractBatch(
+  sources: MatrixSource[],
+  topic: string,
+  options: { signal?: AbortSignal; onUsage?: (usage: LLMUsage) => void }
+): Promise<Map<string, Record<LiteratureMatrixField, string>>> {
+  const listing = sources
+    .map(({ citationKey, paper }) =>
+      `[${citationKey}] ${paper.title} (${paper.year ?? "n.d."})\nAbstract: ${paper.abstract!.slice(0, MAX_ABSTRACT_CHARS)}`
+    )
+    .join("\n\n");
+  const prompt = `Build a literature matrix for a document titled "${topic}". For each source below, summarize from its
+abstract only:
+- problem: the research problem or question it addresses
+- method: the approach, model or study design
+- dataset: the data, corpus, participants or setting (empty string if the abstract does not say)
+- findings: the main results
+- limitations: limitations the abstract states or clearly implies (empty string if none are evident)
+
+Keep each field to one short sentence. Do not invent details the abstract does not support.
+
+Sources:
+${listing}
+
+Respond in JSON format: {"rows": [{"citationKey": "ref1", "problem": "...", "method": "...", "dataset": "...", "findings": "...", "limitations": "..."}]}`;
+
+  const response = await invokeLLM({
+    messages: [{ role: "user", content: prompt }],
+    signal: options.signal,
+    onUsage: options.onUsage,
+    response_format: {
+      type: "json_schema",
+      json_schema: { name: "literature_matrix", strict: true, schema: MATRIX_SCHEMA },
+    },
+  });
+  const content = response.choices[0]?.message.content;
+  const parsed = JSON.parse(typeof content === "string" ? content : "{}") as { rows?: unknown };
+  const extracted = new Map<string, Record<LiteratureMatrixField, string>>();
+  for (const row of Array.isArray(parsed.rows) ? parsed.rows : []) {
+    if (!row || typeof row !== "object" || typeof row.citationKey !== "string") continue;
+    const text = (value: unknown) => (typeof value === "string" ? value.trim() : "");
+    extracted.set(
+      row.citationKey,
+      Object.fromEntries(LITERATURE_MATRIX_FIELDS.map(field => [field, text(row[field])])) as Record<LiteratureMatrixField, string>
+    );
+  }
+  return extracted;
+}
+
+/**
+ * One row per source, in citation order. Sources are sent LITERATURE_MATRIX_BATCH_SIZE
+ * at a time; sources without an abstract, and batches the LLM fails on, keep empty fields.
+ */
+export async function extractLiteratureMatrix(
+  sources: MatrixSource[],
+  topic: string,
+  options: { signal?: AbortSignal; onUsage?: (usage: LLMUsage) => void } = {}
+): Promise<LiteratureMatrixEntry[]> {
+  const entries = sources.map(emptyEntry);
+  const withAbstracts = sources.filter(source => source.paper.abstract?.trim());
+  const batchSize = getNumberEnv("LITERATURE_MATRIX_BATCH_SIZE", DEFAULT_BATCH_SIZE);
+
+  for (let start = 0; start < withAbstracts.length; start += batchSize) {
+    const batch = withAbstracts.slice(start, start + batchSize);
+    try {
+      const extracted = await extractBatch(batch, topic, options);
+      for (const entry of entries) {
+        const fields = extracted.get(entry.citationKey);
+        if (fields) Object.assign(entry, fields);
+      }
+    } catch (error) {
+      options.signal?.throwIfAborted();
+      console.warn("[Literature] Matrix extraction failed for a batch; leaving it empty", {
+        sources: batch.map(source => source.citationKey),
+        error,
+      });
+    }
+  }
+  return entries;
+}
+
+/** Prompt context: one line per source that has at least one field filled in. */
+export function literatureMatrixContext(entries: LiteratureMatrixEntry[]): string {
+  return entries
+    .filter(entry => LITERATURE_MATRIX_FIELDS.some(field => entry[field]))
+    .map(entry => {
+      const fields = LITERATURE_MATRIX_FIELDS.filter(field => entry[field]).map(field => `${field}: ${entry[field]}`);
+      return `- [${entry.citationKey}] ${entry.title} (${entry.year ?? "n.d."}) | ${fields.join(" | ")}`;
+    })
+    .join("\n");
+}
+
+const csvCell = (value: string | number | null) => {
+  const text = value === null ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function literatureMatrixToCsv(entries: LiteratureMatrixEntry[]): string {
+  const header = ["Key", "Title", "Year", "Problem", "Method", "Dataset", "Findings", "Limitations"];
+  const rows = entries.map(entry => [
+    entry.citationKey,
+    entry.title,
+    entry.year,
+    ...LITERATURE_MATRIX_FIELDS.map(field => entry[field]),
+  ]);
+  return [header, ...rows].map(row => row.map(csvCell).join(",")).join("\r\n") + "\r\n";
+}
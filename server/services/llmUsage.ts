@@ -0,0 +1,84 @@
+/**
+ * LLM usage accounting: every call made while generating a job or processing
+ * a revision request is recorded in `llm_usage` (tagged with the phase that
+ * made it) and added to the running totals on `generation_jobs` or
+ * `revision_requests`, which quotas count against.
+ */
+
+import type { LLMUsage } from "../_core/llm";
+import * as db from "../db";
+
+// USD per million tokens, matched by model-name prefix (longest prefix wins).
+const MODEL_PRICES_PER_MTOK: Record<string, { input: number; output: number }> = {
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  "gpt-4.1": { input: 2, output: 8 },
+  "gemini-2.5-flash": { input: 0.3, output: 2.5 },
+  "gemini-2.5-pro": { input: 1.25, output: 10 },
+};
+
+const getNumberEnv = (key: string) => {
+  const raw = process.env[key];
+  if (!raw) return undefined;
+  const value = Number(raw);
+  return Number.isFinite(value) && value >= 0 ? value : undefined;
+};
+
+function getModelPrice(model: string) {
+  const prefix = Object.keys(MODEL_PRICES_PER_MTOK)
+    .filter(key => model.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+  const known = prefix ? MODEL_PRICES_PER_MTOK[prefix] : { input: 0, output: 0 };
+
+  // Env overrides apply to every model, e.g. for self-hosted or negotiated pricing.
+  return {
+    input: getNumberEnv("LLM_PRICE_INPUT_PER_MTOK") ?? known.input,
+    output: getNumberEnv("LLM_PRICE_OUTPUT_PER_MTOK") ?? known.output,
+  };
+}
+
+export function estimateCostUsd(model: string, promptTokens: number, completionTokens: number) {
+  const price = getModelPrice(model);
+  return (promptTokens * price.input + completionTokens * price.output) / 1_000_000;
+}
+
+export interface UsageTracker {
+  /** Returns an `onUsage` callback that tags calls with the given phase. */
+  forPhase(phase: string): (usage: LLMUsage) => void;
+  /** Waits for pending usage writes; failures are logged, never thrown. */
+  flush(): Promise<void>;
+}
+
+/** What the tracked calls are charged to. */
+export type UsageOwner = { jobId: number } | { revisionRequestId: number };
+
+export function createUsageTracker(owner: UsageOwner): UsageTracker {
+  let pending: Promise<void>[] = [];
+
+  return {
+    forPhase(phase) {
+      return usage => {
+        const write = db
+          .recordLlmUsage({
+            ...owner,
+            phase,
+            model: usage.model.slice(0, 100),
+            promptTokens: usage.promptTokens,
+            completionTokens: usage.completionTokens,
+            latencyMs: Math.round(usage.latencyMs),
+            estimatedCostUsd: estimateCostUsd(usage.model, usage.promptTokens, usage.completionTokens),
+          })
+          .catch(error => {
+            console.warn("[LLMUsage] Failed to record usage", { ...owner, error });
+          });
+        pending.push(write);
+      };
+    },
+    async flush() {
+      const writes = pending;
+      pending = [];
+      await Promise.all(writes);
+    },
+  };
+}
@@ -0,0 +1,602 @@
+/**
+ * Typeset PDF export, rendered in-process with no external services: pdfkit
+ * lays out the pages with the standard Times fonts, and TeX math is turned
+ * into vector SVG by MathJax and drawn inline. The paper gets a title block,
+ * numbered sections, booktabs-style tables, figures with captions, the
+ * bibliography in the document's style and page numbers.
+ */
+
+import { createHash } from "node:crypto";
+import { liteAdaptor } from "mathjax-full/js/adaptors/liteAdaptor.js";
+import { RegisterHTMLHandler } from "mathjax-full/js/handlers/html.js";
+import { TeX } from "mathjax-full/js/input/tex.js";
+import { AllPackages } from "mathjax-full/js/input/tex/AllPackages.js";
+import { mathjax } from "mathjax-full/js/mathjax.js";
+import { SVG } from "mathjax-full/js/output/svg.js";
+import PDFDocument from "pdfkit";
+import SVGtoPDF from "svg-to-pdfkit";
+import type { Author, Citation, Document, Figure, TableData } from "../../drizzle/schema";
+import {
+  byPosition,
+  exportBody,
+  exportFilename,
+  loadFigureImage,
+  parseInline,
+  parseMarkdownBlocks,
+  plainText,
+  tableRows,
+  type InlineSpan,
+} from "./exportContent";
+
+export const PDF_MIME_TYPE = "application/pdf";
+/** Part of the cache key: bump it when the layout changes so stored PDFs are re-rendered. */
+const RENDERER_VERSION = 1;
+
+const MARGIN = 72;
+const BODY_SIZE = 11;
+const SMALL_SIZE = 10;
+const TABLE_SIZE = 9.5;
+const LINE_SPACING = 1.3;
+const PARAGRAPH_GAP = 6;
+const LIST_INDENT = 18;
+const CELL_PADDING = 4;
+const LINK_COLOR = "#1a4f8b";
+const FONTS = {
+  regular: "Times-Roman",
+  bold: "Times-Bold",
+  italic: "Times-Italic",
+  boldItalic: "Times-BoldItalic",
+  code: "Courier",
+} as const;
+/** Sections that are not numbered. */
+const UNNUMBERED = new Set(["abstract", "references", "acknowledgments", "acknowledgements", "keywords"]);
+
+type Doc = PDFKit.PDFDocument;
+
+export interface PdfExportOptions {
+  authors?: Author[];
+  citations?: Citation[];
+  figures?: Figure[];
+  tables?: TableData[];
+}
+
+/**
+ * Identifies what a PDF was rendered from: the document, its authors,
+ * references, figures and tables, and the renderer version. A stored PDF
+ * whose hash still matches is reused.
+ */
+export function pdfSourceHash(
+  document: Pick<Document, "title" | "content" | "contentFormat" | "citationStyle">,
+  options: PdfExportOptions
+): string {
+  const rows = <T extends { id: number; createdAt: Date }>(list: T[] = []) =>
+    list.map(({ id: _id, createdAt: _createdAt, ...row }) => row);
+  return createHash("sha256")
+    .update(
+      JSON.stringify({
+        renderer: RENDERER_VERSION,
+        title: document.title,
+        content: document.content,
+        contentFormat: document.contentFormat,
+        citationStyle: document.citationStyle,
+        authors: rows(options.authors),
+        citations: rows(options.citations),
+        figures: rows(options.figures),
+        tables: rows(options.tables),
+      })
+    )
+    .digest("hex");
+}
+
+// The standard PDF fonts cover WinAnsi only; common symbols outside it get ASCII stand-ins.
+const WIN_ANSI_EXTRAS = "€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ";
+const SUBSTITUTES: Record<string, string> = {
+  "−": "-",
+  "‐": "-",
+  "‑": "-",
+  "≤": "<=",
+  "≥": ">=",
+  "≠": "!=",
+  "≈": "~",
+  "∼": "~",
+  "→": "->",
+  "←": "<-",
+  "′": "'",
+  "″": '"',
+};
+
+const winAnsi = (text: string) =>
+  text.replace(/[^\x20-\x7e\xa0-\xff]/g, char => (WIN_ANSI_EXTRAS.includes(char) ? char : SUBSTITUTES[char] ?? (/\s/.test(char) ? " " : "?")));
+
+interface MathBox {
+  svg: string;
+  /** In ems of the surrounding text. */
+  width: number;
+  ascent: number;
+  descent: number;
+}
+
+let texToSvg: ((tex: string, display: boolean) => string) | null = null;
+
+/** TeX rendered to SVG; MathJax typesets errors in place, so only an unreadable result is null. */
+function renderMath(tex: string, display: boolean): MathBox | null {
+  if (!texToSvg) {
+    const adaptor = liteAdaptor();
+    RegisterHTMLHandler(adaptor);
+    const html = mathjax.document("", { InputJax: new TeX({ packages: AllPackages }), OutputJax: new SVG({ fontCache: "none" }) });
+    texToSvg = (source, displayMode) => adaptor.innerHTML(html.convert(source, { display: displayMode }));
+  }
+  const svg = texToSvg(tex, display);
+  // The viewBox is in thousandths of an em, with the baseline at y = 0.
+  const viewBox = svg.match(/viewBox="(-?[\d.]+) (-?[\d.]+) ([\d.]+) ([\d.]+)"/);
+  if (!viewBox) return null;
+  const [minY, width, height] = [Number(viewBox[2]), Number(viewBox[3]), Number(viewBox[4])];
+  return { svg, width: width / 1000, ascent: -minY / 1000, descent: (height + minY) / 1000 };
+}
+
+function drawMath(doc: Doc, box: MathBox, x: number, top: number, size: number, tex: string) {
+  try {
+    SVGtoPDF(doc, box.svg, x, top, {
+      width: box.width * size,
+      height: (box.ascent + box.descent) * size,
+      preserveAspectRatio: "xMinYMin meet",
+      assumePt: true,
+    });
+  } catch (error) {
+    console.warn("[PdfExport] Falling back to TeX source for math", { tex, error: String(error) });
+    doc.font(FONTS.code).fontSize(size * 0.9).fillColor("black").text(winAnsi(tex), x, top, { lineBreak: false });
+  }
+}
+
+const left = (doc: Doc) => doc.page.margins.left;
+const contentWidth = (doc: Doc) => doc.page.width - doc.page.margins.left - doc.page.margins.right;
+const bottom = (doc: Doc) => doc.page.height - doc.page.margins.bottom;
+
+/** Starts a new page unless `height` still fits on this one. */
+function ensureSpace(doc: Doc, height: number) {
+  if (doc.y + height > bottom(doc)) doc.addPage();
+}
+
+type Atom = { spaceBefore: boolean; width: number; size: number } & (
+  | { kind: "text"; text: string; font: string; rise: number; link?: string }
+  | { kind: "math"; box: MathBox; tex: string }
+);
+
+interface TextStyle {
+  size: number;
+  bold?: boolean;
+  italic?: boolean;
+}
+
+function fontFor(bold: boolean, italic: boolean, code = false): string {
+  if (code) return FONTS.code;
+  if (bold) return italic ? FONTS.boldItalic : FONTS.bold;
+  return italic ? FONTS.italic : FONTS.regular;
+}
+
+/** Words and inline math with their widths; `spaceBefore` marks where a line may break. */
+function toAtoms(doc: Doc, spans: InlineSpan[], style: TextStyle): Atom[] {
+  const atoms: Atom[] = [];
+  let space = false;
+  for (const span of spans) {
+    if (span.kind === "math") {
+      const box = renderMath(span.tex, false);
+      if (box) {
+        atoms.push({ kind: "math", box, tex: span.tex, size: style.size, width: box.width * style.size, spaceBefore: space });
+        space = false;
+        continue;
+      }
+    }
+    const text = span.kind === "math" ? span.tex : span.text;
+    const size = span.kind === "text" && span.superscript ? style.size * 0.7 : style.size;
+    const font =
+      span.kind === "math"
+        ? FONTS.code
+        : fontFor(Boolean(style.bold || span.bold), Boolean(style.italic) !== Boolean(span.italic), span.code);
+    for (const piece of winAnsi(text).split(/(\s+)/)) {
+      if (!piece) continue;
+      if (/^\s+$/.test(piece)) {
+        space = atoms.length > 0;
+        continue;
+      }
+      atoms.push({
+        kind: "text",
+        text: piece,
+        font,
+        size,
+        rise: span.kind === "text" && span.superscript ? style.size * 0.35 : 0,
+        link: span.kind === "text" ? span.link : undefined,
+        width: doc.font(font).fontSize(size).widthOfString(piece),
+        spaceBefore: space,
+      });
+      space = false;
+    }
+  }
+  return atoms;
+}
+
+/** Cuts a word wider than the line (URLs, DOIs) into pieces that fit. */
+function splitWideAtom(doc: Doc, atom: Atom, width: number): Atom[] {
+  if (atom.kind !== "text" || atom.width <= width) return [atom];
+  doc.font(atom.font).fontSize(atom.size);
+  const pieces: Atom[] = [];
+  let current = "";
+  for (const char of Array.from(atom.text)) {
+    if (current && doc.widthOfString(current + char) > width) {
+      pieces.push({ ...atom, text: current, width: doc.widthOfString(current), spaceBefore: pieces.length === 0 && atom.spaceBefore });
+      current = "";
+    }
+    current += char;
+  }
+  pieces.push({ ...atom, text: current, width: doc.widthOfString(current), spaceBefore: pieces.length === 0 && atom.spaceBefore });
+  return pieces;
+}
+
+interface ParagraphOptions extends TextStyle {
+  x?: number;
+  width?: number;
+  align?: "left" | "justify" | "center";
+  /** Indent of every line after the first. */
+  hanging?: number;
+  /** Drawn left of the first line (list bullets and numbers). */
+  marker?: string;
+  spaceAfter?: number;
+}
+
+/** Lays out inline Markdown from `doc.y`, breaking lines and pages as needed. */
+function drawParagraph(doc: Doc, spans: InlineSpan[], options: ParagraphOptions) {
+  const x0 = options.x ?? left(doc);
+  const width = options.width ?? contentWidth(doc) - (x0 - left(doc));
+  const hanging = options.hanging ?? 0;
+  const spaceWidth = doc.font(FONTS.regular).fontSize(options.size).widthOfString(" ");
+
+  const lines: Atom[][] = [[]];
+  let lineWidth = 0;
+  for (const atom of toAtoms(doc, spans, options).flatMap(atom => splitWideAtom(doc, atom, width - hanging))) {
+    const available = lines.length === 1 ? width : width - hanging;
+    const gap = lines[lines.length - 1].length && atom.spaceBefore ? spaceWidth : 0;
+    const breakable = atom.spaceBefore || lines[lines.length - 1].length === 0;
+    if (lines[lines.length - 1].length && breakable && lineWidth + gap + atom.width > available) {
+      lines.push([atom]);
+      lineWidth = atom.width;
+    } else {
+      lines[lines.length - 1].push(atom);
+      lineWidth += gap + atom.width;
+    }
+  }
+
+  lines.forEach((line, index) => {
+    const lineX = index === 0 ? x0 : x0 + hanging;
+    const available = index === 0 ? width : width - hanging;
+    const ascent = Math.max(options.size * 0.8, ...line.map(atom => (atom.kind === "math" ? atom.box.ascent * atom.size : 0)));
+    const descent = Math.max(options.size * 0.25, ...line.map(atom => (atom.kind === "math" ? atom.box.descent * atom.size : 0)));
+    const lineHeight = Math.max(options.size * LINE_SPACING, ascent + descent + options.size * 0.2);
+    ensureSpace(doc, lineHeight);
+    const top = doc.y;
+    const baseline = top + (lineHeight - ascent - descent) / 2 + ascent;
+
+    const natural = line.reduce((sum, atom, i) => sum + atom.width + (i > 0 && atom.spaceBefore ? spaceWidth : 0), 0);
+    const gaps = line.filter((atom, i) => i > 0 && atom.spaceBefore).length;
+    const isLast = index === lines.length - 1;
+    const extra = options.align === "justify" && !isLast && gaps > 0 ? (available - natural) / gaps : 0;
+    let x = lineX + (options.align === "center" ? Math.max(available - natural, 0) / 2 : 0);
+
+    if (index === 0 && options.marker) {
+      doc
+        .font(fontFor(Boolean(options.bold), Boolean(options.italic)))
+        .fontSize(options.size)
+        .fillColor("black")
+        .text(options.marker, x0 - LIST_INDENT, baseline, { lineBreak: false, baseline: "alphabetic" });
+    }
+    line.forEach((atom, i) => {
+      if (i > 0 && atom.spaceBefore) x += spaceWidth + extra;
+      if (atom.kind === "math") {
+        drawMath(doc, atom.box, x, baseline - atom.box.ascent * atom.size, atom.size, atom.tex);
+      } else {
+        doc
+          .font(atom.font)
+          .fontSize(atom.size)
+          .fillColor(atom.link ? LINK_COLOR : "black")
+          .text(atom.text, x, baseline - atom.rise, { lineBreak: false, baseline: "alphabetic", link: atom.link ?? null });
+      }
+      x += atom.width;
+    });
+    doc.y = top + lineHeight;
+  });
+  doc.x = left(doc);
+  doc.y += options.spaceAfter ?? 0;
+}
+
+function drawEquation(doc: Doc, tex: string, tag: string | null) {
+  const box = renderMath(tex, true);
+  if (!box) {
+    drawParagraph(doc, [{ kind: "text", text: tex, code: true }], { size: SMALL_SIZE, align: "center", spaceAfter: PARAGRAPH_GAP });
+    return;
+  }
+  const tagWidth = tag ? doc.font(FONTS.regular).fontSize(BODY_SIZE).widthOfString(`(${tag})`) + 12 : 0;
+  const maxWidth = contentWidth(doc) - 2 * tagWidth;
+  const size = Math.min(BODY_SIZE, maxWidth / box.width);
+  const height = (box.ascent + box.descent) * size;
+  ensureSpace(doc, height + 2 * PARAGRAPH_GAP);
+  const top = doc.y + PARAGRAPH_GAP;
+  drawMath(doc, box, left(doc) + (contentWidth(doc) - box.width * size) / 2, top, size, tex);
+  if (tag) {
+    const label = `(${tag})`;
+    const labelWidth = doc.font(FONTS.regular).fontSize(BODY_SIZE).widthOfString(label);
+    doc.fillColor("black").text(label, left(doc) + contentWidth(doc) - labelWidth, top + box.ascent * size, {
+      lineBreak: false,
+      baseline: "alphabetic",
+    });
+  }
+  doc.x = left(doc);
+  doc.y = top + height + PARAGRAPH_GAP * 2;
+}
+
+function drawRule(doc: Doc, y: number, weight: number) {
+  doc
+    .moveTo(left(doc), y)
+    .lineTo(left(doc) + contentWidth(doc), y)
+    .lineWidth(weight)
+    .strokeColor("black")
+    .stroke();
+}
+
+/** A booktabs-style table: rules above and below and under the header; the header repeats on each page. */
+function drawTable(doc: Doc, header: string[], rows: string[][]) {
+  const columns = Math.max(header.length, ...rows.map(row => row.length), 1);
+  const columnWidth = contentWidth(doc) / columns;
+  const textWidth = columnWidth - 2 * CELL_PADDING;
+  const cellText = (cells: string[], i: number) => winAnsi(plainText(cells[i] ?? ""));
+  const rowHeight = (cells: string[], bold: boolean) =>
+    Math.max(
+      ...Array.from({ length: columns }, (_, i) =>
+        doc.font(bold ? FONTS.bold : FONTS.regular).fontSize(TABLE_SIZE).heightOfString(cellText(cells, i) || " ", { width: textWidth })
+      )
+    ) +
+    2 * CELL_PADDING;
+  const drawRow = (cells: string[], bold: boolean, height: number) => {
+    const top = doc.y;
+    for (let i = 0; i < columns; i++) {
+      doc
+        .font(bold ? FONTS.bold : FONTS.regular)
+        .fontSize(TABLE_SIZE)
+        .fillColor("black")
+        .text(cellText(cells, i), left(doc) + i * columnWidth + CELL_PADDING, top + CELL_PADDING, { width: textWidth });
+    }
+    doc.y = top + height;
+  };
+  const headerHeight = header.length ? rowHeight(header, true) : 0;
+  const drawHeader = () => {
+    drawRule(doc, doc.y, 1);
+    if (header.length) {
+      drawRow(header, true, headerHeight);
+      drawRule(doc, doc.y, 0.5);
+    }
+  };
+
+  ensureSpace(doc, headerHeight + (rows.length ? rowHeight(rows[0], false) : 0) + 4);
+  drawHeader();
+  for (const row of rows) {
+    const height = rowHeight(row, false);
+    if (doc.y + height > bottom(doc)) {
+      drawRule(doc, doc.y, 1);
+      doc.addPage();
+      drawHeader();
+    }
+    drawRow(row, false, height);
+  }
+  drawRule(doc, doc.y, 1);
+  doc.x = left(doc);
+  doc.y += PARAGRAPH_GAP * 2;
+}
+
+const captionSpans = (label: string, text: string): InlineSpan[] => [
+  { kind: "text", text: `${label}. `, bold: true },
+  ...parseInline(text),
+];
+
+async function drawFigure(doc: Doc, figure: Figure) {
+  const image = await loadFigureImage(figure.imageUrl);
+  const maxWidth = contentWidth(doc) * 0.9;
+  const maxHeight = (bottom(doc) - doc.page.margins.top) * 0.5;
+  // Pixels at 96 dpi, shrunk to fit the column and half a page.
+  const scale = image ? Math.min(1, maxWidth / (image.width * 0.75), maxHeight / (image.height * 0.75)) * 0.75 : 1;
+  const width = image ? image.width * scale : maxWidth;
+  const height = image ? image.height * scale : 120;
+  ensureSpace(doc, height + SMALL_SIZE * 3);
+  const x = left(doc) + (contentWidth(doc) - width) / 2;
+  const top = doc.y + PARAGRAPH_GAP;
+  if (image) {
+    doc.image(Buffer.from(image.data), x, top, { width, height });
+  } else {
+    // Planned figures have no image yet; leave a marked box to drop one into.
+    doc.rect(x, top, width, height).dash(4, { space: 3 }).lineWidth(0.75).strokeColor("#999999").stroke().undash();
+    const label = winAnsi(`[${figure.figureType ?? "Figure"}: ${figure.altText || figure.caption}]`);
+    doc
+      .font(FONTS.italic)
+      .fontSize(SMALL_SIZE)
+      .fillColor("#555555")
+      .text(label, x + 12, top + height / 2 - SMALL_SIZE, { width: width - 24, align: "center", height: height - 12, ellipsis: true });
+  }
+  doc.x = left(doc);
+  doc.y = top + height + PARAGRAPH_GAP;
+  drawParagraph(doc, captionSpans(figure.figureNumber, figure.caption), { size: SMALL_SIZE, align: "justify", spaceAfter: PARAGRAPH_GAP * 2 });
+}
+
+function drawHeading(doc: Doc, text: string, depth: number, number: string | null) {
+  const size = depth === 1 ? 14 : depth === 2 ? 12 : BODY_SIZE;
+  // Keep the heading with the first lines that follow it.
+  ensureSpace(doc, size * LINE_SPACING + BODY_SIZE * LINE_SPACING * 3 + PARAGRAPH_GAP * 2);
+  doc.y += depth === 1 ? PARAGRAPH_GAP * 2 : PARAGRAPH_GAP;
+  drawParagraph(doc, [...(number ? [{ kind: "text" as const, text: `${number}  ` }] : []), ...parseInline(text)], {
+    size,
+    bold: true,
+    italic: depth >= 3,
+    spaceAfter: PARAGRAPH_GAP,
+  });
+}
+
+/** Title, authors with affiliation numbers, the affiliations, and the corresponding author's email. */
+function drawTitleBlock(doc: Doc, title: string, authors: Author[]) {
+  drawParagraph(doc, parseInline(title), { size: 18, bold: true, align: "center", spaceAfter: PARAGRAPH_GAP * 2 });
+  if (authors.length === 0) return;
+  const ordered = [...authors].sort((a, b) => a.orderIndex - b.orderIndex);
+  const affiliations = Array.from(new Set(ordered.map(author => author.affiliation.trim()).filter(Boolean)));
+  const names: InlineSpan[] = ordered.flatMap((author, i) => {
+    const marks = [affiliations.indexOf(author.affiliation.trim()) + 1 || null, author.isCorresponding ? "*" : null].filter(Boolean);
+    return [
+      { kind: "text" as const, text: `${i > 0 ? ", " : ""}${author.name}` },
+      ...(marks.length ? [{ kind: "text" as const, text: marks.join(","), superscript: true }] : []),
+    ];
+  });
+  drawParagraph(doc, names, { size: 12, align: "center", spaceAfter: PARAGRAPH_GAP });
+  affiliations.forEach((affiliation, i) =>
+    drawParagraph(
+      doc,
+      [
+        { kind: "text", text: String(i + 1), superscript: true },
+        { kind: "text", text: affiliation, italic: true },
+      ],
+      { size: SMALL_SIZE, align: "center" }
+    )
+  );
+  const emails = ordered.filter(author => author.isCorresponding && author.email).map(author => author.email);
+  if (emails.length) {
+    drawParagraph(
+      doc,
+      [
+        { kind: "text", text: "*", superscript: true },
+        { kind: "text", text: `Corresponding author: ${emails.join(", ")}` },
+      ],
+      { size: SMALL_SIZE - 0.5, align: "center" }
+    );
+  }
+  doc.y += PARAGRAPH_GAP * 2;
+}
+
+/** Numbers each page at the bottom centre; needs a document created with `bufferPages`. */
+function drawPageNumbers(doc: Doc) {
+  const range = doc.bufferedPageRange();
+  for (let i = range.start; i < range.start + range.count; i++) {
+    doc.switchToPage(i);
+    const label = String(i + 1);
+    const width = doc.font(FONTS.regular).fontSize(9).widthOfString(label);
+    doc.fillColor("black").text(label, (doc.page.width - width) / 2, doc.page.height - MARGIN / 2, { lineBreak: false });
+  }
+}
+
+/** PDF bytes for `document`, with citations in its style. */
+export async function exportPdf(
+  document: Document,
+  options: PdfExportOptions = {}
+): Promise<{ filename: string; mimeType: string; data: Buffer }> {
+  const figures = byPosition(options.figures ?? []);
+  const tables = byPosition(options.tables ?? []);
+  const { markdown, bibliography } = exportBody(document, options.citations ?? [], { figures, tables });
+
+  const doc = new PDFDocument({
+    size: "LETTER",
+    margins: { top: MARGIN, bottom: MARGIN, left: MARGIN, right: MARGIN },
+    bufferPages: true,
+    info: {
+      Title: document.title,
+      Author: (options.authors ?? []).map(author => author.name).join(", "),
+      Subject: document.abstract ?? undefined,
+      Keywords: (document.keywords ?? []).join(", "),
+    },
+  });
+  const chunks: Buffer[] = [];
+  doc.on("data", chunk => chunks.push(chunk));
+  const finished = new Promise<void>((resolve, reject) => {
+    doc.on("end", resolve);
+    doc.on("error", reject);
+  });
+
+  drawTitleBlock(doc, document.title, options.authors ?? []);
+
+  const numbers = [0, 0, 0];
+  const numberedItems = new Map<number, number>();
+  let inAbstract = false;
+  const heading = (text: string, depth: number) => {
+    inAbstract = text.trim().toLowerCase() === "abstract";
+    if (UNNUMBERED.has(text.trim().toLowerCase())) {
+      drawHeading(doc, text, depth, null);
+      return;
+    }
+    numbers[depth - 1]++;
+    numbers.fill(0, depth);
+    drawHeading(doc, text, depth, numbers.slice(0, depth).join("."));
+  };
+
+  for (const block of parseMarkdownBlocks(markdown)) {
+    switch (block.kind) {
+      case "heading":
+        // "##" sections are the top level; "#" is treated the same.
+        heading(block.text, Math.min(Math.max(block.level - 1, 1), 3));
+        break;
+      case "paragraph":
+        drawParagraph(
+          doc,
+          parseInline(block.text),
+          inAbstract
+            ? { size: SMALL_SIZE, align: "justify", x: left(doc) + 36, width: contentWidth(doc) - 72, spaceAfter: PARAGRAPH_GAP }
+            : { size: BODY_SIZE, align: "justify", spaceAfter: PARAGRAPH_GAP }
+        );
+        break;
+      case "quote":
+        drawParagraph(doc, parseInline(block.text), {
+          size: BODY_SIZE,
+          italic: true,
+          x: left(doc) + 36,
+          width: contentWidth(doc) - 72,
+          spaceAfter: PARAGRAPH_GAP,
+        });
+        break;
+      case "bullet":
+      case "numbered": {
+        const listNumber = block.kind === "numbered" ? (numberedItems.get(block.list) ?? 0) + 1 : 0;
+        if (block.kind === "numbered") numberedItems.set(block.list, listNumber);
+        drawParagraph(doc, parseInline(block.text), {
+          size: BODY_SIZE,
+          align: "justify",
+          x: left(doc) + LIST_INDENT * ((block.kind === "bullet" ? block.level : 0) + 1),
+          marker: block.kind === "numbered" ? `${listNumber}.` : "•",
+          spaceAfter: PARAGRAPH_GAP / 2,
+        });
+        break;
+      }
+      case "equation":
+        drawEquation(doc, block.tex, block.tag);
+        break;
+      case "table":
+        drawTable(doc, block.header, block.rows);
+        break;
+    }
+  }
+
+  if (figures.length) {
+    heading("Figures", 1);
+    for (const figure of figures) await drawFigure(doc, figure);
+  }
+  if (tables.length) {
+    heading("Tables", 1);
+    for (const table of tables) {
+      const { header, rows } = tableRows(table);
+      ensureSpace(doc, SMALL_SIZE * LINE_SPACING * 4);
+      drawParagraph(doc, captionSpans(table.tableNumber, table.caption), { size: SMALL_SIZE, align: "justify", spaceAfter: PARAGRAPH_GAP });
+      drawTable(doc, header, rows);
+    }
+  }
+  if (bibliography.length) {
+    heading("References", 1);
+    // Numeric styles number their own entries; the rest hang-indent.
+    for (const entry of bibliography) {
+      drawParagraph(doc, parseInline(entry.text), { size: SMALL_SIZE, hanging: LIST_INDENT, spaceAfter: PARAGRAPH_GAP / 2 });
+    }
+  }
+
+  drawPageNumbers(doc);
+  doc.end();
+  await finished;
+  return { filename: exportFilename(document.title, "pdf"), mimeType: PDF_MIME_TYPE, data: Buffer.concat(chunks) };
+}
@@ -0,0 +1,234 @@
+/**
+ * Pipeline definitions per document type: which phases run (and their share of
+ * the progress bar), which sections are drafted, and the prompt guidance that
+ * shapes each genre. `generateDocument` looks the definition up by
+ * `documentType`; unknown types fall back to the journal article pipeline.
+ */
+
+import { DOCUMENT_TYPES, type DocumentType } from "@shared/const";
+
+export type PhaseName =
+  | "Literature Review"
+  | "Full-Text Retrieval"
+  | "Novelty Assessment"
+  | "Argument Architecture"
+  | "Section Writing"
+  | "Citation Verification"
+  | "Figure Generation"
+  | "Internal Review"
+  | "Final Assembly";
+
+export interface PhaseSpec {
+  name: PhaseName;
+  weight: number; // Percentage of total work
+}
+
+export interface SectionSpec {
+  title: string;
+  /** What the section must cover; used in the outline and drafting prompts. */
+  guidance: string;
+  /** Ask for numbered, step-by-step equations on quantitative topics. */
+  technical?: boolean;
+  /** Draft from the literature matrix (per-source problem, method, data, findings, limitations). */
+  synthesis?: boolean;
+}
+
+export interface PipelineDefinition {
+  documentType: DocumentType;
+  /** Human-readable genre used in prompts, e.g. "NIH-style grant proposal". */
+  genre: string;
+  phases: PhaseSpec[];
+  sections: SectionSpec[];
+  /** Section whose body is stored as the document abstract. */
+  abstractSection: string;
+  prompts: {
+    /** Genre-specific voice and conventions appended to every drafting prompt. */
+    writing: string;
+    /** Criteria the internal review scores against. */
+    reviewCriteria: string[];
+  };
+}
+
+const STANDARD_PHASES: PhaseSpec[] = [
+  { name: "Literature Review", weight: 10 },
+  { name: "Full-Text Retrieval", weight: 5 },
+  { name: "Novelty Assessment", weight: 10 },
+  { name: "Argument Architecture", weight: 15 },
+  { name: "Section Writing", weight: 35 },
+  { name: "Citation Verification", weight: 5 },
+  { name: "Figure Generation", weight: 10 },
+  { name: "Internal Review", weight: 5 },
+  { name: "Final Assembly", weight: 5 },
+];
+
+const ACADEMIC_REVIEW_CRITERIA = [
+  "Clarity and coherence",
+  "Logical flow",
+  "Academic rigor",
+  "Citation appropriateness",
+];
+
+export const PIPELINES: Record<DocumentType, PipelineDefinition> = {
+  journal_article: {
+    documentType: "journal_article",
+    genre: "journal article",
+    phases: STANDARD_PHASES,
+    abstractSection: "Abstract",
+    sections: [
+      { title: "Abstract", guidance: "Summary of problem, approach, results, and contributions" },
+      { title: "Introduction", guidance: "Background, motivation, research questions, and contributions" },
+      { title: "Literature Review", guidance: "Related work organized by themes; gaps in prior work", synthesis: true },
+      { title: "Methodology", guidance: "Data/materials, design, and evaluation metrics", technical: true },
+      { title: "Results", guidance: "Key findings with references to figures and tables", technical: true },
+      { title: "Discussion", guidance: "Interpretation, limitations, and implications" },
+      { title: "Conclusion", guidance: "Summary of contributions and future work" },
+    ],
+    prompts: {
+      writing: "Follow the conventions of a peer-reviewed journal article.",
+      reviewCriteria: ACADEMIC_REVIEW_CRITERIA,
+    },
+  },
+  conference_paper: {
+    documentType: "conference_paper",
+    genre: "conference paper",
+    phases: STANDARD_PHASES,
+    abstractSection: "Abstract",
+    sections: [
+      { title: "Abstract", guidance: "Problem, approach, and headline results in one paragraph" },
+      { title: "Introduction", guidance: "Motivation, problem statement, and an explicit list of contributions" },
+      { title: "Related Work", guidance: "Closest prior work and how this paper differs", synthesis: true },
+      { title: "Approach", guidance: "The proposed method or system in enough detail to reproduce", technical: true },
+      { title: "Evaluation", guidance: "Experimental setup, baselines, metrics, and results", technical: true },
+      { title: "Conclusion", guidance: "Takeaways, limitations, and future work" },
+    ],
+    prompts: {
+      writing: "Be concise and contribution-focused, as for a page-limited conference submission.",
+      reviewCriteria: [...ACADEMIC_REVIEW_CRITERIA, "Strength of empirical evaluation"],
+    },
+  },
+  thesis: {
+    documentType: "thesis",
+    genre: "master's thesis",
+    phases: STANDARD_PHASES,
+    abstractSection: "Abstract",
+    sections: [
+      { title: "Abstract", guidance: "Summary of the research problem, methods, findings, and significance" },
+      { title: "Chapter 1: Introduction", guidance: "Context, problem statement, research questions, and thesis structure" },
+      { title: "Chapter 2: Literature Review", guidance: "Critical review of the field organized by themes, ending with the gap addressed", synthesis: true },
+      { title: "Chapter 3: Methodology", guidance: "Research design, data collection, and analysis procedures", technical: true },
+      { title: "Chapter 4: Results", guidance: "Findings presented against each research question", technical: true },
+      { title: "Chapter 5: Discussion", guidance: "Interpretation in light of the literature, limitations, and implications" },
+      { title: "Chapter 6: Conclusion", guidance: "Summary of contributions and recommendations for future research" },
+    ],
+    prompts: {
+      writing: "Write as a thesis chapter: thorough, self-contained, and explicit about how it serves the research questions.",
+      reviewCriteria: ACADEMIC_REVIEW_CRITERIA,
+    },
+  },
+  dissertation: {
+    documentType: "dissertation",
+    genre: "doctoral dissertation",
+    phases: STANDARD_PHASES,
+    abstractSection: "Abstract",
+    sections: [
+      { title: "Abstract", guidance: "Summary of the research problem, original contributions, and findings" },
+      { title: "Chapter 1: Introduction", guidance: "Context, problem statement, research questions, and original contributions" },
+      { title: "Chapter 2: Literature Review", guidance: "Comprehensive critical review establishing the research gap", synthesis: true },
+      { title: "Chapter 3: Theoretical Framework", guidance: "Concepts, theories, and models that frame the study", technical: true },
+      { title: "Chapter 4: Methodology", guidance: "Research design, data, analysis, validity, and ethics", technical: true },
+      { title: "Chapter 5: Findings", guidance: "Findings organized by research question", technical: true },
+      { title: "Chapter 6: Discussion", guidance: "Interpretation, theoretical and practical implications, limitations" },
+      { title: "Chapter 7: Conclusion", guidance: "Original contributions to knowledge and future research agenda" },
+    ],
+    prompts: {
+      writing: "Write as a dissertation chapter, making the original contribution to knowledge explicit.",
+      reviewCriteria: [...ACADEMIC_REVIEW_CRITERIA, "Originality of contribution"],
+    },
+  },
+  research_proposal: {
+    documentType: "research_proposal",
+    genre: "research proposal",
+    phases: STANDARD_PHASES,
+    abstractSection: "Abstract",
+    sections: [
+      { title: "Abstract", guidance: "The problem, proposed research, and expected contribution" },
+      { title: "Introduction", guidance: "Background and the problem motivating the research" },
+      { title: "Literature Review", guidance: "State of the art and the gap the proposal addresses", synthesis: true },
+      { title: "Research Questions and Objectives", guidance: "Specific, answerable questions and measurable objectives" },
+      { title: "Methodology", guidance: "Planned design, data, and analysis for each objective", technical: true },
+      { title: "Expected Outcomes", guidance: "Anticipated results, significance, and risks" },
+      { title: "Work Plan and Timeline", guidance: "Phases, milestones, and deliverables" },
+    ],
+    prompts: {
+      writing: "Write in the future tense about planned work; do not report results as if obtained.",
+      reviewCriteria: [...ACADEMIC_REVIEW_CRITERIA, "Feasibility of the plan"],
+    },
+  },
+  grant_proposal: {
+    documentType: "grant_proposal",
+    genre: "grant proposal",
+    phases: STANDARD_PHASES,
+    abstractSection: "Project Summary",
+    sections: [
+      { title: "Project Summary", guidance: "Overview, intellectual merit, and broader impacts in one page" },
+      { title: "Specific Aims", guidance: "Long-term goal, central hypothesis, and two to four specific aims" },
+      { title: "Significance", guidance: "The problem's importance and how the aims advance the field" },
+      { title: "Innovation", guidance: "How the concepts, methods, or approaches depart from the status quo" },
+      { title: "Approach", guidance: "Strategy, methods, expected outcomes, pitfalls, and alternatives per aim", technical: true },
+      { title: "Timeline and Milestones", guidance: "Schedule of aims with measurable milestones" },
+    ],
+    prompts: {
+      writing: "Write persuasively for grant reviewers: lead with the aims, be concrete about feasibility, and use future tense for proposed work.",
+      reviewCriteria: ["Significance", "Innovation", "Approach and feasibility", "Clarity of aims"],
+    },
+  },
+  technical_report: {
+    documentType: "technical_report",
+    genre: "technical report",
+    // Novelty scoring is not meaningful for reports; its weight moves to drafting.
+    phases: STANDARD_PHASES.filter(p => p.name !== "Novelty Assessment").map(p =>
+      p.name === "Section Writing" ? { ...p, weight: p.weight + 10 } : p
+    ),
+    abstractSection: "Executive Summary",
+    sections: [
+      { title: "Executive Summary", guidance: "Purpose, key findings, and recommendations for a non-specialist reader" },
+      { title: "Introduction", guidance: "Scope, objectives, and audience of the report" },
+      { title: "Background", guidance: "Context and prior work needed to follow the report", synthesis: true },
+      { title: "Methodology", guidance: "Procedures, tools, and data used", technical: true },
+      { title: "Results", guidance: "Findings with supporting figures and tables", technical: true },
+      { title: "Recommendations", guidance: "Actionable recommendations derived from the results" },
+      { title: "Conclusion", guidance: "Summary and next steps" },
+    ],
+    prompts: {
+      writing: "Write in a clear, practical register for technical stakeholders; prefer precise findings over literature positioning.",
+      reviewCriteria: ["Clarity", "Technical accuracy", "Actionability of recommendations", "Citation appropriateness"],
+    },
+  },
+  book_chapter: {
+    documentType: "book_chapter",
+    genre: "book chapter in an edited scholarly volume",
+    phases: STANDARD_PHASES,
+    abstractSection: "Abstract",
+    sections: [
+      { title: "Abstract", guidance: "The chapter's argument and its place in the volume" },
+      { title: "Introduction", guidance: "The chapter's theme, argument, and roadmap" },
+      { title: "Background", guidance: "Historical and conceptual context for the theme" },
+      { title: "Key Themes", guidance: "The main body of the argument, developed across themes" },
+      { title: "Case Studies and Applications", guidance: "Worked examples that illustrate the themes", technical: true },
+      { title: "Critical Perspectives", guidance: "Debates, counterarguments, and open questions" },
+      { title: "Conclusion", guidance: "Synthesis and directions for readers" },
+    ],
+    prompts: {
+      writing: "Write in an expository, synthesizing voice suited to an edited volume; favor narrative over terse reporting.",
+      reviewCriteria: [...ACADEMIC_REVIEW_CRITERIA, "Depth of synthesis"],
+    },
+  },
+};
+
+export function isDocumentType(value: string): value is DocumentType {
+  return (DOCUMENT_TYPES as readonly string[]).includes(value);
+}
+
+export function getPipeline(documentType: string): PipelineDefinition {
+  return isDocumentType(documentType) ? PIPELINES[documentType] : PIPELINES.journal_article;
+}
@@ -0,0 +1,141 @@
+/**
+ * Live generation progress. `generateDocument` publishes phase transitions,
+ * drafted section text and the final status on an in-process bus;
+ * `streamGenerationEvents` turns that into an async stream for the
+ * `generation.onProgress` subscription. The job row is also polled so clients
+ * still see phase/status changes when the worker runs in another process.
+ */
+
+import { EventEmitter } from "node:events";
+import * as db from "../db";
+import { getPipeline } from "./pipelines";
+
+export type GenerationProgressEvent =
+  | { type: "progress"; phase: string; progressPercentage: number }
+  /** A drafted section, or one subsection of it (`subsection` is null for whole sections and continuation parts). */
+  | { type: "section_text"; section: string; subsection: string | null; index: number; text: string }
+  | { type: "section_completed"; section: string }
+  | { type: "status"; status: "completed" | "failed"; errorMessage: string | null };
+
+type SectionTextEvent = Extract<GenerationProgressEvent, { type: "section_text" }>;
+
+/** First message of every stream: the job as it stands, plus text drafted so far. */
+export type GenerationProgressSnapshot = {
+  type: "snapshot";
+  status: "queued" | "processing" | "completed" | "failed";
+  currentPhase: string | null;
+  progressPercentage: number;
+  errorMessage: string | null;
+  phases: string[];
+  sections: SectionTextEvent[];
+};
+
+const DEFAULT_POLL_INTERVAL_MS = 5000;
+
+const getNumberEnv = (key: string, fallback: number) => {
+  const raw = process.env[key];
+  if (!raw) return fallback;
+  const value = Number(raw);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+const bus = new EventEmitter();
+bus.setMaxListeners(0);
+
+// Text drafted so far per running job, replayed to clients that connect late.
+const draftedText = new Map<number, SectionTextEvent[]>();
+
+export function publishGenerationEvent(jobId: number, event: GenerationProgressEvent) {
+  if (event.type === "section_text") {
+    const drafted = draftedText.get(jobId) ?? [];
+    drafted.push(event);
+    draftedText.set(jobId, drafted);
+  } else if (event.type === "status") {
+    draftedText.delete(jobId);
+  }
+  bus.emit(`job:${jobId}`, event);
+}
+
+/** Drops buffered text for a job this process stopped running (e.g. lease lost). */
+export function discardGenerationEvents(jobId: number) {
+  draftedText.delete(jobId);
+}
+
+/**
+ * Yields a snapshot, then events for a job until it reaches a terminal status
+ * or `signal` aborts.
+ */
+export async function* streamGenerationEvents(
+  jobId: number,
+  options: { signal?: AbortSignal; pollIntervalMs?: number } = {}
+): AsyncGenerator<GenerationProgressSnapshot | GenerationProgressEvent> {
+  const { signal } = options;
+  const pollIntervalMs =
+    options.pollIntervalMs ?? getNumberEnv("GENERATION_PROGRESS_POLL_MS", DEFAULT_POLL_INTERVAL_MS);
+
+  const queue: GenerationProgressEvent[] = [];
+  let wake: (() => void) | null = null;
+  const push = (event: GenerationProgressEvent) => {
+    queue.push(event);
+    wake?.();
+  };
+
+  let lastSeen: { phase: string | null; progress: number } | null = null;
+  const poll = async () => {
+    const job = await db.getGenerationJobById(jobId).catch(() => undefined);
+    if (!job) return;
+    if (job.status === "completed" || job.status === "failed") {
+      push({ type: "status", status: job.status, errorMessage: job.errorMessage ?? null });
+      return;
+    }
+    const current = { phase: job.currentPhase ?? null, progress: job.progressPercentage ?? 0 };
+    if (lastSeen && job.currentPhase && (current.phase !== lastSeen.phase || current.progress > lastSeen.progress)) {
+      push({ type: "progress", phase: job.currentPhase, progressPercentage: current.progress });
+    }
+    lastSeen = current;
+  };
+
+  const onEvent = (event: GenerationProgressEvent) => {
+    if (event.type === "progress") lastSeen = { phase: event.phase, progress: event.progressPercentage };
+    push(event);
+  };
+  const onAbort = () => wake?.();
+
+  bus.on(`job:${jobId}`, onEvent);
+  signal?.addEventListener("abort", onAbort, { once: true });
+  const timer = setInterval(() => void poll(), pollIntervalMs);
+
+  try {
+    // Subscribed before reading the row, so nothing published in between is lost.
+    const job = await db.getGenerationJobById(jobId);
+    if (!job) return;
+    lastSeen = { phase: job.currentPhase ?? null, progress: job.progressPercentage ?? 0 };
+    yield {
+      type: "snapshot",
+      status: job.status,
+      currentPhase: job.currentPhase ?? null,
+      progressPercentage: job.progressPercentage ?? 0,
+      errorMessage: job.errorMessage ?? null,
+      phases: getPipeline(job.documentType).phases.map(phase => phase.name),
+      sections: [...(draftedText.get(jobId) ?? [])],
+    };
+    if (job.status === "completed" || job.status === "failed") return;
+
+    while (!signal?.aborted) {
+      const event = queue.shift();
+      if (!event) {
+        await new Promise<void>(resolve => {
+          wake = resolve;
+        });
+        wake = null;
+        continue;
+      }
+      yield event;
+      if (event.type === "status") return;
+    }
+  } finally {
+    clearInterval(timer);
+    bus.off(`job:${jobId}`, onEvent);
+    signal?.removeEventListener("abort", onAbort);
+  }
+}
@@ -0,0 +1,112 @@
+/**
+ * Search query expansion for the literature review: the title, abstract and key
+ * hypotheses are turned into a handful of focused queries instead of searching
+ * the bare research domain.
+ */
+
+import { invokeLLM, type LLMUsage } from "../_core/llm";
+import { topicTerms } from "./literature/relevance";
+
+const DEFAULT_MAX_QUERIES = 5;
+/** Provider search boxes do best with short keyword queries. */
+const MAX_QUERY_WORDS = 10;
+
+const getNumberEnv = (key: string, fallback: number) => {
+  const raw = process.env[key];
+  if (!raw) return fallback;
+  const value = Number(raw);
+  return Number.isFinite(value) && value >= 1 ? Math.floor(value) : fallback;
+};
+
+export interface QueryTopic {
+  title: string;
+  researchDomain: string;
+  subdomain?: string;
+  abstractProvided?: string;
+  keyHypotheses?: string[];
+}
+
+const tidy = (query: string) => query.replace(/["()[\]{}:;]/g, " ").split(/\s+/).filter(Boolean).slice(0, MAX_QUERY_WORDS).join(" ");
+
+/** The domain query the pipeline used to run on its own; always searched first. */
+export const domainQuery = (topic: QueryTopic) =>
+  tidy(topic.subdomain ? `${topic.researchDomain} ${topic.subdomain}` : topic.researchDomain);
+
+/** Keyword queries derived without the LLM: domain, title and one per hypothesis. */
+export function fallbackQueries(topic: QueryTopic): string[] {
+  const keywords = (text: string) => tidy(topicTerms(text).join(" "));
+  return [
+    domainQuery(topic),
+    keywords(topic.title),
+    ...(topic.keyHypotheses ?? []).map(hypothesis => keywords(`${topic.subdomain ?? ""} ${hypothesis}`)),
+  ];
+}
+
+function distinct(queries: string[], max: number): string[] {
+  const seen = new Set<string>();
+  return queries
+    .map(tidy)
+    .filter(query => {
+      const key = topicTerms(query).sort().join(" ");
+      if (!key || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .slice(0, max);
+}
+
+/**
+ * Up to LITERATURE_MAX_QUERIES focused queries, starting with the domain query.
+ * When the LLM fails or returns nothing usable the keyword fallback is used, so
+ * the literature review never depends on this call succeeding.
+ */
+export async function expandSearchQueries(
+  topic: QueryTopic,
+  options: { signal?: AbortSignal; onUsage?: (usage: LLMUsage) => void } = {}
+): Promise<string[]> {
+  const max = getNumberEnv("LITERATURE_MAX_QUERIES", DEFAULT_MAX_QUERIES);
+  const fallback = fallbackQueries(topic);
+  if (max <= 1) return distinct(fallback, 1);
+
+  const prompt = `Write ${max - 1} literature search queries for the document below. Each query should target a different
+aspect (core topic, methods, the specific hypotheses, closely related prior work) and be 3-8 keywords long,
+as typed into a scholarly search engine. No quotes, boolean operators or field tags.
+
+Title: ${topic.title}
+Domain: ${topic.researchDomain}${topic.subdomain ? ` / ${topic.subdomain}` : ""}
+${topic.abstractProvided ? `Abstract: ${topic.abstractProvided}\n` : ""}${
+    topic.keyHypotheses?.length ? `Key Hypotheses:\n${topic.keyHypotheses.map(h => `- ${h}`).join("\n")}\n` : ""
+  }
+Respond in JSON format: {"queries": ["...", "..."]}`;
+
+  try {
+    const response = await invokeLLM({
+      messages: [{ role: "user", content: prompt }],
+      signal: options.signal,
+      onUsage: options.onUsage,
+      response_format: {
+        type: "json_schema",
+        json_schema: {
+          name: "literature_queries",
+          strict: true,
+          schema: {
+            type: "object",
+            properties: { queries: { type: "array", items: { type: "string" } } },
+            required: ["queries"],
+            additionalProperties: false,
+          },
+        },
+      },
+    });
+    const content = response.choices[0]?.message.content;
+    const parsed = JSON.parse(typeof content === "string" ? content : "{}") as { queries?: unknown };
+    const generated = Array.isArray(parsed.queries)
+      ? parsed.queries.filter((query): query is string => typeof query === "string")
+      : [];
+    if (generated.length > 0) return distinct([domainQuery(topic), ...generated], max);
+  } catch (error) {
+    options.signal?.throwIfAborted();
+    console.warn("[Literature] Query expansion failed; using keyword queries", error);
+  }
+  return distinct(fallback, max);
+}
@@ -0,0 +1,105 @@
+/**
+ * Per-user generation quotas: jobs per day, words per month and LLM tokens per
+ * month. Defaults come from the environment per role; admins can replace them
+ * for an individual user (see `user_quotas`). Everywhere a limit is set, `null`
+ * (or "unlimited" in the environment) means unlimited and 0 blocks the user.
+ * Periods are UTC calendar days and months.
+ */
+
+import type { User } from "../../drizzle/schema";
+import * as db from "../db";
+
+export interface QuotaLimits {
+  /** `null` means unlimited. */
+  jobsPerDay: number | null;
+  wordsPerMonth: number | null;
+  tokensPerMonth: number | null;
+}
+
+const ROLE_DEFAULTS: Record<User["role"], Record<keyof QuotaLimits, { env: string; fallback: number | null }>> = {
+  user: {
+    jobsPerDay: { env: "QUOTA_USER_JOBS_PER_DAY", fallback: 10 },
+    wordsPerMonth: { env: "QUOTA_USER_WORDS_PER_MONTH", fallback: 200_000 },
+    tokensPerMonth: { env: "QUOTA_USER_TOKENS_PER_MONTH", fallback: 5_000_000 },
+  },
+  admin: {
+    jobsPerDay: { env: "QUOTA_ADMIN_JOBS_PER_DAY", fallback: null },
+    wordsPerMonth: { env: "QUOTA_ADMIN_WORDS_PER_MONTH", fallback: null },
+    tokensPerMonth: { env: "QUOTA_ADMIN_TOKENS_PER_MONTH", fallback: null },
+  },
+};
+
+const getLimitEnv = (key: string, fallback: number | null) => {
+  const raw = process.env[key]?.trim();
+  if (!raw) return fallback;
+  if (raw.toLowerCase() === "unlimited") return null;
+  const value = Number(raw);
+  return Number.isInteger(value) && value >= 0 ? value : fallback;
+};
+
+export function getRoleDefaultLimits(role: User["role"]): QuotaLimits {
+  const defaults = ROLE_DEFAULTS[role] ?? ROLE_DEFAULTS.user;
+  const read = (key: keyof QuotaLimits) => getLimitEnv(defaults[key].env, defaults[key].fallback);
+  return {
+    jobsPerDay: read("jobsPerDay"),
+    wordsPerMonth: read("wordsPerMonth"),
+    tokensPerMonth: read("tokensPerMonth"),
+  };
+}
+
+function startOfUtcDay(now: Date) {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+}
+
+function startOfUtcMonth(now: Date) {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+}
+
+export async function getQuotaStatus(user: Pick<User, "id" | "role">, now: Date = new Date()) {
+  const dayStart = startOfUtcDay(now);
+  const monthStart = startOfUtcMonth(now);
+
+  // An override replaces all three role defaults.
+  const override = await db.getUserQuota(user.id);
+  const limits: QuotaLimits = override
+    ? { jobsPerDay: override.jobsPerDay, wordsPerMonth: override.wordsPerMonth, tokensPerMonth: override.tokensPerMonth }
+    : getRoleDefaultLimits(user.role);
+
+  const usage = await db.getUserQuotaUsage(user.id, { dayStart, monthStart });
+  const remaining = (limit: number | null, used: number) =>
+    limit === null ? null : Math.max(0, limit - used);
+
+  return {
+    limits,
+    usage,
+    remaining: {
+      jobsToday: remaining(limits.jobsPerDay, usage.jobsToday),
+      wordsThisMonth: remaining(limits.wordsPerMonth, usage.wordsThisMonth),
+      tokensThisMonth: remaining(limits.tokensPerMonth, usage.tokensThisMonth),
+    },
+    dailyResetAt: new Date(dayStart.getTime() + 24 * 60 * 60 * 1000),
+    monthlyResetAt: new Date(Date.UTC(monthStart.getUTCFullYear(), monthStart.getUTCMonth() + 1, 1)),
+    hasOverride: Boolean(override),
+  };
+}
+
+export type QuotaStatus = Awaited<ReturnType<typeof getQuotaStatus>>;
+
+/**
+ * Returns a user-facing message if a request adding `jobs` more requests and
+ * `words` more words would exceed the quota, or null if it may proceed.
+ */
+export function getQuotaViolation(status: QuotaStatus, request: { jobs: number; words: number }): string | null {
+  const { limits, usage, remaining } = status;
+
+  if (limits.jobsPerDay !== null && usage.jobsToday + request.jobs > limits.jobsPerDay) {
+    return `Daily limit of ${limits.jobsPerDay} generation requests reached. It resets at ${status.dailyResetAt.toISOString()}.`;
+  }
+  if (limits.tokensPerMonth !== null && usage.tokensThisMonth >= limits.tokensPerMonth) {
+    return `Monthly token budget of ${limits.tokensPerMonth.toLocaleString("en-US")} tokens is used up. It resets at ${status.monthlyResetAt.toISOString()}.`;
+  }
+  if (limits.wordsPerMonth !== null && usage.wordsThisMonth + request.words > limits.wordsPerMonth) {
+    return `This request needs ${request.words.toLocaleString("en-US")} words but only ${(remaining.wordsThisMonth ?? 0).toLocaleString("en-US")} of your ${limits.wordsPerMonth.toLocaleString("en-US")}-word monthly quota remain.`;
+  }
+  return null;
+}
@@ -0,0 +1,215 @@
+/**
+ * Reference manager: edits to a finished document's reference list. Every
+ * change rewrites the whole list so that keys stay `ref1..refN` in list order,
+ * the in-text citations follow their works, and the References section is
+ * regenerated in the document's style. Switching the style itself produces a
+ * new version of the document.
+ */
+
+import type { Citation, CitationMetadataStatus, Document } from "../../drizzle/schema";
+import * as db from "../db";
+import { normalizeDoi } from "./bibliographyImport";
+import { buildReferencesSection, remapCitationMarkers, renderCitationMarkers, replaceReferencesSection } from "./citationMarkers";
+import { createCitationProcessor, paperToCslItem, parseAuthorName, type CslItem } from "./csl";
+import { canonicalContent, citationKeyOf, citationToCslItem, renderDocumentContent } from "./documentContent";
+import { applyRegistryMetadata, checkAgainstRegistry, fetchRegisteredWork, validateCitation, type CitationMetadataCheck } from "./doiValidation";
+import { crossrefWorkToPaper } from "./literature/crossref";
+
+/** One entry of a reference list being rewritten. */
+export interface ManagedReference {
+  /** Row id, for references already stored. */
+  id?: number;
+  /** Key the document currently cites this work by; null for a new reference. */
+  key: string | null;
+  /** CSL item without a meaningful id; keys are assigned on save. */
+  item: CslItem;
+  metadataStatus: CitationMetadataStatus;
+  metadataNotes: string[] | null;
+  searchQueries: string[] | null;
+}
+
+/** Editable bibliographic fields, as shown in the reference manager. */
+export interface ReferenceFields {
+  title: string;
+  authors: string[];
+  year?: number | null;
+  journal?: string | null;
+  volume?: string | null;
+  issue?: string | null;
+  pages?: string | null;
+  doi?: string | null;
+  url?: string | null;
+}
+
+const nameText = (name: { literal?: string; given?: string; family?: string }) =>
+  name.literal ?? [name.given, name.family].filter(Boolean).join(" ");
+
+export function citationToReference(row: Citation): ManagedReference {
+  return {
+    id: row.id,
+    key: citationKeyOf(row),
+    item: citationToCslItem(row),
+    metadataStatus: row.metadataStatus,
+    metadataNotes: row.metadataNotes ?? null,
+    searchQueries: row.searchQueries ?? null,
+  };
+}
+
+const withCheck = (item: CslItem, check: CitationMetadataCheck) => ({
+  item: applyRegistryMetadata(item, check),
+  metadataStatus: check.status,
+  metadataNotes: check.notes.length ? check.notes : null,
+});
+
+/** A new reference from the DOI registry, or null if the DOI is not registered. */
+export async function referenceFromDoi(doi: string, options: { signal?: AbortSignal } = {}): Promise<ManagedReference | null> {
+  const normalized = normalizeDoi(doi);
+  if (!normalized) return null;
+  const work = await fetchRegisteredWork(normalized, options);
+  const paper = work ? crossrefWorkToPaper(work) : null;
+  if (!work || !paper) return null;
+  const check = checkAgainstRegistry({ doi: normalized, title: paper.title, year: paper.year }, work);
+  return { key: null, searchQueries: null, ...withCheck(paperToCslItem(paper, "new"), check) };
+}
+
+/** Applies edited fields over an item, keeping CSL variables the form does not show. */
+export function applyReferenceFields(item: CslItem, fields: ReferenceFields): CslItem {
+  const optional = (value: string | null | undefined) => value?.trim() || undefined;
+  const { issued: _issued, ...rest } = item;
+  const container = optional(fields.journal);
+  return {
+    ...rest,
+    title: fields.title.trim(),
+    author: fields.authors.map(name => name.trim()).filter(Boolean).map(parseAuthorName),
+    ...(fields.year ? { issued: { "date-parts": [[fields.year]] } } : {}),
+    ...(item.type === "article" && !item["container-title"]
+      ? { publisher: container }
+      : { "container-title": container }),
+    volume: optional(fields.volume),
+    issue: optional(fields.issue),
+    page: optional(fields.pages),
+    DOI: normalizeDoi(fields.doi) ?? undefined,
+    URL: optional(fields.url),
+  };
+}
+
+/** A reference built from hand-entered fields, checked against the registry when it has a DOI. */
+export async function referenceFromFields(
+  fields: ReferenceFields,
+  base: Omit<ManagedReference, "item" | "metadataStatus" | "metadataNotes"> & { item?: CslItem } = { key: null, searchQueries: null },
+  options: { signal?: AbortSignal } = {}
+): Promise<ManagedReference> {
+  const item = applyReferenceFields(base.item ?? { id: "new", type: "article-journal" }, fields);
+  const check = await validateCitation({ doi: item.DOI, title: item.title ?? "", year: fields.year }, options);
+  return { ...base, ...withCheck(item, check) };
+}
+
+const truncate = (value: unknown, length: number) =>
+  value === undefined || value === null || value === "" ? null : String(value).slice(0, length);
+
+const wordCountOf = (content: string) => content.trim().split(/\s+/).filter(Boolean).length;
+
+/**
+ * Rewrites a document's reference list as `edit` returns it. The edit runs on
+ * the list as stored at save time, inside the save's transaction, so it must
+ * not do any lookups of its own. Citation markers are re-keyed to the new
+ * order, and works that were removed lose their citations.
+ */
+export async function saveReferences(
+  documentId: number,
+  edit: (references: ManagedReference[]) => ManagedReference[]
+): Promise<{ content: string }> {
+  const content = await db.saveDocumentCitations(documentId, (document, current) => {
+    const next = edit(current.map(citationToReference));
+    const renamedKeys = new Map<string, string | null>(current.map(row => [citationKeyOf(row), null]));
+    next.forEach((reference, index) => {
+      if (reference.key) renamedKeys.set(reference.key, `ref${index + 1}`);
+    });
+
+    const items = next.map((reference, index) => ({ ...reference.item, id: `ref${index + 1}` }));
+    const processor = createCitationProcessor(document.citationStyle, items);
+    const content = remapCitationMarkers(canonicalContent(document, current), renamedKeys);
+    const rendered = replaceReferencesSection(renderCitationMarkers(content, processor), buildReferencesSection(processor));
+
+    const formatted = new Map(processor.bibliography().map(entry => [entry.id, entry.text]));
+    return {
+      document: { content, contentFormat: "canonical", wordCount: wordCountOf(rendered) },
+      rows: next.map((reference, index) => {
+        const item = items[index];
+        return {
+          ...(reference.id !== undefined ? { id: reference.id } : {}),
+          doi: truncate(item.DOI, 100),
+          title: item.title || "Untitled",
+          authorsText: (item.author ?? []).map(nameText).join(", "),
+          journal: truncate(item["container-title"] ?? item.publisher, 255),
+          year: Number(item.issued?.["date-parts"]?.[0]?.[0]) || null,
+          volume: truncate(item.volume, 50),
+          issue: truncate(item.issue, 50),
+          pages: truncate(item.page, 50),
+          url: truncate(item.URL, 65535),
+          citationKey: item.id,
+          metadataStatus: reference.metadataStatus,
+          metadataNotes: reference.metadataNotes,
+          searchQueries: reference.searchQueries,
+          csl: item as Record<string, unknown>,
+          formattedCitations: { [document.citationStyle]: formatted.get(item.id) ?? "" },
+          orderIndex: index + 1,
+        };
+      }),
+      renamedKeys,
+    };
+  });
+  return { content };
+}
+
+/**
+ * Saves a copy of the document whose citations and bibliography render in
+ * `style`, as a new version of the same job. Authors, references, figures,
+ * tables, the argument map and claim verifications carry over unchanged.
+ * Returns the new document's id.
+ */
+export async function createRestyledDocument(document: Document, style: string): Promise<number> {
+  const citations = await db.getDocumentCitations(document.id);
+  const items = citations.map(citationToCslItem);
+  const processor = createCitationProcessor(style, items);
+  const content = canonicalContent(document, citations);
+
+  const [authors, figures, tables, argumentNodes, verifications] = await Promise.all([
+    db.getDocumentAuthors(document.id),
+    db.getDocumentFigures(document.id),
+    db.getDocumentTables(document.id),
+    db.getDocumentArgumentNodes(document.id),
+    db.getDocumentCitationVerifications(document.id),
+  ]);
+  const formatted = new Map(processor.bibliography().map(entry => [entry.id, entry.text]));
+
+  return db.createDocumentVersion(
+    {
+      jobId: document.jobId,
+      title: document.title,
+      abstract: document.abstract,
+      content,
+      contentFormat: "canonical",
+      keywords: document.keywords ?? null,
+      documentType: document.documentType,
+      wordCount: wordCountOf(renderDocumentContent({ content, contentFormat: "canonical", citationStyle: processor.style }, citations)),
+      citationStyle: processor.style,
+      noveltyScore: document.noveltyScore,
+      qualityScore: document.qualityScore,
+      noveltyClassification: document.noveltyClassification,
+    },
+    {
+      authors: authors.map(({ id: _id, createdAt: _createdAt, documentId: _documentId, ...author }) => author),
+      citations: citations.map(({ id: _id, createdAt: _createdAt, documentId: _documentId, ...citation }, index) => ({
+        ...citation,
+        formattedCitations: { ...citation.formattedCitations, [processor.style]: formatted.get(items[index].id) ?? "" },
+      })),
+      figures: figures.map(({ id: _id, createdAt: _createdAt, documentId: _documentId, ...figure }) => figure),
+      tables: tables.map(({ id: _id, createdAt: _createdAt, documentId: _documentId, ...table }) => table),
+      argumentNodes: argumentNodes.map(({ id: _id, createdAt: _createdAt, documentId: _documentId, ...node }) => node),
+      citationVerifications: verifications.map(
+        ({ id: _id, createdAt: _createdAt, documentId: _documentId, ...verification }) => verification
+      ),
+    }
+  );
+}
@@ -1,5 +1,7 @@
-import { invokeLLM } from "../_core/llm";
+import { invokeLLM, type LLMUsage } from "../_core/llm";
 import * as db from "../db";
+import { canonicalContent } from "./documentContent";
+import { createUsageTracker } from "./llmUsage";
 
 type RevisionType =
   | "targeted_edit"
@@ -30,7 +32,7 @@ function noveltyClassification(score: number | null | undefined): string | null
   return "incremental";
 }
 
-async function assessQuality(markdown: string): Promise<number | null> {
+async function assessQuality(markdown: string, onUsage: (usage: LLMUsage) => void): Promise<number | null> {
   const prompt = `Review this academic document and provide a quality score (0-100) based on:
 - Clarity and coherence
 - Logical flow
@@ -44,6 +46,7 @@ Respond in JSON format: {"score": 85, "feedback": "..."}`;
 
   const response = await invokeLLM({
     messages: [{ role: "user", content: prompt }],
+    onUsage,
     response_format: {
       type: "json_schema",
       json_schema: {
@@ -135,11 +138,14 @@ Output requirements:
 - Use [refX] citations where appropriate.
 
 Original document:
-${safeString(originalDocument.content)}
+${safeString(canonicalContent(originalDocument, citations))}
 `;
 
+  // Charged to the request, so revisions count against the monthly token quota
+  const usage = createUsageTracker({ revisionRequestId: requestId });
+
   try {
-    const response = await invokeLLM({ messages: [{ role: "user", content: prompt }] });
+    const response = await invokeLLM({ messages: [{ role: "user", content: prompt }], onUsage: usage.forPhase("Revision") });
     const content = response.choices[0]?.message?.content;
     const revisedMarkdown = typeof content === "string" && content.trim().length > 0 ? content : null;
 
@@ -151,7 +157,8 @@ ${safeString(originalDocument.content)}
     const newAbstract = extractAbstract(revisedMarkdown) || originalDocument.abstract || "";
     const newWordCount = computeWordCount(revisedMarkdown);
 
-    const qualityScore = (await assessQuality(revisedMarkdown)) ?? originalDocument.qualityScore ?? null;
+    const qualityScore =
+      (await assessQuality(revisedMarkdown, usage.forPhase("Quality Assessment"))) ?? originalDocument.qualityScore ?? null;
 
     const newDocumentId = await db.createDocument({
       jobId: originalDocument.jobId,
@@ -181,19 +188,27 @@ ${safeString(originalDocument.content)}
 
     if (preserveCitations) {
       await db.createCitations(
-        citations.map((c, index) => ({
+        citations.map(({ id: _id, createdAt: _createdAt, ...citation }) => ({
+          ...citation,
+          documentId: newDocumentId,
+        }))
+      );
+      // Same keys, so the claim checks still apply to the revised text's citations.
+      const verifications = await db.getDocumentCitationVerifications(originalDocument.id);
+      await db.createCitationVerifications(
+        verifications.map(({ id: _id, createdAt: _createdAt, ...verification }) => ({
+          ...verification,
+          documentId: newDocumentId,
+        }))
+      );
+    }
+
+    if (preserveArgument) {
+      const argumentNodes = await db.getDocumentArgumentNodes(originalDocument.id);
+      await db.createArgumentNodes(
+        argumentNodes.map(({ id: _id, createdAt: _createdAt, ...node }) => ({
+          ...node,
           documentId: newDocumentId,
-          doi: c.doi ?? null,
-          title: c.title,
-          authorsText: c.authorsText,
-          journal: c.journal ?? null,
-          year: c.year ?? null,
-          volume: c.volume ?? null,
-          pages: c.pages ?? null,
-          url: c.url ?? null,
-          citationKey: c.citationKey,
-          formattedCitations: c.formattedCitations as any,
-          orderIndex: index + 1,
         }))
       );
     }
@@ -205,6 +220,8 @@ ${safeString(originalDocument.content)}
   } catch (error) {
     console.error("[Revisions] Processing failed", { requestId, error });
     await db.updateRevisionRequestStatus(requestId, { status: "failed" });
+  } finally {
+    await usage.flush();
   }
 }
 
@@ -3,13 +3,30 @@
  * API Documentation: https://api.semanticscholar.org/api-docs/
  */
 
+import { readCachedResponse, recordMemoryHit, writeCachedResponse } from "./literatureCache";
+
 const SEMANTIC_SCHOLAR_API_BASE = "https://api.semanticscholar.org/graph/v1";
 
 const DEFAULT_MIN_REQUEST_INTERVAL_MS = 1100;
 const DEFAULT_CACHE_TTL_MS = 10 * 60 * 1000;
 const DEFAULT_MAX_RETRIES = 5;
 
-const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+const abortReason = (signal: AbortSignal): Error =>
+  signal.reason instanceof Error ? signal.reason : new Error("Semantic Scholar request aborted");
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(abortReason(signal));
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortReason(signal!));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
 
 const getNumberEnv = (key: string, fallback: number) => {
   const raw = process.env[key];
@@ -67,7 +84,7 @@ function parseRetryAfterMs(value: string | null): number | null {
   return null;
 }
 
-async function semanticScholarFetchJson<T>(url: string): Promise<T> {
+async function semanticScholarFetchJson<T>(url: string, signal?: AbortSignal): Promise<T> {
   const apiKey = process.env.SEMANTIC_SCHOLAR_API_KEY;
   if (!apiKey) {
     throw new Error("SEMANTIC_SCHOLAR_API_KEY not configured");
@@ -76,18 +93,34 @@ async function semanticScholarFetchJson<T>(url: string): Promise<T> {
   const cacheTtlMs = getNumberEnv("SEMANTIC_SCHOLAR_CACHE_TTL_MS", DEFAULT_CACHE_TTL_MS);
   const cacheKey = `GET ${url}`;
   const cached = getCached<T>(cacheKey);
-  if (cached) return cached;
+  if (cached) {
+    recordMemoryHit();
+    return cached;
+  }
+
+  // Responses persisted by any process, e.g. before a restart or for a similar job.
+  const stored = await readCachedResponse<T>(url);
+  if (stored) {
+    setCached(cacheKey, stored, cacheTtlMs);
+    return stored;
+  }
 
   const maxRetries = getNumberEnv("SEMANTIC_SCHOLAR_MAX_RETRIES", DEFAULT_MAX_RETRIES);
 
+  if (signal?.aborted) throw abortReason(signal);
+
   const data = await enqueueRequest(async () => {
     for (let attempt = 0; attempt <= maxRetries; attempt++) {
+      // The request may have waited behind others in the throttle queue.
+      if (signal?.aborted) throw abortReason(signal);
+
       const response = await fetch(url, {
         headers: {
           "x-api-key": apiKey,
           accept: "application/json",
           "user-agent": "scholarforge-ai (local dev)",
         },
+        signal,
       });
 
       if (response.ok) {
@@ -109,13 +142,14 @@ async function semanticScholarFetchJson<T>(url: string): Promise<T> {
       const backoffBase = 500 * 2 ** attempt;
       const jitter = Math.floor(Math.random() * 250);
       const waitMs = Math.min(30_000, retryAfterMs ?? backoffBase + jitter);
-      await sleep(waitMs);
+      await sleep(waitMs, signal);
     }
 
     throw new Error("Semantic Scholar API error: retry loop exited unexpectedly");
   });
 
   setCached(cacheKey, data, cacheTtlMs);
+  await writeCachedResponse(url, data);
   return data;
 }
 
@@ -138,6 +172,8 @@ export interface SemanticScholarPaper {
     PubMed?: string;
   };
   url?: string;
+  /** Open-access PDF, when the source links one; used for full-text grounding. */
+  openAccessPdf?: { url: string } | null;
 }
 
 interface SearchResult {
@@ -157,13 +193,14 @@ export async function searchPapers(
     offset?: number;
     year?: string; // e.g., "2020-2023"
     fieldsOfStudy?: string[]; // e.g., ["Computer Science"]
+    signal?: AbortSignal;
   } = {}
 ): Promise<SearchResult> {
   const params = new URLSearchParams({
     query,
     limit: (options.limit || 10).toString(),
     offset: (options.offset || 0).toString(),
-    fields: "paperId,title,abstract,year,authors,venue,citationCount,influentialCitationCount,fieldsOfStudy,externalIds,url",
+    fields: "paperId,title,abstract,year,authors,venue,citationCount,influentialCitationCount,fieldsOfStudy,externalIds,url,openAccessPdf",
   });
 
   if (options.year) {
@@ -175,18 +212,23 @@ export async function searchPapers(
   }
 
   return semanticScholarFetchJson(
-    `${SEMANTIC_SCHOLAR_API_BASE}/paper/search?${params.toString()}`
+    `${SEMANTIC_SCHOLAR_API_BASE}/paper/search?${params.toString()}`,
+    options.signal
   );
 }
 
 /**
  * Get paper details by ID
  */
-export async function getPaperById(paperId: string): Promise<SemanticScholarPaper> {
-  const fields = "paperId,title,abstract,year,authors,venue,citationCount,influentialCitationCount,fieldsOfStudy,externalIds,url";
+export async function getPaperById(
+  paperId: string,
+  options: { signal?: AbortSignal } = {}
+): Promise<SemanticScholarPaper> {
+  const fields = "paperId,title,abstract,year,authors,venue,citationCount,influentialCitationCount,fieldsOfStudy,externalIds,url,openAccessPdf";
 
   return semanticScholarFetchJson(
-    `${SEMANTIC_SCHOLAR_API_BASE}/paper/${paperId}?fields=${fields}`
+    `${SEMANTIC_SCHOLAR_API_BASE}/paper/${paperId}?fields=${fields}`,
+    options.signal
   );
 }
 
@@ -195,42 +237,60 @@ export async function getPaperById(paperId: string): Promise<SemanticScholarPape
  */
 export async function getRecommendations(
   paperId: string,
-  limit: number = 10
+  limit: number = 10,
+  options: { signal?: AbortSignal } = {}
 ): Promise<SemanticScholarPaper[]> {
   const fields = "paperId,title,abstract,year,authors,venue,citationCount,fieldsOfStudy,externalIds";
 
   const data = await semanticScholarFetchJson<{
     recommendedPapers?: SemanticScholarPaper[];
   }>(
-    `${SEMANTIC_SCHOLAR_API_BASE}/paper/${paperId}/recommendations?limit=${limit}&fields=${fields}`
+    `${SEMANTIC_SCHOLAR_API_BASE}/paper/${paperId}/recommendations?limit=${limit}&fields=${fields}`,
+    options.signal
   );
   return data.recommendedPapers || [];
 }
 
+const GRAPH_PAPER_FIELDS = "paperId,title,abstract,year,authors,venue,citationCount,influentialCitationCount,externalIds,url,openAccessPdf";
+
+// External IDs keep their prefix colon and DOI slashes, as the API expects them in the path.
+const paperPath = (paperId: string) =>
+  paperId.split("/").map(encodeURIComponent).join("/").replace(/%3A/gi, ":");
+
 /**
- * Format paper as citation string
+ * Papers this paper cites (backward snowballing). `paperId` may also be an
+ * external ID such as "DOI:10.1000/xyz" or "ARXIV:1706.03762".
+ * References Semantic Scholar could not resolve to a paper are dropped.
  */
-export function formatCitation(
-  paper: SemanticScholarPaper,
-  style: "APA7" | "MLA9" | "Chicago" | "IEEE" = "APA7"
-): string {
-  const authors = paper.authors.map(a => a.name).join(", ");
-  const year = paper.year || "n.d.";
-  const title = paper.title;
-  const venue = paper.venue || "Unpublished manuscript";
-
-  switch (style) {
-    case "APA7":
-      return `${authors} (${year}). ${title}. ${venue}.`;
-    case "MLA9":
-      return `${authors}. "${title}." ${venue}, ${year}.`;
-    case "Chicago":
-      return `${authors}. "${title}." ${venue} (${year}).`;
-    case "IEEE":
-      return `${authors}, "${title}," ${venue}, ${year}.`;
-    default:
-      return `${authors} (${year}). ${title}. ${venue}.`;
-  }
+export async function getPaperReferences(
+  paperId: string,
+  limit: number = 20,
+  options: { signal?: AbortSignal } = {}
+): Promise<SemanticScholarPaper[]> {
+  const data = await semanticScholarFetchJson<{
+    data?: Array<{ citedPaper?: SemanticScholarPaper | null }>;
+  }>(
+    `${SEMANTIC_SCHOLAR_API_BASE}/paper/${paperPath(paperId)}/references?limit=${limit}&fields=${GRAPH_PAPER_FIELDS}`,
+    options.signal
+  );
+  return (data.data ?? []).flatMap(edge => (edge.citedPaper?.paperId ? [edge.citedPaper] : []));
+}
+
+/**
+ * Papers that cite this paper (forward snowballing); same ID forms as `getPaperReferences`.
+ */
+export async function getPaperCitations(
+  paperId: string,
+  limit: number = 20,
+  options: { signal?: AbortSignal } = {}
+): Promise<SemanticScholarPaper[]> {
+  const data = await semanticScholarFetchJson<{
+    data?: Array<{ citingPaper?: SemanticScholarPaper | null }>;
+  }>(
+    `${SEMANTIC_SCHOLAR_API_BASE}/paper/${paperPath(paperId)}/citations?limit=${limit}&fields=${GRAPH_PAPER_FIELDS}`,
+    options.signal
+  );
+  return (data.data ?? []).flatMap(edge => (edge.citingPaper?.paperId ? [edge.citingPaper] : []));
 }
 
 /**
@@ -243,6 +303,7 @@ export async function findRelevantLiterature(
     minCitationCount?: number;
     yearRange?: string;
     limit?: number;
+    signal?: AbortSignal;
   } = {}
 ): Promise<SemanticScholarPaper[]> {
   const query = subdomain ? `${researchDomain} ${subdomain}` : researchDomain;
@@ -251,6 +312,7 @@ export async function findRelevantLiterature(
     limit: options.limit || 50,
     year: options.yearRange,
     fieldsOfStudy: [researchDomain],
+    signal: options.signal,
   });
 
   // Filter by citation count if specified
@@ -270,7 +332,8 @@ export async function findRelevantLiterature(
  */
 export async function extractKeyPapers(
   topic: string,
-  count: number = 20
+  count: number = 20,
+  options: { signal?: AbortSignal } = {}
 ): Promise<{
   foundational: SemanticScholarPaper[];
   recent: SemanticScholarPaper[];
@@ -280,6 +343,7 @@ export async function extractKeyPapers(
   const foundationalResult = await searchPapers(topic, {
     limit: count,
     year: "2010-2019",
+    signal: options.signal,
   });
   const foundational = foundationalResult.data
     .filter(p => (p.citationCount || 0) > 100)
@@ -291,6 +355,7 @@ export async function extractKeyPapers(
   const recentResult = await searchPapers(topic, {
     limit: count,
     year: `${currentYear - 3}-${currentYear}`,
+    signal: options.signal,
   });
   const recent = recentResult.data
     .sort((a, b) => (b.year || 0) - (a.year || 0))
@@ -3,3 +3,38 @@ export const ONE_YEAR_MS = 1000 * 60 * 60 * 24 * 365;
 export const AXIOS_TIMEOUT_MS = 30_000;
 export const UNAUTHED_ERR_MSG = 'Please login (10001)';
 export const NOT_ADMIN_ERR_MSG = 'You do not have required permission (10002)';
+
+/** Document types with a generation pipeline (see server/services/pipelines.ts). */
+export const DOCUMENT_TYPES = [
+  "journal_article",
+  "conference_paper",
+  "thesis",
+  "dissertation",
+  "research_proposal",
+  "grant_proposal",
+  "technical_report",
+  "book_chapter",
+] as const;
+
+export type DocumentType = (typeof DOCUMENT_TYPES)[number];
+
+/** Citation styles offered for generation; each maps to a bundled CSL style (see server/services/csl). */
+export const CITATION_STYLES = [
+  "APA7",
+  "MLA9",
+  "Chicago",
+  "Harvard",
+  "IEEE",
+  "Vancouver",
+  "Nature",
+  "Science",
+] as const;
+
+export type CitationStyle = (typeof CITATION_STYLES)[number];
+
+/** PDFs a generation request may upload for full-text grounding (see server/services/fullText.ts). */
+export const MAX_FULL_TEXT_UPLOADS = 5;
+export const MAX_FULL_TEXT_UPLOAD_BYTES = 6 * 1024 * 1024;
+
+/** Largest target length a generation request may ask for (a long dissertation). */
+export const MAX_TARGET_WORD_COUNT = 200_000;